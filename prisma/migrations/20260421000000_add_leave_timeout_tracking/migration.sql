@@ -0,0 +1,13 @@
+-- AlterTable: Timeout tracking cho đơn nghỉ phép
+ALTER TABLE "leave_requests"
+  ADD COLUMN IF NOT EXISTS "timeoutReminderLevel" INTEGER,
+  ADD COLUMN IF NOT EXISTS "timeoutHandledLevel"  INTEGER;
+
+-- DropForeignKey
+ALTER TABLE "leave_approvals" DROP CONSTRAINT "leave_approvals_approverId_fkey";
+
+-- AlterTable: approverId = NULL khi hệ thống tự xử lý timeout
+ALTER TABLE "leave_approvals" ALTER COLUMN "approverId" DROP NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "leave_approvals" ADD CONSTRAINT "leave_approvals_approverId_fkey" FOREIGN KEY ("approverId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- AlterTable: Giờ ra/vào thực tế do bảo vệ ghi nhận
+ALTER TABLE "gate_passes"
+  ADD COLUMN IF NOT EXISTS "actualExitAt"   TIMESTAMP(3),
+  ADD COLUMN IF NOT EXISTS "actualReturnAt" TIMESTAMP(3),
+  ADD COLUMN IF NOT EXISTS "exitGuardId"    TEXT,
+  ADD COLUMN IF NOT EXISTS "returnGuardId"  TEXT;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "gate_passes_status_endDateTime_idx" ON "gate_passes"("status", "endDateTime");
+
+-- AddForeignKey
+ALTER TABLE "gate_passes" ADD CONSTRAINT "gate_passes_exitGuardId_fkey" FOREIGN KEY ("exitGuardId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "gate_passes" ADD CONSTRAINT "gate_passes_returnGuardId_fkey" FOREIGN KEY ("returnGuardId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
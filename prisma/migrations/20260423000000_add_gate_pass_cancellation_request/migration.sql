@@ -0,0 +1,33 @@
+-- AlterEnum
+ALTER TYPE "GatePassStatus" ADD VALUE IF NOT EXISTS 'WITHDRAWN';
+
+-- AlterTable
+ALTER TABLE "gate_passes"
+  ADD COLUMN IF NOT EXISTS "cancelReason"      TEXT,
+  ADD COLUMN IF NOT EXISTS "cancelRequestedAt" TIMESTAMP(3),
+  ADD COLUMN IF NOT EXISTS "withdrawnAt"       TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "gate_pass_cancellation_approvals" (
+    "id" TEXT NOT NULL,
+    "gatePassId" TEXT NOT NULL,
+    "approverId" TEXT NOT NULL,
+    "approvalLevel" INTEGER NOT NULL,
+    "status" "GatePassApprovalStatus" NOT NULL,
+    "comment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "gate_pass_cancellation_approvals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "gate_pass_cancellation_approvals_gatePassId_idx" ON "gate_pass_cancellation_approvals"("gatePassId");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "gate_pass_cancellation_approvals_approverId_idx" ON "gate_pass_cancellation_approvals"("approverId");
+
+-- AddForeignKey
+ALTER TABLE "gate_pass_cancellation_approvals" ADD CONSTRAINT "gate_pass_cancellation_approvals_gatePassId_fkey" FOREIGN KEY ("gatePassId") REFERENCES "gate_passes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "gate_pass_cancellation_approvals" ADD CONSTRAINT "gate_pass_cancellation_approvals_approverId_fkey" FOREIGN KEY ("approverId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
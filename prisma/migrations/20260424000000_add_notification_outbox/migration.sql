@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "NotificationOutboxStatus" AS ENUM ('PENDING', 'SENDING', 'SENT', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "gate_pass_approval_configs" ADD COLUMN IF NOT EXISTS "notifyByEmail" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "notification_outbox" (
+    "id" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "recipientUserId" TEXT,
+    "template" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "textBody" TEXT,
+    "status" "NotificationOutboxStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_outbox_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notification_outbox_status_nextAttemptAt_idx" ON "notification_outbox"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "notification_outbox_recipientUserId_idx" ON "notification_outbox"("recipientUserId");
+
+-- CreateIndex
+CREATE INDEX "notification_outbox_createdAt_idx" ON "notification_outbox"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "notification_outbox" ADD CONSTRAINT "notification_outbox_recipientUserId_fkey" FOREIGN KEY ("recipientUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
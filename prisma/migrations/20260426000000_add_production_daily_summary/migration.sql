@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "ProductionScopeType" AS ENUM ('GROUP', 'TEAM', 'DEPARTMENT', 'OFFICE');
+
+-- CreateTable
+CREATE TABLE "production_daily_summaries" (
+    "id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "scopeType" "ProductionScopeType" NOT NULL,
+    "scopeId" TEXT NOT NULL,
+    "officeId" TEXT NOT NULL,
+    "departmentId" TEXT,
+    "teamId" TEXT,
+    "groupId" TEXT,
+    "totalWorkers" INTEGER NOT NULL DEFAULT 0,
+    "workersWithWorksheet" INTEGER NOT NULL DEFAULT 0,
+    "totalPlanned" DECIMAL(12,1) NOT NULL DEFAULT 0,
+    "totalActual" INTEGER NOT NULL DEFAULT 0,
+    "efficiency" INTEGER NOT NULL DEFAULT 0,
+    "totalRecords" INTEGER NOT NULL DEFAULT 0,
+    "completedRecords" INTEGER NOT NULL DEFAULT 0,
+    "hourly" JSONB NOT NULL DEFAULT '[]',
+    "causeDeltas" JSONB NOT NULL DEFAULT '{}',
+    "attendance" JSONB NOT NULL DEFAULT '{}',
+    "isStale" BOOLEAN NOT NULL DEFAULT false,
+    "generatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "production_daily_summaries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "production_daily_summaries_date_scopeType_scopeId_key" ON "production_daily_summaries"("date", "scopeType", "scopeId");
+
+-- CreateIndex
+CREATE INDEX "production_daily_summaries_date_officeId_idx" ON "production_daily_summaries"("date", "officeId");
+
+-- CreateIndex
+CREATE INDEX "production_daily_summaries_isStale_date_idx" ON "production_daily_summaries"("isStale", "date");
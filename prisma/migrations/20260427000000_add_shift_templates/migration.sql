@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "worksheets" ADD COLUMN     "shiftTemplateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "shift_templates" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "shiftType" "ShiftType" NOT NULL,
+    "companyId" TEXT,
+    "officeId" TEXT,
+    "slots" JSONB NOT NULL,
+    "breaks" JSONB NOT NULL DEFAULT '[]',
+    "isNightShift" BOOLEAN NOT NULL DEFAULT false,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shift_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "shift_templates_officeId_shiftType_idx" ON "shift_templates"("officeId", "shiftType");
+
+-- CreateIndex
+CREATE INDEX "shift_templates_companyId_shiftType_idx" ON "shift_templates"("companyId", "shiftType");
+
+-- CreateIndex
+CREATE INDEX "shift_templates_code_idx" ON "shift_templates"("code");
+
+-- AddForeignKey
+ALTER TABLE "worksheets" ADD CONSTRAINT "worksheets_shiftTemplateId_fkey" FOREIGN KEY ("shiftTemplateId") REFERENCES "shift_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_templates" ADD CONSTRAINT "shift_templates_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_templates" ADD CONSTRAINT "shift_templates_officeId_fkey" FOREIGN KEY ("officeId") REFERENCES "offices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "AccrualProRateMode" AS ENUM ('THRESHOLD', 'DAILY', 'NONE');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "terminationDate" DATE;
+
+-- CreateTable
+CREATE TABLE "leave_accrual_policies" (
+    "id" TEXT NOT NULL,
+    "leaveTypeId" TEXT NOT NULL,
+    "companyId" TEXT,
+    "baseDaysPerYear" DECIMAL(5,1) NOT NULL DEFAULT 12,
+    "seniorityStepYears" INTEGER NOT NULL DEFAULT 5,
+    "seniorityBonusDays" DECIMAL(5,1) NOT NULL DEFAULT 1,
+    "maxSeniorityBonusDays" DECIMAL(5,1),
+    "proRateMode" "AccrualProRateMode" NOT NULL DEFAULT 'THRESHOLD',
+    "minDaysInMonth" INTEGER NOT NULL DEFAULT 15,
+    "unpaidLeaveThresholdDays" DECIMAL(5,1) NOT NULL DEFAULT 14,
+    "capAtMaxDaysPerYear" BOOLEAN NOT NULL DEFAULT true,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "leave_accrual_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "leave_accrual_policies_companyId_idx" ON "leave_accrual_policies"("companyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "leave_accrual_policies_leaveTypeId_companyId_key" ON "leave_accrual_policies"("leaveTypeId", "companyId");
+
+-- AddForeignKey
+ALTER TABLE "leave_accrual_policies" ADD CONSTRAINT "leave_accrual_policies_leaveTypeId_fkey" FOREIGN KEY ("leaveTypeId") REFERENCES "leave_types"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "leave_accrual_policies" ADD CONSTRAINT "leave_accrual_policies_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "LeaveYearCloseStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "leave_accrual_policies" ADD COLUMN     "carryOverExpiryDay" INTEGER,
+ADD COLUMN     "carryOverExpiryMonth" INTEGER;
+
+-- AlterTable
+ALTER TABLE "leave_balances" ADD COLUMN     "carryOverExpiredAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "leave_year_closes" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "status" "LeaveYearCloseStatus" NOT NULL DEFAULT 'RUNNING',
+    "runCount" INTEGER NOT NULL DEFAULT 1,
+    "balancesProcessed" INTEGER NOT NULL DEFAULT 0,
+    "totalCarriedOver" DECIMAL(12,1) NOT NULL DEFAULT 0,
+    "totalExpired" DECIMAL(12,1) NOT NULL DEFAULT 0,
+    "summary" JSONB,
+    "error" TEXT,
+    "triggeredById" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "leave_year_closes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "leave_year_closes_year_idx" ON "leave_year_closes"("year");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "leave_year_closes_companyId_year_key" ON "leave_year_closes"("companyId", "year");
+
+-- AddForeignKey
+ALTER TABLE "leave_year_closes" ADD CONSTRAINT "leave_year_closes_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
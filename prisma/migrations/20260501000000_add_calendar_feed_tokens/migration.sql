@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "calendar_feed_tokens" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "includeTeam" BOOLEAN NOT NULL DEFAULT false,
+    "lastAccessedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "calendar_feed_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_feed_tokens_tokenHash_key" ON "calendar_feed_tokens"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "calendar_feed_tokens_userId_idx" ON "calendar_feed_tokens"("userId");
+
+-- AddForeignKey
+ALTER TABLE "calendar_feed_tokens" ADD CONSTRAINT "calendar_feed_tokens_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,74 @@
+-- CreateEnum
+CREATE TYPE "ApprovalDelegationMode" AS ENUM ('DATE_RANGE', 'ON_LEAVE');
+
+-- CreateTable
+CREATE TABLE "approval_delegations" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "delegatorId" TEXT NOT NULL,
+    "delegateId" TEXT NOT NULL,
+    "mode" "ApprovalDelegationMode" NOT NULL DEFAULT 'DATE_RANGE',
+    "startDate" DATE,
+    "endDate" DATE,
+    "coversLeave" BOOLEAN NOT NULL DEFAULT true,
+    "coversGatePass" BOOLEAN NOT NULL DEFAULT true,
+    "reason" TEXT,
+    "sourceId" TEXT,
+    "leaveRequestId" TEXT,
+    "revokedAt" TIMESTAMP(3),
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "approval_delegations_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "leave_approvals" ADD COLUMN "delegationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "gate_pass_approvals" ADD COLUMN "isSubstitute" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "targetUserId" TEXT,
+ADD COLUMN "delegationId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "approval_delegations_sourceId_leaveRequestId_key" ON "approval_delegations"("sourceId", "leaveRequestId");
+
+-- CreateIndex
+CREATE INDEX "approval_delegations_delegateId_revokedAt_idx" ON "approval_delegations"("delegateId", "revokedAt");
+
+-- CreateIndex
+CREATE INDEX "approval_delegations_delegatorId_revokedAt_idx" ON "approval_delegations"("delegatorId", "revokedAt");
+
+-- CreateIndex
+CREATE INDEX "approval_delegations_companyId_idx" ON "approval_delegations"("companyId");
+
+-- CreateIndex
+CREATE INDEX "approval_delegations_leaveRequestId_idx" ON "approval_delegations"("leaveRequestId");
+
+-- AddForeignKey
+ALTER TABLE "approval_delegations" ADD CONSTRAINT "approval_delegations_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "approval_delegations" ADD CONSTRAINT "approval_delegations_delegatorId_fkey" FOREIGN KEY ("delegatorId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "approval_delegations" ADD CONSTRAINT "approval_delegations_delegateId_fkey" FOREIGN KEY ("delegateId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "approval_delegations" ADD CONSTRAINT "approval_delegations_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "approval_delegations" ADD CONSTRAINT "approval_delegations_sourceId_fkey" FOREIGN KEY ("sourceId") REFERENCES "approval_delegations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "approval_delegations" ADD CONSTRAINT "approval_delegations_leaveRequestId_fkey" FOREIGN KEY ("leaveRequestId") REFERENCES "leave_requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "leave_approvals" ADD CONSTRAINT "leave_approvals_delegationId_fkey" FOREIGN KEY ("delegationId") REFERENCES "approval_delegations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "gate_pass_approvals" ADD CONSTRAINT "gate_pass_approvals_targetUserId_fkey" FOREIGN KEY ("targetUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "gate_pass_approvals" ADD CONSTRAINT "gate_pass_approvals_delegationId_fkey" FOREIGN KEY ("delegationId") REFERENCES "approval_delegations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "password_reset_otps" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "employeeCode" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "consumedAt" TIMESTAMP(3),
+    "ipAddress" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "password_reset_otps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "password_reset_otps_userId_consumedAt_idx" ON "password_reset_otps"("userId", "consumedAt");
+
+-- CreateIndex
+CREATE INDEX "password_reset_otps_employeeCode_createdAt_idx" ON "password_reset_otps"("employeeCode", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "password_reset_otps" ADD CONSTRAINT "password_reset_otps_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "RoleScopeType" AS ENUM ('GLOBAL', 'COMPANY', 'OFFICE', 'DEPARTMENT');
+
+-- DropIndex
+DROP INDEX "user_roles_userId_roleDefinitionId_key";
+
+-- AlterTable: existing assignments keep applying everywhere (GLOBAL)
+ALTER TABLE "user_roles" ADD COLUMN "scopeType" "RoleScopeType" NOT NULL DEFAULT 'GLOBAL',
+ADD COLUMN "companyId" TEXT,
+ADD COLUMN "officeId" TEXT,
+ADD COLUMN "departmentId" TEXT,
+ADD COLUMN "scopeKey" TEXT NOT NULL DEFAULT 'GLOBAL';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_roles_userId_roleDefinitionId_scopeKey_key" ON "user_roles"("userId", "roleDefinitionId", "scopeKey");
+
+-- CreateIndex
+CREATE INDEX "user_roles_companyId_idx" ON "user_roles"("companyId");
+
+-- CreateIndex
+CREATE INDEX "user_roles_officeId_idx" ON "user_roles"("officeId");
+
+-- CreateIndex
+CREATE INDEX "user_roles_departmentId_idx" ON "user_roles"("departmentId");
+
+-- AddForeignKey
+ALTER TABLE "user_roles" ADD CONSTRAINT "user_roles_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_roles" ADD CONSTRAINT "user_roles_officeId_fkey" FOREIGN KEY ("officeId") REFERENCES "offices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_roles" ADD CONSTRAINT "user_roles_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "departments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "attendance_events" ADD COLUMN "targetGroupId" TEXT,
+ADD COLUMN "createdById" TEXT;
+
+-- AlterTable
+ALTER TABLE "worksheet_records" ADD COLUMN "basePlannedOutput" INTEGER,
+ADD COLUMN "attendanceMinutes" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "attendance_events_targetGroupId_idx" ON "attendance_events"("targetGroupId");
+
+-- AddForeignKey
+ALTER TABLE "attendance_events" ADD CONSTRAINT "attendance_events_targetGroupId_fkey" FOREIGN KEY ("targetGroupId") REFERENCES "groups"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_events" ADD CONSTRAINT "attendance_events_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
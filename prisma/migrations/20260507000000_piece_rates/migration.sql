@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "piece_rates" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "processId" TEXT NOT NULL,
+    "unitRate" DECIMAL(12,2) NOT NULL,
+    "effectiveFrom" DATE NOT NULL,
+    "effectiveTo" DATE,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "piece_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "piece_rates_productId_processId_effectiveFrom_idx" ON "piece_rates"("productId", "processId", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "piece_rates" ADD CONSTRAINT "piece_rates_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "piece_rates" ADD CONSTRAINT "piece_rates_processId_fkey" FOREIGN KEY ("processId") REFERENCES "processes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
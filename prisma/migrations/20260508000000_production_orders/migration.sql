@@ -0,0 +1,74 @@
+-- CreateEnum
+CREATE TYPE "ProductionOrderStatus" AS ENUM ('PLANNED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "production_orders" (
+    "id" TEXT NOT NULL,
+    "orderNumber" TEXT NOT NULL,
+    "customerName" TEXT,
+    "productId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "startDate" DATE NOT NULL,
+    "dueDate" DATE NOT NULL,
+    "status" "ProductionOrderStatus" NOT NULL DEFAULT 'PLANNED',
+    "note" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "lateWarnedAt" TIMESTAMP(3),
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "production_orders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "production_order_assignments" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "departmentId" TEXT NOT NULL,
+    "teamId" TEXT,
+    "groupId" TEXT,
+    "plannedQuantity" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "production_order_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "production_orders_orderNumber_key" ON "production_orders"("orderNumber");
+
+-- CreateIndex
+CREATE INDEX "production_orders_productId_status_idx" ON "production_orders"("productId", "status");
+
+-- CreateIndex
+CREATE INDEX "production_orders_status_dueDate_idx" ON "production_orders"("status", "dueDate");
+
+-- CreateIndex
+CREATE INDEX "production_order_assignments_orderId_idx" ON "production_order_assignments"("orderId");
+
+-- CreateIndex
+CREATE INDEX "production_order_assignments_departmentId_idx" ON "production_order_assignments"("departmentId");
+
+-- CreateIndex
+CREATE INDEX "production_order_assignments_teamId_idx" ON "production_order_assignments"("teamId");
+
+-- CreateIndex
+CREATE INDEX "production_order_assignments_groupId_idx" ON "production_order_assignments"("groupId");
+
+-- AddForeignKey
+ALTER TABLE "production_orders" ADD CONSTRAINT "production_orders_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "production_orders" ADD CONSTRAINT "production_orders_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "production_order_assignments" ADD CONSTRAINT "production_order_assignments_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "production_orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "production_order_assignments" ADD CONSTRAINT "production_order_assignments_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "departments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "production_order_assignments" ADD CONSTRAINT "production_order_assignments_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "teams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "production_order_assignments" ADD CONSTRAINT "production_order_assignments_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
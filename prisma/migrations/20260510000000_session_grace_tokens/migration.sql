@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "user_sessions" ADD COLUMN "graceTokenHashes" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "worksheet_monthly_backups" ADD COLUMN "holdUntil" TIMESTAMP(3);
@@ -10,8 +10,10 @@
  * 6. SuperAdmin user account
  */
 
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import * as bcrypt from 'bcrypt';
+import { DEFAULT_SHIFT_DEFINITIONS } from '../src/modules/worksheet/shift-template.util';
+import { generateVietnameseHolidays } from '../src/modules/leave/services/public-holiday-generator.util';
 
 const prisma = new PrismaClient();
 
@@ -117,6 +119,10 @@ const RESOURCES = [
   'public-holidays',
   'healthcare',
   'organizations',
+  'notifications',
+  'audit-logs',
+  'payroll',
+  'production-orders',
 ] as const;
 
 const ACTIONS = ['view', 'create', 'update', 'delete', 'approve', 'manage', 'assign'] as const;
@@ -145,7 +151,7 @@ const ROLE_PERMISSIONS: Record<RoleCode, RolePermissionMap | 'ALL'> = {
     'job-positions':  ['view', 'create', 'update', 'delete'],
     users:            ['view', 'create', 'update', 'delete', 'manage', 'assign'],
     reports:          ['view', 'approve', 'manage'],
-    'gate-passes':    ['view', 'approve', 'manage'],
+    'gate-passes':    ['view', 'update', 'approve', 'manage'], // update = bảo vệ ghi nhận ra/vào cổng
     worksheets:       ['view', 'create', 'update', 'delete', 'manage'],
     products:         ['view', 'create', 'update', 'delete'],
     processes:        ['view', 'create', 'update', 'delete'],
@@ -158,6 +164,10 @@ const ROLE_PERMISSIONS: Record<RoleCode, RolePermissionMap | 'ALL'> = {
     statistics:       ['view'],
     'hierarchy-reports': ['view'],
     'task-evaluations': ['view', 'update', 'delete', 'manage', 'create'],
+    notifications:    ['view', 'manage'], // outbox email: xem + gửi lại
+    'audit-logs':     ['view'], // nhật ký thao tác trong công ty
+    payroll:          ['view', 'manage'], // đơn giá khoán + lương khoán
+    'production-orders': ['view', 'create', 'update', 'delete', 'manage'],
     'leave-requests':  ['view', 'create', 'update', 'delete', 'approve', 'manage'],
     'leave-types':     ['view', 'create', 'update', 'delete', 'manage'],
     'leave-balances':  ['view', 'create', 'update', 'manage'],
@@ -181,9 +191,10 @@ const ROLE_PERMISSIONS: Record<RoleCode, RolePermissionMap | 'ALL'> = {
     positions:        ['view'],
     'job-positions':  ['view'],
     users:            ['view', 'update'],
-    reports:          ['view', 'create', 'update', 'approve', 'manage'],
+    reports:          ['view', 'create', 'update', 'delete', 'approve', 'manage'],
     'gate-passes':    ['view', 'approve'],
     worksheets:       ['view', 'create', 'update', 'manage'],
+    'production-orders': ['view'],
     products:         ['view'],
     processes:        ['view'],
     medicines:        ['view'],
@@ -215,7 +226,7 @@ const ROLE_PERMISSIONS: Record<RoleCode, RolePermissionMap | 'ALL'> = {
     positions:        ['view'],
     'job-positions':  ['view'],
     users:            ['view', 'update'],
-    reports:          ['view', 'create', 'update'],
+    reports:          ['view', 'create', 'update', 'delete'],
     'gate-passes':    ['view', 'create'],
     worksheets:       ['view'],
     products:         ['view'],
@@ -268,9 +279,10 @@ const ROLE_PERMISSIONS: Record<RoleCode, RolePermissionMap | 'ALL'> = {
     departments:      ['view'],
     groups:           ['view', 'assign'],
     users:            ['view', 'update'],
-    reports:          ['view', 'create', 'update', 'approve'],
+    reports:          ['view', 'create', 'update', 'delete', 'approve'],
     'gate-passes':    ['view', 'approve'],
     worksheets:       ['view', 'create', 'update'],
+    'production-orders': ['view'],
     products:         ['view'],
     processes:        ['view'],
     medicines:        ['view'],
@@ -289,9 +301,11 @@ const ROLE_PERMISSIONS: Record<RoleCode, RolePermissionMap | 'ALL'> = {
     departments:      ['view'],
     groups:           ['view', 'create', 'update', 'assign'],
     users:            ['view', 'update'],
-    reports:          ['view', 'create', 'update', 'approve'],
+    reports:          ['view', 'create', 'update', 'delete', 'approve'],
     'gate-passes':    ['view', 'approve'],
     worksheets:       ['view', 'create', 'update', 'manage'],
+    payroll:          ['view'],
+    'production-orders': ['view', 'create', 'update', 'manage'],
     products:         ['view'],
     processes:        ['view'],
     medicines:        ['view'],
@@ -313,9 +327,11 @@ const ROLE_PERMISSIONS: Record<RoleCode, RolePermissionMap | 'ALL'> = {
     positions:        ['view'],
     'job-positions':  ['view'],
     users:            ['view', 'update'],
-    reports:          ['view', 'create', 'update', 'approve', 'manage'],
+    reports:          ['view', 'create', 'update', 'delete', 'approve', 'manage'],
     'gate-passes':    ['view', 'approve'],
     worksheets:       ['view', 'create', 'update', 'manage'],
+    payroll:          ['view'],
+    'production-orders': ['view', 'create', 'update', 'manage'],
     products:         ['view'],
     processes:        ['view'],
     medicines:        ['view'],
@@ -340,44 +356,16 @@ const ROLE_PERMISSIONS: Record<RoleCode, RolePermissionMap | 'ALL'> = {
 // 7. PUBLIC HOLIDAYS (Vietnamese — 2024–2030)
 // ─────────────────────────────────────────────────────────────
 
-// Giỗ tổ Hùng Vương = 10/3 âm lịch, đã tính sẵn lịch dương:
-// 2024: 18/4, 2025: 7/4, 2026: 27/3, 2027: 16/4, 2028: 4/4, 2029: 24/3, 2030: 13/4
-const PUBLIC_HOLIDAYS_RAW = [
-  // Tết Dương Lịch — 1/1 mỗi năm
-  ...Array.from({ length: 7 }, (_, i) => ({
-    name: 'Tết Dương Lịch', month: 1, day: 1, year: 2024 + i, isLunar: false,
-    description: 'Nghỉ lễ Tết Dương lịch (1/1)',
-  })),
-  // Giỗ tổ Hùng Vương — 10/3 âm lịch (đã tính sang dương lịch)
-  { name: 'Giỗ tổ Hùng Vương', month: 4, day: 18, year: 2024, isLunar: true,  description: 'Giỗ tổ Hùng Vương (10/3 âm lịch)' },
-  { name: 'Giỗ tổ Hùng Vương', month: 4, day: 7,  year: 2025, isLunar: true,  description: 'Giỗ tổ Hùng Vương (10/3 âm lịch)' },
-  { name: 'Giỗ tổ Hùng Vương', month: 4, day: 26, year: 2026, isLunar: true,  description: 'Giỗ tổ Hùng Vương (10/3 âm lịch)' },
-  { name: 'Giỗ tổ Hùng Vương', month: 4, day: 16, year: 2027, isLunar: true,  description: 'Giỗ tổ Hùng Vương (10/3 âm lịch)' },
-  { name: 'Giỗ tổ Hùng Vương', month: 4, day: 4,  year: 2028, isLunar: true,  description: 'Giỗ tổ Hùng Vương (10/3 âm lịch)' },
-  { name: 'Giỗ tổ Hùng Vương', month: 3, day: 24, year: 2029, isLunar: true,  description: 'Giỗ tổ Hùng Vương (10/3 âm lịch)' },
-  { name: 'Giỗ tổ Hùng Vương', month: 4, day: 13, year: 2030, isLunar: true,  description: 'Giỗ tổ Hùng Vương (10/3 âm lịch)' },
-  // Giải phóng miền Nam — 30/4 mỗi năm
-  ...Array.from({ length: 7 }, (_, i) => ({
-    name: 'Ngày Giải phóng miền Nam', month: 4, day: 30, year: 2024 + i, isLunar: false,
-    description: 'Ngày Giải phóng miền Nam, thống nhất đất nước (30/4)',
-  })),
-  // Quốc tế Lao Động — 1/5 mỗi năm
-  ...Array.from({ length: 7 }, (_, i) => ({
-    name: 'Ngày Quốc tế Lao Động', month: 5, day: 1, year: 2024 + i, isLunar: false,
-    description: 'Ngày Quốc tế Lao Động (1/5)',
-  })),
-  // Quốc khánh — 2/9 mỗi năm
-  ...Array.from({ length: 7 }, (_, i) => ({
-    name: 'Ngày Quốc khánh', month: 9, day: 2, year: 2024 + i, isLunar: false,
-    description: 'Quốc khánh nước CHXHCNVN (2/9)',
-  })),
-];
+// Ngày lễ sinh theo quy tắc + âm lịch (Tết Nguyên Đán, Giỗ tổ Hùng Vương, nghỉ bù)
+// Năm sau 2030 / ngày nghỉ hoán đổi: POST /public-holidays/generate
+const PUBLIC_HOLIDAY_YEARS = Array.from({ length: 7 }, (_, i) => 2024 + i);
 
 async function seedPublicHolidays() {
-  console.log('\n━━━ [7/8] Seeding public holidays ━━━');
+  console.log('\n━━━ [7/9] Seeding public holidays ━━━');
   let count = 0;
-  for (const h of PUBLIC_HOLIDAYS_RAW) {
-    const date = new Date(Date.UTC(h.year, h.month - 1, h.day));
+  const holidays = PUBLIC_HOLIDAY_YEARS.flatMap((year) => generateVietnameseHolidays(year));
+  for (const h of holidays) {
+    const date = new Date(`${h.date}T00:00:00.000Z`);
     await prisma.publicHoliday.upsert({
       where: {
         // Prisma does not support @@unique with nullable companyId easily,
@@ -494,7 +482,7 @@ const LEAVE_TYPES: LeaveTypeSeed[] = [
 
 
 async function seedLeaveTypes() {
-  console.log('\n\u2501\u2501\u2501 [8/8] Seeding leave types \u2501\u2501\u2501');
+  console.log('\n\u2501\u2501\u2501 [8/9] Seeding leave types \u2501\u2501\u2501');
 
   // 1. Seed categories into leave_type_categories table
   const categoryMap: Record<string, string> = {}; // code \u2192 id
@@ -925,9 +913,10 @@ async function seedSuperAdminUser(
   // Ensure role assignment
   await prisma.userRole.upsert({
     where: {
-      userId_roleDefinitionId: {
+      userId_roleDefinitionId_scopeKey: {
         userId: superAdmin.id,
         roleDefinitionId: superAdminRole.id,
+        scopeKey: 'GLOBAL',
       },
     },
     update: { isActive: true },
@@ -949,6 +938,33 @@ async function seedSuperAdminUser(
   console.log('  │  ⚠  Change password after first login │');
   console.log('  └─────────────────────────────────────┘');
 }
+// ─────────────────────────────────────────────────────────────
+// SHIFT TEMPLATES — khung giờ mặc định cho từng ShiftType (companyId = officeId = null)
+// ─────────────────────────────────────────────────────────────
+
+async function seedShiftTemplates() {
+  console.log('\n━━━ [9/9] Seeding default shift templates ━━━');
+  for (const [shiftType, def] of Object.entries(DEFAULT_SHIFT_DEFINITIONS)) {
+    const existing = await prisma.shiftTemplate.findFirst({
+      where: { code: shiftType, companyId: null, officeId: null },
+      select: { id: true },
+    });
+    // Chỉ tạo mới — không ghi đè khung giờ admin đã chỉnh
+    if (!existing) {
+      await prisma.shiftTemplate.create({
+        data: {
+          code: shiftType,
+          name: def.name,
+          shiftType: shiftType as keyof typeof DEFAULT_SHIFT_DEFINITIONS,
+          slots: def.slots as unknown as Prisma.InputJsonValue,
+          breaks: def.breaks as unknown as Prisma.InputJsonValue,
+          isDefault: true,
+        },
+      });
+    }
+    console.log(`  ✓ ${shiftType} — ${def.name} (${def.slots.length} giờ)`);
+  }
+}
 
 // ─────────────────────────────────────────────────────────────
 // MAIN
@@ -966,6 +982,7 @@ async function main() {
   await seedSuperAdminUser(company.id, office.id, jobPosition.id);
   await seedPublicHolidays();
   await seedLeaveTypes();
+  await seedShiftTemplates();
 
   console.log('\n══════════════════════════════════');
   console.log('✅ Seed completed successfully!\n');
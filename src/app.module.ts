@@ -19,6 +19,14 @@ import { FeedbackModule } from './feedback/feedback.module'; // ⭐ NEW
 import { LeaveModule } from './modules/leave/leave.module'; // ⭐ LEAVE MANAGEMENT
 import { GatePassModule } from './modules/gate-pass/gate-pass.module'; // ⭐ GATE PASS
 import { PushNotificationModule } from './modules/push-notification/push-notification.module'; // ⭐ WEB PUSH
+import { NotificationChannelModule } from './modules/notification-channel/notification-channel.module'; // ⭐ EMAIL OUTBOX
+import { NotificationsModule } from './modules/notifications/notifications.module'; // ⭐ NOTIFICATION INBOX
+import { JobsModule } from './modules/jobs/jobs.module'; // ⭐ SCHEDULED JOBS
+import { ReportModule } from './modules/report/report.module'; // ⭐ WEEKLY REPORTS
+import { AuditModule } from './modules/audit/audit.module'; // ⭐ AUDIT LOG
+import { ApprovalDelegationModule } from './modules/approval-delegation/approval-delegation.module'; // ⭐ APPROVAL DELEGATION
+import { PayrollModule } from './modules/payroll/payroll.module'; // ⭐ PIECE-RATE PAYROLL
+import { ProductionOrderModule } from './modules/production-order/production-order.module'; // ⭐ PRODUCTION ORDERS
 
 // ✅ New consolidated modules
 import { OrganizationModule } from './modules/organization/organization.module';
@@ -67,6 +75,14 @@ import { CommonModule } from './common/common.module'; // ⭐ ADD
     LeaveModule,    // ⭐ LEAVE MANAGEMENT
     GatePassModule, // ⭐ GATE PASS
     PushNotificationModule, // ⭐ WEB PUSH
+    NotificationChannelModule, // ⭐ EMAIL OUTBOX
+    NotificationsModule, // ⭐ NOTIFICATION INBOX
+    JobsModule,     // ⭐ SCHEDULED JOBS
+    ReportModule,   // ⭐ WEEKLY REPORTS
+    AuditModule,    // ⭐ AUDIT LOG
+    ApprovalDelegationModule, // ⭐ APPROVAL DELEGATION
+    PayrollModule,  // ⭐ PIECE-RATE PAYROLL
+    ProductionOrderModule, // ⭐ PRODUCTION ORDERS
 
     // ✅ New consolidated modules (Use these for new development)
     OrganizationModule,
@@ -11,6 +11,9 @@ import {
   UnauthorizedException,
   BadRequestException,
   Get,
+  Delete,
+  Param,
+  ParseUUIDPipe,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -20,7 +23,6 @@ import {
   ApiQuery,
 } from '@nestjs/swagger';
 import { Response } from 'express';
-import { JwtService } from '@nestjs/jwt';
 import { PrismaService } from '../common/prisma.service';
 import { AuthService } from './auth.service';
 import { RegisterDto } from './dto/register.dto';
@@ -33,7 +35,8 @@ import { GetUser } from '../common/decorators/get-user.decorator';
 import { Public } from '../common/decorators/public.decorator';
 import { AuthResponseDto } from './dto/auth-response.dto';
 import { PermissionsService } from '../common/permissions.service';
-import { EnvironmentConfig } from '../config/config.environment';
+import { SessionService } from './session.service';
+import { PasswordResetService } from './password-reset.service';
 
 @ApiTags('auth')
 @Controller('auth')
@@ -42,10 +45,10 @@ export class AuthController {
 
   constructor(
     private readonly authService: AuthService,
-    private readonly jwtService: JwtService,
     private readonly prisma: PrismaService,
     private readonly permissionsService: PermissionsService,
-    private readonly envConfig: EnvironmentConfig,
+    private readonly sessionService: SessionService,
+    private readonly passwordResetService: PasswordResetService,
   ) {}
 
   @Post('register')
@@ -133,7 +136,7 @@ export class AuthController {
         !/Chrome|CriOS|EdgiOS/i.test(userAgent),
     };
 
-    return this.authService.logout(response, deviceInfo);
+    return this.authService.logout(response, deviceInfo, request.user?.sessionId);
   }
 
   @Patch('change-password')
@@ -144,7 +147,7 @@ export class AuthController {
     @Body() changePasswordDto: ChangePasswordDto,
     @Req() req: any,
   ) {
-    return this.authService.changePassword(req.user.id, changePasswordDto);
+    return this.authService.changePassword(req.user.id, changePasswordDto, req.user.sessionId);
   }
 
   @Post('refresh')
@@ -165,10 +168,10 @@ export class AuthController {
           throw new BadRequestException('Refresh token required');
         }
 
-        // Validate refresh token and get user
-        const payload = this.jwtService.verify(body.refreshToken);
+        // Rotate refresh token (server-side session) and get user
+        const { userId, accessToken, refreshToken } = await this.authService.rotateTokens(body.refreshToken, request);
         const user = await this.prisma.user.findUnique({
-          where: { id: payload.sub },
+          where: { id: userId },
           include: {
             office: true,
             jobPosition: {
@@ -184,19 +187,6 @@ export class AuthController {
           throw new UnauthorizedException('Invalid refresh token');
         }
 
-        // Generate new tokens
-        const newPayload = {
-          sub: user.id,
-          employeeCode: user.employeeCode,
-        };
-        const accessToken = this.jwtService.sign(newPayload, {
-          expiresIn: '7d',
-        });
-        const refreshToken = this.jwtService.sign(
-          { ...newPayload, type: 'refresh' },
-          { expiresIn: '30d' },
-        );
-
         // Set headers for token mode
         response.setHeader('X-Access-Token', accessToken);
         response.setHeader('X-Refresh-Token', refreshToken);
@@ -237,6 +227,7 @@ export class AuthController {
       response,
       rememberMe,
       request,
+      user.sessionId,
     );
   }
 
@@ -253,38 +244,43 @@ export class AuthController {
       throw new UnauthorizedException('No refresh token cookie found');
     }
 
-    let payload: any;
-    try {
-      payload = this.jwtService.verify(refreshToken, {
-        secret: this.envConfig.jwtSecret,
-      });
-    } catch {
-      throw new UnauthorizedException('Invalid or expired refresh token');
-    }
+    return this.authService.refreshFromCookie(refreshToken, response, rememberMe, request);
+  }
 
-    if (!payload?.sub) {
-      throw new UnauthorizedException('Invalid refresh token payload');
-    }
+  // ── Phiên đăng nhập ─────────────────────────────────────────
+
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'List my active sessions (devices)' })
+  getMySessions(@GetUser() user: any) {
+    return this.sessionService.listForUser(user.id, user.sessionId);
+  }
 
-    return this.authService.refreshToken(payload.sub, response, rememberMe, request);
+  @Delete('sessions/:id')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Revoke one of my sessions (log out a device)' })
+  revokeMySession(@GetUser() user: any, @Param('id', ParseUUIDPipe) id: string) {
+    return this.sessionService.revokeOwn(user.id, id);
   }
 
   @Post('forgot-password')
   @Public()
-  @ApiOperation({ summary: 'Verify employee info for password reset' })
-  @ApiResponse({ status: 200, description: 'Employee verification successful' })
+  @ApiOperation({ summary: 'Verify employee info and send a password reset OTP' })
+  @ApiResponse({ status: 200, description: 'OTP sent' })
   @ApiResponse({ status: 400, description: 'Invalid employee info' })
-  forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
-    return this.authService.forgotPassword(forgotPasswordDto);
+  @ApiResponse({ status: 429, description: 'Too many OTP requests for this employee code' })
+  forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto, @Req() request: any) {
+    const forwarded = (request.headers['x-forwarded-for'] as string | undefined)?.split(',')[0]?.trim();
+    return this.passwordResetService.requestOtp(forgotPasswordDto, forwarded || request.ip);
   }
 
   @Post('reset-password')
   @Public()
-  @ApiOperation({ summary: 'Reset password with verified employee info' })
+  @ApiOperation({ summary: 'Reset password with the OTP sent by forgot-password' })
   @ApiResponse({ status: 200, description: 'Password reset successful' })
-  @ApiResponse({ status: 400, description: 'Invalid employee info' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired OTP' })
   resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
-    return this.authService.resetPassword(resetPasswordDto);
+    return this.passwordResetService.resetPassword(resetPasswordDto);
   }
 
   // Enhanced iOS debugging endpoint
@@ -591,6 +587,6 @@ export class AuthController {
     description: 'Permissions retrieved successfully',
   })
   async getPermissions(@GetUser() user: any) {
-    return this.permissionsService.getUserPermissions(user.id);
+    return this.permissionsService.getUserPermissions(user.id, user.activeScope);
   }
 }
@@ -3,15 +3,19 @@ import { JwtModule, JwtService } from '@nestjs/jwt';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
 import { JwtStrategy } from './jwt.strategy';
+import { SessionService } from './session.service';
 import { EnvironmentConfig } from '../config/config.environment';
 import { PermissionsService } from '../common/permissions.service';
 import { PermissionsGuard } from '../common/guards/permissions.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { CommonModule } from '../common/common.module';
+import { NotificationChannelModule } from '../modules/notification-channel/notification-channel.module';
+import { PasswordResetService } from './password-reset.service';
 
 @Module({
   imports: [
     CommonModule,
+    NotificationChannelModule,
     JwtModule.register({
       secret: process.env.JWT_SECRET || 'weekly-report-secret-key-2024',
       signOptions: {
@@ -22,9 +26,11 @@ import { CommonModule } from '../common/common.module';
   controllers: [AuthController],
   providers: [
     AuthService,
+    SessionService,
+    PasswordResetService,
     JwtStrategy,
     JwtService,
   ],
-  exports: [AuthService, JwtService],
+  exports: [AuthService, SessionService, JwtService],
 })
 export class AuthModule {}
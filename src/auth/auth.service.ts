@@ -11,12 +11,12 @@ import { PrismaService } from '../common/prisma.service';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
 import { ChangePasswordDto } from './dto/change-password.dto';
-import { ForgotPasswordDto } from './dto/forgot-password.dto';
-import { ResetPasswordDto } from './dto/reset-password.dto';
 import { AuthResponseDto } from './dto/auth-response.dto';
 import * as bcrypt from 'bcrypt';
 import { Response } from 'express';
 import { EnvironmentConfig } from 'src/config/config.environment';
+import { SessionRevokeReason } from '@prisma/client';
+import { IssuedSession, SessionClientInfo, SessionService } from './session.service';
 
 @Injectable()
 export class AuthService {
@@ -26,6 +26,7 @@ export class AuthService {
     private prisma: PrismaService,
     private jwtService: JwtService,
     private readonly envConfig: EnvironmentConfig,
+    private readonly sessionService: SessionService,
   ) {}
 
   // Enhanced iOS Detection utility
@@ -270,22 +271,10 @@ export class AuthService {
         throw new BadRequestException('Mật khẩu không chính xác');
       }
 
-      // Generate JWT token
-      const payload = { sub: user.id, employeeCode: user.employeeCode, role: user.role };
-      
-      const access_token = this.jwtService.sign(payload, {
-        expiresIn: rememberMe ? '30d' : '7d',
-        secret: this.envConfig.jwtSecret,
-      });
-
-      // Generate refresh token for token mode
-      const refresh_token = this.jwtService.sign(
-        { ...payload, type: 'refresh' }, 
-        {
-          expiresIn: '30d',
-          secret: this.envConfig.jwtSecret,
-        }
-      );
+      // Server-side session: refresh token is bound to it, access token carries its id
+      const session = await this.sessionService.create(user.id, this.getClientInfo(request), rememberMe);
+      const access_token = this.signAccessToken(user, session.sessionId, rememberMe);
+      const refresh_token = session.refreshToken;
 
       // Set cookie only if response object provided (cookie mode)
       if (response) {
@@ -337,7 +326,11 @@ export class AuthService {
     }
   }
 
-  async logout(response: Response, deviceInfo?: any) {
+  async logout(response: Response, deviceInfo?: any, sessionId?: string | null) {
+    if (sessionId) {
+      await this.sessionService.revokeSession(sessionId, SessionRevokeReason.LOGOUT);
+    }
+
     // this.logger.log('Logout request received', { 
     //   deviceInfo: deviceInfo || 'unknown',
     //   timestamp: new Date().toISOString()
@@ -350,7 +343,7 @@ export class AuthService {
     return { message: 'Logout successful' };
   }
 
-  async changePassword(userId: string, changePasswordDto: ChangePasswordDto) {
+  async changePassword(userId: string, changePasswordDto: ChangePasswordDto, currentSessionId?: string | null) {
     const { currentPassword, newPassword } = changePasswordDto;
 
     const user = await this.prisma.user.findUnique({
@@ -377,13 +370,62 @@ export class AuthService {
       data: { password: hashedNewPassword },
     });
 
+    // Log out every other device — the current one stays signed in
+    await this.sessionService.revokeAllForUser(userId, SessionRevokeReason.PASSWORD_CHANGED, currentSessionId);
+
     return { message: 'Password changed successfully' };
   }
 
-  async refreshToken(userId: string, response: Response, rememberMe = false, request?: any): Promise<AuthResponseDto> {
-    // Enhanced iOS detection
-    const userAgent = request?.headers['user-agent'] || '';
-    const deviceInfo = this.detectiOSDevice(userAgent);
+  /**
+   * Refresh for a request already authenticated by access token (refresh-cookie).
+   * Renews the caller's session; legacy tokens without a session get a new one.
+   */
+  async refreshToken(
+    userId: string,
+    response: Response,
+    rememberMe = false,
+    request?: any,
+    sessionId?: string | null,
+  ): Promise<AuthResponseDto> {
+    const client = this.getClientInfo(request);
+    const session = sessionId
+      ? await this.sessionService.renew(sessionId, userId, client)
+      : await this.sessionService.create(userId, client, rememberMe);
+    return this.completeRefresh(userId, session, response, rememberMe, client);
+  }
+
+  /** Refresh using the refresh_token cookie — rotates it (reuse of an old one revokes the session) */
+  async refreshFromCookie(refreshToken: string, response: Response, rememberMe = false, request?: any): Promise<AuthResponseDto> {
+    const client = this.getClientInfo(request);
+    const session = await this.sessionService.rotate(refreshToken, client);
+    return this.completeRefresh(session.userId, session, response, rememberMe || session.rememberMe, client);
+  }
+
+  /** Token mode (iOS/Mac): rotate the refresh token from the request body */
+  async rotateTokens(refreshToken: string, request?: any) {
+    const session = await this.sessionService.rotate(refreshToken, this.getClientInfo(request));
+    const user = await this.prisma.user.findUnique({
+      where: { id: session.userId },
+      select: { id: true, employeeCode: true },
+    });
+    if (!user) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+    return {
+      userId: user.id,
+      accessToken: this.signAccessToken(user, session.sessionId, false),
+      refreshToken: session.refreshToken,
+    };
+  }
+
+  private async completeRefresh(
+    userId: string,
+    session: IssuedSession,
+    response: Response,
+    rememberMe: boolean,
+    client: SessionClientInfo,
+  ): Promise<AuthResponseDto> {
+    const deviceInfo = client.device;
 
     const user = await this.prisma.user.findUnique({
       where: { id: userId },
@@ -409,18 +451,8 @@ export class AuthService {
     }
 
     // Generate new tokens
-    const payload = { sub: user.id, employeeCode: user.employeeCode };
-    const access_token = this.jwtService.sign(payload, {
-      expiresIn: rememberMe ? '30d' : '7d'
-    });
-
-    const refresh_token = this.jwtService.sign(
-      { ...payload, type: 'refresh' }, 
-      {
-        expiresIn: '30d',
-        secret: this.envConfig.jwtSecret,
-      }
-    );
+    const access_token = this.signAccessToken(user, session.sessionId, rememberMe);
+    const refresh_token = session.refreshToken;
 
     // Update cookie with iOS handling
     this.setAuthCookie(response, access_token, rememberMe, deviceInfo);
@@ -461,82 +493,20 @@ export class AuthService {
     } as AuthResponseDto;
   }
 
-  async forgotPassword(forgotPasswordDto: ForgotPasswordDto) {
-    const { employeeCode, phone } = forgotPasswordDto;
-
-    // Find user by employeeCode and phone
-    const user = await this.prisma.user.findFirst({
-      where: {
-        employeeCode,
-        phone,
-        isActive: true,
-      },
-      include: {
-        office: {
-          select: { id: true, name: true, type: true }
-        },
-        jobPosition: {
-          include: {
-            position: {
-              select: { id: true, name: true, description: true, level: true, isManagement: true, canViewHierarchy: true }
-            },
-            department: {
-              select: { id: true, name: true }
-            },
-          },
-        },
-      },
-    });
-
-    if (!user) {
-      throw new BadRequestException(
-        'Thông tin mã nhân viên và Sdt không khớp hoặc tài khoản không tồn tại',
-      );
-    }
-
-    // Return user info (without password) for verification
-    const { password: _, ...userInfo } = user;
-    return {
-      message: 'Xác thực thành công. Bạn có thể đặt lại mật khẩu.',
-      user: {
-        employeeCode: user.employeeCode,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        phone: user.phone,
-      },
-    };
+  private signAccessToken(user: { id: string; employeeCode: string }, sessionId: string, rememberMe: boolean) {
+    return this.jwtService.sign(
+      { sub: user.id, employeeCode: user.employeeCode, sid: sessionId },
+      { expiresIn: rememberMe ? '30d' : '7d', secret: this.envConfig.jwtSecret },
+    );
   }
 
-  async resetPassword(resetPasswordDto: ResetPasswordDto) {
-    const { employeeCode, phone, newPassword } = resetPasswordDto;
-
-    // Verify user again with employeeCode and phone
-    const user = await this.prisma.user.findFirst({
-      where: {
-        employeeCode,
-        phone,
-        // isActive: true,
-      },
-    });
-
-    if (!user) {
-      throw new BadRequestException(
-        'Thông tin mã nhân viên và Sdt không khớp hoặc tài khoản không tồn tại',
-      );
-    }
-
-    // Hash new password
-    const hashedNewPassword = await bcrypt.hash(newPassword, 10);
-
-    // Update password
-    await this.prisma.user.update({
-      where: { id: user.id },
-      data: { password: hashedNewPassword, isActive: true }, // Ensure account is active after reset
-    });
-
+  private getClientInfo(request?: any): SessionClientInfo {
+    const userAgent: string = request?.headers?.['user-agent'] || '';
+    const forwarded = (request?.headers?.['x-forwarded-for'] as string | undefined)?.split(',')[0]?.trim();
     return {
-      message:
-        'Đặt lại mật khẩu thành công. Bạn có thể đăng nhập với mật khẩu mới.',
+      userAgent,
+      ipAddress: forwarded || request?.ip,
+      device: this.detectiOSDevice(userAgent),
     };
   }
 
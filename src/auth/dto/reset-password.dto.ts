@@ -1,4 +1,4 @@
-import { IsNotEmpty, IsString, MinLength } from 'class-validator';
+import { IsNotEmpty, IsString, Matches, MinLength } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class ResetPasswordDto {
@@ -18,6 +18,14 @@ export class ResetPasswordDto {
   @IsNotEmpty()
   phone: string;
 
+  @ApiProperty({
+    example: '123456',
+    description: 'One-time code sent by forgot-password',
+  })
+  @IsString()
+  @Matches(/^\d{6}$/, { message: 'Mã xác nhận gồm 6 chữ số' })
+  otp: string;
+
   @ApiProperty({
     example: 'newpassword123',
     description: 'New password (minimum 6 characters)',
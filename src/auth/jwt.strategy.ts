@@ -1,9 +1,11 @@
-import { Injectable, UnauthorizedException, Logger } from '@nestjs/common';
+import { Injectable, UnauthorizedException, ForbiddenException, Logger } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { Request } from 'express';
 import { PrismaService } from '../common/prisma.service';
 import { EnvironmentConfig } from '../config/config.environment';
+import { SessionService } from './session.service';
+import { OrgScope, roleCoversScope } from '../common/utils/role-scope';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
@@ -12,6 +14,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
     private prisma: PrismaService,
     private envConfig: EnvironmentConfig,
+    private sessionService: SessionService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromExtractors([
@@ -51,12 +54,16 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       ]),
       ignoreExpiration: false,
       secretOrKey: envConfig.jwtSecret,
-      passReqToCallback: false,
+      passReqToCallback: true,
     });
   }
 
-  async validate(payload: any) {
+  async validate(request: Request, payload: any) {
     try {
+      // Refresh tokens are only accepted by the refresh endpoints
+      if (payload?.type === 'refresh') {
+        throw new UnauthorizedException('Invalid token');
+      }
 
       const user = await this.prisma.user.findUnique({
         where: { id: payload.sub },
@@ -100,10 +107,54 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
         throw new UnauthorizedException('User not found or inactive');
       }
 
+      // Session revoked (logout / device revoked / password changed...) → token is dead immediately
+      if (!(await this.sessionService.isTokenActive(payload, user.sessionsRevokedAt))) {
+        throw new UnauthorizedException('Session revoked');
+      }
+
+      // Active scope: own company by default; x-company-id switches to another company
+      // where the user holds a COMPANY-scoped role (e.g. admin of a second factory)
+      const homeScope: OrgScope = {
+        companyId: user.companyId,
+        officeId: user.officeId,
+        departmentId: user.jobPosition?.departmentId ?? null,
+      };
+      let activeScope = homeScope;
+      const requestedCompanyId = request.headers?.['x-company-id'] as string | undefined;
+      if (requestedCompanyId && requestedCompanyId !== user.companyId) {
+        const allowed = user.roles.some((r) => r.scopeType === 'COMPANY' && r.companyId === requestedCompanyId);
+        if (!allowed) {
+          throw new ForbiddenException('Bạn không có vai trò tại công ty này');
+        }
+        activeScope = { companyId: requestedCompanyId, officeId: null, departmentId: null };
+      }
+
       const { password, ...userWithoutPassword } = user;
+      // Switched company: home office / department / group belong to the other company → clear them
+      // so services filtering by user.officeId / jobPosition.departmentId match activeScope
+      const switchedOrg =
+        activeScope === homeScope
+          ? {}
+          : {
+              officeId: null,
+              office: null,
+              groupId: null,
+              jobPosition: user.jobPosition && { ...user.jobPosition, departmentId: null, department: null },
+            };
 
-      return userWithoutPassword;
+      return {
+        ...userWithoutPassword,
+        ...switchedOrg,
+        // roles = assignments applying in the active scope (RolesGuard / SUPERADMIN checks read this)
+        roles: user.roles.filter((r) => roleCoversScope(r, activeScope)),
+        roleAssignments: user.roles,
+        companyId: activeScope.companyId,
+        homeCompanyId: user.companyId,
+        activeScope,
+        sessionId: payload.sid ?? null,
+      };
     } catch (error) {
+      if (error instanceof ForbiddenException) throw error;
       if (this.envConfig.isProduction) {
         this.logger.error('JWT Validation Error:', {
           error: error.message,
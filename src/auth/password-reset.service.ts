@@ -0,0 +1,256 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { SessionRevokeReason } from '@prisma/client';
+import { createHmac, randomInt, randomUUID, timingSafeEqual } from 'crypto';
+import * as bcrypt from 'bcrypt';
+import { PrismaService } from '../common/prisma.service';
+import { EnvironmentConfig } from '../config/config.environment';
+import {
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+} from '../modules/notification-channel/channels/notification-channel.interface';
+import { escapeHtml } from '../modules/notification-channel/templates/email.templates';
+import { SessionService } from './session.service';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+
+const OTP_TTL_MINUTES = 10;
+const OTP_MAX_ATTEMPTS = 5;
+// Rate limit theo mã nhân viên
+const OTP_RESEND_COOLDOWN_SECONDS = 60;
+const OTP_WINDOW_MINUTES = 15;
+const OTP_MAX_PER_WINDOW = 3;
+// Thứ tự ưu tiên kênh gửi mã — ghi đè bằng PASSWORD_RESET_OTP_CHANNELS=SMS,ZALO,EMAIL,CONSOLE
+const DEFAULT_CHANNEL_ORDER = ['SMS', 'ZALO', 'EMAIL', 'CONSOLE'];
+
+/**
+ * PasswordResetService
+ * Quên mật khẩu 2 bước:
+ * 1. forgot-password: xác định user bằng mã NV + SĐT → gửi mã OTP 6 số qua kênh đầu tiên khả dụng
+ *    (SMS / Zalo theo SĐT, Email, Console khi chạy local)
+ * 2. reset-password: mã NV + SĐT + OTP + mật khẩu mới → đổi mật khẩu, thu hồi mọi phiên đăng nhập
+ * OTP chỉ lưu HMAC, hết hạn sau 10 phút, sai 5 lần → huỷ mã.
+ */
+@Injectable()
+export class PasswordResetService {
+  private readonly logger = new Logger(PasswordResetService.name);
+  private readonly channels: Map<string, NotificationChannel>;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly envConfig: EnvironmentConfig,
+    private readonly sessionService: SessionService,
+    @Inject(NOTIFICATION_CHANNELS) channels: NotificationChannel[],
+  ) {
+    this.channels = new Map(channels.map((c) => [c.name, c]));
+  }
+
+  // ── Gửi mã ──────────────────────────────────────────────────────
+
+  async requestOtp(dto: ForgotPasswordDto, ipAddress?: string) {
+    const { employeeCode, phone } = dto;
+    await this.assertNotRateLimited(employeeCode);
+
+    const user = await this.prisma.user.findFirst({
+      where: { employeeCode, phone },
+      select: { id: true, isActive: true, firstName: true, lastName: true, email: true, phone: true },
+    });
+    if (!user) {
+      throw new BadRequestException(
+        'Thông tin mã nhân viên và Sdt không khớp hoặc tài khoản không tồn tại',
+      );
+    }
+    if (!user.isActive) {
+      throw new BadRequestException('Tài khoản chưa được kích hoạt hoặc đã bị khóa, vui lòng liên hệ quản trị viên');
+    }
+
+    const target = this.pickChannel(user);
+    if (!target) {
+      throw new BadRequestException('Không có kênh nhận mã xác nhận cho tài khoản này, vui lòng liên hệ quản trị viên');
+    }
+
+    const otpId = randomUUID();
+    const code = String(randomInt(0, 1_000_000)).padStart(6, '0');
+    const now = new Date();
+
+    // Mã mới thay thế mọi mã cũ chưa dùng
+    const [, otp] = await this.prisma.$transaction([
+      this.prisma.passwordResetOtp.updateMany({
+        where: { userId: user.id, consumedAt: null },
+        data: { consumedAt: now },
+      }),
+      this.prisma.passwordResetOtp.create({
+        data: {
+          id: otpId,
+          userId: user.id,
+          employeeCode,
+          codeHash: this.hashCode(otpId, code),
+          channel: target.channel.name,
+          recipient: maskRecipient(target.recipient),
+          expiresAt: new Date(now.getTime() + OTP_TTL_MINUTES * 60_000),
+          ipAddress: ipAddress ?? null,
+        },
+      }),
+    ]);
+
+    const name = `${user.lastName} ${user.firstName}`.trim();
+    try {
+      await target.channel.send({
+        recipient: target.recipient,
+        subject: 'Mã xác nhận đặt lại mật khẩu',
+        body:
+          `<p>Xin chào ${escapeHtml(name)},</p>` +
+          `<p>Mã xác nhận đặt lại mật khẩu của anh/chị là <b style="font-size:20px;letter-spacing:4px">${code}</b>.</p>` +
+          `<p>Mã có hiệu lực trong ${OTP_TTL_MINUTES} phút. Không chia sẻ mã này cho bất kỳ ai.</p>`,
+        textBody: `Ma xac nhan dat lai mat khau: ${code}. Hieu luc ${OTP_TTL_MINUTES} phut. Khong chia se ma nay.`,
+      });
+    } catch (error) {
+      await this.prisma.passwordResetOtp.update({ where: { id: otp.id }, data: { consumedAt: new Date() } });
+      this.logger.error(`Failed to send reset OTP via ${target.channel.name} for ${employeeCode}: ${error.message}`);
+      throw new ServiceUnavailableException('Không gửi được mã xác nhận, vui lòng thử lại sau');
+    }
+
+    return {
+      message: 'Mã xác nhận đã được gửi. Vui lòng nhập mã để đặt lại mật khẩu.',
+      channel: otp.channel,
+      recipient: otp.recipient,
+      expiresInSeconds: OTP_TTL_MINUTES * 60,
+      resendAfterSeconds: OTP_RESEND_COOLDOWN_SECONDS,
+    };
+  }
+
+  // ── Đặt lại mật khẩu ────────────────────────────────────────────
+
+  async resetPassword(dto: ResetPasswordDto) {
+    const { employeeCode, phone, otp: code, newPassword } = dto;
+    const invalid = new BadRequestException('Mã xác nhận không đúng hoặc đã hết hạn');
+
+    const user = await this.prisma.user.findFirst({
+      where: { employeeCode, phone, isActive: true },
+      select: { id: true },
+    });
+    if (!user) throw invalid;
+
+    const otp = await this.prisma.passwordResetOtp.findFirst({
+      where: { userId: user.id, consumedAt: null, attempts: { lt: OTP_MAX_ATTEMPTS }, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (!otp) throw invalid;
+
+    // Giữ 1 lượt thử trước khi so mã — nhiều request song song không vượt được OTP_MAX_ATTEMPTS
+    const reserved = await this.prisma.passwordResetOtp.updateMany({
+      where: { id: otp.id, consumedAt: null, attempts: { lt: OTP_MAX_ATTEMPTS } },
+      data: { attempts: { increment: 1 } },
+    });
+    if (reserved.count !== 1) throw invalid;
+
+    if (!this.matches(otp.id, code, otp.codeHash)) {
+      await this.prisma.passwordResetOtp.updateMany({
+        where: { id: otp.id, consumedAt: null, attempts: { gte: OTP_MAX_ATTEMPTS } },
+        data: { consumedAt: new Date() },
+      });
+      const remaining = OTP_MAX_ATTEMPTS - (otp.attempts + 1);
+      throw new BadRequestException(
+        remaining > 0
+          ? `Mã xác nhận không đúng, còn ${remaining} lần thử`
+          : 'Nhập sai mã quá số lần cho phép, vui lòng yêu cầu mã mới',
+      );
+    }
+
+    // Claim mã — chỉ 1 request dùng được
+    const { count } = await this.prisma.passwordResetOtp.updateMany({
+      where: { id: otp.id, consumedAt: null },
+      data: { consumedAt: new Date() },
+    });
+    if (count === 0) throw invalid;
+
+    const hashedNewPassword = await bcrypt.hash(newPassword, 10);
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { password: hashedNewPassword },
+    });
+    await this.sessionService.revokeAllForUser(user.id, SessionRevokeReason.PASSWORD_RESET);
+
+    return {
+      message:
+        'Đặt lại mật khẩu thành công. Bạn có thể đăng nhập với mật khẩu mới.',
+    };
+  }
+
+  // ── Dọn dẹp ─────────────────────────────────────────────────────
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM, { name: 'password-reset-otp-cleanup' })
+  async cleanupOtps() {
+    const cutoff = new Date(Date.now() - 7 * 86_400_000);
+    await this.prisma.passwordResetOtp.deleteMany({ where: { createdAt: { lt: cutoff } } });
+  }
+
+  // ── Helpers ─────────────────────────────────────────────────────
+
+  private async assertNotRateLimited(employeeCode: string) {
+    const windowStart = new Date(Date.now() - OTP_WINDOW_MINUTES * 60_000);
+    const recent = await this.prisma.passwordResetOtp.findMany({
+      where: { employeeCode, createdAt: { gte: windowStart } },
+      select: { createdAt: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const sinceLast = recent.length ? (Date.now() - recent[0].createdAt.getTime()) / 1000 : Infinity;
+    if (sinceLast < OTP_RESEND_COOLDOWN_SECONDS) {
+      throw new HttpException(
+        `Vui lòng đợi ${Math.ceil(OTP_RESEND_COOLDOWN_SECONDS - sinceLast)} giây trước khi yêu cầu mã mới`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+    if (recent.length >= OTP_MAX_PER_WINDOW) {
+      throw new HttpException(
+        `Đã yêu cầu mã quá ${OTP_MAX_PER_WINDOW} lần trong ${OTP_WINDOW_MINUTES} phút, vui lòng thử lại sau`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  /** Kênh đầu tiên đang bật mà user có địa chỉ nhận */
+  private pickChannel(user: { email: string | null; phone: string | null }) {
+    const order = (process.env.PASSWORD_RESET_OTP_CHANNELS || DEFAULT_CHANNEL_ORDER.join(','))
+      .split(',')
+      .map((c) => c.trim().toUpperCase())
+      .filter(Boolean);
+
+    for (const name of order) {
+      const channel = this.channels.get(name);
+      if (!channel?.isEnabled()) continue;
+      const recipient = name === 'EMAIL' ? user.email : name === 'CONSOLE' ? (user.phone ?? user.email) : user.phone;
+      if (recipient) return { channel, recipient };
+    }
+    return null;
+  }
+
+  private hashCode(otpId: string, code: string): string {
+    return createHmac('sha256', this.envConfig.jwtSecret).update(`${otpId}:${code}`).digest('hex');
+  }
+
+  private matches(otpId: string, code: string, codeHash: string): boolean {
+    const expected = Buffer.from(codeHash, 'hex');
+    const actual = Buffer.from(this.hashCode(otpId, code), 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+}
+
+/** 0912345678 → 09******78, nguyen.van.a@tbs.com → ng***@tbs.com */
+export function maskRecipient(recipient: string): string {
+  const at = recipient.indexOf('@');
+  if (at > 0) {
+    return `${recipient.slice(0, Math.min(2, at))}***${recipient.slice(at)}`;
+  }
+  if (recipient.length <= 4) return '*'.repeat(recipient.length);
+  return `${recipient.slice(0, 2)}${'*'.repeat(recipient.length - 4)}${recipient.slice(-2)}`;
+}
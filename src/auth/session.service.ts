@@ -0,0 +1,314 @@
+import { Injectable, Logger, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { JwtService } from '@nestjs/jwt';
+import { SessionRevokeReason } from '@prisma/client';
+import { createHash, randomUUID } from 'crypto';
+import { PrismaService } from '../common/prisma.service';
+import { EnvironmentConfig } from '../config/config.environment';
+
+const DAY_MS = 86_400_000;
+// Refresh token / phiên hết hạn sau 30 ngày không làm mới
+const SESSION_TTL_DAYS = 30;
+// Refresh token vừa bị xoay vẫn được chấp nhận trong khoảng này (nhiều tab làm mới cùng lúc)
+const ROTATION_GRACE_MS = 60_000;
+// Giữ lại phiên đã thu hồi / hết hạn để tra cứu trước khi xoá hẳn
+const SESSION_RETENTION_DAYS = 30;
+
+export interface SessionClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+  device?: { isIOS: boolean; isSafari: boolean; isIOSSafari: boolean; version?: string };
+}
+
+export interface IssuedSession {
+  sessionId: string;
+  refreshToken: string;
+  rememberMe: boolean;
+}
+
+const SESSION_SELECT = {
+  id: true,
+  deviceName: true,
+  userAgent: true,
+  ipAddress: true,
+  isIOS: true,
+  osVersion: true,
+  rememberMe: true,
+  createdAt: true,
+  lastUsedAt: true,
+  expiresAt: true,
+} as const;
+
+/**
+ * SessionService
+ * Phiên đăng nhập phía server cho refresh token:
+ * - Mỗi lần đăng nhập = 1 UserSession, refresh token là JWT mang sid, DB chỉ lưu sha256
+ * - Mỗi lần làm mới → xoay refresh token; token cũ bị dùng lại (ngoài thời gian ân hạn)
+ *   → coi như bị lộ, thu hồi cả phiên
+ * - Access token mang sid → JwtStrategy từ chối ngay khi phiên bị thu hồi
+ */
+@Injectable()
+export class SessionService {
+  private readonly logger = new Logger(SessionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly jwtService: JwtService,
+    private readonly envConfig: EnvironmentConfig,
+  ) {}
+
+  // ── Phát hành / xoay token ─────────────────────────────────────
+
+  async create(userId: string, client: SessionClientInfo, rememberMe = false): Promise<IssuedSession> {
+    const sessionId = randomUUID();
+    const refreshToken = this.signRefreshToken(userId, sessionId);
+
+    await this.prisma.userSession.create({
+      data: {
+        id: sessionId,
+        userId,
+        refreshTokenHash: this.hash(refreshToken),
+        rememberMe,
+        expiresAt: this.expiryFromNow(),
+        ...this.clientData(client),
+      },
+    });
+
+    return { sessionId, refreshToken, rememberMe };
+  }
+
+  /**
+   * Đổi refresh token lấy refresh token mới của cùng phiên.
+   * Token không gắn phiên (phát hành trước khi có UserSession) → mở phiên mới nếu chưa bị thu hồi hàng loạt.
+   */
+  async rotate(refreshToken: string, client: SessionClientInfo): Promise<IssuedSession & { userId: string }> {
+    let payload: any;
+    try {
+      payload = this.jwtService.verify(refreshToken, { secret: this.envConfig.jwtSecret });
+    } catch {
+      throw new UnauthorizedException('Refresh token không hợp lệ hoặc đã hết hạn');
+    }
+    if (payload?.type !== 'refresh' || !payload.sub) {
+      throw new UnauthorizedException('Refresh token không hợp lệ');
+    }
+
+    if (!payload.sid) {
+      const user = await this.prisma.user.findUnique({
+        where: { id: payload.sub },
+        select: { isActive: true, sessionsRevokedAt: true },
+      });
+      if (!user?.isActive || this.issuedBefore(payload, user.sessionsRevokedAt)) {
+        throw new UnauthorizedException('Phiên đăng nhập đã hết hiệu lực');
+      }
+      return { userId: payload.sub, ...(await this.create(payload.sub, client)) };
+    }
+
+    const session = await this.prisma.userSession.findUnique({
+      where: { id: payload.sid },
+      include: { user: { select: { isActive: true } } },
+    });
+    if (!session || session.userId !== payload.sub || session.revokedAt || session.expiresAt < new Date()) {
+      throw new UnauthorizedException('Phiên đăng nhập đã hết hiệu lực');
+    }
+    if (!session.user.isActive) {
+      throw new UnauthorizedException('Tài khoản đã bị khóa');
+    }
+
+    const presentedHash = this.hash(refreshToken);
+    const isCurrent = presentedHash === session.refreshTokenHash || session.graceTokenHashes.includes(presentedHash);
+    const inGrace =
+      !isCurrent &&
+      presentedHash === session.previousTokenHash &&
+      !!session.rotatedAt &&
+      Date.now() - session.rotatedAt.getTime() < ROTATION_GRACE_MS;
+
+    if (!isCurrent && !inGrace) {
+      await this.revokeSession(session.id, SessionRevokeReason.TOKEN_REUSE);
+      this.logger.warn(`Refresh token reuse detected: user=${session.userId} session=${session.id}`);
+      throw new UnauthorizedException('Refresh token đã được sử dụng — phiên đăng nhập đã bị thu hồi');
+    }
+
+    const next = this.signRefreshToken(session.userId, session.id);
+    // Claim theo hash hiện hành — 2 request xoay cùng lúc thì chỉ 1 request thắng
+    const { count } = await this.prisma.userSession.updateMany({
+      where: { id: session.id, refreshTokenHash: session.refreshTokenHash, revokedAt: null },
+      data: isCurrent
+        ? {
+            refreshTokenHash: this.hash(next),
+            previousTokenHash: presentedHash,
+            rotatedAt: new Date(),
+            graceTokenHashes: [],
+            lastUsedAt: new Date(),
+            expiresAt: this.expiryFromNow(),
+            ...this.clientData(client),
+          }
+        : {
+            // Ân hạn: giữ nguyên token hiện hành (tab đã xoay trước vẫn dùng được), token mới chỉ được thêm vào.
+            // Ân hạn chỉ áp dụng cho token ngay trước lần xoay gốc — không gia hạn dây chuyền
+            graceTokenHashes: { push: this.hash(next) },
+            lastUsedAt: new Date(),
+          },
+    });
+    if (count === 0) {
+      throw new UnauthorizedException('Phiên đăng nhập vừa được làm mới, vui lòng thử lại');
+    }
+
+    return { userId: session.userId, sessionId: session.id, refreshToken: next, rememberMe: session.rememberMe };
+  }
+
+  /** Làm mới phiên khi đã xác thực bằng access token của chính phiên đó (refresh-cookie) */
+  async renew(sessionId: string, userId: string, client: SessionClientInfo): Promise<IssuedSession> {
+    const session = await this.prisma.userSession.findFirst({
+      where: { id: sessionId, userId, revokedAt: null },
+      select: { id: true, rememberMe: true },
+    });
+    if (!session) throw new UnauthorizedException('Phiên đăng nhập đã hết hiệu lực');
+
+    const refreshToken = this.signRefreshToken(userId, sessionId);
+    await this.prisma.userSession.update({
+      where: { id: sessionId },
+      data: {
+        refreshTokenHash: this.hash(refreshToken),
+        previousTokenHash: null,
+        graceTokenHashes: [],
+        rotatedAt: new Date(),
+        lastUsedAt: new Date(),
+        expiresAt: this.expiryFromNow(),
+        ...this.clientData(client),
+      },
+    });
+
+    return { sessionId, refreshToken, rememberMe: session.rememberMe };
+  }
+
+  /**
+   * Access token còn dùng được không — gọi từ JwtStrategy.
+   * Có sid → phiên phải chưa bị thu hồi; không có sid → phát hành sau mốc thu hồi hàng loạt.
+   */
+  async isTokenActive(payload: { sub: string; sid?: string; iat?: number }, sessionsRevokedAt: Date | null): Promise<boolean> {
+    if (!payload.sid) return !this.issuedBefore(payload, sessionsRevokedAt);
+
+    const session = await this.prisma.userSession.findUnique({
+      where: { id: payload.sid },
+      select: { userId: true, revokedAt: true },
+    });
+    return !!session && session.userId === payload.sub && !session.revokedAt;
+  }
+
+  /** Xác thực kết nối socket (không đi qua JwtStrategy): user còn hoạt động + token còn hiệu lực */
+  async isSocketTokenActive(payload: { sub: string; sid?: string; iat?: number; type?: string }): Promise<boolean> {
+    if (payload.type === 'refresh') return false;
+    const user = await this.prisma.user.findUnique({
+      where: { id: payload.sub },
+      select: { isActive: true, sessionsRevokedAt: true },
+    });
+    return !!user?.isActive && this.isTokenActive(payload, user.sessionsRevokedAt);
+  }
+
+  // ── Danh sách / thu hồi ────────────────────────────────────────
+
+  async listForUser(userId: string, currentSessionId?: string | null) {
+    const sessions = await this.prisma.userSession.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: SESSION_SELECT,
+      orderBy: { lastUsedAt: 'desc' },
+    });
+    return sessions.map((s) => ({ ...s, isCurrent: s.id === currentSessionId }));
+  }
+
+  /** Người dùng tự đăng xuất 1 thiết bị của mình */
+  async revokeOwn(userId: string, sessionId: string) {
+    const { count } = await this.prisma.userSession.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: SessionRevokeReason.USER_REVOKED },
+    });
+    if (count === 0) throw new NotFoundException('Không tìm thấy phiên đăng nhập');
+    return { message: 'Đã đăng xuất thiết bị' };
+  }
+
+  async revokeSession(sessionId: string, reason: SessionRevokeReason) {
+    await this.prisma.userSession.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+  }
+
+  /**
+   * Thu hồi mọi phiên của user (trừ exceptSessionId) + chặn token cũ không gắn phiên.
+   * Dùng khi đổi / reset mật khẩu, khóa tài khoản, admin đăng xuất từ xa.
+   */
+  async revokeAllForUser(userId: string, reason: SessionRevokeReason, exceptSessionId?: string | null) {
+    const now = new Date();
+    const [{ count }] = await this.prisma.$transaction([
+      this.prisma.userSession.updateMany({
+        where: { userId, revokedAt: null, ...(exceptSessionId && { id: { not: exceptSessionId } }) },
+        data: { revokedAt: now, revokedReason: reason },
+      }),
+      this.prisma.user.update({ where: { id: userId }, data: { sessionsRevokedAt: now } }),
+    ]);
+    return { revoked: count };
+  }
+
+  // ── Dọn dẹp ─────────────────────────────────────────────────────
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM, { name: 'user-session-cleanup' })
+  async cleanupSessions() {
+    const cutoff = new Date(Date.now() - SESSION_RETENTION_DAYS * DAY_MS);
+    const { count } = await this.prisma.userSession.deleteMany({
+      where: { OR: [{ expiresAt: { lt: cutoff } }, { revokedAt: { lt: cutoff } }] },
+    });
+    if (count > 0) this.logger.log(`Deleted ${count} expired/revoked user sessions`);
+  }
+
+  // ── Helpers ─────────────────────────────────────────────────────
+
+  private signRefreshToken(userId: string, sessionId: string): string {
+    // jti ngẫu nhiên → mỗi lần xoay ra token (và hash) khác nhau
+    return this.jwtService.sign(
+      { sub: userId, sid: sessionId, type: 'refresh', jti: randomUUID() },
+      { expiresIn: `${SESSION_TTL_DAYS}d`, secret: this.envConfig.jwtSecret },
+    );
+  }
+
+  private issuedBefore(payload: { iat?: number }, revokedAt: Date | null): boolean {
+    return !!revokedAt && (payload.iat ?? 0) * 1000 < revokedAt.getTime();
+  }
+
+  private expiryFromNow(): Date {
+    return new Date(Date.now() + SESSION_TTL_DAYS * DAY_MS);
+  }
+
+  private clientData(client: SessionClientInfo) {
+    const userAgent = client.userAgent?.slice(0, 500) || null;
+    return {
+      userAgent,
+      ipAddress: client.ipAddress || null,
+      deviceName: userAgent ? describeDevice(userAgent) : null,
+      isIOS: client.device?.isIOS ?? false,
+      osVersion: client.device?.version ?? null,
+    };
+  }
+
+  private hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
+
+/** Tên thiết bị dễ đọc từ User-Agent: "iPhone · Safari", "Windows · Chrome" */
+export function describeDevice(userAgent: string): string {
+  const platform =
+    /iPhone/i.test(userAgent) ? 'iPhone'
+      : /iPad/i.test(userAgent) ? 'iPad'
+      : /Android/i.test(userAgent) ? 'Android'
+      : /Windows/i.test(userAgent) ? 'Windows'
+      : /Mac OS X|Macintosh/i.test(userAgent) ? 'Mac'
+      : /Linux/i.test(userAgent) ? 'Linux'
+      : 'Thiết bị khác';
+  const browser =
+    /Edg(e|A|iOS)?\//i.test(userAgent) ? 'Edge'
+      : /CriOS|Chrome\//i.test(userAgent) ? 'Chrome'
+      : /FxiOS|Firefox\//i.test(userAgent) ? 'Firefox'
+      : /Safari\//i.test(userAgent) ? 'Safari'
+      : null;
+  return browser ? `${platform} · ${browser}` : platform;
+}
@@ -0,0 +1,22 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const AUDIT_KEY = 'audit';
+
+export interface AuditOptions {
+  /** Tên model Prisma của entity (User, RoleDefinition, GatePassApprovalConfig, ...) */
+  entity: string;
+  /** Route param chứa id entity — mặc định 'id' */
+  idParam?: string;
+  /** Ghi đè action — mặc định lấy theo tên handler (approve → APPROVE, updateConfig → UPDATE_CONFIG) */
+  action?: string;
+  /** false = không chụp before/after từ DB (endpoint hàng loạt, id không phải của entity) */
+  snapshot?: boolean;
+}
+
+/**
+ * Ghi nhật ký cho các request thay đổi dữ liệu (POST/PUT/PATCH/DELETE)
+ * Usage: @Audit('User') trên controller hoặc @Audit({ entity: 'UserRole', idParam: 'userId' }) trên method
+ * Method-level ghi đè class-level; @Audit(false) để bỏ qua một endpoint.
+ */
+export const Audit = (options: string | AuditOptions | false) =>
+  SetMetadata(AUDIT_KEY, typeof options === 'string' ? { entity: options } : options);
@@ -52,8 +52,8 @@ export class PermissionsGuard implements CanActivate {
       return true;
     }
 
-    // Look up effective permissions from DB (combines all role permissions)
-    const userPermissions = await this.permissionsService.getUserPermissions(user.id);
+    // Look up effective permissions from DB (role assignments covering the active scope)
+    const userPermissions = await this.permissionsService.getUserPermissions(user.id, user.activeScope);
 
     const hasAllPermissions = requiredPermissions.every((permission) =>
       userPermissions.permissions.includes(permission),
@@ -20,12 +20,14 @@ import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { RolesGuard } from './guards/roles.guard';
 import { Roles } from './decorators/roles.decorator';
 import { RequirePermissions } from './decorators/permissions.decorator';
+import { Audit } from './decorators/audit.decorator';
 
 @ApiTags('Permissions Management')
 @Controller('permissions')
 @UseGuards(JwtAuthGuard, RolesGuard)
 @RequirePermissions('roles:manage')
 @ApiBearerAuth()
+@Audit('Permission')
 export class PermissionsController {
   constructor(private readonly permissionsService: PermissionsService) {}
 
@@ -3,7 +3,39 @@ import {
   NotFoundException,
   ConflictException,
 } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from './prisma.service';
+import { OrgScope, roleCoversScope } from './utils/role-scope';
+
+// Snapshot quyền theo user — giữ trong bộ nhớ, mỗi lần đọc so với users.permissionsVersion
+// (dùng chung mọi instance) nên đổi quyền ở instance nào cũng có hiệu lực ngay (TTL chỉ là lưới an toàn)
+const PERMISSION_CACHE_TTL_MS = 5 * 60_000;
+const PERMISSION_CACHE_MAX_USERS = 5000;
+
+const PERMISSION_SNAPSHOT_SELECT = {
+  permissionsVersion: true,
+  companyId: true,
+  officeId: true,
+  jobPosition: { select: { departmentId: true } },
+  roles: {
+    where: { isActive: true },
+    include: {
+      roleDefinition: {
+        include: {
+          permissions: {
+            where: { isGranted: true },
+            include: { permission: true },
+          },
+        },
+      },
+    },
+  },
+  directPermissions: {
+    include: { permission: true },
+  },
+} satisfies Prisma.UserSelect;
+
+type PermissionSnapshot = Prisma.UserGetPayload<{ select: typeof PERMISSION_SNAPSHOT_SELECT }>;
 
 export interface UserPermissions {
   roles: Array<{
@@ -12,7 +44,8 @@ export interface UserPermissions {
     code: string;
     description: string | null;
     isSystem: boolean;
-  }>; // Multiple role assignments
+  }>; // Role assignments applying in `scope`
+  scope: OrgScope;
   permissions: string[];
   resources: {
     [resource: string]: {
@@ -35,45 +68,37 @@ export interface PermissionDto {
 
 @Injectable()
 export class PermissionsService {
+  private readonly snapshots = new Map<string, { snapshot: PermissionSnapshot; expiresAt: number }>();
+  private readonly loading = new Map<string, Promise<PermissionSnapshot | null>>();
+
   constructor(private prisma: PrismaService) {}
 
   // ========== USER PERMISSIONS ==========
 
   /**
    * Get all permissions for a user (supports multiple roles + direct overrides)
+   * scope: org unit being acted on — only role assignments covering it count
+   * (default: the user's own company / office / department)
    */
-  async getUserPermissions(userId: string): Promise<UserPermissions> {
-    const user = await this.prisma.user.findUnique({
-      where: { id: userId },
-      select: {
-        roles: {
-          where: { isActive: true },
-          include: {
-            roleDefinition: {
-              include: {
-                permissions: {
-                  where: { isGranted: true },
-                  include: { permission: true },
-                },
-              },
-            },
-          },
-        },
-        directPermissions: {
-          include: { permission: true },
-        },
-      },
-    });
+  async getUserPermissions(userId: string, scope?: OrgScope): Promise<UserPermissions> {
+    const user = await this.getSnapshot(userId);
 
     if (!user) {
       throw new NotFoundException('User not found');
     }
 
+    const effectiveScope: OrgScope = scope ?? {
+      companyId: user.companyId,
+      officeId: user.officeId,
+      departmentId: user.jobPosition?.departmentId ?? null,
+    };
+    const applicableRoles = user.roles.filter((userRole) => roleCoversScope(userRole, effectiveScope));
+
     // 1. Aggregate from all assigned roles
     const permissionsMap = new Map<string, boolean>();
 
-    if (user.roles && user.roles.length > 0) {
-      user.roles.forEach((userRole) => {
+    if (applicableRoles.length > 0) {
+      applicableRoles.forEach((userRole) => {
         userRole.roleDefinition.permissions.forEach((rdp) => {
           const key = `${rdp.permission.resource}:${rdp.permission.action}`;
           permissionsMap.set(key, rdp.isGranted);
@@ -103,7 +128,7 @@ export class PermissionsService {
       resources[resource][action] = true;
     });
 
-    const roles = user.roles.map((userRole) => ({
+    const roles = applicableRoles.map((userRole) => ({
       id: userRole.roleDefinition.id,
       name: userRole.roleDefinition.name,
       code: userRole.roleDefinition.code,
@@ -111,7 +136,7 @@ export class PermissionsService {
       isSystem: userRole.roleDefinition.isSystem,
     }));
 
-    return { roles, permissions, resources };
+    return { roles, scope: effectiveScope, permissions, resources };
   }
 
   /**
@@ -121,21 +146,110 @@ export class PermissionsService {
     userId: string,
     resource: string,
     action: string,
+    scope?: OrgScope,
   ): Promise<boolean> {
-    const userPerms = await this.getUserPermissions(userId);
+    const userPerms = await this.getUserPermissions(userId, scope);
     return userPerms.permissions.includes(`${resource}:${action}`);
   }
 
   /**
    * Check if user can access resource (any action)
    */
-  async canAccess(userId: string, resource: string): Promise<boolean> {
-    const userPerms = await this.getUserPermissions(userId);
+  async canAccess(userId: string, resource: string, scope?: OrgScope): Promise<boolean> {
+    const userPerms = await this.getUserPermissions(userId, scope);
     return userPerms.permissions.some((perm) =>
       perm.startsWith(`${resource}:`),
     );
   }
 
+  // ========== PERMISSION CACHE ==========
+
+  /** Huỷ snapshot của user — gọi sau khi đổi role assignment, quyền riêng hoặc nơi làm việc */
+  async invalidateUsers(...userIds: string[]) {
+    for (const userId of userIds) {
+      this.snapshots.delete(userId);
+      this.loading.delete(userId);
+    }
+    await this.bumpVersion({ id: { in: userIds } });
+  }
+
+  /** Huỷ snapshot của mọi user đang giữ role — gọi sau khi đổi quyền / thông tin của role */
+  async invalidateRole(roleDefinitionId: string) {
+    for (const [userId, entry] of this.snapshots) {
+      if (entry.snapshot.roles.some((r) => r.roleDefinitionId === roleDefinitionId)) {
+        this.snapshots.delete(userId);
+      }
+    }
+    this.loading.clear();
+    await this.bumpVersion({ roles: { some: { roleDefinitionId } } });
+  }
+
+  /** Huỷ snapshot của user thuộc vị trí — gọi khi vị trí chuyển phòng ban (đổi scope mặc định) */
+  async invalidateJobPosition(jobPositionId: string) {
+    this.loading.clear();
+    await this.bumpVersion({ jobPositionId });
+  }
+
+  /** Huỷ toàn bộ — khi danh mục permission thay đổi */
+  async invalidateAll() {
+    this.snapshots.clear();
+    this.loading.clear();
+    await this.bumpVersion({});
+  }
+
+  private async bumpVersion(where: Prisma.UserWhereInput) {
+    await this.prisma.user.updateMany({ where, data: { permissionsVersion: { increment: 1 } } });
+  }
+
+  private async getSnapshot(userId: string): Promise<PermissionSnapshot | null> {
+    const cached = this.snapshots.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+      // Instance khác có thể đã đổi quyền — chỉ dùng snapshot khi phiên bản trong DB chưa đổi
+      const current = await this.prisma.user.findUnique({ where: { id: userId }, select: { permissionsVersion: true } });
+      if (current?.permissionsVersion === cached.snapshot.permissionsVersion) return cached.snapshot;
+      this.snapshots.delete(userId);
+    }
+
+    // Gộp các request đồng thời của cùng user vào 1 lần đọc DB
+    let pending = this.loading.get(userId);
+    if (!pending) {
+      pending = this.prisma.user
+        .findUnique({ where: { id: userId }, select: PERMISSION_SNAPSHOT_SELECT })
+        .then((snapshot) => {
+          // Phiên bản đọc cùng snapshot → đổi quyền trong lúc đang load sẽ bị phát hiện ở lần đọc sau
+          if (snapshot) this.store(userId, snapshot);
+          return snapshot;
+        })
+        .finally(() => {
+          if (this.loading.get(userId) === pending) this.loading.delete(userId);
+        });
+      this.loading.set(userId, pending);
+    }
+    return pending;
+  }
+
+  private store(userId: string, snapshot: PermissionSnapshot) {
+    this.snapshots.delete(userId);
+    if (this.snapshots.size >= PERMISSION_CACHE_MAX_USERS) {
+      // Map giữ thứ tự chèn → bỏ entry cũ nhất
+      this.snapshots.delete(this.snapshots.keys().next().value!);
+    }
+    this.snapshots.set(userId, { snapshot, expiresAt: Date.now() + PERMISSION_CACHE_TTL_MS });
+  }
+
+  /** Scope của 1 user (người gửi đơn...) — công ty / văn phòng / phòng ban hiện tại */
+  async getUserScope(userId: string): Promise<OrgScope> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { companyId: true, officeId: true, jobPosition: { select: { departmentId: true } } },
+    });
+    return {
+      companyId: user?.companyId ?? null,
+      officeId: user?.officeId ?? null,
+      departmentId: user?.jobPosition?.departmentId ?? null,
+    };
+  }
+
   // ========== PERMISSION CRUD ==========
 
   async getAllPermissions() {
@@ -178,18 +292,22 @@ export class PermissionsService {
   async updatePermission(id: string, dto: Partial<PermissionDto>) {
     await this.getPermissionById(id);
 
-    return this.prisma.permission.update({
+    const updated = await this.prisma.permission.update({
       where: { id },
       data: dto,
     });
+    await this.invalidateAll();
+    return updated;
   }
 
   async deletePermission(id: string) {
     await this.getPermissionById(id);
 
-    return this.prisma.permission.delete({
+    const deleted = await this.prisma.permission.delete({
       where: { id },
     });
+    await this.invalidateAll();
+    return deleted;
   }
 
   /**
@@ -225,6 +343,7 @@ export class PermissionsService {
     const result = await this.prisma.permission.deleteMany({
       where: { id: { in: ids } },
     });
+    await this.invalidateAll();
     return { deleted: result.count };
   }
 
@@ -233,6 +352,7 @@ export class PermissionsService {
    */
   async deleteAllPermissions(): Promise<{ deleted: number }> {
     const result = await this.prisma.permission.deleteMany({});
+    await this.invalidateAll();
     return { deleted: result.count };
   }
 
@@ -355,6 +475,7 @@ export class PermissionsService {
     await this._assignPermissionsToRole('USER', ['gate-pass'], roleAssignments, ['create']);
     await this._assignPermissionsToRole('USER', ['worksheets'], roleAssignments, ['create', 'update']);
     await this._assignPermissionsToRole('USER', ['task-evaluations'], roleAssignments, ['create', 'update', 'delete']);
+    await this.invalidateAll();
 
     return {
       totalPermissions: created,
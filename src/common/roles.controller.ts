@@ -16,11 +16,13 @@ import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { RolesGuard } from './guards/roles.guard';
 import { Roles } from './decorators/roles.decorator';
 import { RequirePermissions } from './decorators/permissions.decorator';
+import { Audit } from './decorators/audit.decorator';
 
 @ApiTags('Roles Management')
 @Controller('roles')
 @UseGuards(JwtAuthGuard, RolesGuard)
 @ApiBearerAuth()
+@Audit('RoleDefinition')
 export class RolesController {
   constructor(private readonly rolesService: RolesService) {}
 
@@ -104,6 +106,7 @@ export class RolesController {
 
   @Delete(':roleId/users/:userId')
   @Roles('SUPERADMIN')
+  @Audit({ entity: 'User', idParam: 'userId', snapshot: false })
   @RequirePermissions('roles:manage')
   @ApiOperation({ summary: 'Remove user from role' })
   async removeUserFromRole(
@@ -115,6 +118,7 @@ export class RolesController {
 
   @Put('users/:userId/roles')
   @Roles('SUPERADMIN')
+  @Audit({ entity: 'User', idParam: 'userId', snapshot: false })
   @RequirePermissions('roles:manage')
   @ApiOperation({ summary: 'Assign roles to user (replace all)' })
   async assignRolesToUser(
@@ -1,5 +1,6 @@
 import { Injectable, NotFoundException, ConflictException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from './prisma.service';
+import { GLOBAL_SCOPE_KEY } from './utils/role-scope';
 import { PermissionsService } from './permissions.service';
 import { CreateRoleDto, UpdateRoleDto, AssignRolesToUserDto, AssignUsersToRoleDto } from './dto/role.dto';
 
@@ -159,6 +160,7 @@ export class RolesService {
     if (dto.permissionIds !== undefined) {
       await this.assignPermissionsToRole(id, dto.permissionIds);
     }
+    await this.permissionsService.invalidateRole(id);
 
     return this.getRoleById(id);
   }
@@ -181,6 +183,7 @@ export class RolesService {
     await this.prisma.roleDefinition.delete({
       where: { id },
     });
+    await this.permissionsService.invalidateRole(id);
 
     return { message: 'Role deleted successfully' };
   }
@@ -207,6 +210,7 @@ export class RolesService {
         })),
       });
     }
+    await this.permissionsService.invalidateRole(roleId);
 
     return this.getRoleById(roleId);
   }
@@ -283,9 +287,9 @@ export class RolesService {
       throw new BadRequestException('One or more roles not found or inactive');
     }
 
-    // Delete existing role assignments
+    // Delete existing global role assignments (company/office/department-scoped ones are kept)
     await this.prisma.userRole.deleteMany({
-      where: { userId },
+      where: { userId, scopeKey: GLOBAL_SCOPE_KEY },
     });
 
     // Create new assignments
@@ -298,6 +302,7 @@ export class RolesService {
         })),
       });
     }
+    await this.permissionsService.invalidateUsers(userId);
 
     return this.getUserRoles(userId);
   }
@@ -348,9 +353,10 @@ export class RolesService {
     for (const userId of dto.userIds) {
       await this.prisma.userRole.upsert({
         where: {
-          userId_roleDefinitionId: {
+          userId_roleDefinitionId_scopeKey: {
             userId,
             roleDefinitionId: roleId,
+            scopeKey: GLOBAL_SCOPE_KEY,
           },
         },
         create: {
@@ -363,6 +369,7 @@ export class RolesService {
         },
       });
     }
+    await this.permissionsService.invalidateUsers(...dto.userIds);
 
     return this.getUsersByRole(roleId);
   }
@@ -371,27 +378,15 @@ export class RolesService {
    * Remove role from user
    */
   async removeRoleFromUser(userId: string, roleId: string) {
-    const assignment = await this.prisma.userRole.findUnique({
-      where: {
-        userId_roleDefinitionId: {
-          userId,
-          roleDefinitionId: roleId,
-        },
-      },
+    // Removes the role in every scope
+    const { count } = await this.prisma.userRole.deleteMany({
+      where: { userId, roleDefinitionId: roleId },
     });
 
-    if (!assignment) {
+    if (count === 0) {
       throw new NotFoundException('Role assignment not found');
     }
-
-    await this.prisma.userRole.delete({
-      where: {
-        userId_roleDefinitionId: {
-          userId,
-          roleDefinitionId: roleId,
-        },
-      },
-    });
+    await this.permissionsService.invalidateUsers(userId);
 
     return { message: 'Role removed from user successfully' };
   }
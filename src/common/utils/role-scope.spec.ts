@@ -0,0 +1,32 @@
+import { roleCoversScope, roleScopeKey, roleScopeWhere, scopeToUserWhere } from './role-scope';
+
+describe('Role scope utils', () => {
+  const scope = { companyId: 'c1', officeId: 'o1', departmentId: 'd1' };
+
+  it('should apply global assignments everywhere', () => {
+    expect(roleCoversScope({ scopeType: 'GLOBAL' }, scope)).toBe(true);
+    expect(roleCoversScope({ scopeType: 'GLOBAL' }, {})).toBe(true);
+  });
+
+  it('should only apply scoped assignments inside their unit', () => {
+    expect(roleCoversScope({ scopeType: 'COMPANY', companyId: 'c1' }, scope)).toBe(true);
+    expect(roleCoversScope({ scopeType: 'COMPANY', companyId: 'c2' }, scope)).toBe(false);
+    expect(roleCoversScope({ scopeType: 'OFFICE', officeId: 'o1' }, { companyId: 'c1' })).toBe(false);
+    expect(roleCoversScope({ scopeType: 'DEPARTMENT', departmentId: 'd1' }, scope)).toBe(true);
+    expect(roleCoversScope({ scopeType: 'DEPARTMENT', departmentId: 'd2' }, scope)).toBe(false);
+  });
+
+  it('should build unique scope keys', () => {
+    expect(roleScopeKey({ scopeType: 'GLOBAL' })).toBe('GLOBAL');
+    expect(roleScopeKey({ scopeType: 'COMPANY', companyId: 'c1' })).toBe('COMPANY:c1');
+    expect(roleScopeKey({ scopeType: 'DEPARTMENT', departmentId: 'd1' })).toBe('DEPARTMENT:d1');
+  });
+
+  it('should build prisma filters', () => {
+    expect(roleScopeWhere({ companyId: 'c1' })).toEqual({
+      OR: [{ scopeType: 'GLOBAL' }, { scopeType: 'COMPANY', companyId: 'c1' }],
+    });
+    expect(scopeToUserWhere({ scopeType: 'GLOBAL' })).toBeNull();
+    expect(scopeToUserWhere({ scopeType: 'OFFICE', officeId: 'o1' })).toEqual({ officeId: 'o1' });
+  });
+});
@@ -0,0 +1,74 @@
+import { Prisma, RoleScopeType } from '@prisma/client';
+
+/**
+ * Phạm vi role assignment (UserRole.scopeType):
+ * - GLOBAL: áp dụng mọi nơi (hành vi trước đây)
+ * - COMPANY / OFFICE / DEPARTMENT: chỉ áp dụng khi đối tượng đang xét thuộc đúng công ty / văn phòng / phòng ban đó
+ * "Đối tượng đang xét" = OrgScope: nơi làm việc của user (mặc định), công ty đang chọn (header x-company-id)
+ * hoặc người gửi đơn khi xác định người duyệt.
+ */
+
+export const GLOBAL_SCOPE_KEY = 'GLOBAL';
+
+export interface OrgScope {
+  companyId?: string | null;
+  officeId?: string | null;
+  departmentId?: string | null;
+}
+
+export interface ScopedAssignment {
+  scopeType: RoleScopeType | `${RoleScopeType}`;
+  companyId?: string | null;
+  officeId?: string | null;
+  departmentId?: string | null;
+}
+
+/** Giá trị cột scopeKey — dùng cho unique (userId, roleDefinitionId, scopeKey) */
+export function roleScopeKey(assignment: ScopedAssignment): string {
+  switch (assignment.scopeType) {
+    case 'COMPANY':
+      return `COMPANY:${assignment.companyId}`;
+    case 'OFFICE':
+      return `OFFICE:${assignment.officeId}`;
+    case 'DEPARTMENT':
+      return `DEPARTMENT:${assignment.departmentId}`;
+    default:
+      return GLOBAL_SCOPE_KEY;
+  }
+}
+
+export function roleCoversScope(assignment: ScopedAssignment, scope: OrgScope): boolean {
+  switch (assignment.scopeType) {
+    case 'COMPANY':
+      return !!scope.companyId && assignment.companyId === scope.companyId;
+    case 'OFFICE':
+      return !!scope.officeId && assignment.officeId === scope.officeId;
+    case 'DEPARTMENT':
+      return !!scope.departmentId && assignment.departmentId === scope.departmentId;
+    default:
+      return true;
+  }
+}
+
+/** Điều kiện Prisma: các UserRole áp dụng được cho scope */
+export function roleScopeWhere(scope: OrgScope): Prisma.UserRoleWhereInput {
+  const OR: Prisma.UserRoleWhereInput[] = [{ scopeType: 'GLOBAL' }];
+  if (scope.companyId) OR.push({ scopeType: 'COMPANY', companyId: scope.companyId });
+  if (scope.officeId) OR.push({ scopeType: 'OFFICE', officeId: scope.officeId });
+  if (scope.departmentId) OR.push({ scopeType: 'DEPARTMENT', departmentId: scope.departmentId });
+  return { OR };
+}
+
+/** Điều kiện Prisma trên User (người gửi đơn) thuộc phạm vi của assignment — null = không giới hạn */
+export function scopeToUserWhere(assignment: ScopedAssignment): Prisma.UserWhereInput | null {
+  switch (assignment.scopeType) {
+    case 'COMPANY':
+      return { companyId: assignment.companyId! };
+    case 'OFFICE':
+      return { officeId: assignment.officeId! };
+    case 'DEPARTMENT':
+      return { jobPosition: { departmentId: assignment.departmentId! } };
+    default:
+      return null;
+  }
+}
@@ -28,6 +28,7 @@ import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
 import { RequirePermissions } from '../common/decorators/permissions.decorator';
 import { GetUser } from '../common/decorators/get-user.decorator';
+import { Audit } from '../common/decorators/audit.decorator';
 import { InventoryService } from './inventory.service';
 import {
   CreateMedicineCategoryDto,
@@ -46,6 +47,7 @@ import {
 @UseGuards(JwtAuthGuard, RolesGuard)
 @RequirePermissions('healthcare:view')
 @ApiBearerAuth('JWT-auth')
+@Audit({ entity: 'MedicineInventory', snapshot: false }) // nhập/xuất hàng loạt — chỉ lưu payload
 export class InventoryController {
   constructor(private readonly inventoryService: InventoryService) {}
 
@@ -69,6 +71,7 @@ export class InventoryController {
 
   @Post('categories')
   @RequirePermissions('healthcare:create')
+  @Audit('MedicineCategory')
   @Roles('MEDICAL_STAFF', 'ADMIN', 'SUPERADMIN')
   @ApiOperation({ summary: 'Create new medicine category' })
   @UsePipes(new ValidationPipe({ whitelist: true, transform: true }))
@@ -78,6 +81,7 @@ export class InventoryController {
 
   @Patch('categories/:id')
   @RequirePermissions('healthcare:update')
+  @Audit('MedicineCategory')
   @Roles('MEDICAL_STAFF', 'ADMIN', 'SUPERADMIN')
   @ApiOperation({ summary: 'Update medicine category' })
   @UsePipes(new ValidationPipe({ whitelist: true, transform: true }))
@@ -90,6 +94,7 @@ export class InventoryController {
 
   @Delete('categories/:id')
   @RequirePermissions('healthcare:update')
+  @Audit('MedicineCategory')
   @Roles('MEDICAL_STAFF', 'ADMIN', 'SUPERADMIN')
   @ApiOperation({ summary: 'Delete medicine category (soft delete)' })
   async deleteCategory(@Param('id') id: string) {
@@ -447,6 +452,7 @@ export class InventoryController {
 
   @Patch('transactions/:id/cancel')
   @UseGuards(JwtAuthGuard, RolesGuard)
+  @Audit('InventoryTransaction')
   @Roles('SUPERADMIN')
   @ApiOperation({ summary: 'Cancel an inventory transaction and reverse inventory balance' })
   @ApiResponse({ status: 200, description: 'Transaction cancelled and inventory reversed' })
@@ -467,6 +473,7 @@ export class InventoryController {
 
   @Delete('transactions/:id')
   @UseGuards(JwtAuthGuard, RolesGuard)
+  @Audit('InventoryTransaction')
   @Roles('SUPERADMIN')
   @ApiOperation({ summary: 'Delete an inventory transaction record (no balance change)' })
   @ApiResponse({ status: 200, description: 'Transaction deleted' })
@@ -0,0 +1,62 @@
+import {
+  Controller, Get, Post, Delete, Body, Param, Query,
+  ParseUUIDPipe, DefaultValuePipe, ParseIntPipe,
+} from '@nestjs/common';
+import { GetUser } from 'src/common/decorators/get-user.decorator';
+import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+import { Audit } from 'src/common/decorators/audit.decorator';
+import { PermissionsService } from 'src/common/permissions.service';
+import { ApprovalDelegationService, DelegationActor } from './approval-delegation.service';
+import { CreateApprovalDelegationDto } from './dto/create-approval-delegation.dto';
+
+@Controller('approval-delegations')
+@Audit('ApprovalDelegation')
+export class ApprovalDelegationController {
+  constructor(
+    private readonly service: ApprovalDelegationService,
+    private readonly permissionsService: PermissionsService,
+  ) {}
+
+  private resolveCompanyId(user: any): string | undefined {
+    const isSuperAdmin = user?.roles?.some((r: any) => r?.roleDefinition?.code === 'SUPERADMIN');
+    return isSuperAdmin ? undefined : (user?.companyId ?? undefined);
+  }
+
+  private async toActor(user: any): Promise<DelegationActor> {
+    const companyId = this.resolveCompanyId(user);
+    const canManage = !companyId || (await this.permissionsService.hasPermission(user.id, 'leave-approvals', 'manage'));
+    return { id: user.id, companyId, canManage };
+  }
+
+  /** Ủy quyền đã giao / đang nhận của bản thân */
+  @Get('me')
+  findMine(@GetUser('id') userId: string) {
+    return this.service.findMine(userId);
+  }
+
+  @Get()
+  @RequirePermissions('leave-approvals:manage')
+  findAll(
+    @GetUser() user: any,
+    @Query('delegatorId') delegatorId?: string,
+    @Query('delegateId') delegateId?: string,
+    @Query('activeOnly') activeOnly?: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page?: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit?: number,
+  ) {
+    return this.service.findAll(this.resolveCompanyId(user), {
+      delegatorId, delegateId, activeOnly: activeOnly === 'true', page, limit,
+    });
+  }
+
+  /** Ủy quyền duyệt của bản thân — hoặc thay người khác nếu có leave-approvals:manage */
+  @Post()
+  async create(@GetUser() user: any, @Body() dto: CreateApprovalDelegationDto) {
+    return this.service.create(dto, await this.toActor(user));
+  }
+
+  @Delete(':id')
+  async revoke(@GetUser() user: any, @Param('id', ParseUUIDPipe) id: string) {
+    return this.service.revoke(id, await this.toActor(user));
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { CommonModule } from '../../common/common.module';
+import { WebSocketModule } from '../websocket/websocket.module';
+import { ApprovalDelegationController } from './approval-delegation.controller';
+import { ApprovalDelegationService } from './approval-delegation.service';
+
+@Module({
+  imports: [CommonModule, WebSocketModule],
+  controllers: [ApprovalDelegationController],
+  providers: [ApprovalDelegationService],
+  exports: [ApprovalDelegationService],
+})
+export class ApprovalDelegationModule {}
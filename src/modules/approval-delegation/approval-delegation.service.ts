@@ -0,0 +1,315 @@
+import {
+  BadRequestException, ConflictException, ForbiddenException, Injectable, Logger, NotFoundException,
+} from '@nestjs/common';
+import { ApprovalDelegationMode, Prisma } from '@prisma/client';
+import { PrismaService } from '../../common/prisma.service';
+import { PermissionsService } from '../../common/permissions.service';
+import { WebSocketGateway } from '../websocket/websocket.gateway';
+import { CreateApprovalDelegationDto } from './dto/create-approval-delegation.dto';
+
+const DAY_MS = 86_400_000;
+const VN_OFFSET_MS = 7 * 60 * 60 * 1000;
+// Khoảng ủy quyền tối đa mỗi lần
+const MAX_DELEGATION_DAYS = 366;
+
+export type DelegationScope = 'LEAVE' | 'GATE_PASS';
+
+export interface DelegationActor {
+  id: string;
+  companyId?: string; // undefined = SUPERADMIN
+  canManage: boolean; // leave-approvals:manage — ủy quyền / thu hồi thay người khác
+}
+
+export interface DelegationQuery {
+  delegatorId?: string;
+  delegateId?: string;
+  activeOnly?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+const PERSON_SELECT = { id: true, firstName: true, lastName: true, employeeCode: true } as const;
+
+const delegationInclude = {
+  delegator: { select: PERSON_SELECT },
+  delegate: { select: PERSON_SELECT },
+  leaveRequest: { select: { id: true, requestNumber: true } },
+} satisfies Prisma.ApprovalDelegationInclude;
+
+/** Ngày hiện tại theo giờ VN, dạng Date UTC 00:00 (so sánh với cột @db.Date) */
+function vnToday(now = new Date()): Date {
+  return new Date(Math.floor((now.getTime() + VN_OFFSET_MS) / DAY_MS) * DAY_MS);
+}
+
+/**
+ * ApprovalDelegationService
+ * Ủy quyền duyệt đơn nghỉ phép / giấy ra vào cổng trong thời gian vắng mặt:
+ * - DATE_RANGE: hiệu lực trong [startDate, endDate] (giờ VN)
+ * - ON_LEAVE: mẫu — khi đơn nghỉ của người ủy quyền được duyệt, tự sinh DATE_RANGE theo ngày nghỉ;
+ *   huỷ đơn nghỉ → thu hồi ủy quyền đã sinh
+ * Người được ủy quyền duyệt được những gì delegator duyệt được (không bắc cầu),
+ * bản ghi duyệt lưu isSubstitute + targetUserId = delegator + delegationId.
+ */
+@Injectable()
+export class ApprovalDelegationService {
+  private readonly logger = new Logger(ApprovalDelegationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly permissionsService: PermissionsService,
+    private readonly wsGateway: WebSocketGateway,
+  ) {}
+
+  // ── Tra cứu ủy quyền đang hiệu lực ───────────────────────────
+
+  private activeWhere(scope: DelegationScope, at: Date): Prisma.ApprovalDelegationWhereInput {
+    const today = vnToday(at);
+    return {
+      mode: ApprovalDelegationMode.DATE_RANGE,
+      revokedAt: null,
+      startDate: { lte: today },
+      endDate: { gte: today },
+      ...(scope === 'LEAVE' ? { coversLeave: true } : { coversGatePass: true }),
+    };
+  }
+
+  /** Những người đang ủy quyền cho delegateId */
+  getActiveDelegators(delegateId: string, scope: DelegationScope, at = new Date()) {
+    return this.prisma.approvalDelegation.findMany({
+      where: { ...this.activeWhere(scope, at), delegateId },
+      select: { id: true, delegatorId: true, delegator: { select: PERSON_SELECT } },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /** Người đang nhận ủy quyền của các delegatorIds (để gửi thông báo kèm) */
+  getActiveDelegates(delegatorIds: string[], scope: DelegationScope, at = new Date()) {
+    if (!delegatorIds.length) return Promise.resolve([]);
+    return this.prisma.approvalDelegation.findMany({
+      where: { ...this.activeWhere(scope, at), delegatorId: { in: delegatorIds }, delegate: { isActive: true } },
+      select: { id: true, delegatorId: true, delegateId: true },
+    });
+  }
+
+  /** Thêm người nhận ủy quyền vào danh sách người nhận thông báo */
+  async withDelegates(userIds: string[], scope: DelegationScope): Promise<string[]> {
+    const delegates = await this.getActiveDelegates(userIds, scope);
+    return [...new Set([...userIds, ...delegates.map((d) => d.delegateId)])];
+  }
+
+  // ── CRUD ──────────────────────────────────────────────────────
+
+  async create(dto: CreateApprovalDelegationDto, actor: DelegationActor) {
+    const delegatorId = dto.delegatorId ?? actor.id;
+    if (delegatorId !== actor.id && !actor.canManage) {
+      throw new ForbiddenException('Bạn chỉ có thể ủy quyền duyệt của chính mình');
+    }
+    if (delegatorId === dto.delegateId) {
+      throw new BadRequestException('Không thể tự ủy quyền cho chính mình');
+    }
+
+    const coversLeave = dto.coversLeave ?? true;
+    const coversGatePass = dto.coversGatePass ?? true;
+    if (!coversLeave && !coversGatePass) {
+      throw new BadRequestException('Phải chọn ít nhất một loại đơn được ủy quyền');
+    }
+
+    const [delegator, delegate] = await Promise.all([
+      this.prisma.user.findUnique({ where: { id: delegatorId }, select: { id: true, companyId: true, isActive: true } }),
+      this.prisma.user.findUnique({ where: { id: dto.delegateId }, select: { id: true, companyId: true, isActive: true } }),
+    ]);
+    if (!delegator) throw new NotFoundException('Người ủy quyền không tồn tại');
+    if (!delegate || !delegate.isActive) throw new BadRequestException('Người được ủy quyền không tồn tại hoặc đã ngừng hoạt động');
+    if (actor.companyId && delegator.companyId !== actor.companyId) {
+      throw new ForbiddenException('Không thể ủy quyền cho người duyệt thuộc công ty khác');
+    }
+    if (delegate.companyId !== delegator.companyId) {
+      throw new BadRequestException('Người được ủy quyền phải cùng công ty');
+    }
+
+    // Người được ủy quyền phải gọi được endpoint duyệt tương ứng
+    const [canApproveLeave, canApproveGatePass] = await Promise.all([
+      coversLeave ? this.permissionsService.hasPermission(delegate.id, 'leave-approvals', 'approve') : true,
+      coversGatePass ? this.permissionsService.hasPermission(delegate.id, 'gate-passes', 'approve') : true,
+    ]);
+    if (!canApproveLeave) throw new BadRequestException('Người được ủy quyền không có quyền duyệt đơn nghỉ phép');
+    if (!canApproveGatePass) throw new BadRequestException('Người được ủy quyền không có quyền duyệt giấy ra vào cổng');
+
+    const mode = dto.mode ?? ApprovalDelegationMode.DATE_RANGE;
+    let startDate: Date | null = null;
+    let endDate: Date | null = null;
+
+    if (mode === ApprovalDelegationMode.DATE_RANGE) {
+      if (!dto.startDate || !dto.endDate) {
+        throw new BadRequestException('Ủy quyền theo khoảng ngày cần startDate và endDate');
+      }
+      startDate = new Date(`${dto.startDate.slice(0, 10)}T00:00:00.000Z`);
+      endDate = new Date(`${dto.endDate.slice(0, 10)}T00:00:00.000Z`);
+      if (startDate > endDate) throw new BadRequestException('Ngày bắt đầu phải trước ngày kết thúc');
+      if (endDate < vnToday()) throw new BadRequestException('Khoảng ủy quyền đã kết thúc');
+      if ((endDate.getTime() - startDate.getTime()) / DAY_MS + 1 > MAX_DELEGATION_DAYS) {
+        throw new BadRequestException(`Chỉ ủy quyền tối đa ${MAX_DELEGATION_DAYS} ngày mỗi lần`);
+      }
+    } else {
+      const existing = await this.prisma.approvalDelegation.findFirst({
+        where: { delegatorId, mode: ApprovalDelegationMode.ON_LEAVE, revokedAt: null },
+        select: { id: true },
+      });
+      if (existing) throw new ConflictException('Đã có ủy quyền tự động khi nghỉ phép — thu hồi trước khi tạo mới');
+    }
+
+    const delegation = await this.prisma.approvalDelegation.create({
+      data: {
+        companyId: delegator.companyId,
+        delegatorId,
+        delegateId: delegate.id,
+        mode,
+        startDate,
+        endDate,
+        coversLeave,
+        coversGatePass,
+        reason: dto.reason ?? null,
+        createdById: actor.id,
+      },
+      include: delegationInclude,
+    });
+
+    if (mode === ApprovalDelegationMode.DATE_RANGE) this.notifyDelegate(delegation);
+    return delegation;
+  }
+
+  /** Ủy quyền của bản thân: đã giao và đang nhận (chưa thu hồi, chưa hết hạn) */
+  async findMine(userId: string) {
+    const notExpired: Prisma.ApprovalDelegationWhereInput = {
+      revokedAt: null,
+      OR: [{ mode: ApprovalDelegationMode.ON_LEAVE }, { endDate: { gte: vnToday() } }],
+    };
+    const [given, received] = await Promise.all([
+      this.prisma.approvalDelegation.findMany({
+        where: { ...notExpired, delegatorId: userId },
+        include: delegationInclude,
+        orderBy: [{ startDate: 'asc' }, { createdAt: 'asc' }],
+      }),
+      this.prisma.approvalDelegation.findMany({
+        where: { ...notExpired, delegateId: userId, mode: ApprovalDelegationMode.DATE_RANGE },
+        include: delegationInclude,
+        orderBy: { startDate: 'asc' },
+      }),
+    ]);
+    return { given, received };
+  }
+
+  async findAll(companyId: string | undefined, query: DelegationQuery) {
+    const page = query.page ?? 1;
+    const limit = Math.min(query.limit ?? 20, 100);
+    const where: Prisma.ApprovalDelegationWhereInput = {
+      ...(companyId ? { companyId } : {}),
+      ...(query.delegatorId ? { delegatorId: query.delegatorId } : {}),
+      ...(query.delegateId ? { delegateId: query.delegateId } : {}),
+      ...(query.activeOnly
+        ? { revokedAt: null, OR: [{ mode: ApprovalDelegationMode.ON_LEAVE }, { endDate: { gte: vnToday() } }] }
+        : {}),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.approvalDelegation.findMany({
+        where,
+        include: delegationInclude,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.approvalDelegation.count({ where }),
+    ]);
+    return { data, total, page, limit };
+  }
+
+  /** Thu hồi — mẫu ON_LEAVE thu hồi kèm các ủy quyền nó đã sinh còn hiệu lực */
+  async revoke(id: string, actor: DelegationActor) {
+    const delegation = await this.prisma.approvalDelegation.findUnique({ where: { id } });
+    if (!delegation) throw new NotFoundException('Ủy quyền không tồn tại');
+
+    const isOwner = delegation.delegatorId === actor.id || delegation.createdById === actor.id;
+    if (!isOwner && !(actor.canManage && (!actor.companyId || actor.companyId === delegation.companyId))) {
+      throw new ForbiddenException('Bạn không có quyền thu hồi ủy quyền này');
+    }
+    if (delegation.revokedAt) throw new BadRequestException('Ủy quyền đã được thu hồi');
+
+    const now = new Date();
+    await this.prisma.approvalDelegation.updateMany({
+      where: {
+        revokedAt: null,
+        OR: [
+          { id },
+          ...(delegation.mode === ApprovalDelegationMode.ON_LEAVE
+            ? [{ sourceId: id, endDate: { gte: vnToday(now) } }]
+            : []),
+        ],
+      },
+      data: { revokedAt: now },
+    });
+
+    return this.prisma.approvalDelegation.findUnique({ where: { id }, include: delegationInclude });
+  }
+
+  // ── Tự kích hoạt theo đơn nghỉ ───────────────────────────────
+
+  /** Đơn nghỉ của người duyệt được duyệt → sinh ủy quyền theo các mẫu ON_LEAVE của họ */
+  async activateForApprovedLeave(request: { id: string; userId: string; startDate: Date; endDate: Date }) {
+    const templates = await this.prisma.approvalDelegation.findMany({
+      where: {
+        delegatorId: request.userId,
+        mode: ApprovalDelegationMode.ON_LEAVE,
+        revokedAt: null,
+        delegate: { isActive: true },
+      },
+    });
+    if (!templates.length) return;
+
+    await this.prisma.approvalDelegation.createMany({
+      data: templates.map((t) => ({
+        companyId: t.companyId,
+        delegatorId: t.delegatorId,
+        delegateId: t.delegateId,
+        mode: ApprovalDelegationMode.DATE_RANGE,
+        startDate: request.startDate,
+        endDate: request.endDate,
+        coversLeave: t.coversLeave,
+        coversGatePass: t.coversGatePass,
+        reason: t.reason,
+        sourceId: t.id,
+        leaveRequestId: request.id,
+        createdById: t.createdById,
+      })),
+      skipDuplicates: true,
+    });
+
+    const created = await this.prisma.approvalDelegation.findMany({
+      where: { leaveRequestId: request.id, sourceId: { in: templates.map((t) => t.id) }, revokedAt: null },
+      include: delegationInclude,
+    });
+    created.forEach((d) => this.notifyDelegate(d));
+    this.logger.log(`[Delegation] Kích hoạt ${created.length} ủy quyền theo đơn nghỉ ${request.id}`);
+  }
+
+  /** Đơn nghỉ bị huỷ → thu hồi ủy quyền đã sinh từ đơn */
+  async revokeForLeaveRequest(leaveRequestId: string) {
+    const { count } = await this.prisma.approvalDelegation.updateMany({
+      where: { leaveRequestId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return count;
+  }
+
+  private notifyDelegate(delegation: Prisma.ApprovalDelegationGetPayload<{ include: typeof delegationInclude }>) {
+    const name = `${delegation.delegator.lastName} ${delegation.delegator.firstName}`.trim();
+    const fmt = (d: Date | null) => (d ? d.toISOString().slice(0, 10).split('-').reverse().join('/') : '');
+    this.wsGateway.sendNotification(delegation.delegateId, {
+      type: 'APPROVAL_DELEGATION_ACTIVATED',
+      title: 'Bạn được ủy quyền duyệt đơn',
+      message: `${name} ủy quyền duyệt đơn cho bạn từ ${fmt(delegation.startDate)} đến ${fmt(delegation.endDate)}`,
+      data: { delegationId: delegation.id },
+      timestamp: new Date(),
+    });
+  }
+}
@@ -0,0 +1,37 @@
+import { IsBoolean, IsDateString, IsEnum, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+import { ApprovalDelegationMode } from '@prisma/client';
+
+export class CreateApprovalDelegationDto {
+  @IsUUID()
+  delegateId: string;
+
+  // Bỏ trống = bản thân; ủy quyền thay người khác cần leave-approvals:manage
+  @IsOptional()
+  @IsUUID()
+  delegatorId?: string;
+
+  @IsOptional()
+  @IsEnum(ApprovalDelegationMode)
+  mode?: ApprovalDelegationMode;
+
+  @IsOptional()
+  @IsDateString()
+  startDate?: string; // YYYY-MM-DD — bắt buộc với DATE_RANGE
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  coversLeave?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  coversGatePass?: boolean;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,62 @@
+import {
+  Controller, Get, Param, Query, Res, ParseUUIDPipe, DefaultValuePipe, ParseIntPipe,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+import { GetUser } from 'src/common/decorators/get-user.decorator';
+import { AuditLogService } from './audit-log.service';
+
+@Controller('audit-logs')
+export class AuditLogController {
+  constructor(private readonly service: AuditLogService) {}
+
+  private resolveCompanyId(user: any): string | undefined {
+    const isSuperAdmin = user?.roles?.some((r: any) => r?.roleDefinition?.code === 'SUPERADMIN');
+    return isSuperAdmin ? undefined : (user?.companyId ?? undefined);
+  }
+
+  @Get()
+  @RequirePermissions('audit-logs:view')
+  findAll(
+    @GetUser() user: any,
+    @Query('entity') entity?: string,
+    @Query('entityId') entityId?: string,
+    @Query('actorId') actorId?: string,
+    @Query('action') action?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page?: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit?: number,
+  ) {
+    return this.service.findAll(this.resolveCompanyId(user), {
+      entity, entityId, actorId, action, from, to, page, limit,
+    });
+  }
+
+  // Đặt trước ':id' để không bị bắt nhầm route
+  @Get('export')
+  @RequirePermissions('audit-logs:view')
+  async export(
+    @GetUser() user: any,
+    @Res() res: Response,
+    @Query('entity') entity?: string,
+    @Query('entityId') entityId?: string,
+    @Query('actorId') actorId?: string,
+    @Query('action') action?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    const { buffer, filename, contentType } = await this.service.exportCsv(this.resolveCompanyId(user), {
+      entity, entityId, actorId, action, from, to,
+    });
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(buffer);
+  }
+
+  @Get(':id')
+  @RequirePermissions('audit-logs:view')
+  findById(@GetUser() user: any, @Param('id', ParseUUIDPipe) id: string) {
+    return this.service.findById(id, this.resolveCompanyId(user));
+  }
+}
@@ -0,0 +1,156 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../common/prisma.service';
+import { toCsv } from './audit-log.util';
+
+const VN_OFFSET_MS = 7 * 60 * 60 * 1000;
+// Giới hạn số dòng mỗi lần xuất CSV
+const MAX_EXPORT_ROWS = 10_000;
+
+export interface AuditLogEntry {
+  actor?: { id: string; firstName?: string; lastName?: string; employeeCode?: string; companyId?: string | null } | null;
+  entity: string;
+  entityId?: string | null;
+  action: string;
+  method: string;
+  path: string;
+  before?: unknown;
+  after?: unknown;
+  changes?: unknown;
+  payload?: unknown;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface AuditLogQuery {
+  entity?: string;
+  entityId?: string;
+  actorId?: string;
+  action?: string;
+  from?: string; // YYYY-MM-DD (giờ VN)
+  to?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * AuditLogService
+ * - record(): ghi một dòng log (không throw — lỗi chỉ log để không ảnh hưởng nghiệp vụ)
+ * - Admin: tra cứu có lọc + xuất CSV; ADMIN chỉ thấy log của công ty mình
+ */
+@Injectable()
+export class AuditLogService {
+  private readonly logger = new Logger(AuditLogService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async record(entry: AuditLogEntry): Promise<void> {
+    const json = (value: unknown) =>
+      value === undefined || value === null ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+    try {
+      await this.prisma.auditLog.create({
+        data: {
+          actorId: entry.actor?.id ?? null,
+          actorName: entry.actor
+            ? `${entry.actor.lastName ?? ''} ${entry.actor.firstName ?? ''}`.trim() +
+              (entry.actor.employeeCode ? ` (${entry.actor.employeeCode})` : '')
+            : null,
+          companyId: entry.actor?.companyId ?? null,
+          entity: entry.entity,
+          entityId: entry.entityId ?? null,
+          action: entry.action,
+          method: entry.method,
+          path: entry.path.slice(0, 500),
+          before: json(entry.before),
+          after: json(entry.after),
+          changes: json(entry.changes),
+          payload: json(entry.payload),
+          ipAddress: entry.ipAddress?.slice(0, 100) ?? null,
+          userAgent: entry.userAgent?.slice(0, 500) ?? null,
+        },
+      });
+    } catch (err) {
+      this.logger.warn(`Ghi audit log ${entry.entity}/${entry.action} thất bại: ${(err as Error).message}`);
+    }
+  }
+
+  // ── Tra cứu ──────────────────────────────────────────────────
+
+  /** companyId undefined = SUPERADMIN (xem tất cả) */
+  async findAll(companyId: string | undefined, query: AuditLogQuery) {
+    const page = Math.max(1, Number(query.page) || 1);
+    const limit = Math.min(200, Math.max(1, Number(query.limit) || 20));
+    const where = this.buildWhere(companyId, query);
+
+    const [data, total] = await Promise.all([
+      this.prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        omit: { before: true, after: true, payload: true },
+      }),
+      this.prisma.auditLog.count({ where }),
+    ]);
+
+    return { data, total, page, limit };
+  }
+
+  async findById(id: string, companyId: string | undefined) {
+    const log = await this.prisma.auditLog.findUnique({ where: { id } });
+    if (!log || (companyId && log.companyId !== companyId)) {
+      throw new NotFoundException('Không tìm thấy nhật ký');
+    }
+    return log;
+  }
+
+  async exportCsv(companyId: string | undefined, query: AuditLogQuery) {
+    const rows = await this.prisma.auditLog.findMany({
+      where: this.buildWhere(companyId, query),
+      orderBy: { createdAt: 'desc' },
+      take: MAX_EXPORT_ROWS,
+      omit: { before: true, after: true },
+    });
+
+    const csv = toCsv(
+      ['Thời gian', 'Người thao tác', 'Entity', 'Entity ID', 'Hành động', 'Method', 'Đường dẫn', 'Thay đổi', 'Dữ liệu gửi lên', 'IP', 'User agent'],
+      rows.map((r) => [
+        new Date(r.createdAt.getTime() + VN_OFFSET_MS).toISOString().replace('T', ' ').slice(0, 19),
+        r.actorName,
+        r.entity,
+        r.entityId,
+        r.action,
+        r.method,
+        r.path,
+        r.changes,
+        r.payload,
+        r.ipAddress,
+        r.userAgent,
+      ]),
+    );
+
+    const stamp = new Date(Date.now() + VN_OFFSET_MS).toISOString().slice(0, 10);
+    return {
+      buffer: Buffer.from(csv, 'utf8'),
+      filename: `audit-log_${stamp}.csv`,
+      contentType: 'text/csv; charset=utf-8',
+    };
+  }
+
+  private buildWhere(companyId: string | undefined, query: AuditLogQuery): Prisma.AuditLogWhereInput {
+    const where: Prisma.AuditLogWhereInput = {};
+    if (companyId) where.companyId = companyId;
+    if (query.entity) where.entity = query.entity;
+    if (query.entityId) where.entityId = query.entityId;
+    if (query.actorId) where.actorId = query.actorId;
+    if (query.action) where.action = query.action.toUpperCase();
+
+    // Khoảng ngày theo giờ VN: [from 00:00, to 24:00)
+    const createdAt: Prisma.DateTimeFilter = {};
+    if (query.from) createdAt.gte = new Date(new Date(`${query.from}T00:00:00.000Z`).getTime() - VN_OFFSET_MS);
+    if (query.to) createdAt.lt = new Date(new Date(`${query.to}T00:00:00.000Z`).getTime() - VN_OFFSET_MS + 86_400_000);
+    if (createdAt.gte || createdAt.lt) where.createdAt = createdAt;
+
+    return where;
+  }
+}
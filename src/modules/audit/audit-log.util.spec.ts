@@ -0,0 +1,62 @@
+import { diffSnapshots, sanitizeForAudit, toAuditAction, toCsv } from './audit-log.util';
+
+describe('Audit log utils', () => {
+  describe('sanitizeForAudit', () => {
+    it('should redact sensitive fields at any depth', () => {
+      const result = sanitizeForAudit({
+        email: 'a@tbs.com',
+        password: 'hash',
+        profile: { refreshToken: 'abc' },
+      });
+      expect(result).toEqual({
+        email: 'a@tbs.com',
+        password: '[REDACTED]',
+        profile: { refreshToken: '[REDACTED]' },
+      });
+    });
+
+    it('should serialize dates to ISO strings', () => {
+      const result = sanitizeForAudit({ at: new Date('2026-01-02T03:04:05.000Z') });
+      expect(result).toEqual({ at: '2026-01-02T03:04:05.000Z' });
+    });
+
+    it('should truncate very large snapshots', () => {
+      const result = sanitizeForAudit({ data: 'x'.repeat(30_000) }) as any;
+      expect(result._truncated).toBe(true);
+    });
+
+    it('should return null for empty input', () => {
+      expect(sanitizeForAudit(undefined)).toBeNull();
+      expect(sanitizeForAudit(null)).toBeNull();
+    });
+  });
+
+  describe('diffSnapshots', () => {
+    it('should return changed fields only, ignoring timestamps', () => {
+      const changes = diffSnapshots(
+        { name: 'A', isActive: true, updatedAt: '2026-01-01' },
+        { name: 'B', isActive: true, updatedAt: '2026-01-02' },
+      );
+      expect(changes).toEqual({ name: { from: 'A', to: 'B' } });
+    });
+
+    it('should return null when nothing changed or a snapshot is missing', () => {
+      expect(diffSnapshots({ name: 'A' }, { name: 'A' })).toBeNull();
+      expect(diffSnapshots(null, { name: 'A' })).toBeNull();
+    });
+  });
+
+  describe('toAuditAction', () => {
+    it('should convert handler names to UPPER_SNAKE', () => {
+      expect(toAuditAction('approve')).toBe('APPROVE');
+      expect(toAuditAction('updateConfig')).toBe('UPDATE_CONFIG');
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should escape quotes, commas and formula prefixes', () => {
+      const csv = toCsv(['a', 'b'], [['x,y', '=SUM(A1)'], ['say "hi"', null]]);
+      expect(csv).toBe('\uFEFFa,b\r\n"x,y",\'=SUM(A1)\r\n"say ""hi""",');
+    });
+  });
+});
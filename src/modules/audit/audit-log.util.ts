@@ -0,0 +1,66 @@
+/**
+ * Audit log helpers — chuẩn hóa snapshot, tính diff, xuất CSV
+ */
+
+// Field nhạy cảm không bao giờ ghi vào log
+const SENSITIVE_KEY = /password|token|secret|otp|refresh/i;
+// Field thay đổi mỗi lần ghi — không tính là thay đổi dữ liệu
+const IGNORED_DIFF_KEYS = new Set(['updatedAt', 'createdAt']);
+// Snapshot lớn hơn ngưỡng này (ký tự JSON) chỉ lưu kích thước
+const MAX_SNAPSHOT_LENGTH = 20_000;
+
+export type FieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+/** Chuyển về JSON thuần (Date → ISO, Decimal → string), ẩn field nhạy cảm, cắt snapshot quá lớn */
+export function sanitizeForAudit(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+
+  const json = JSON.stringify(value, function (key, val) {
+    if (key && SENSITIVE_KEY.test(key)) return val == null ? val : '[REDACTED]';
+    // Buffer.toJSON() → { type: 'Buffer', data: [...] }
+    if (val && typeof val === 'object' && val.type === 'Buffer' && Array.isArray(val.data)) return '[binary]';
+    return val;
+  });
+  if (json === undefined) return null;
+  if (json.length > MAX_SNAPSHOT_LENGTH) return { _truncated: true, size: json.length };
+  return JSON.parse(json);
+}
+
+/** So sánh 2 snapshot (đã sanitize) theo field cấp 1 — null nếu không có gì thay đổi */
+export function diffSnapshots(before: unknown, after: unknown): FieldChanges | null {
+  const isRecord = (v: unknown): v is Record<string, unknown> =>
+    !!v && typeof v === 'object' && !Array.isArray(v) && !('_truncated' in (v as object));
+  if (!isRecord(before) || !isRecord(after)) return null;
+
+  const changes: FieldChanges = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const key of keys) {
+    if (IGNORED_DIFF_KEYS.has(key)) continue;
+    const from = before[key] ?? null;
+    const to = after[key] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) changes[key] = { from, to };
+  }
+  return Object.keys(changes).length ? changes : null;
+}
+
+/** approve → APPROVE, updateConfig → UPDATE_CONFIG */
+export function toAuditAction(handlerName: string): string {
+  return handlerName
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .toUpperCase();
+}
+
+/** Escape một ô CSV; chặn công thức (=, +, -, @) khi mở bằng Excel */
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** CSV có BOM để Excel đọc đúng tiếng Việt */
+export function toCsv(headers: string[], rows: unknown[][]): string {
+  const lines = [headers, ...rows].map((row) => row.map(csvCell).join(','));
+  return '\uFEFF' + lines.join('\r\n');
+}
@@ -0,0 +1,100 @@
+import { CallHandler, ExecutionContext, Injectable, Logger, NestInterceptor } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Observable, tap } from 'rxjs';
+import { PrismaService } from '../../common/prisma.service';
+import { AUDIT_KEY, AuditOptions } from '../../common/decorators/audit.decorator';
+import { AuditLogService } from './audit-log.service';
+import { diffSnapshots, sanitizeForAudit, toAuditAction } from './audit-log.util';
+
+const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+interface PrismaDelegate {
+  findUnique(args: { where: { id: string } }): Promise<unknown>;
+}
+
+/**
+ * AuditInterceptor (global)
+ * Chỉ xử lý handler gắn @Audit và request thay đổi dữ liệu:
+ * chụp entity trước khi chạy handler → chạy → chụp lại → ghi log (before/after/diff, IP, user agent).
+ * Request lỗi không ghi log (dữ liệu không đổi).
+ */
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(AuditInterceptor.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly prisma: PrismaService,
+    private readonly auditLog: AuditLogService,
+  ) {}
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<unknown>> {
+    if (context.getType() !== 'http') return next.handle();
+
+    const options = this.reflector.getAllAndOverride<AuditOptions | false>(AUDIT_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    const request = context.switchToHttp().getRequest();
+    if (!options || !MUTATING_METHODS.has(request.method)) return next.handle();
+
+    const paramId: string | undefined = request.params?.[options.idParam ?? 'id'];
+    const delegate = options.snapshot === false ? null : this.delegateFor(options.entity);
+    const before = delegate && paramId ? await this.loadSnapshot(delegate, paramId) : null;
+    const action = options.action ?? toAuditAction(context.getHandler().name);
+
+    return next.handle().pipe(
+      tap((response: any) => {
+        this.writeLog(request, options, action, delegate, paramId ?? response?.id, before).catch((err) =>
+          this.logger.warn(`Failed to write audit log for ${options.entity} ${action} (${request.method} ${request.originalUrl ?? request.url}): ${err?.message}`),
+        );
+      }),
+    );
+  }
+
+  private async writeLog(
+    request: any,
+    options: AuditOptions,
+    action: string,
+    delegate: PrismaDelegate | null,
+    entityId: string | undefined,
+    before: unknown,
+  ) {
+    const after = delegate && entityId ? await this.loadSnapshot(delegate, entityId) : null;
+
+    await this.auditLog.record({
+      actor: request.user ?? null,
+      entity: options.entity,
+      entityId: typeof entityId === 'string' ? entityId : null,
+      action,
+      method: request.method,
+      path: request.originalUrl ?? request.url,
+      before,
+      after,
+      changes: diffSnapshots(before, after),
+      payload: sanitizeForAudit(request.body && Object.keys(request.body).length ? request.body : null),
+      ipAddress:
+        (request.headers['x-forwarded-for'] as string)?.split(',')[0].trim() ||
+        (request.headers['x-real-ip'] as string) ||
+        request.ip ||
+        request.socket?.remoteAddress,
+      userAgent: request.headers['user-agent'],
+    });
+  }
+
+  /** Entity = tên model Prisma → delegate (User → prisma.user) */
+  private delegateFor(entity: string): PrismaDelegate | null {
+    const key = entity.charAt(0).toLowerCase() + entity.slice(1);
+    const delegate = (this.prisma as any)[key];
+    return typeof delegate?.findUnique === 'function' ? delegate : null;
+  }
+
+  private async loadSnapshot(delegate: PrismaDelegate, id: string) {
+    try {
+      return sanitizeForAudit(await delegate.findUnique({ where: { id } }));
+    } catch {
+      // id không đúng định dạng của model → bỏ qua snapshot
+      return null;
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { CommonModule } from '../../common/common.module';
+import { AuditLogController } from './audit-log.controller';
+import { AuditLogService } from './audit-log.service';
+import { AuditInterceptor } from './audit.interceptor';
+
+@Module({
+  imports: [CommonModule],
+  controllers: [AuditLogController],
+  providers: [
+    AuditLogService,
+    // Interceptor toàn cục — chỉ ghi log cho handler gắn @Audit
+    { provide: APP_INTERCEPTOR, useClass: AuditInterceptor },
+  ],
+  exports: [AuditLogService],
+})
+export class AuditModule {}
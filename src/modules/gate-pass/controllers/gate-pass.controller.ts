@@ -4,15 +4,21 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { GatePassService } from '../services/gate-pass.service';
+import { GatePassGuardService } from '../services/gate-pass-guard.service';
 import { CreateGatePassDto } from '../dto/create-gate-pass.dto';
-import { ApproveGatePassDto, RejectGatePassDto } from '../dto/approve-gate-pass.dto';
+import { ApproveGatePassDto, RejectGatePassDto, RequestGatePassCancellationDto } from '../dto/approve-gate-pass.dto';
 import { CreateApprovalConfigDto, UpdateApprovalConfigDto } from '../dto/approval-config.dto';
+import { LateReturnsQueryDto } from '../dto/late-returns-query.dto';
 import { GetUser } from 'src/common/decorators/get-user.decorator';
 import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+import { Audit } from 'src/common/decorators/audit.decorator';
 
 @Controller('gate-passes')
 export class GatePassController {
-  constructor(private readonly service: GatePassService) {}
+  constructor(
+    private readonly service: GatePassService,
+    private readonly guardService: GatePassGuardService,
+  ) {}
 
   private resolveCompanyId(user: any): string | undefined {
     const isSuperAdmin = user?.roles?.some((r: any) => r?.roleDefinition?.code === 'SUPERADMIN');
@@ -58,6 +64,12 @@ export class GatePassController {
     return this.service.getPendingMyApprovalCount(userId).then(count => ({ count }));
   }
 
+  @Get('pending-cancellation')
+  @RequirePermissions('gate-passes:approve')
+  getPendingCancellations(@GetUser('id') userId: string) {
+    return this.service.getPendingCancellations(userId);
+  }
+
   // ── Admin: tất cả đơn ───────────────────────────────────────
 
   @Get('admin/all')
@@ -76,6 +88,33 @@ export class GatePassController {
     return this.service.getAll({ companyId, status, page, limit });
   }
 
+  // ── Bảo vệ: quét / ghi nhận ra vào cổng ─────────────────────
+
+  @Get('guard/scan/:passNumber')
+  @RequirePermissions('gate-passes:update')
+  lookupForGuard(@Param('passNumber') passNumber: string, @GetUser() currentUser: any) {
+    return this.guardService.lookup(passNumber, this.resolveCompanyId(currentUser));
+  }
+
+  @Post('guard/scan/:passNumber/check-out')
+  @RequirePermissions('gate-passes:update')
+  checkOut(@Param('passNumber') passNumber: string, @GetUser() currentUser: any) {
+    return this.guardService.checkOut(passNumber, currentUser.id, this.resolveCompanyId(currentUser));
+  }
+
+  @Post('guard/scan/:passNumber/check-in')
+  @RequirePermissions('gate-passes:update')
+  checkIn(@Param('passNumber') passNumber: string, @GetUser() currentUser: any) {
+    return this.guardService.checkIn(passNumber, currentUser.id, this.resolveCompanyId(currentUser));
+  }
+
+  @Get('guard/late-returns')
+  @RequirePermissions('gate-passes:manage')
+  getLateReturns(@GetUser() currentUser: any, @Query() query: LateReturnsQueryDto) {
+    const companyId = this.resolveCompanyId(currentUser) ?? query.companyId;
+    return this.guardService.getLateReturns({ ...query, companyId });
+  }
+
   // ── Chi tiết ────────────────────────────────────────────────
 
   @Get('my-approver')
@@ -94,6 +133,7 @@ export class GatePassController {
 
   @Patch(':id/approve')
   @RequirePermissions('gate-passes:approve')
+  @Audit('GatePass')
   approve(
     @Param('id', ParseUUIDPipe) id: string,
     @GetUser('id') userId: string,
@@ -106,6 +146,7 @@ export class GatePassController {
 
   @Patch(':id/reject')
   @RequirePermissions('gate-passes:approve')
+  @Audit('GatePass')
   reject(
     @Param('id', ParseUUIDPipe) id: string,
     @GetUser('id') userId: string,
@@ -134,6 +175,40 @@ export class GatePassController {
     return this.service.cancel(id, userId);
   }
 
+  // ── Xin huỷ đơn đã duyệt ─────────────────────────────────────
+
+  @Patch(':id/request-cancellation')
+  @RequirePermissions('gate-passes:create')
+  requestCancellation(
+    @Param('id', ParseUUIDPipe) id: string,
+    @GetUser('id') userId: string,
+    @Body() dto: RequestGatePassCancellationDto,
+  ) {
+    return this.service.requestCancellation(id, userId, dto);
+  }
+
+  @Patch(':id/cancellation/confirm')
+  @RequirePermissions('gate-passes:approve')
+  @Audit('GatePass')
+  confirmCancellation(
+    @Param('id', ParseUUIDPipe) id: string,
+    @GetUser('id') userId: string,
+    @Body() dto: ApproveGatePassDto,
+  ) {
+    return this.service.reviewCancellation(id, userId, true, dto);
+  }
+
+  @Patch(':id/cancellation/deny')
+  @RequirePermissions('gate-passes:approve')
+  @Audit('GatePass')
+  denyCancellation(
+    @Param('id', ParseUUIDPipe) id: string,
+    @GetUser('id') userId: string,
+    @Body() dto: ApproveGatePassDto,
+  ) {
+    return this.service.reviewCancellation(id, userId, false, dto);
+  }
+
   // ── Nộp nháp ─────────────────────────────────────────────────
 
   @Patch(':id/submit')
@@ -162,6 +237,7 @@ export class GatePassController {
 
   @Post('config')
   @RequirePermissions('gate-passes:manage')
+  @Audit('GatePassApprovalConfig')
   createConfig(@GetUser() currentUser: any, @Body() dto: CreateApprovalConfigDto) {
     // Luôn dùng companyId từ JWT cho non-SUPERADMIN để tránh giả mạo company
     const jwtCompanyId = this.resolveCompanyId(currentUser);
@@ -170,6 +246,7 @@ export class GatePassController {
 
   @Put('config/:id')
   @RequirePermissions('gate-passes:manage')
+  @Audit('GatePassApprovalConfig')
   async updateConfig(
     @Param('id', ParseUUIDPipe) id: string,
     @GetUser() currentUser: any,
@@ -185,6 +262,7 @@ export class GatePassController {
 
   @Delete('config/:id')
   @RequirePermissions('gate-passes:manage')
+  @Audit('GatePassApprovalConfig')
   async deleteConfig(@Param('id', ParseUUIDPipe) id: string, @GetUser() currentUser: any) {
     const jwtCompanyId = this.resolveCompanyId(currentUser);
     if (jwtCompanyId) {
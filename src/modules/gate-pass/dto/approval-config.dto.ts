@@ -52,6 +52,10 @@ export class CreateApprovalConfigDto {
   @IsArray()
   @IsString({ each: true })
   overrideApproverIds?: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  notifyByEmail?: boolean;
 }
 
 export class UpdateApprovalConfigDto {
@@ -80,6 +84,10 @@ export class UpdateApprovalConfigDto {
   @IsBoolean()
   isActive?: boolean;
 
+  @IsOptional()
+  @IsBoolean()
+  notifyByEmail?: boolean;
+
   @IsOptional()
   @IsArray()
   @IsString({ each: true })
@@ -1,4 +1,4 @@
-import { IsOptional, IsString } from 'class-validator';
+import { IsOptional, IsString, MinLength } from 'class-validator';
 
 export class ApproveGatePassDto {
   @IsOptional()
@@ -15,3 +15,9 @@ export class RejectGatePassDto {
   @IsString()
   comment?: string;
 }
+
+export class RequestGatePassCancellationDto {
+  @IsString()
+  @MinLength(1)
+  cancelReason: string;
+}
@@ -0,0 +1,34 @@
+import { IsDateString, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class LateReturnsQueryDto {
+  @IsOptional()
+  @IsString()
+  companyId?: string;
+
+  @IsOptional()
+  @IsString()
+  departmentId?: string;
+
+  // Lọc theo giờ ra đăng ký (startDateTime), ISO 8601
+  @IsOptional()
+  @IsDateString({}, { message: 'from phải là ngày giờ ISO 8601' })
+  from?: string;
+
+  @IsOptional()
+  @IsDateString({}, { message: 'to phải là ngày giờ ISO 8601' })
+  to?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
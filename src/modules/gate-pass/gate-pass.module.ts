@@ -1,13 +1,16 @@
 import { Module } from '@nestjs/common';
 import { GatePassController } from './controllers/gate-pass.controller';
 import { GatePassService } from './services/gate-pass.service';
+import { GatePassGuardService } from './services/gate-pass-guard.service';
 import { CommonModule } from 'src/common/common.module';
 import { WebSocketModule } from '../websocket/websocket.module';
+import { NotificationChannelModule } from '../notification-channel/notification-channel.module';
+import { ApprovalDelegationModule } from '../approval-delegation/approval-delegation.module';
 
 @Module({
-  imports: [CommonModule, WebSocketModule],
+  imports: [CommonModule, WebSocketModule, NotificationChannelModule, ApprovalDelegationModule],
   controllers: [GatePassController],
-  providers: [GatePassService],
+  providers: [GatePassService, GatePassGuardService],
   exports: [GatePassService],
 })
 export class GatePassModule {}
@@ -0,0 +1,261 @@
+import {
+  Injectable, BadRequestException, NotFoundException, ForbiddenException, Logger,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { PrismaService } from 'src/common/prisma.service';
+import { WebSocketGateway } from 'src/modules/websocket/websocket.gateway';
+import { GatePassStatus } from '@prisma/client';
+import { USER_SELECT } from './gate-pass.service';
+import { LateReturnsQueryDto } from '../dto/late-returns-query.dto';
+
+const VN_OFFSET_MS = 7 * 60 * 60 * 1000;
+// Cho phép ra cổng sớm hơn giờ đăng ký tối đa N phút
+const EARLY_EXIT_GRACE_MINUTES = 15;
+// Về trễ quá N phút so với endDateTime mới tính là quá giờ
+const LATE_RETURN_GRACE_MINUTES = 5;
+// Báo cáo về trễ: mặc định 31 ngày gần nhất, tối đa 92 ngày mỗi lần truy vấn
+const LATE_RETURN_DEFAULT_DAYS = 31;
+const LATE_RETURN_MAX_RANGE_DAYS = 92;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const GUARD_INCLUDE = {
+  user: { select: USER_SELECT },
+  department: { select: { id: true, name: true } },
+  exitGuard: { select: { id: true, firstName: true, lastName: true, employeeCode: true } },
+  returnGuard: { select: { id: true, firstName: true, lastName: true, employeeCode: true } },
+};
+
+/**
+ * GatePassGuardService
+ * Nghiệp vụ tại cổng bảo vệ:
+ * - Quét / tra cứu giấy ra vào cổng theo passNumber
+ * - Ghi nhận giờ ra (APPROVED → USED) và giờ vào thực tế
+ * - Cron hết hạn các đơn APPROVED không được sử dụng (→ EXPIRED)
+ * - Báo cáo nhân viên ra ngoài nhưng không về đúng giờ
+ */
+@Injectable()
+export class GatePassGuardService {
+  private readonly logger = new Logger(GatePassGuardService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly wsGateway: WebSocketGateway,
+  ) {}
+
+  // ── Tra cứu theo mã đơn ──────────────────────────────────────
+
+  async lookup(passNumber: string, companyId?: string) {
+    const gatePass = await this.findByPassNumber(passNumber, companyId);
+    const now = new Date();
+    const windowError = this.getExitWindowError(gatePass, now);
+
+    return {
+      ...gatePass,
+      canCheckOut: gatePass.status === GatePassStatus.APPROVED && !windowError,
+      canCheckIn: gatePass.status === GatePassStatus.USED && !!gatePass.actualExitAt && !gatePass.actualReturnAt,
+      message: gatePass.status === GatePassStatus.APPROVED ? windowError : null,
+    };
+  }
+
+  // ── Ghi nhận ra cổng ─────────────────────────────────────────
+
+  async checkOut(passNumber: string, guardId: string, companyId?: string) {
+    const gatePass = await this.findByPassNumber(passNumber, companyId);
+
+    if (gatePass.status !== GatePassStatus.APPROVED) {
+      throw new BadRequestException(
+        `Giấy ra vào cổng #${gatePass.passNumber} không hợp lệ để ra cổng (trạng thái: ${gatePass.status})`,
+      );
+    }
+
+    const now = new Date();
+    const windowError = this.getExitWindowError(gatePass, now);
+    if (windowError) throw new BadRequestException(windowError);
+
+    // Claim có điều kiện — tránh 2 bảo vệ quét cùng lúc
+    const claimed = await this.prisma.gatePass.updateMany({
+      where: { id: gatePass.id, status: GatePassStatus.APPROVED, actualExitAt: null },
+      data: { status: GatePassStatus.USED, actualExitAt: now, exitGuardId: guardId },
+    });
+    if (claimed.count === 0) {
+      throw new BadRequestException(`Giấy ra vào cổng #${gatePass.passNumber} đã được ghi nhận ra cổng`);
+    }
+
+    this.wsGateway.sendNotification(gatePass.userId, {
+      type: 'GATE_PASS_CHECKED_OUT',
+      title: 'Đã ghi nhận ra cổng',
+      message: `Giấy ra vào cổng #${gatePass.passNumber} đã được ghi nhận ra cổng lúc ${this.fmt(now)}`,
+      data: { gatePassId: gatePass.id },
+      timestamp: new Date(),
+    });
+
+    return this.findByPassNumber(gatePass.passNumber);
+  }
+
+  // ── Ghi nhận vào cổng ────────────────────────────────────────
+
+  async checkIn(passNumber: string, guardId: string, companyId?: string) {
+    const gatePass = await this.findByPassNumber(passNumber, companyId);
+
+    if (gatePass.status !== GatePassStatus.USED || !gatePass.actualExitAt) {
+      throw new BadRequestException(`Giấy ra vào cổng #${gatePass.passNumber} chưa được ghi nhận ra cổng`);
+    }
+
+    const now = new Date();
+    const claimed = await this.prisma.gatePass.updateMany({
+      where: { id: gatePass.id, status: GatePassStatus.USED, actualReturnAt: null },
+      data: { actualReturnAt: now, returnGuardId: guardId },
+    });
+    if (claimed.count === 0) {
+      throw new BadRequestException(`Giấy ra vào cổng #${gatePass.passNumber} đã được ghi nhận vào cổng`);
+    }
+
+    return this.findByPassNumber(gatePass.passNumber);
+  }
+
+  // ── Báo cáo: ra ngoài nhưng không về đúng giờ ───────────────
+
+  async getLateReturns(query: LateReturnsQueryDto) {
+    const now = new Date();
+    const graceMs = LATE_RETURN_GRACE_MINUTES * 60 * 1000;
+    const to = query.to ? new Date(query.to) : now;
+    const from = query.from ? new Date(query.from) : new Date(to.getTime() - LATE_RETURN_DEFAULT_DAYS * DAY_MS);
+    if (from > to) {
+      throw new BadRequestException('from phải trước to');
+    }
+    if (to.getTime() - from.getTime() > LATE_RETURN_MAX_RANGE_DAYS * DAY_MS) {
+      throw new BadRequestException(`Khoảng thời gian tối đa ${LATE_RETURN_MAX_RANGE_DAYS} ngày`);
+    }
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 50;
+
+    const where: any = {
+      status: GatePassStatus.USED,
+      endDateTime: { not: null, lt: new Date(now.getTime() - graceMs) },
+      startDateTime: { gte: from, lte: to },
+    };
+    if (query.companyId) where.companyId = query.companyId;
+    if (query.departmentId) where.departmentId = query.departmentId;
+
+    const passes = await this.prisma.gatePass.findMany({
+      where,
+      orderBy: { endDateTime: 'asc' },
+      select: { id: true, endDateTime: true, actualReturnAt: true },
+    });
+
+    // Prisma không so sánh 2 cột được → lọc phần về trễ trong memory, chỉ load chi tiết của trang hiện tại
+    const late = passes
+      .map((p) => ({ id: p.id, lateMs: (p.actualReturnAt ?? now).getTime() - p.endDateTime!.getTime() }))
+      .filter(({ lateMs }) => lateMs > graceMs);
+    const pageRows = late.slice((page - 1) * limit, page * limit);
+    const details = await this.prisma.gatePass.findMany({
+      where: { id: { in: pageRows.map((r) => r.id) } },
+      include: GUARD_INCLUDE,
+    });
+    const byId = new Map(details.map((d) => [d.id, d]));
+
+    return {
+      data: pageRows
+        .filter(({ id }) => byId.has(id))
+        .map(({ id, lateMs }) => {
+          const pass = byId.get(id)!;
+          return { ...pass, returned: !!pass.actualReturnAt, lateMinutes: Math.floor(lateMs / 60000) };
+        }),
+      total: late.length,
+      page,
+      limit,
+    };
+  }
+
+  // ── Cron: hết hạn đơn đã duyệt nhưng không sử dụng ──────────
+
+  @Cron('*/30 * * * *', { name: 'gate-pass-expiry' })
+  async expireUnusedPasses() {
+    const now = new Date();
+    // Đơn không có giờ về → hết hạn khi qua ngày (giờ VN)
+    const nowVN = new Date(now.getTime() + VN_OFFSET_MS);
+    const todayStartUTC = new Date(
+      Date.UTC(nowVN.getUTCFullYear(), nowVN.getUTCMonth(), nowVN.getUTCDate()) - VN_OFFSET_MS,
+    );
+
+    // Đơn đang chờ xác nhận huỷ mà đã quá hạn cũng không còn ý nghĩa → EXPIRED
+    const where = {
+      status: { in: [GatePassStatus.APPROVED, GatePassStatus.CANCELLATION_REQUESTED] },
+      actualExitAt: null,
+      OR: [
+        { endDateTime: { lt: now } },
+        { endDateTime: null, startDateTime: { lt: todayStartUTC } },
+      ],
+    };
+
+    const candidates = await this.prisma.gatePass.findMany({
+      where,
+      select: { id: true, userId: true, passNumber: true },
+    });
+    if (!candidates.length) return;
+
+    // updateMany có điều kiện status → an toàn khi chạy nhiều instance / bị quét cùng lúc
+    const result = await this.prisma.gatePass.updateMany({
+      where: { id: { in: candidates.map((c) => c.id) }, ...where },
+      data: { status: GatePassStatus.EXPIRED },
+    });
+
+    const expired = await this.prisma.gatePass.findMany({
+      where: { id: { in: candidates.map((c) => c.id) }, status: GatePassStatus.EXPIRED },
+      select: { id: true, userId: true, passNumber: true },
+    });
+    for (const p of expired) {
+      this.wsGateway.sendNotification(p.userId, {
+        type: 'GATE_PASS_EXPIRED',
+        title: 'Giấy ra vào cổng đã hết hạn',
+        message: `Giấy ra vào cổng #${p.passNumber} đã hết hạn do không được sử dụng`,
+        data: { gatePassId: p.id },
+        timestamp: new Date(),
+      });
+    }
+
+    this.logger.log(`[Expiry] Đã chuyển ${result.count} giấy ra vào cổng sang EXPIRED`);
+  }
+
+  // ── Helpers ──────────────────────────────────────────────────
+
+  private async findByPassNumber(passNumber: string, companyId?: string) {
+    const gatePass = await this.prisma.gatePass.findUnique({
+      where: { passNumber: passNumber.trim().toUpperCase() },
+      include: GUARD_INCLUDE,
+    });
+    if (!gatePass) throw new NotFoundException('Không tìm thấy giấy ra vào cổng');
+    if (companyId && gatePass.companyId && gatePass.companyId !== companyId) {
+      throw new ForbiddenException('Giấy ra vào cổng không thuộc công ty của bạn');
+    }
+    return gatePass;
+  }
+
+  /** Trả về lý do không được ra cổng lúc `now`, hoặc null nếu hợp lệ */
+  private getExitWindowError(
+    gatePass: { startDateTime: Date; endDateTime: Date | null },
+    now: Date,
+  ): string | null {
+    const earliest = new Date(gatePass.startDateTime.getTime() - EARLY_EXIT_GRACE_MINUTES * 60 * 1000);
+    if (now < earliest) {
+      return `Chưa đến giờ ra cổng (đăng ký từ ${this.fmt(gatePass.startDateTime)})`;
+    }
+
+    let latest = gatePass.endDateTime;
+    if (!latest) {
+      // Không có giờ về → chỉ hợp lệ trong ngày đăng ký (giờ VN)
+      const startVN = new Date(gatePass.startDateTime.getTime() + VN_OFFSET_MS);
+      latest = new Date(
+        Date.UTC(startVN.getUTCFullYear(), startVN.getUTCMonth(), startVN.getUTCDate() + 1) - VN_OFFSET_MS,
+      );
+    }
+    if (now > latest) {
+      return `Giấy ra vào cổng đã quá thời gian hiệu lực (đến ${this.fmt(latest)})`;
+    }
+    return null;
+  }
+
+  private fmt(d: Date) {
+    return d.toLocaleString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh', hour12: false });
+  }
+}
@@ -5,14 +5,32 @@ import { PrismaService } from 'src/common/prisma.service';
 import { WebSocketGateway } from 'src/modules/websocket/websocket.gateway';
 import { GatePassStatus, GatePassApprovalStatus } from '@prisma/client';
 import { CreateGatePassDto } from '../dto/create-gate-pass.dto';
-import { ApproveGatePassDto, RejectGatePassDto } from '../dto/approve-gate-pass.dto';
+import { ApproveGatePassDto, RejectGatePassDto, RequestGatePassCancellationDto } from '../dto/approve-gate-pass.dto';
 import { CreateApprovalConfigDto, UpdateApprovalConfigDto } from '../dto/approval-config.dto';
+import { NotificationOutboxService } from 'src/modules/notification-channel/services/notification-outbox.service';
+import {
+  EmailTemplateData, EmailTemplateKey, formatVnDate,
+} from 'src/modules/notification-channel/templates/email.templates';
+import { ApprovalDelegationService } from 'src/modules/approval-delegation/approval-delegation.service';
+import { OrgScope, roleCoversScope } from 'src/common/utils/role-scope';
 
-const USER_SELECT = {
+export const USER_SELECT = {
   id: true, firstName: true, lastName: true, employeeCode: true,
   jobPosition: { select: { jobName: true, department: { select: { id: true, name: true } } } },
 };
 
+// System role được coi là trưởng đơn vị — chỉ khi phạm vi role bao phòng ban đang xét
+const HIGH_ROLE_CODES = ['SUPERADMIN', 'ADMIN', 'MANAGER'];
+const ROLE_SCOPE_SELECT = { scopeType: true, companyId: true, officeId: true, departmentId: true } as const;
+
+const REASON_LABELS: Record<string, string> = {
+  BUSINESS: 'Công tác',
+  DISCIPLINE: 'Kỷ luật',
+  SICK: 'Ốm đau',
+  PERSONAL: 'Việc riêng',
+  OTHER: 'Khác',
+};
+
 const CANDIDATE_SELECT = {
   id: true,
   firstName: true,
@@ -34,6 +52,8 @@ export class GatePassService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly wsGateway: WebSocketGateway,
+    private readonly outbox: NotificationOutboxService,
+    private readonly delegationService: ApprovalDelegationService,
   ) {}
 
   // ── Tìm trưởng phòng/T.TEAM theo department ─────────────────
@@ -149,6 +169,15 @@ export class GatePassService {
     return managers;
   }
 
+  /** Công ty / văn phòng / phòng ban của 1 phòng ban — dùng để xét role assignment có phạm vi */
+  private async getDepartmentScope(departmentId: string): Promise<OrgScope> {
+    const dept = await this.prisma.department.findUnique({
+      where: { id: departmentId },
+      select: { officeId: true, office: { select: { companyId: true } } },
+    });
+    return { departmentId, officeId: dept?.officeId ?? null, companyId: dept?.office.companyId ?? null };
+  }
+
   /** Check if userId is an eligible dept head for the given dept and requester VTCV. */
   private async isDeptHead(
     userId: string,
@@ -158,15 +187,20 @@ export class GatePassService {
     const managers = await this.getDeptManagers(departmentId);
     const managerIds = managers.map((m) => m.userId);
 
-    // Check system role first — MANAGER/ADMIN always qualify
+    // Check system role first — MANAGER/ADMIN always qualify (chỉ role có phạm vi bao phòng ban này)
     const approverUser = await this.prisma.user.findUnique({
       where: { id: userId },
       select: {
-        roles: { where: { isActive: true }, select: { roleDefinition: { select: { code: true } } } },
+        roles: {
+          where: { isActive: true },
+          select: { ...ROLE_SCOPE_SELECT, roleDefinition: { select: { code: true } } },
+        },
       },
     });
-    const roleCodes = (approverUser?.roles ?? []).map((r: any) => r.roleDefinition?.code ?? '');
-    const isHighRole = roleCodes.some((c: string) => ['SUPERADMIN', 'ADMIN', 'MANAGER'].includes(c));
+    const deptScope = await this.getDepartmentScope(departmentId);
+    const isHighRole = (approverUser?.roles ?? []).some(
+      (r) => roleCoversScope(r, deptScope) && HIGH_ROLE_CODES.includes(r.roleDefinition.code),
+    );
 
     if (managerIds.includes(userId)) {
       if (!requesterJobName || isHighRole) return true;
@@ -299,21 +333,20 @@ export class GatePassService {
         jobPosition: { select: { jobName: true } },
         roles: {
           where: { isActive: true },
-          select: { roleDefinition: { select: { code: true } } },
+          select: { ...ROLE_SCOPE_SELECT, roleDefinition: { select: { code: true } } },
         },
       },
     });
     const approverJobName = approverUser?.jobPosition?.jobName ?? null;
-    const approverRoleCodes = (approverUser?.roles ?? []).map((r: any) => r.roleDefinition?.code ?? '');
-    const approverIsHighRole = approverRoleCodes.some((c: string) =>
-      ['SUPERADMIN', 'ADMIN', 'MANAGER'].includes(c),
-    );
+    const approverHighRoles = (approverUser?.roles ?? []).filter((r) => HIGH_ROLE_CODES.includes(r.roleDefinition.code));
 
     const conditions: any[] = [];
 
     for (const deptId of managedDeptIds) {
       const managers = await this.getDeptManagers(deptId);
       const mgrIds = managers.map((m) => m.userId);
+      const deptScope = approverHighRoles.length ? await this.getDepartmentScope(deptId) : {};
+      const approverIsHighRole = approverHighRoles.some((r) => roleCoversScope(r, deptScope));
 
       // General manager if: high system role, no VTCV, or no non-management users share their VTCV
       const isGeneralMgr = approverIsHighRole || !approverJobName || (await this.prisma.user.count({
@@ -560,7 +593,7 @@ export class GatePassService {
         title: 'Có giấy ra vào cổng mới cần duyệt',
         message: `${user.lastName} ${user.firstName} (${user.employeeCode}) vừa tạo giấy ra vào cổng`,
         data: { gatePassId: gatePass.id },
-      }, requesterJobName, userId);
+      }, requesterJobName, userId, 'GATE_PASS_SUBMITTED');
     }
 
     return this.findById(gatePass.id);
@@ -596,7 +629,7 @@ export class GatePassService {
       title: 'Có giấy ra vào cổng mới cần duyệt',
       message: `${user.lastName} ${user.firstName} (${user.employeeCode}) vừa nộp giấy ra vào cổng`,
       data: { gatePassId: id },
-    }, requesterJobName, userId);
+    }, requesterJobName, userId, 'GATE_PASS_SUBMITTED');
 
     return this.findById(id);
   }
@@ -630,6 +663,170 @@ export class GatePassService {
     return this.findById(id);
   }
 
+  // ── Xin huỷ đơn đã duyệt ─────────────────────────────────────
+  // Tương tự nghỉ phép: CANCELLED = huỷ trước khi duyệt xong, WITHDRAWN = rút lại sau khi đã duyệt.
+  // Đơn APPROVED → CANCELLATION_REQUESTED → (tất cả người đã ký đồng ý) WITHDRAWN
+  //                                       → (một người không đồng ý) APPROVED
+
+  async requestCancellation(id: string, userId: string, dto: RequestGatePassCancellationDto) {
+    const gatePass = await this.findById(id);
+    if (gatePass.userId !== userId) throw new ForbiddenException('Không có quyền huỷ đơn này');
+    if (gatePass.status !== GatePassStatus.APPROVED) {
+      throw new BadRequestException('Chỉ có thể xin huỷ đơn đã được duyệt và chưa sử dụng');
+    }
+
+    const signerIds = this.getSignerIds(gatePass);
+    if (signerIds.length === 0) {
+      // Đơn được duyệt mà không có người ký (không cấu hình cấp duyệt) → rút lại ngay
+      await this.prisma.gatePass.update({
+        where: { id },
+        data: { status: GatePassStatus.WITHDRAWN, cancelReason: dto.cancelReason, cancelRequestedAt: new Date(), withdrawnAt: new Date() },
+      });
+      return this.findById(id);
+    }
+
+    const claimed = await this.prisma.gatePass.updateMany({
+      where: { id, status: GatePassStatus.APPROVED },
+      data: {
+        status: GatePassStatus.CANCELLATION_REQUESTED,
+        cancelReason: dto.cancelReason,
+        cancelRequestedAt: new Date(),
+      },
+    });
+    if (claimed.count === 0) throw new BadRequestException('Trạng thái đơn đã thay đổi, vui lòng tải lại');
+
+    const requester = gatePass.user as any;
+    await this.wsGateway.sendNotificationToUsers(signerIds, {
+      type: 'GATE_PASS_CANCELLATION_REQUESTED',
+      title: 'Yêu cầu huỷ giấy ra vào cổng',
+      message: `${requester.lastName} ${requester.firstName} xin huỷ giấy ra vào cổng #${gatePass.passNumber}: ${dto.cancelReason}`,
+      data: { gatePassId: id },
+      timestamp: new Date(),
+    });
+
+    return this.findById(id);
+  }
+
+  async reviewCancellation(id: string, approverId: string, approve: boolean, dto: ApproveGatePassDto) {
+    const gatePass = await this.findById(id);
+    if (gatePass.status !== GatePassStatus.CANCELLATION_REQUESTED) {
+      throw new BadRequestException('Giấy ra vào cổng không có yêu cầu huỷ đang chờ xác nhận');
+    }
+
+    const signed = gatePass.approvals.filter(
+      (a) => a.status === GatePassApprovalStatus.APPROVED && a.approverId === approverId,
+    );
+    if (signed.length === 0) {
+      throw new ForbiddenException('Chỉ người đã duyệt đơn mới được xác nhận yêu cầu huỷ');
+    }
+
+    if (this.getCurrentCancellationRound(gatePass).some((c) => c.approverId === approverId)) {
+      throw new BadRequestException('Bạn đã xác nhận yêu cầu huỷ này');
+    }
+
+    // Khoá dòng gate pass → các người ký xác nhận cùng lúc được xử lý tuần tự,
+    // người xác nhận sau luôn thấy đủ xác nhận của người trước nên đơn không kẹt ở CANCELLATION_REQUESTED
+    const outcome = await this.prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM "gate_passes" WHERE id = ${id} FOR UPDATE`;
+      const current = await tx.gatePass.findUnique({
+        where: { id },
+        select: {
+          status: true,
+          cancelRequestedAt: true,
+          cancellationApprovals: { select: { approverId: true, createdAt: true } },
+        },
+      });
+      if (current?.status !== GatePassStatus.CANCELLATION_REQUESTED) {
+        throw new BadRequestException('Trạng thái đơn đã thay đổi, vui lòng tải lại');
+      }
+      const currentRound = this.getCurrentCancellationRound(current);
+      if (currentRound.some((c) => c.approverId === approverId)) {
+        throw new BadRequestException('Bạn đã xác nhận yêu cầu huỷ này');
+      }
+
+      await tx.gatePassCancellationApproval.create({
+        data: {
+          gatePassId: id,
+          approverId,
+          approvalLevel: Math.max(...signed.map((a) => a.approvalLevel)),
+          status: approve ? GatePassApprovalStatus.APPROVED : GatePassApprovalStatus.REJECTED,
+          comment: dto.comment ?? null,
+        },
+      });
+
+      if (!approve) {
+        // Một người không đồng ý → đơn giữ nguyên hiệu lực
+        await tx.gatePass.update({ where: { id }, data: { status: GatePassStatus.APPROVED } });
+        return 'REJECTED' as const;
+      }
+
+      // Đồng ý → chỉ rút lại khi tất cả người đã ký đều đồng ý
+      const confirmedIds = new Set([...currentRound.map((c) => c.approverId), approverId]);
+      const waitingIds = this.getSignerIds(gatePass).filter((uid) => !confirmedIds.has(uid));
+      if (waitingIds.length > 0) return 'WAITING' as const;
+
+      await tx.gatePass.update({ where: { id }, data: { status: GatePassStatus.WITHDRAWN, withdrawnAt: new Date() } });
+      return 'WITHDRAWN' as const;
+    });
+
+    if (outcome === 'REJECTED') {
+      this.wsGateway.sendNotification(gatePass.userId, {
+        type: 'GATE_PASS_CANCELLATION_REJECTED',
+        title: 'Yêu cầu huỷ giấy ra vào cổng bị từ chối',
+        message: `Yêu cầu huỷ giấy ra vào cổng #${gatePass.passNumber} không được chấp nhận${dto.comment ? `: ${dto.comment}` : ''}`,
+        data: { gatePassId: id },
+        timestamp: new Date(),
+      });
+    }
+    if (outcome === 'WITHDRAWN') {
+      this.wsGateway.sendNotification(gatePass.userId, {
+        type: 'GATE_PASS_WITHDRAWN',
+        title: 'Giấy ra vào cổng đã được huỷ',
+        message: `Yêu cầu huỷ giấy ra vào cổng #${gatePass.passNumber} đã được chấp nhận`,
+        data: { gatePassId: id },
+        timestamp: new Date(),
+      });
+    }
+
+    return this.findById(id);
+  }
+
+  /** Đơn đang chờ tôi xác nhận huỷ (tôi đã ký duyệt và chưa xác nhận vòng hiện tại) */
+  async getPendingCancellations(approverId: string) {
+    const passes = await this.prisma.gatePass.findMany({
+      where: {
+        status: GatePassStatus.CANCELLATION_REQUESTED,
+        approvals: { some: { approverId, status: GatePassApprovalStatus.APPROVED } },
+      },
+      orderBy: { cancelRequestedAt: 'asc' },
+      include: {
+        user: { select: USER_SELECT },
+        department: { select: { id: true, name: true } },
+        approvals: { orderBy: { approvalLevel: 'asc' }, include: { approver: { select: USER_SELECT } } },
+        cancellationApprovals: { orderBy: { createdAt: 'asc' }, include: { approver: { select: USER_SELECT } } },
+      },
+    });
+    return passes.filter(
+      (p) => !this.getCurrentCancellationRound(p).some((c) => c.approverId === approverId),
+    );
+  }
+
+  private getSignerIds(gatePass: { userId: string; approvals: { approverId: string; status: GatePassApprovalStatus }[] }): string[] {
+    return [...new Set(
+      gatePass.approvals
+        .filter((a) => a.status === GatePassApprovalStatus.APPROVED)
+        .map((a) => a.approverId),
+    )].filter((uid) => uid !== gatePass.userId);
+  }
+
+  /** Các xác nhận thuộc lần xin huỷ hiện tại (sau cancelRequestedAt) */
+  private getCurrentCancellationRound<T extends { createdAt: Date }>(
+    gatePass: { cancelRequestedAt: Date | null; cancellationApprovals: T[] },
+  ): T[] {
+    const since = gatePass.cancelRequestedAt?.getTime() ?? 0;
+    return gatePass.cancellationApprovals.filter((c) => c.createdAt.getTime() >= since);
+  }
+
   // ── Danh sách đơn của tôi ────────────────────────────────────
 
   async getMyPasses(userId: string, query: { status?: string; page?: number; limit?: number }) {
@@ -660,11 +857,78 @@ export class GatePassService {
 
   // ── Danh sách đơn chờ tôi duyệt ─────────────────────────────
 
+  // Gộp cả đơn của những người đang ủy quyền cho approver (delegatedFrom ≠ null)
   async getPendingMyApproval(approverId: string, query: { page?: number; limit?: number }) {
     const { page = 1, limit = 20 } = query;
 
     this.logger.debug(`[getPendingMyApproval] approverId=${approverId}`);
 
+    const ownConditions = await this.buildPendingConditions(approverId);
+    const delegated: { delegator: { id: string; firstName: string; lastName: string; employeeCode: string }; where: any }[] = [];
+    for (const d of await this.delegationService.getActiveDelegators(approverId, 'GATE_PASS')) {
+      const conditions = await this.buildPendingConditions(d.delegatorId);
+      if (!conditions.length) continue;
+      // Không hiện đơn của chính approver / delegator
+      delegated.push({
+        delegator: d.delegator,
+        where: { AND: [{ OR: conditions }, { NOT: { userId: { in: [approverId, d.delegatorId] } } }] },
+      });
+    }
+
+    const scopes = [...(ownConditions.length ? [{ OR: ownConditions }] : []), ...delegated.map((d) => d.where)];
+    if (scopes.length === 0) return { data: [], total: 0, page, limit };
+
+    const where = { OR: scopes };
+
+    const [data, total] = await Promise.all([
+      this.prisma.gatePass.findMany({
+        where,
+        orderBy: { createdAt: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: {
+          user: { select: USER_SELECT },
+          department: { select: { id: true, name: true } },
+          approvals: {
+            orderBy: { approvalLevel: 'asc' },
+            include: { approver: { select: USER_SELECT } },
+          },
+        },
+      }),
+      this.prisma.gatePass.count({ where }),
+    ]);
+
+    // Đánh dấu đơn chỉ hiện nhờ ủy quyền
+    const delegatedFrom = new Map<string, (typeof delegated)[number]['delegator']>();
+    if (delegated.length && data.length) {
+      const ids = data.map((g) => g.id);
+      const ownIds = new Set(
+        ownConditions.length
+          ? (await this.prisma.gatePass.findMany({ where: { id: { in: ids }, OR: ownConditions }, select: { id: true } })).map((g) => g.id)
+          : [],
+      );
+      for (const d of delegated) {
+        const pendingIds = ids.filter((id) => !ownIds.has(id) && !delegatedFrom.has(id));
+        if (!pendingIds.length) break;
+        const matched = await this.prisma.gatePass.findMany({
+          where: { AND: [{ id: { in: pendingIds } }, d.where] },
+          select: { id: true },
+        });
+        matched.forEach((g) => delegatedFrom.set(g.id, d.delegator));
+      }
+    }
+
+    return {
+      data: data.map((g) => ({ ...g, delegatedFrom: delegatedFrom.get(g.id) ?? null })),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /** Điều kiện lọc đơn PENDING mà approverId duyệt được (theo cấu hình của chính họ) */
+  private async buildPendingConditions(approverId: string): Promise<any[]> {
+
     // Case 1: User is SPECIFIC_USER approver/substitute in some config
     const specificConfigsRaw = await this.prisma.gatePassApprovalConfig.findMany({
       where: {
@@ -820,31 +1084,9 @@ export class GatePassService {
       conditions.push(...vtcvConditions);
     }
 
-    this.logger.debug(`[getPendingMyApproval] total conditions=${conditions.length}: ${JSON.stringify(conditions)}`);
-
-    if (conditions.length === 0) return { data: [], total: 0, page, limit };
-
-    const where = { OR: conditions };
+    this.logger.debug(`[getPendingMyApproval] approverId=${approverId}, total conditions=${conditions.length}: ${JSON.stringify(conditions)}`);
 
-    const [data, total] = await Promise.all([
-      this.prisma.gatePass.findMany({
-        where,
-        orderBy: { createdAt: 'asc' },
-        skip: (page - 1) * limit,
-        take: limit,
-        include: {
-          user: { select: USER_SELECT },
-          department: { select: { id: true, name: true } },
-          approvals: {
-            orderBy: { approvalLevel: 'asc' },
-            include: { approver: { select: USER_SELECT } },
-          },
-        },
-      }),
-      this.prisma.gatePass.count({ where }),
-    ]);
-
-    return { data, total, page, limit };
+    return conditions;
   }
 
   async getPendingMyApprovalCount(approverId: string): Promise<number> {
@@ -865,6 +1107,10 @@ export class GatePassService {
           orderBy: { approvalLevel: 'asc' },
           include: { approver: { select: USER_SELECT } },
         },
+        cancellationApprovals: {
+          orderBy: { createdAt: 'asc' },
+          include: { approver: { select: USER_SELECT } },
+        },
       },
     });
     if (!gatePass) throw new NotFoundException('Không tìm thấy giấy ra vào cổng');
@@ -886,13 +1132,13 @@ export class GatePassService {
 
     const officeId = await this.getUserOfficeId(gatePass.userId);
     const requesterJobName = (gatePass.user as any).jobPosition?.jobName ?? null;
-    const canApprove = await this.verifyApprover(approverId, gatePass.departmentId, officeId, gatePass.currentLevel, requesterJobName, gatePass.userId);
-    if (!canApprove) throw new ForbiddenException('Bạn không có quyền duyệt đơn này');
+    const right = await this.resolveApprovalRight(approverId, gatePass.departmentId, officeId, gatePass.currentLevel, requesterJobName, gatePass.userId);
+    if (!right) throw new ForbiddenException('Bạn không có quyền duyệt đơn này');
 
     await this.prisma.gatePassApproval.upsert({
       where: { gatePassId_approvalLevel: { gatePassId, approvalLevel: gatePass.currentLevel } },
-      create: { gatePassId, approverId, approvalLevel: gatePass.currentLevel, status: GatePassApprovalStatus.APPROVED, approvedAt: new Date(), comment: dto.comment },
-      update: { status: GatePassApprovalStatus.APPROVED, approvedAt: new Date(), approverId, comment: dto.comment },
+      create: { gatePassId, approverId, approvalLevel: gatePass.currentLevel, status: GatePassApprovalStatus.APPROVED, approvedAt: new Date(), comment: dto.comment, ...right },
+      update: { status: GatePassApprovalStatus.APPROVED, approvedAt: new Date(), approverId, comment: dto.comment, ...right },
     });
 
     // Check if there's a next level config (VTCV-aware)
@@ -910,7 +1156,7 @@ export class GatePassService {
         title: `Giấy ra vào cổng chờ duyệt cấp ${nextConfig.level}`,
         message: `Giấy ra vào cổng #${gatePass.passNumber} đã qua duyệt cấp ${gatePass.currentLevel}, chờ duyệt cấp ${nextConfig.level}`,
         data: { gatePassId },
-      }, requesterJobName, gatePass.userId);
+      }, requesterJobName, gatePass.userId, 'GATE_PASS_SUBMITTED');
     } else {
       await this.prisma.gatePass.update({
         where: { id: gatePassId },
@@ -924,6 +1170,14 @@ export class GatePassService {
         data: { gatePassId },
         timestamp: new Date(),
       });
+
+      const currentConfig = this.pickConfigForRequester(configs, gatePass.currentLevel, requesterJobName, gatePass.userId);
+      if (currentConfig?.notifyByEmail) {
+        this.outbox.enqueueEmailToUsers([gatePass.userId], 'GATE_PASS_APPROVED', {
+          ...this.buildEmailData(gatePass),
+          comment: dto.comment ?? undefined,
+        }).catch(() => {});
+      }
     }
 
     return this.findById(gatePassId);
@@ -940,13 +1194,13 @@ export class GatePassService {
 
     const officeId = await this.getUserOfficeId(gatePass.userId);
     const requesterJobName = (gatePass.user as any).jobPosition?.jobName ?? null;
-    const canApprove = await this.verifyApprover(approverId, gatePass.departmentId, officeId, gatePass.currentLevel, requesterJobName, gatePass.userId);
-    if (!canApprove) throw new ForbiddenException('Bạn không có quyền duyệt đơn này');
+    const right = await this.resolveApprovalRight(approverId, gatePass.departmentId, officeId, gatePass.currentLevel, requesterJobName, gatePass.userId);
+    if (!right) throw new ForbiddenException('Bạn không có quyền duyệt đơn này');
 
     await this.prisma.gatePassApproval.upsert({
       where: { gatePassId_approvalLevel: { gatePassId, approvalLevel: gatePass.currentLevel } },
-      create: { gatePassId, approverId, approvalLevel: gatePass.currentLevel, status: GatePassApprovalStatus.REJECTED, rejectedAt: new Date(), comment: dto.comment },
-      update: { status: GatePassApprovalStatus.REJECTED, rejectedAt: new Date(), approverId, comment: dto.comment },
+      create: { gatePassId, approverId, approvalLevel: gatePass.currentLevel, status: GatePassApprovalStatus.REJECTED, rejectedAt: new Date(), comment: dto.comment, ...right },
+      update: { status: GatePassApprovalStatus.REJECTED, rejectedAt: new Date(), approverId, comment: dto.comment, ...right },
     });
 
     await this.prisma.gatePass.update({
@@ -962,6 +1216,15 @@ export class GatePassService {
       timestamp: new Date(),
     });
 
+    const { configs } = await this.getApprovalConfigs('', gatePass.departmentId, officeId);
+    const currentConfig = this.pickConfigForRequester(configs, gatePass.currentLevel, requesterJobName, gatePass.userId);
+    if (currentConfig?.notifyByEmail) {
+      this.outbox.enqueueEmailToUsers([gatePass.userId], 'GATE_PASS_REJECTED', {
+        ...this.buildEmailData(gatePass),
+        comment: dto.rejectionReason,
+      }).catch(() => {});
+    }
+
     return this.findById(gatePassId);
   }
 
@@ -1143,18 +1406,44 @@ export class GatePassService {
     return user?.officeId ?? null;
   }
 
-  private async verifyApprover(
+  /**
+   * Quyền duyệt cấp hiện tại: trực tiếp / người ký thay của cấu hình / theo ủy quyền.
+   * Trả về dữ liệu ghi vào GatePassApproval, null = không có quyền.
+   */
+  private async resolveApprovalRight(
     approverId: string,
     departmentId: string | null,
     officeId: string | null,
     level: number,
     requesterJobName?: string | null,
     requesterId?: string,
-  ): Promise<boolean> {
+  ): Promise<{ isSubstitute: boolean; targetUserId: string | null; delegationId: string | null } | null> {
     const { configs } = await this.getApprovalConfigs('', departmentId, officeId);
     const config = this.pickConfigForRequester(configs, level, requesterJobName, requesterId);
-    if (!config) return false;
+    if (!config) return null;
+
+    if (await this.isConfigApprover(config, approverId, departmentId, requesterJobName, requesterId)) {
+      const isSubstitute = config.substituteUserId === approverId && config.approverUserId !== approverId;
+      return { isSubstitute, targetUserId: isSubstitute ? (config.approverUserId ?? null) : null, delegationId: null };
+    }
+
+    // Ủy quyền: ký thay delegator khi chính delegator duyệt được cấp này
+    for (const d of await this.delegationService.getActiveDelegators(approverId, 'GATE_PASS')) {
+      if (d.delegatorId === requesterId) continue;
+      if (await this.isConfigApprover(config, d.delegatorId, departmentId, requesterJobName, requesterId)) {
+        return { isSubstitute: true, targetUserId: d.delegatorId, delegationId: d.id };
+      }
+    }
+    return null;
+  }
 
+  private async isConfigApprover(
+    config: any,
+    approverId: string,
+    departmentId: string | null,
+    requesterJobName?: string | null,
+    requesterId?: string,
+  ): Promise<boolean> {
     // If config has requesterFilterIds and requester is not in the list, deny
     if (config.requesterFilterIds?.length > 0 && requesterId && !config.requesterFilterIds.includes(requesterId)) {
       return false;
@@ -1178,6 +1467,7 @@ export class GatePassService {
     notification: any,
     requesterJobName?: string | null,
     requesterId?: string,
+    emailTemplate?: EmailTemplateKey,
   ) {
     const { configs } = await this.getApprovalConfigs('', departmentId, officeId);
     const config = this.pickConfigForRequester(configs, level, requesterJobName, requesterId);
@@ -1215,16 +1505,47 @@ export class GatePassService {
 
     // Deduplicate and exclude the requester (prevents self-notification when a manager
     // creates/cancels their own pass and is also auto-detected as an approver)
-    const uniqueApproverIds = [...new Set(approverIds)].filter(id => id !== requesterId);
+    // + người đang được ủy quyền duyệt thay
+    const uniqueApproverIds = (await this.delegationService.withDelegates([...new Set(approverIds)], 'GATE_PASS'))
+      .filter(id => id !== requesterId);
 
     if (uniqueApproverIds.length > 0) {
       await this.wsGateway.sendNotificationToUsers(uniqueApproverIds, {
         ...notification,
         timestamp: new Date(),
       });
+
+      if (emailTemplate && config.notifyByEmail) {
+        const gatePass = await this.prisma.gatePass.findUnique({
+          where: { id: gatePassId },
+          include: { user: { select: USER_SELECT } },
+        });
+        if (gatePass) {
+          this.outbox.enqueueEmailToUsers(uniqueApproverIds, emailTemplate, this.buildEmailData(gatePass)).catch(() => {});
+        }
+      }
     }
   }
 
+  private buildEmailData(gatePass: {
+    passNumber: string;
+    reasonType: string;
+    reasonDetail: string | null;
+    startDateTime: Date;
+    endDateTime: Date | null;
+    user: { firstName: string; lastName: string; employeeCode: string };
+  }): EmailTemplateData {
+    const start = formatVnDate(gatePass.startDateTime, true);
+    return {
+      code: gatePass.passNumber,
+      requesterName: `${gatePass.user.lastName} ${gatePass.user.firstName} (${gatePass.user.employeeCode})`,
+      typeName: REASON_LABELS[gatePass.reasonType] ?? gatePass.reasonType,
+      period: gatePass.endDateTime ? `${start} - ${formatVnDate(gatePass.endDateTime, true)}` : `Từ ${start}`,
+      reason: gatePass.reasonDetail ?? undefined,
+      link: '/gate-pass',
+    };
+  }
+
   // ── Approval Config CRUD ─────────────────────────────────────
 
   async getConfigs(companyId?: string) {
@@ -1275,6 +1596,7 @@ export class GatePassService {
       substituteUserId: dto.substituteUserId ?? null,
       requesterJobName: dto.requesterJobName ?? null,
       requesterJobNames: dto.requesterJobNames ?? [],
+      notifyByEmail: dto.notifyByEmail ?? false,
       isActive: true,
       companyId: dto.companyId,
     };
@@ -1338,6 +1660,7 @@ export class GatePassService {
             : {}),
         ...(dto.substituteUserId !== undefined ? { substituteUserId: dto.substituteUserId } : {}),
         ...(dto.isActive !== undefined ? { isActive: dto.isActive } : {}),
+        ...(dto.notifyByEmail !== undefined ? { notifyByEmail: dto.notifyByEmail } : {}),
         ...('requesterJobName' in dto ? { requesterJobName: dto.requesterJobName } : {}),
         ...('requesterJobNames' in dto ? { requesterJobNames: dto.requesterJobNames } : {}),
       },
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { WorksheetModule } from '../worksheet/worksheet.module';
+import { WorksheetCron } from './worksheet.cron';
+
+@Module({
+  imports: [WorksheetModule],
+  providers: [WorksheetCron],
+})
+export class JobsModule {}
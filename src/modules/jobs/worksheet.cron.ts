@@ -0,0 +1,52 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { ProductionSummaryService, toVnDateString } from '../worksheet/production-summary.service';
+import { MonthlyBackupService } from '../worksheet/monthly-backup.service';
+
+/**
+ * WorksheetCron
+ * Các job dữ liệu phiếu công đang chạy: tổng hợp sản lượng ngày + snapshot / dọn dữ liệu theo tháng.
+ * WorksheetProcessorService (auto-complete, archival) vẫn chưa đăng ký — không gộp vào đây.
+ */
+@Injectable()
+export class WorksheetCron {
+  private readonly logger = new Logger(WorksheetCron.name);
+
+  constructor(
+    private readonly productionSummary: ProductionSummaryService,
+    private readonly monthlyBackup: MonthlyBackupService,
+  ) {}
+
+  // Ghi bảng production_daily_summaries cho ngày hôm qua + tính lại các ngày có chỉnh sửa muộn
+  @Cron('0 6 * * *', { name: 'production-daily-summary' }) // 6 AM daily
+  async generateDailySummaries() {
+    const yesterday = toVnDateString(new Date(Date.now() - 24 * 60 * 60 * 1000));
+
+    try {
+      const count = await this.productionSummary.generateForDate(yesterday);
+      const refreshed = await this.productionSummary.refreshStale();
+      this.logger.log(`Daily summaries: ${count} rows for ${yesterday}, ${refreshed} stale day/office refreshed`);
+    } catch (error) {
+      this.logger.error('Error generating daily production summaries:', error);
+    }
+  }
+
+  // Snapshot tháng trước vào worksheet_monthly_backups + dọn dữ liệu theo giờ quá hạn lưu trữ
+  @Cron('0 3 1 * *', { name: 'worksheet-monthly-backup' }) // 3 AM on 1st of every month
+  async monthlyBackupAndRetention() {
+    this.logger.log('Starting monthly worksheet backup job');
+
+    const now = new Date();
+    const lastMonth = new Date(Date.UTC(now.getFullYear(), now.getMonth() - 1, 1));
+
+    try {
+      const snapshots = await this.monthlyBackup.snapshotMonth(lastMonth.getUTCFullYear(), lastMonth.getUTCMonth() + 1);
+      const retention = await this.monthlyBackup.applyRetention(now);
+      this.logger.log(
+        `Monthly backup done: ${snapshots} snapshots, purged ${retention.purgedRecords} hourly records (${retention.skipped} skipped, ${retention.held} on hold)`,
+      );
+    } catch (error) {
+      this.logger.error('Error running monthly worksheet backup:', error);
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import {
+  Controller, Get, Post, Put, Delete, Body, Param, Query,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { LeaveAccrualPolicyService } from '../services/leave-accrual-policy.service';
+import { CreateLeaveAccrualPolicyDto } from '../dto/leave-accrual-policy/create-leave-accrual-policy.dto';
+import { UpdateLeaveAccrualPolicyDto } from '../dto/leave-accrual-policy/update-leave-accrual-policy.dto';
+import { GetUser } from 'src/common/decorators/get-user.decorator';
+import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+import { Audit } from 'src/common/decorators/audit.decorator';
+
+@Controller('leave-accrual-policies')
+@Audit('LeaveAccrualPolicy')
+export class LeaveAccrualPolicyController {
+  constructor(private readonly policyService: LeaveAccrualPolicyService) {}
+
+  private resolveCompanyId(user: any): string | undefined {
+    const isSuperAdmin = user?.roles?.some((r: any) => r?.roleDefinition?.code === 'SUPERADMIN');
+    return isSuperAdmin ? undefined : (user?.companyId ?? undefined);
+  }
+
+  @Get()
+  @RequirePermissions('leave-types:view')
+  findAll(@GetUser() user: any, @Query('leaveTypeId') leaveTypeId?: string) {
+    return this.policyService.findAll(this.resolveCompanyId(user), leaveTypeId);
+  }
+
+  @Get(':id')
+  @RequirePermissions('leave-types:view')
+  findOne(@Param('id', ParseUUIDPipe) id: string) {
+    return this.policyService.findOne(id);
+  }
+
+  @Post()
+  @RequirePermissions('leave-types:update')
+  create(@GetUser() user: any, @Body() dto: CreateLeaveAccrualPolicyDto) {
+    return this.policyService.create(dto, this.resolveCompanyId(user));
+  }
+
+  @Put(':id')
+  @RequirePermissions('leave-types:update')
+  update(
+    @GetUser() user: any,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateLeaveAccrualPolicyDto,
+  ) {
+    return this.policyService.update(id, dto, this.resolveCompanyId(user));
+  }
+
+  @Delete(':id')
+  @RequirePermissions('leave-types:update')
+  remove(@GetUser() user: any, @Param('id', ParseUUIDPipe) id: string) {
+    return this.policyService.remove(id, this.resolveCompanyId(user));
+  }
+}
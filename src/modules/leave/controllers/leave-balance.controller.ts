@@ -6,15 +6,18 @@ import {
 import { FileInterceptor } from '@nestjs/platform-express';
 import { LeaveBalanceService } from '../services/leave-balance.service';
 import { LeaveAccrualService } from '../services/leave-accrual.service';
+import { LeaveYearCloseService } from '../services/leave-year-close.service';
 import { AdjustBalanceDto } from '../dto/leave-balance/adjust-balance.dto';
 import { GetUser } from 'src/common/decorators/get-user.decorator';
 import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+import { Audit } from 'src/common/decorators/audit.decorator';
 
 @Controller('leave-balances')
 export class LeaveBalanceController {
   constructor(
     private readonly balanceService: LeaveBalanceService,
     private readonly accrualService: LeaveAccrualService,
+    private readonly yearCloseService: LeaveYearCloseService,
   ) {}
 
   private resolveCompanyId(user: any): string | undefined {
@@ -61,6 +64,21 @@ export class LeaveBalanceController {
     return this.balanceService.adjustBalance(dto);
   }
 
+  /** Admin/HR: xem trước số ngày lần tích lũy tới sẽ cộng cho từng nhân viên (không ghi DB) */
+  @Get('accrual-preview')
+  @RequirePermissions('leave-balances:manage')
+  previewAccrual(
+    @GetUser() user: any,
+    @Query('month', new ParseIntPipe({ optional: true })) month?: number,
+    @Query('year', new ParseIntPipe({ optional: true })) year?: number,
+    @Query('leaveTypeId', new ParseUUIDPipe({ optional: true })) leaveTypeId?: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page?: number,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit?: number,
+  ) {
+    const companyId = this.resolveCompanyId(user);
+    return this.accrualService.previewAccrual(companyId, { month, year, leaveTypeId, page, limit });
+  }
+
   /** Admin/HR: trigger tích lũy thủ công cho tháng cụ thể (scoped to caller's company) */
   @Post('trigger-accrual')
   @RequirePermissions('leave-balances:manage')
@@ -73,6 +91,42 @@ export class LeaveBalanceController {
     return this.accrualService.triggerManualAccrual(month, year, companyId);
   }
 
+  /** Admin/HR: chốt phép năm — chuyển số dư sang năm sau (cap maxCarryOver), phần vượt → hết hạn. Chạy lại an toàn */
+  @Post('year-close')
+  @RequirePermissions('leave-balances:manage')
+  @Audit({ entity: 'LeaveYearClose', snapshot: false })
+  closeYear(
+    @Query('year', ParseIntPipe) year: number,
+    @GetUser() user: any,
+  ) {
+    const companyId = this.resolveCompanyId(user);
+    return this.yearCloseService.triggerYearClose(year, companyId, user.id);
+  }
+
+  /** Admin/HR: báo cáo các lần chốt phép năm (tổng theo loại phép) */
+  @Get('year-close')
+  @RequirePermissions('leave-balances:manage')
+  getYearCloseRuns(
+    @GetUser() user: any,
+    @Query('year', new ParseIntPipe({ optional: true })) year?: number,
+  ) {
+    return this.yearCloseService.findRuns(this.resolveCompanyId(user), year);
+  }
+
+  /** Admin/HR: chi tiết chốt phép từng nhân viên */
+  @Get('year-close/:year/details')
+  @RequirePermissions('leave-balances:manage')
+  getYearCloseDetails(
+    @Param('year', ParseIntPipe) year: number,
+    @GetUser() user: any,
+    @Query('leaveTypeId', new ParseUUIDPipe({ optional: true })) leaveTypeId?: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page?: number,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit?: number,
+  ) {
+    const companyId = this.resolveCompanyId(user);
+    return this.yearCloseService.getCloseDetails(companyId, year, { leaveTypeId, page, limit });
+  }
+
   /** Admin/HR: Import hàng loạt số dư phép năm từ Excel (scoped to caller's company) */
   @Post('bulk-import')
   @RequirePermissions('leave-balances:manage')
@@ -0,0 +1,53 @@
+import { Body, Controller, Delete, Get, Param, Post, Req, Res } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { LeaveCalendarFeedService } from '../services/leave-calendar-feed.service';
+import { IssueFeedTokenDto } from '../dto/leave-calendar-feed/issue-feed-token.dto';
+import { GetUser } from 'src/common/decorators/get-user.decorator';
+import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+import { Public } from 'src/common/decorators/public.decorator';
+
+@Controller('leave-calendar-feed')
+export class LeaveCalendarFeedController {
+  constructor(private readonly feedService: LeaveCalendarFeedService) {}
+
+  /** Trạng thái link đăng ký lịch của bản thân */
+  @Get('token')
+  @RequirePermissions('leave-requests:view')
+  getToken(@GetUser('id') userId: string) {
+    return this.feedService.getTokenStatus(userId);
+  }
+
+  /** Tạo link đăng ký lịch mới (link cũ hết hiệu lực) — URL chỉ hiển thị 1 lần */
+  @Post('token')
+  @RequirePermissions('leave-requests:view')
+  async issueToken(@GetUser('id') userId: string, @Body() dto: IssueFeedTokenDto, @Req() req: Request) {
+    const { token, ...rest } = await this.feedService.issueToken(userId, dto.includeTeam);
+    // /api/leave-calendar-feed/token → /api/leave-calendar-feed/feed/<token>.ics
+    const proto = (req.headers['x-forwarded-proto'] as string)?.split(',')[0] || req.protocol;
+    const basePath = req.originalUrl.split('?')[0].replace(/\/token\/?$/, '');
+    const url = `${proto}://${req.get('host')}${basePath}/feed/${token}.ics`;
+    return {
+      ...rest,
+      url,
+      webcalUrl: url.replace(/^https?:/, 'webcal:'),
+    };
+  }
+
+  /** Thu hồi link đăng ký lịch */
+  @Delete('token')
+  @RequirePermissions('leave-requests:view')
+  revokeToken(@GetUser('id') userId: string) {
+    return this.feedService.revokeToken(userId);
+  }
+
+  /** Feed ICS — xác thực bằng token trong URL (ứng dụng lịch không gửi JWT) */
+  @Public()
+  @Get('feed/:token')
+  async feed(@Param('token') token: string, @Res() res: Response) {
+    const ics = await this.feedService.renderFeed(token.replace(/\.ics$/i, ''));
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="leave-calendar.ics"');
+    res.setHeader('Cache-Control', 'private, max-age=900');
+    res.send(ics);
+  }
+}
@@ -5,8 +5,10 @@ import { LeaveFlowService } from '../services/leave-flow.service';
 import { CreateLeaveFlowDto } from '../dto/leave-flow/create-leave-flow.dto';
 import { GetUser } from 'src/common/decorators/get-user.decorator';
 import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+import { Audit } from 'src/common/decorators/audit.decorator';
 
 @Controller('leave-flows')
+@Audit('LeaveApprovalFlow')
 export class LeaveFlowController {
   constructor(private readonly leaveFlowService: LeaveFlowService) {}
 
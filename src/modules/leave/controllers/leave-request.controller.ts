@@ -1,11 +1,12 @@
 import {
   Controller, Get, Post, Put, Delete, Patch,
-  Body, Param, Query, ParseUUIDPipe, DefaultValuePipe, ParseIntPipe,
+  Body, Param, Query, ParseUUIDPipe, DefaultValuePipe, ParseIntPipe, BadRequestException,
   UseInterceptors, UploadedFile,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { LeaveRequestService } from '../services/leave-request.service';
 import { LeaveApprovalService } from '../services/leave-approval.service';
+import { CalendarGroupBy, LeaveCalendarService } from '../services/leave-calendar.service';
 import { CreateLeaveRequestDto } from '../dto/leave-request/create-leave-request.dto';
 import { UpdateLeaveRequestDto } from '../dto/leave-request/update-leave-request.dto';
 import {
@@ -13,12 +14,14 @@ import {
 } from '../dto/leave-request/approve-leave.dto';
 import { GetUser } from 'src/common/decorators/get-user.decorator';
 import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+import { Audit } from 'src/common/decorators/audit.decorator';
 
 @Controller('leave-requests')
 export class LeaveRequestController {
   constructor(
     private readonly leaveRequestService: LeaveRequestService,
     private readonly leaveApprovalService: LeaveApprovalService,
+    private readonly leaveCalendarService: LeaveCalendarService,
   ) {}
 
   // ── Admin: thống kê số người nghỉ theo ngày ──────────────────
@@ -40,6 +43,42 @@ export class LeaveRequestController {
     return this.leaveRequestService.getAdminStats(companyId, from, to);
   }
 
+  // ── Lịch vắng mặt theo phòng ban / tổ / nhóm ─────────────────
+
+  @Get('calendar')
+  @RequirePermissions('leave-requests:view')
+  getCalendar(
+    @GetUser() currentUser: any,
+    @Query('from') from: string,
+    @Query('to') to: string,
+    @Query('groupBy') groupBy?: CalendarGroupBy,
+    @Query('companyId') companyIdParam?: string,
+    @Query('officeId') officeId?: string,
+    @Query('departmentId') departmentId?: string,
+    @Query('teamId') teamId?: string,
+    @Query('groupId') groupId?: string,
+    @Query('leaveTypeId') leaveTypeId?: string,
+    @Query('includePending') includePending?: string,
+    @Query('threshold') threshold?: string,
+  ) {
+    if (groupBy && !['department', 'team', 'group'].includes(groupBy)) {
+      throw new BadRequestException('groupBy phải là department, team hoặc group');
+    }
+    const isSuperAdmin = (currentUser?.roles ?? []).some(
+      (r: any) => (r.roleDefinition?.code ?? r.code) === 'SUPERADMIN',
+    );
+    return this.leaveCalendarService.getCalendar(
+      { id: currentUser.id, companyId: currentUser.companyId, isSuperAdmin },
+      {
+        from, to, groupBy,
+        companyId: companyIdParam,
+        officeId, departmentId, teamId, groupId, leaveTypeId,
+        includePending: includePending !== 'false',
+        thresholdPct: threshold !== undefined && threshold !== '' ? Number(threshold) : undefined,
+      },
+    );
+  }
+
   // ── Admin: danh sách tất cả đơn ──────────────────────────────
 
   @Get('admin/all')
@@ -147,6 +186,7 @@ export class LeaveRequestController {
 
   @Post('bulk-approve')
   @RequirePermissions('leave-approvals:approve')
+  @Audit({ entity: 'LeaveRequest', snapshot: false })
   bulkApprove(
     @GetUser('id') approverId: string,
     @Body() dto: BulkApproveLeaveDto,
@@ -225,6 +265,7 @@ export class LeaveRequestController {
 
   @Post(':id/approve')
   @RequirePermissions('leave-approvals:approve')
+  @Audit('LeaveRequest')
   approve(
     @Param('id', ParseUUIDPipe) id: string,
     @GetUser('id') approverId: string,
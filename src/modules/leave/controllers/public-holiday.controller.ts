@@ -4,13 +4,21 @@ import {
 } from '@nestjs/common';
 import { PublicHolidayService } from '../services/public-holiday.service';
 import { CreatePublicHolidayDto } from '../dto/public-holiday/create-public-holiday.dto';
+import { GeneratePublicHolidaysDto } from '../dto/public-holiday/generate-public-holidays.dto';
 import { GetUser } from 'src/common/decorators/get-user.decorator';
 import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+import { Audit } from 'src/common/decorators/audit.decorator';
 
 @Controller('public-holidays')
 export class PublicHolidayController {
   constructor(private readonly publicHolidayService: PublicHolidayService) {}
 
+  /** SUPERADMIN: companyId trong body (bỏ trống = ngày lễ chung); còn lại: công ty của mình */
+  private resolveTargetCompanyId(user: any, requested?: string): string | null {
+    const isSuperAdmin = user?.roles?.some((r: any) => r?.roleDefinition?.code === 'SUPERADMIN');
+    return isSuperAdmin ? (requested ?? null) : (user?.companyId ?? null);
+  }
+
   @Post()
   @RequirePermissions('public-holidays:create')
   create(@Body() dto: CreatePublicHolidayDto) {
@@ -27,6 +35,21 @@ export class PublicHolidayController {
     return this.publicHolidayService.findAll(year, queryCompanyId ?? companyId);
   }
 
+  // ── Sinh ngày lễ theo năm (âm lịch + quy tắc) ────────────────
+
+  @Post('generate/preview')
+  @RequirePermissions('public-holidays:view')
+  previewGenerate(@GetUser() user: any, @Body() dto: GeneratePublicHolidaysDto) {
+    return this.publicHolidayService.previewGenerate(dto, this.resolveTargetCompanyId(user, dto.companyId));
+  }
+
+  @Post('generate')
+  @RequirePermissions('public-holidays:create')
+  @Audit({ entity: 'PublicHoliday', snapshot: false })
+  commitGenerate(@GetUser() user: any, @Body() dto: GeneratePublicHolidaysDto) {
+    return this.publicHolidayService.commitGenerate(dto, this.resolveTargetCompanyId(user, dto.companyId));
+  }
+
   @Get(':id')
   @RequirePermissions('public-holidays:view')
   findOne(@Param('id', ParseUUIDPipe) id: string) {
@@ -0,0 +1,74 @@
+import { AccrualProRateMode } from '@prisma/client';
+import {
+  IsBoolean, IsEnum, IsInt, IsNumber, IsOptional, IsString, IsUUID, Max, Min,
+} from 'class-validator';
+
+export class CreateLeaveAccrualPolicyDto {
+  @IsUUID()
+  leaveTypeId: string;
+
+  @IsOptional()
+  @IsUUID()
+  companyId?: string; // chỉ SUPERADMIN — null = áp dụng mọi công ty
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(365)
+  baseDaysPerYear?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  seniorityStepYears?: number; // 0 = không cộng thâm niên
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  seniorityBonusDays?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxSeniorityBonusDays?: number;
+
+  @IsOptional()
+  @IsEnum(AccrualProRateMode)
+  proRateMode?: AccrualProRateMode;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(31)
+  minDaysInMonth?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  unpaidLeaveThresholdDays?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  capAtMaxDaysPerYear?: boolean;
+
+  // Hạn dùng phép chuyển năm, VD 3/31 — bỏ trống = không hết hạn
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(12)
+  carryOverExpiryMonth?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(31)
+  carryOverExpiryDay?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateLeaveAccrualPolicyDto } from './create-leave-accrual-policy.dto';
+
+export class UpdateLeaveAccrualPolicyDto extends PartialType(
+  OmitType(CreateLeaveAccrualPolicyDto, ['leaveTypeId', 'companyId'] as const),
+) {}
@@ -0,0 +1,7 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class IssueFeedTokenDto {
+  @IsOptional()
+  @IsBoolean()
+  includeTeam?: boolean; // kèm đơn nghỉ của người mình quản lý / được xem
+}
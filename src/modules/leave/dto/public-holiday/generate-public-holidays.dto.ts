@@ -0,0 +1,64 @@
+import {
+  IsArray, IsBoolean, IsDateString, IsIn, IsInt, IsOptional, IsString, IsUUID,
+  ArrayMaxSize, Max, Min, ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ExtraHolidayDayDto {
+  @IsDateString()
+  date: string; // YYYY-MM-DD
+
+  @IsString()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
+
+export class GeneratePublicHolidaysDto {
+  @IsInt()
+  @Min(1900)
+  @Max(2199)
+  year: number;
+
+  @IsOptional()
+  @IsUUID()
+  companyId?: string; // chỉ SUPERADMIN — bỏ trống = ngày lễ dùng chung
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(5)
+  tetDaysBefore?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(9)
+  tetDaysFromNewYear?: number;
+
+  @IsOptional()
+  @IsIn(['AUTO', 'BEFORE', 'AFTER'])
+  nationalDayAdjacent?: 'AUTO' | 'BEFORE' | 'AFTER';
+
+  @IsOptional()
+  @IsBoolean()
+  compensate?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(6)
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  weeklyRestDays?: number[];
+
+  // Ngày nghỉ hoán đổi / nghỉ thêm do Chính phủ công bố
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(30)
+  @ValidateNested({ each: true })
+  @Type(() => ExtraHolidayDayDto)
+  extraDays?: ExtraHolidayDayDto[];
+}
@@ -8,6 +8,8 @@ import { LeaveTypeController } from './controllers/leave-type.controller';
 import { LeaveFlowController } from './controllers/leave-flow.controller';
 import { LeaveVisibilityController } from './controllers/leave-visibility.controller';
 import { PublicHolidayController } from './controllers/public-holiday.controller';
+import { LeaveAccrualPolicyController } from './controllers/leave-accrual-policy.controller';
+import { LeaveCalendarFeedController } from './controllers/leave-calendar-feed.controller';
 
 // Services
 import { LeaveRequestService } from './services/leave-request.service';
@@ -17,15 +19,23 @@ import { LeaveTypeService } from './services/leave-type.service';
 import { LeaveFlowService } from './services/leave-flow.service';
 import { LeaveVisibilityService } from './services/leave-visibility.service';
 import { LeaveAccrualService } from './services/leave-accrual.service';
+import { LeaveAccrualPolicyService } from './services/leave-accrual-policy.service';
+import { LeaveYearCloseService } from './services/leave-year-close.service';
+import { LeaveCalendarService } from './services/leave-calendar.service';
+import { LeaveCalendarFeedService } from './services/leave-calendar-feed.service';
+import { LeaveTimeoutService } from './services/leave-timeout.service';
+import { LeaveEmailService } from './services/leave-email.service';
 import { PublicHolidayService } from './services/public-holiday.service';
 import { WorkingDayService } from './services/working-day.service';
 
 // Common
 import { CommonModule } from 'src/common/common.module';
 import { WebSocketModule } from '../websocket/websocket.module';
+import { NotificationChannelModule } from '../notification-channel/notification-channel.module';
+import { ApprovalDelegationModule } from '../approval-delegation/approval-delegation.module';
 
 @Module({
-  imports: [CommonModule, WebSocketModule],
+  imports: [CommonModule, WebSocketModule, NotificationChannelModule, ApprovalDelegationModule],
   controllers: [
     LeaveRequestController,
     LeaveBalanceController,
@@ -33,6 +43,8 @@ import { WebSocketModule } from '../websocket/websocket.module';
     LeaveFlowController,
     LeaveVisibilityController,
     PublicHolidayController,
+    LeaveAccrualPolicyController,
+    LeaveCalendarFeedController,
   ],
   providers: [
     LeaveRequestService,
@@ -42,6 +54,12 @@ import { WebSocketModule } from '../websocket/websocket.module';
     LeaveFlowService,
     LeaveVisibilityService,
     LeaveAccrualService,
+    LeaveAccrualPolicyService,
+    LeaveYearCloseService,
+    LeaveCalendarService,
+    LeaveCalendarFeedService,
+    LeaveTimeoutService,
+    LeaveEmailService,
     PublicHolidayService,
     WorkingDayService,
   ],
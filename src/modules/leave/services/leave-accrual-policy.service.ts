@@ -0,0 +1,121 @@
+import { ConflictException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { LeaveAccrualPolicy, Prisma } from '@prisma/client';
+import { PrismaService } from 'src/common/prisma.service';
+import { CreateLeaveAccrualPolicyDto } from '../dto/leave-accrual-policy/create-leave-accrual-policy.dto';
+import { UpdateLeaveAccrualPolicyDto } from '../dto/leave-accrual-policy/update-leave-accrual-policy.dto';
+import { AccrualPolicyConfig, defaultAccrualPolicy } from './leave-accrual-policy.util';
+
+export type AccrualPolicyResolver = (
+  leaveType: { id: string; accrualPerMonth: Prisma.Decimal | null },
+  companyId: string,
+) => AccrualPolicyConfig;
+
+/**
+ * LeaveAccrualPolicyService
+ * Chính sách tích lũy per leaveType: công ty > global (companyId null) > mặc định theo luật
+ */
+@Injectable()
+export class LeaveAccrualPolicyService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** companyId undefined = SUPERADMIN (xem tất cả) */
+  async findAll(companyId?: string, leaveTypeId?: string) {
+    return this.prisma.leaveAccrualPolicy.findMany({
+      where: {
+        ...(companyId ? { OR: [{ companyId: null }, { companyId }] } : {}),
+        ...(leaveTypeId ? { leaveTypeId } : {}),
+      },
+      include: { leaveType: { select: { id: true, code: true, name: true, maxDaysPerYear: true } } },
+      orderBy: [{ leaveTypeId: 'asc' }, { companyId: 'asc' }],
+    });
+  }
+
+  async findOne(id: string) {
+    const policy = await this.prisma.leaveAccrualPolicy.findUnique({
+      where: { id },
+      include: { leaveType: { select: { id: true, code: true, name: true, maxDaysPerYear: true } } },
+    });
+    if (!policy) throw new NotFoundException('Chính sách tích lũy không tồn tại');
+    return policy;
+  }
+
+  async create(dto: CreateLeaveAccrualPolicyDto, callerCompanyId?: string) {
+    const { companyId: dtoCompanyId, ...data } = dto;
+    // Non-SUPERADMIN luôn tạo cho công ty mình
+    const companyId = callerCompanyId ?? dtoCompanyId ?? null;
+
+    const leaveType = await this.prisma.leaveType.findUnique({
+      where: { id: dto.leaveTypeId },
+      select: { companyId: true, isAccruable: true },
+    });
+    if (!leaveType || (leaveType.companyId && leaveType.companyId !== companyId)) {
+      throw new NotFoundException('Loại phép không tồn tại');
+    }
+    if (!leaveType.isAccruable) {
+      throw new ConflictException('Loại phép này không bật tích lũy tự động');
+    }
+
+    const existing = await this.prisma.leaveAccrualPolicy.findFirst({
+      where: { leaveTypeId: dto.leaveTypeId, companyId },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new ConflictException('Loại phép đã có chính sách tích lũy cho phạm vi này');
+    }
+
+    return this.prisma.leaveAccrualPolicy.create({ data: { ...data, companyId } });
+  }
+
+  async update(id: string, dto: UpdateLeaveAccrualPolicyDto, callerCompanyId?: string) {
+    await this.assertEditable(id, callerCompanyId);
+    return this.prisma.leaveAccrualPolicy.update({ where: { id }, data: dto });
+  }
+
+  async remove(id: string, callerCompanyId?: string) {
+    await this.assertEditable(id, callerCompanyId);
+    await this.prisma.leaveAccrualPolicy.delete({ where: { id } });
+    return { id, deleted: true };
+  }
+
+  /**
+   * Nạp toàn bộ chính sách đang bật 1 lần → resolver dùng cho cả batch users
+   * (tránh query policy per user khi chạy cron cho 30k users)
+   */
+  async loadResolver(leaveTypeIds: string[]): Promise<AccrualPolicyResolver> {
+    const policies = await this.prisma.leaveAccrualPolicy.findMany({
+      where: { isActive: true, leaveTypeId: { in: leaveTypeIds } },
+    });
+    const byKey = new Map(policies.map((p) => [`${p.leaveTypeId}:${p.companyId ?? ''}`, p]));
+
+    return (leaveType, companyId) => {
+      const policy = byKey.get(`${leaveType.id}:${companyId}`) ?? byKey.get(`${leaveType.id}:`);
+      return policy
+        ? this.toConfig(policy)
+        : defaultAccrualPolicy(leaveType.accrualPerMonth != null ? Number(leaveType.accrualPerMonth) : null);
+    };
+  }
+
+  private toConfig(policy: LeaveAccrualPolicy): AccrualPolicyConfig {
+    return {
+      baseDaysPerYear: Number(policy.baseDaysPerYear),
+      seniorityStepYears: policy.seniorityStepYears,
+      seniorityBonusDays: Number(policy.seniorityBonusDays),
+      maxSeniorityBonusDays: policy.maxSeniorityBonusDays != null ? Number(policy.maxSeniorityBonusDays) : null,
+      proRateMode: policy.proRateMode,
+      minDaysInMonth: policy.minDaysInMonth,
+      unpaidLeaveThresholdDays: Number(policy.unpaidLeaveThresholdDays),
+      capAtMaxDaysPerYear: policy.capAtMaxDaysPerYear,
+      carryOverExpiryMonth: policy.carryOverExpiryMonth,
+      carryOverExpiryDay: policy.carryOverExpiryDay,
+    };
+  }
+
+  private async assertEditable(id: string, callerCompanyId?: string) {
+    const policy = await this.findOne(id);
+    // Chính sách global / công ty khác chỉ SUPERADMIN được sửa
+    if (callerCompanyId && policy.companyId !== callerCompanyId) {
+      throw new ForbiddenException('Không có quyền sửa chính sách tích lũy này');
+    }
+    return policy;
+  }
+}
@@ -0,0 +1,81 @@
+import {
+  accrualBalanceYear,
+  computeMonthlyAccrual,
+  defaultAccrualPolicy,
+  employedDaysInMonth,
+  unpaidLeaveDaysInMonth,
+  yearsOfService,
+} from './leave-accrual-policy.util';
+
+const d = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+
+describe('Leave accrual policy', () => {
+  const policy = defaultAccrualPolicy();
+  const base = {
+    month: 6,
+    year: 2026,
+    joinDate: d('2024-01-10'),
+    terminationDate: null,
+    unpaidLeaveDays: 0,
+    accruedSoFar: 0,
+    maxDaysPerYear: null,
+  };
+
+  it('should credit 1 day per month for a 12-day entitlement', () => {
+    const result = computeMonthlyAccrual(policy, base);
+    expect(result.days).toBe(1);
+    expect(result.skipReason).toBeNull();
+  });
+
+  it('should add 1 day per year for every 5 years of service', () => {
+    expect(yearsOfService(d('2016-06-30'), d('2026-06-30'))).toBe(10);
+    expect(yearsOfService(d('2016-07-01'), d('2026-06-30'))).toBe(9);
+
+    const result = computeMonthlyAccrual(policy, { ...base, joinDate: d('2016-01-01') });
+    expect(result.seniorityBonusDays).toBe(2);
+    expect(result.entitlementPerYear).toBe(14);
+    expect(result.days).toBe(1.2);
+  });
+
+  it('should skip the join month when fewer than minDaysInMonth were worked', () => {
+    expect(employedDaysInMonth(6, 2026, d('2026-06-20'), null)).toBe(11);
+    const result = computeMonthlyAccrual(policy, { ...base, joinDate: d('2026-06-20') });
+    expect(result.days).toBe(0);
+    expect(result.skipReason).toContain('11');
+  });
+
+  it('should pro-rate by calendar days in DAILY mode', () => {
+    const result = computeMonthlyAccrual(
+      { ...policy, proRateMode: 'DAILY' },
+      { ...base, terminationDate: d('2026-06-15') },
+    );
+    expect(result.factor).toBe(0.5);
+    expect(result.days).toBe(0.5);
+  });
+
+  it('should not accrue after termination or before joining', () => {
+    expect(computeMonthlyAccrual(policy, { ...base, terminationDate: d('2026-05-31') }).skipReason).toBe('Đã nghỉ việc');
+    expect(computeMonthlyAccrual(policy, { ...base, joinDate: d('2026-07-01') }).skipReason).toBe('Chưa vào làm');
+  });
+
+  it('should exclude months with long unpaid leave', () => {
+    const unpaid = unpaidLeaveDaysInMonth(
+      [{ startDate: d('2026-05-25'), endDate: d('2026-06-24'), totalDays: 24 }],
+      6,
+      2026,
+    );
+    expect(unpaid).toBeCloseTo(18.6, 1);
+    expect(computeMonthlyAccrual(policy, { ...base, unpaidLeaveDays: unpaid }).days).toBe(0);
+  });
+
+  it('should cap at LeaveType.maxDaysPerYear', () => {
+    const result = computeMonthlyAccrual(policy, { ...base, accruedSoFar: 9.5, maxDaysPerYear: 10 });
+    expect(result.days).toBe(0.5);
+    expect(computeMonthlyAccrual(policy, { ...base, accruedSoFar: 10, maxDaysPerYear: 10 }).days).toBe(0);
+  });
+
+  it('should credit December accrual to the next balance year', () => {
+    expect(accrualBalanceYear(12, 2025)).toBe(2026);
+    expect(accrualBalanceYear(5, 2026)).toBe(2026);
+  });
+});
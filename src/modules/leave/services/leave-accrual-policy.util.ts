@@ -0,0 +1,173 @@
+/**
+ * Leave accrual policy — tính số ngày phép được cộng cho 1 nhân viên trong 1 tháng
+ * Thuần (không truy cập DB) để dùng chung cho cron, trigger thủ công và preview.
+ *
+ * Ngày (@db.Date) lưu dạng UTC 00:00 → toàn bộ phép tính dùng getter UTC.
+ */
+
+const DAY_MS = 86_400_000;
+
+export type ProRateMode = 'THRESHOLD' | 'DAILY' | 'NONE';
+
+export interface AccrualPolicyConfig {
+  baseDaysPerYear: number;
+  seniorityStepYears: number;
+  seniorityBonusDays: number;
+  maxSeniorityBonusDays: number | null;
+  proRateMode: ProRateMode;
+  minDaysInMonth: number;
+  unpaidLeaveThresholdDays: number;
+  capAtMaxDaysPerYear: boolean;
+  carryOverExpiryMonth: number | null; // hạn dùng phép chuyển năm (null = không hết hạn)
+  carryOverExpiryDay: number | null;
+}
+
+export interface AccrualInput {
+  month: number; // 1-12
+  year: number;
+  joinDate: Date | null;
+  terminationDate: Date | null;
+  unpaidLeaveDays: number; // số ngày nghỉ không lương (đã duyệt) trong tháng
+  accruedSoFar: number; // LeaveBalance.accrued hiện tại
+  maxDaysPerYear: number | null; // LeaveType.maxDaysPerYear
+}
+
+export interface AccrualResult {
+  days: number; // số ngày sẽ cộng (0 nếu bị loại)
+  yearsOfService: number;
+  seniorityBonusDays: number;
+  entitlementPerYear: number; // base + thâm niên (sau cap)
+  factor: number; // tỷ lệ tháng được tính (0..1)
+  skipReason: string | null;
+}
+
+/** Chính sách mặc định khi loại phép chưa cấu hình — theo Bộ luật Lao động (12 ngày, +1 ngày / 5 năm) */
+export function defaultAccrualPolicy(accrualPerMonth?: number | null): AccrualPolicyConfig {
+  return {
+    baseDaysPerYear: accrualPerMonth != null ? accrualPerMonth * 12 : 12,
+    seniorityStepYears: 5,
+    seniorityBonusDays: 1,
+    maxSeniorityBonusDays: null,
+    proRateMode: 'THRESHOLD',
+    minDaysInMonth: 15,
+    unpaidLeaveThresholdDays: 14,
+    capAtMaxDaysPerYear: true,
+    carryOverExpiryMonth: null,
+    carryOverExpiryDay: null,
+  };
+}
+
+/**
+ * Năm của LeaveBalance nhận accrual tháng (month, year).
+ * Giữ nguyên quy ước cũ: accrual tháng 12 chạy ngày 1/1 → cộng vào số dư năm mới.
+ */
+export function accrualBalanceYear(month: number, year: number): number {
+  return month === 12 ? year + 1 : year;
+}
+
+/** Số năm thâm niên tròn tính đến ngày asOf */
+export function yearsOfService(joinDate: Date | null, asOf: Date): number {
+  if (!joinDate || joinDate > asOf) return 0;
+  let years = asOf.getUTCFullYear() - joinDate.getUTCFullYear();
+  const beforeAnniversary =
+    asOf.getUTCMonth() < joinDate.getUTCMonth() ||
+    (asOf.getUTCMonth() === joinDate.getUTCMonth() && asOf.getUTCDate() < joinDate.getUTCDate());
+  if (beforeAnniversary) years--;
+  return Math.max(0, years);
+}
+
+export function seniorityBonus(policy: AccrualPolicyConfig, years: number): number {
+  if (policy.seniorityStepYears <= 0 || policy.seniorityBonusDays <= 0) return 0;
+  const bonus = Math.floor(years / policy.seniorityStepYears) * policy.seniorityBonusDays;
+  return policy.maxSeniorityBonusDays != null ? Math.min(bonus, policy.maxSeniorityBonusDays) : bonus;
+}
+
+/** Số ngày (lịch) nhân viên còn làm việc trong tháng — theo ngày vào làm / ngày nghỉ việc */
+export function employedDaysInMonth(
+  month: number,
+  year: number,
+  joinDate: Date | null,
+  terminationDate: Date | null,
+): number {
+  const monthStart = Date.UTC(year, month - 1, 1);
+  const monthEnd = Date.UTC(year, month, 0);
+  const from = Math.max(monthStart, joinDate ? joinDate.getTime() : monthStart);
+  const to = Math.min(monthEnd, terminationDate ? terminationDate.getTime() : monthEnd);
+  return to < from ? 0 : Math.round((to - from) / DAY_MS) + 1;
+}
+
+/**
+ * Số ngày nghỉ không lương rơi vào tháng.
+ * Đơn kéo dài qua nhiều tháng → chia totalDays theo tỷ lệ số ngày lịch nằm trong tháng.
+ */
+export function unpaidLeaveDaysInMonth(
+  requests: { startDate: Date; endDate: Date; totalDays: number }[],
+  month: number,
+  year: number,
+): number {
+  const monthStart = Date.UTC(year, month - 1, 1);
+  const monthEnd = Date.UTC(year, month, 0);
+  let total = 0;
+  for (const r of requests) {
+    const start = r.startDate.getTime();
+    const end = r.endDate.getTime();
+    const overlapFrom = Math.max(start, monthStart);
+    const overlapTo = Math.min(end, monthEnd);
+    if (overlapTo < overlapFrom) continue;
+    const spanDays = Math.round((end - start) / DAY_MS) + 1;
+    const overlapDays = Math.round((overlapTo - overlapFrom) / DAY_MS) + 1;
+    total += (r.totalDays * overlapDays) / spanDays;
+  }
+  return Math.round(total * 10) / 10;
+}
+
+/** Làm tròn lên 0.1 ngày (độ chính xác của LeaveBalance) — phần dư bị cap chặn ở tháng cuối */
+function roundUpTenth(value: number): number {
+  return Math.ceil(value * 10 - 1e-9) / 10;
+}
+
+export function computeMonthlyAccrual(policy: AccrualPolicyConfig, input: AccrualInput): AccrualResult {
+  const monthEnd = new Date(Date.UTC(input.year, input.month, 0));
+  const years = yearsOfService(input.joinDate, monthEnd);
+  const bonus = seniorityBonus(policy, years);
+
+  let entitlement = policy.baseDaysPerYear + bonus;
+  if (policy.capAtMaxDaysPerYear && input.maxDaysPerYear != null) {
+    entitlement = Math.min(entitlement, input.maxDaysPerYear);
+  }
+
+  const result = (days: number, factor: number, skipReason: string | null): AccrualResult => ({
+    days,
+    yearsOfService: years,
+    seniorityBonusDays: bonus,
+    entitlementPerYear: entitlement,
+    factor,
+    skipReason,
+  });
+
+  const daysInMonth = monthEnd.getUTCDate();
+  const employedDays = employedDaysInMonth(input.month, input.year, input.joinDate, input.terminationDate);
+  if (employedDays === 0) {
+    const notJoined = input.joinDate && input.joinDate > monthEnd;
+    return result(0, 0, notJoined ? 'Chưa vào làm' : 'Đã nghỉ việc');
+  }
+
+  let factor = 1;
+  if (employedDays < daysInMonth) {
+    if (policy.proRateMode === 'DAILY') {
+      factor = employedDays / daysInMonth;
+    } else if (policy.proRateMode === 'THRESHOLD' && employedDays < policy.minDaysInMonth) {
+      return result(0, 0, `Làm ${employedDays} ngày trong tháng (< ${policy.minDaysInMonth})`);
+    }
+  }
+
+  if (input.unpaidLeaveDays > policy.unpaidLeaveThresholdDays) {
+    return result(0, 0, `Nghỉ không lương ${input.unpaidLeaveDays} ngày (> ${policy.unpaidLeaveThresholdDays})`);
+  }
+
+  const remaining = Math.max(0, entitlement - input.accruedSoFar);
+  if (remaining <= 0) return result(0, factor, 'Đã đạt số ngày tối đa trong năm');
+
+  const days = Math.min(roundUpTenth((entitlement / 12) * factor), Math.round(remaining * 10) / 10);
+  return result(days, factor, null);
+}
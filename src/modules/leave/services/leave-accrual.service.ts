@@ -1,58 +1,139 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { Cron, CronExpression } from '@nestjs/schedule';
+import { Cron } from '@nestjs/schedule';
+import { LeaveRequestStatus, Prisma } from '@prisma/client';
 import { PrismaService } from 'src/common/prisma.service';
+import { AccrualPolicyResolver, LeaveAccrualPolicyService } from './leave-accrual-policy.service';
+import {
+  AccrualResult,
+  accrualBalanceYear,
+  computeMonthlyAccrual,
+  unpaidLeaveDaysInMonth,
+} from './leave-accrual-policy.util';
+
+type AccruableType = {
+  id: string;
+  code: string;
+  name: string;
+  companyId: string | null;
+  accrualPerMonth: Prisma.Decimal | null;
+  maxDaysPerYear: Prisma.Decimal | null;
+};
+
+type AccrualUser = {
+  id: string;
+  companyId: string;
+  employeeCode: string;
+  firstName: string;
+  lastName: string;
+  joinDate: Date | null;
+  terminationDate: Date | null;
+};
+
+export interface AccrualPlanRow extends AccrualResult {
+  userId: string;
+  employeeCode: string;
+  fullName: string;
+  companyId: string;
+  leaveTypeId: string;
+  leaveTypeCode: string;
+  leaveTypeName: string;
+  balanceId: string | null;
+  accruedSoFar: number;
+  unpaidLeaveDays: number;
+}
 
 /**
  * LeaveAccrualService
- * Cron job chạy vào ngày 1 hàng tháng lúc 00:05
- * Tích lũy ngày phép năm cho tất cả nhân viên đang hoạt động:
- * - Cứ làm đủ 1 tháng → +1 ngày phép năm (cấu hình qua LeaveType.accrualPerMonth)
- * - Điều kiện: user.joinDate <= ngày cuối tháng vừa qua (đã làm đủ tháng)
- * - Batch 500 users với cursor pagination để không timeout với 30k users
+ * Cron job chạy vào ngày 1 hàng tháng lúc 00:05 — tích lũy phép cho tháng vừa qua
+ * Số ngày cộng theo LeaveAccrualPolicy (xem leave-accrual-policy.util):
+ * - Thâm niên: +seniorityBonusDays / năm cho mỗi seniorityStepYears năm làm việc
+ * - Tháng vào làm / nghỉ việc: pro-rate theo proRateMode
+ * - Tháng nghỉ không lương quá ngưỡng → không tích lũy
+ * - Không vượt LeaveType.maxDaysPerYear
+ * Idempotent theo lastAccrualMonth/Year — chạy lại cùng tháng không cộng trùng.
+ * Batch 500 users với cursor pagination để không timeout với 30k users
  */
 @Injectable()
 export class LeaveAccrualService {
   private readonly logger = new Logger(LeaveAccrualService.name);
   private readonly BATCH_SIZE = 500;
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly policyService: LeaveAccrualPolicyService,
+  ) {}
 
-  @Cron('5 0 1 * *') // 00:05 ngày 1 mỗi tháng
+  @Cron('5 0 1 * *', { name: 'leave-monthly-accrual' }) // 00:05 ngày 1 mỗi tháng
   async runMonthlyAccrual() {
     const now = new Date();
     // Tháng vừa qua
     const accrualMonth = now.getMonth() === 0 ? 12 : now.getMonth();
     const accrualYear = now.getMonth() === 0 ? now.getFullYear() - 1 : now.getFullYear();
-    const currentYear = now.getFullYear();
 
     this.logger.log(`[Accrual] Bắt đầu tích lũy phép tháng ${accrualMonth}/${accrualYear}`);
+    const result = await this.runForMonth(accrualMonth, accrualYear);
+    this.logger.log(`[Accrual] Hoàn thành. Đã cộng ${result.credited} bản ghi, bỏ qua ${result.skipped}`);
+  }
 
-    // Lấy tất cả loại phép có accrual
-    const accruableTypes = await this.prisma.leaveType.findMany({
-      where: { isAccruable: true, isActive: true },
-      select: { id: true, accrualPerMonth: true, companyId: true },
-    });
+  /** Trigger thủ công — dùng để test hoặc backfill (scoped to companyId if provided) */
+  async triggerManualAccrual(month: number, year: number, companyId?: string) {
+    this.logger.log(`[Accrual] Manual trigger cho tháng ${month}/${year}${companyId ? ` (companyId: ${companyId})` : ' (all companies)'}`);
+    return this.runForMonth(month, year, companyId);
+  }
+
+  /**
+   * Dry-run: số ngày lần chạy tiếp theo sẽ cộng cho từng nhân viên (không ghi DB)
+   * Mặc định = tháng hiện tại (cron ngày 1 tháng sau sẽ tích lũy tháng này)
+   */
+  async previewAccrual(
+    companyId: string | undefined,
+    query: { month?: number; year?: number; leaveTypeId?: string; page?: number; limit?: number },
+  ) {
+    const now = new Date();
+    const month = query.month ?? now.getMonth() + 1;
+    const year = query.year ?? now.getFullYear();
+    const page = Math.max(1, Number(query.page) || 1);
+    const limit = Math.min(200, Math.max(1, Number(query.limit) || 50));
+
+    const types = await this.loadAccruableTypes(query.leaveTypeId);
+    const resolver = await this.policyService.loadResolver(types.map((t) => t.id));
+    const where = this.buildUserWhere(month, year, companyId);
+
+    const [users, total] = await Promise.all([
+      this.prisma.user.findMany({
+        where,
+        select: this.userSelect,
+        orderBy: { employeeCode: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.user.count({ where }),
+    ]);
+
+    const data = await this.planBatch(users, types, resolver, month, year);
+    return { month, year, balanceYear: accrualBalanceYear(month, year), data, total, page, limit };
+  }
+
+  // ── Core ─────────────────────────────────────────────────────
 
-    if (!accruableTypes.length) {
+  private async runForMonth(accrualMonth: number, accrualYear: number, companyId?: string) {
+    const balanceYear = accrualBalanceYear(accrualMonth, accrualYear);
+    const types = await this.loadAccruableTypes();
+    if (!types.length) {
       this.logger.log('[Accrual] Không có loại phép nào cần tích lũy');
-      return;
+      return { month: accrualMonth, year: accrualYear, balanceYear, credited: 0, skipped: 0 };
     }
+    const resolver = await this.policyService.loadResolver(types.map((t) => t.id));
+    const where = this.buildUserWhere(accrualMonth, accrualYear, companyId);
 
-    let totalAccrued = 0;
+    let credited = 0;
+    let skipped = 0;
     let cursor: string | undefined = undefined;
 
     do {
-      // Lấy batch users đang active và đã join trước hoặc trong tháng vừa qua
-      const lastDayOfPrevMonth = new Date(accrualYear, accrualMonth, 0); // ngày cuối tháng trước
       const users = await this.prisma.user.findMany({
-        where: {
-          isActive: true,
-          OR: [
-            { joinDate: { lte: lastDayOfPrevMonth } },
-            { joinDate: null },
-          ],
-        },
-        select: { id: true, companyId: true },
+        where,
+        select: this.userSelect,
         take: this.BATCH_SIZE,
         ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
         orderBy: { id: 'asc' },
@@ -61,124 +142,173 @@ export class LeaveAccrualService {
       if (!users.length) break;
       cursor = users[users.length - 1].id;
 
-      // Process từng user trong batch
-      for (const user of users) {
-        // Lấy loại phép phù hợp (global hoặc cùng công ty)
-        const relevantTypes = accruableTypes.filter(
-          (t) => t.companyId === null || t.companyId === user.companyId,
-        );
-
-        for (const leaveType of relevantTypes) {
-          // Kiểm tra đã tích lũy tháng này chưa
-          const balance = await this.prisma.leaveBalance.findUnique({
-            where: { userId_leaveTypeId_year: { userId: user.id, leaveTypeId: leaveType.id, year: currentYear } },
-            select: { id: true, lastAccrualMonth: true, lastAccrualYear: true },
-          });
+      const rows = await this.planBatch(users, types, resolver, accrualMonth, accrualYear);
+      const toCreate: Prisma.LeaveBalanceCreateManyInput[] = [];
 
-          // Nếu đã tích lũy tháng này rồi → bỏ qua
-          if (
-            balance &&
-            balance.lastAccrualMonth === accrualMonth &&
-            balance.lastAccrualYear === accrualYear
-          ) continue;
-
-          const accrualDays = Number(leaveType.accrualPerMonth ?? 1);
-
-          if (balance) {
-            await this.prisma.leaveBalance.update({
-              where: { id: balance.id },
-              data: {
-                accrued: { increment: accrualDays },
-                lastAccrualMonth: accrualMonth,
-                lastAccrualYear: accrualYear,
-              },
-            });
-          } else {
-            // Tạo balance mới với carry-over nếu cần
-            await this.prisma.leaveBalance.create({
-              data: {
-                userId: user.id,
-                leaveTypeId: leaveType.id,
-                year: currentYear,
-                companyId: user.companyId,
-                accrued: accrualDays,
-                carriedOver: 0,
-                lastAccrualMonth: accrualMonth,
-                lastAccrualYear: accrualYear,
-              },
-            });
-          }
-
-          totalAccrued++;
+      for (const row of rows) {
+        if (row.days <= 0) {
+          skipped++;
+          continue;
+        }
+
+        if (row.balanceId) {
+          // Claim có điều kiện — instance khác đã cộng tháng này thì count = 0
+          const { count } = await this.prisma.leaveBalance.updateMany({
+            where: {
+              id: row.balanceId,
+              OR: [
+                { lastAccrualYear: null },
+                { lastAccrualYear: { not: accrualYear } },
+                { lastAccrualMonth: { not: accrualMonth } },
+              ],
+            },
+            data: {
+              accrued: { increment: row.days },
+              lastAccrualMonth: accrualMonth,
+              lastAccrualYear: accrualYear,
+            },
+          });
+          if (count) credited++;
+          else skipped++;
+        } else {
+          toCreate.push({
+            userId: row.userId,
+            leaveTypeId: row.leaveTypeId,
+            year: balanceYear,
+            companyId: row.companyId,
+            accrued: row.days,
+            carriedOver: 0,
+            lastAccrualMonth: accrualMonth,
+            lastAccrualYear: accrualYear,
+          });
         }
       }
 
+      if (toCreate.length) {
+        const { count } = await this.prisma.leaveBalance.createMany({ data: toCreate, skipDuplicates: true });
+        credited += count;
+        skipped += toCreate.length - count;
+      }
+
       this.logger.log(`[Accrual] Đã xử lý ${users.length} users (cursor: ${cursor})`);
     } while (true);
 
-    this.logger.log(`[Accrual] Hoàn thành. Tổng bản ghi được cập nhật: ${totalAccrued}`);
+    return { month: accrualMonth, year: accrualYear, balanceYear, credited, skipped };
   }
 
-  /** Trigger thủ công — dùng để test hoặc backfill (scoped to companyId if provided) */
-  async triggerManualAccrual(month: number, year: number, companyId?: string) {
-    this.logger.log(`[Accrual] Manual trigger cho tháng ${month}/${year}${companyId ? ` (companyId: ${companyId})` : ' (all companies)'}`);
-    await this.runForMonth(month, year, companyId);
-  }
+  /** Tính accrual cho 1 batch users — 2 query (balances + nghỉ không lương) cho cả batch */
+  private async planBatch(
+    users: AccrualUser[],
+    types: AccruableType[],
+    resolver: AccrualPolicyResolver,
+    month: number,
+    year: number,
+  ): Promise<AccrualPlanRow[]> {
+    if (!users.length || !types.length) return [];
 
-  private async runForMonth(accrualMonth: number, accrualYear: number, companyId?: string) {
-    const currentYear = accrualMonth === 12 ? accrualYear + 1 : accrualYear;
-    const lastDayOfMonth = new Date(accrualYear, accrualMonth, 0);
+    const userIds = users.map((u) => u.id);
+    const monthStart = new Date(Date.UTC(year, month - 1, 1));
+    const monthEnd = new Date(Date.UTC(year, month, 0));
 
-    const accruableTypes = await this.prisma.leaveType.findMany({
-      where: { isAccruable: true, isActive: true },
-      select: { id: true, accrualPerMonth: true, companyId: true },
-    });
+    const [balances, unpaidRequests] = await Promise.all([
+      this.prisma.leaveBalance.findMany({
+        where: {
+          userId: { in: userIds },
+          leaveTypeId: { in: types.map((t) => t.id) },
+          year: accrualBalanceYear(month, year),
+        },
+        select: { id: true, userId: true, leaveTypeId: true, accrued: true, lastAccrualMonth: true, lastAccrualYear: true },
+      }),
+      this.prisma.leaveRequest.findMany({
+        where: {
+          userId: { in: userIds },
+          status: LeaveRequestStatus.APPROVED,
+          leaveType: { isPaid: false },
+          startDate: { lte: monthEnd },
+          endDate: { gte: monthStart },
+        },
+        select: { userId: true, startDate: true, endDate: true, totalDays: true },
+      }),
+    ]);
 
-    let cursor: string | undefined = undefined;
-    let totalAccrued = 0;
+    const balanceByKey = new Map(balances.map((b) => [`${b.userId}:${b.leaveTypeId}`, b]));
+    const unpaidByUser = new Map<string, { startDate: Date; endDate: Date; totalDays: number }[]>();
+    for (const r of unpaidRequests) {
+      const list = unpaidByUser.get(r.userId) ?? [];
+      list.push({ startDate: r.startDate, endDate: r.endDate, totalDays: Number(r.totalDays) });
+      unpaidByUser.set(r.userId, list);
+    }
 
-    do {
-      const users = await this.prisma.user.findMany({
-        where: { 
-          isActive: true,
-          ...(companyId ? { companyId } : {}),
-          OR: [
-            { joinDate: { lte: lastDayOfMonth } },
-            { joinDate: null },
-          ],
-        },
-        select: { id: true, companyId: true },
-        take: this.BATCH_SIZE,
-        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
-        orderBy: { id: 'asc' },
-      });
+    const rows: AccrualPlanRow[] = [];
+    for (const user of users) {
+      const unpaidLeaveDays = unpaidLeaveDaysInMonth(unpaidByUser.get(user.id) ?? [], month, year);
 
-      if (!users.length) break;
-      cursor = users[users.length - 1].id;
+      // Lấy loại phép phù hợp (global hoặc cùng công ty)
+      for (const leaveType of types.filter((t) => !t.companyId || t.companyId === user.companyId)) {
+        const balance = balanceByKey.get(`${user.id}:${leaveType.id}`);
+        const accruedSoFar = Number(balance?.accrued ?? 0);
+        const alreadyAccrued = balance?.lastAccrualMonth === month && balance?.lastAccrualYear === year;
 
-      for (const user of users) {
-        const relevantTypes = accruableTypes.filter((t) => !t.companyId || t.companyId === user.companyId);
-        for (const lt of relevantTypes) {
-          const accrualDays = Number(lt.accrualPerMonth ?? 1);
-          await this.prisma.leaveBalance.upsert({
-            where: { userId_leaveTypeId_year: { userId: user.id, leaveTypeId: lt.id, year: currentYear } },
-            update: {
-              accrued: { increment: accrualDays },
-              lastAccrualMonth: accrualMonth,
-              lastAccrualYear: accrualYear,
-            },
-            create: {
-              userId: user.id, leaveTypeId: lt.id, year: currentYear,
-              companyId: user.companyId,
-              accrued: accrualDays, carriedOver: 0,
-              lastAccrualMonth: accrualMonth, lastAccrualYear: accrualYear,
-            },
-          });
-          totalAccrued++;
-        }
+        const result = computeMonthlyAccrual(resolver(leaveType, user.companyId), {
+          month,
+          year,
+          joinDate: user.joinDate,
+          terminationDate: user.terminationDate,
+          unpaidLeaveDays,
+          accruedSoFar,
+          maxDaysPerYear: leaveType.maxDaysPerYear != null ? Number(leaveType.maxDaysPerYear) : null,
+        });
+
+        rows.push({
+          ...result,
+          ...(alreadyAccrued ? { days: 0, skipReason: 'Đã tích lũy tháng này' } : {}),
+          userId: user.id,
+          employeeCode: user.employeeCode,
+          fullName: `${user.lastName} ${user.firstName}`.trim(),
+          companyId: user.companyId,
+          leaveTypeId: leaveType.id,
+          leaveTypeCode: leaveType.code,
+          leaveTypeName: leaveType.name,
+          balanceId: balance?.id ?? null,
+          accruedSoFar,
+          unpaidLeaveDays,
+        });
       }
-    } while (true);
+    }
+    return rows;
+  }
 
-    return totalAccrued;
+  private loadAccruableTypes(leaveTypeId?: string): Promise<AccruableType[]> {
+    return this.prisma.leaveType.findMany({
+      where: { isAccruable: true, isActive: true, ...(leaveTypeId ? { id: leaveTypeId } : {}) },
+      select: { id: true, code: true, name: true, companyId: true, accrualPerMonth: true, maxDaysPerYear: true },
+    });
+  }
+
+  /**
+   * Users được xét tích lũy trong tháng: đã vào làm trước cuối tháng, chưa nghỉ việc trước đầu tháng.
+   * User đã inactive vẫn được tính tháng cuối nếu có terminationDate trong tháng.
+   */
+  private buildUserWhere(month: number, year: number, companyId?: string): Prisma.UserWhereInput {
+    const monthStart = new Date(Date.UTC(year, month - 1, 1));
+    const monthEnd = new Date(Date.UTC(year, month, 0));
+    return {
+      ...(companyId ? { companyId } : {}),
+      AND: [
+        { OR: [{ joinDate: { lte: monthEnd } }, { joinDate: null }] },
+        { OR: [{ terminationDate: null }, { terminationDate: { gte: monthStart } }] },
+        { OR: [{ isActive: true }, { terminationDate: { gte: monthStart } }] },
+      ],
+    };
   }
+
+  private readonly userSelect = {
+    id: true,
+    companyId: true,
+    employeeCode: true,
+    firstName: true,
+    lastName: true,
+    joinDate: true,
+    terminationDate: true,
+  } satisfies Prisma.UserSelect;
 }
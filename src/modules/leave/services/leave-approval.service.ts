@@ -4,6 +4,24 @@ import { LeaveBalanceService } from './leave-balance.service';
 import { ApproveLeaveDto, ApprovalDecision } from '../dto/leave-request/approve-leave.dto';
 import { ApproverMode, LeaveApprovalAction, LeaveTimeoutAction, Prisma } from '@prisma/client';
 import { WebSocketGateway } from '../../websocket/websocket.gateway';
+import { LeaveEmailService } from './leave-email.service';
+import { EmailTemplateKey } from '../../notification-channel/templates/email.templates';
+import { ApprovalDelegationService } from '../../approval-delegation/approval-delegation.service';
+import { OrgScope, ScopedAssignment, roleScopeWhere, scopeToUserWhere } from 'src/common/utils/role-scope';
+
+type RequesterInfo = { companyId: string; officeId: string; jobPosition: { departmentId: string; jobName?: string | null } };
+
+/** Role assignment của approver chỉ có hiệu lực với người gửi đơn trong phạm vi của nó */
+function requesterScope(info: { companyId: string; officeId: string | null; jobPosition: { departmentId: string } | null }): OrgScope {
+  return { companyId: info.companyId, officeId: info.officeId || null, departmentId: info.jobPosition?.departmentId || null };
+}
+
+// Quyền duyệt cấp hiện tại — isSubstitute/targetUserId/delegationId ghi vào LeaveApproval
+interface ApprovalRight {
+  isSubstitute: boolean;
+  targetUserId: string | null;
+  delegationId: string | null;
+}
 
 @Injectable()
 export class LeaveApprovalService {
@@ -13,6 +31,8 @@ export class LeaveApprovalService {
     private readonly prisma: PrismaService,
     private readonly balanceService: LeaveBalanceService,
     private readonly wsGateway: WebSocketGateway,
+    private readonly leaveEmail: LeaveEmailService,
+    private readonly delegationService: ApprovalDelegationService,
   ) {}
 
   // ── Tìm flow phù hợp nhất cho một đơn ────────────────────────
@@ -130,11 +150,11 @@ export class LeaveApprovalService {
       throw new BadRequestException(`Đơn đang ở trạng thái ${request.status}, không thể xử lý`);
     }
 
-    // Xác minh quyền duyệt
-    const canApprove = await this.canApproveRequest(requestId, approverId);
-    if (!canApprove) throw new BadRequestException('Bạn không có quyền duyệt đơn này');
+    // Xác minh quyền duyệt (trực tiếp / người thay thế của cấp / theo ủy quyền)
+    const right = await this.getApprovalRight(requestId, approverId);
+    if (!right) throw new BadRequestException('Bạn không có quyền duyệt đơn này');
 
-    const { isSubstitute, targetUserId } = await this.resolveApproverContext(request, approverId);
+    const { isSubstitute, targetUserId, delegationId } = right;
 
     const action: LeaveApprovalAction = dto.action === ApprovalDecision.APPROVED ? 'APPROVED' : 'REJECTED';
 
@@ -146,6 +166,7 @@ export class LeaveApprovalService {
         approverId,
         targetUserId: targetUserId ?? null,
         isSubstitute,
+        delegationId,
         action,
         comment: dto.comment ?? null,
       },
@@ -154,27 +175,12 @@ export class LeaveApprovalService {
     const reqNum = (request as any).requestNumber ?? requestId.slice(0, 8);
 
     if (action === 'REJECTED') {
-      // Từ chối → cập nhật trạng thái đơn
-      await this.prisma.leaveRequest.update({
-        where: { id: requestId },
-        data: { status: 'REJECTED', rejectedAt: new Date() },
-      });
-      // Hoàn lại số ngày pending
-      if (request.leaveType.isAccruable) {
-        await this.balanceService.adjustPending(
-          request.userId, request.leaveTypeId,
-          request.startDate.getFullYear(), request.companyId,
-          -Number(request.totalDays),
-        );
-      }
-      // Thông báo cho người nộp đơn
-      this.wsGateway.sendNotification(request.userId, {
-        type: 'LEAVE_REJECTED',
-        title: 'Đơn nghỉ phép bị từ chối',
-        message: `Đơn nghỉ phép #${reqNum} đã bị từ chối${dto.comment ? `: ${dto.comment}` : ''}`,
-        data: { leaveRequestId: requestId },
-        timestamp: new Date(),
-      });
+      await this.finalizeRejected(
+        request,
+        `Đơn nghỉ phép #${reqNum} đã bị từ chối${dto.comment ? `: ${dto.comment}` : ''}`,
+        'LEAVE_REJECTED',
+        dto.comment,
+      );
     } else {
       // Duyệt → tìm cấp tiếp theo trong danh sách đã sắp xếp
       const sortedLevels = (request.flow?.levels ?? []).sort((a: any, b: any) => a.level - b.level);
@@ -211,26 +217,7 @@ export class LeaveApprovalService {
         this.notifyNextLevelApprovers(request.userId, request.flowId, nextLevelConfig.level, reqNum, requestId).catch(() => {});
       } else {
         // Đã qua tất cả cấp → hoàn toàn duyệt
-        await this.prisma.leaveRequest.update({
-          where: { id: requestId },
-          data: { status: 'APPROVED', approvedAt: new Date() },
-        });
-        // Chuyển pending → used
-        if (request.leaveType.isAccruable) {
-          await this.balanceService.confirmUsed(
-            request.userId, request.leaveTypeId,
-            request.startDate.getFullYear(), request.companyId,
-            Number(request.totalDays),
-          );
-        }
-        // Thông báo cho người nộp đơn
-        this.wsGateway.sendNotification(request.userId, {
-          type: 'LEAVE_APPROVED',
-          title: 'Đơn nghỉ phép đã được duyệt',
-          message: `Đơn nghỉ phép #${reqNum} đã được phê duyệt`,
-          data: { leaveRequestId: requestId },
-          timestamp: new Date(),
-        });
+        await this.finalizeApproved(request, `Đơn nghỉ phép #${reqNum} đã được phê duyệt`, 'LEAVE_APPROVED', dto.comment);
       }
     }
 
@@ -240,6 +227,156 @@ export class LeaveApprovalService {
     });
   }
 
+  // ── Xử lý quá hạn duyệt (gọi từ LeaveTimeoutService) ─────────
+  // Claim bằng updateMany có điều kiện → chỉ 1 instance xử lý được mỗi (đơn, cấp).
+  // Trả về kết quả đã áp dụng, hoặc null nếu đơn đã được xử lý/thay đổi trạng thái.
+
+  async applyTimeout(
+    requestId: string,
+    level: number,
+    timeoutAction: LeaveTimeoutAction,
+  ): Promise<'ESCALATED' | 'APPROVED' | 'REJECTED' | 'NOTIFIED' | null> {
+    const claimed = await this.prisma.leaveRequest.updateMany({
+      where: {
+        id: requestId,
+        status: 'PENDING',
+        currentLevel: level,
+        OR: [{ timeoutHandledLevel: null }, { timeoutHandledLevel: { lt: level } }],
+      },
+      data: { timeoutHandledLevel: level },
+    });
+    if (claimed.count === 0) return null;
+
+    const request = await this.prisma.leaveRequest.findUnique({
+      where: { id: requestId },
+      include: {
+        flow: { include: { levels: { where: { isActive: true }, orderBy: { level: 'asc' } } } },
+        leaveType: true,
+      },
+    });
+    if (!request) return null;
+
+    const reqNum = request.requestNumber ?? requestId.slice(0, 8);
+    const levelConfig = request.flow?.levels.find((l) => l.level === level);
+    const nextLevelConfig = request.flow?.levels.find((l) => l.level > level) ?? null;
+    const hours = levelConfig?.timeoutHours ?? 0;
+
+    // ESCALATE ở cấp cuối → không còn cấp để chuyển, chỉ nhắc nhở
+    if (timeoutAction === 'NOTIFY_ONLY' || (timeoutAction === 'ESCALATE' && !nextLevelConfig)) {
+      return 'NOTIFIED';
+    }
+
+    const actionMap: Record<string, LeaveApprovalAction> = {
+      ESCALATE: 'TIMEOUT_ESCALATED',
+      AUTO_APPROVE: 'TIMEOUT_AUTO_APPROVED',
+      AUTO_REJECT: 'TIMEOUT_AUTO_REJECTED',
+    };
+
+    await this.prisma.leaveApproval.create({
+      data: {
+        requestId,
+        level,
+        approverId: null,
+        targetUserId: levelConfig?.specificUserId ?? null,
+        isSubstitute: false,
+        action: actionMap[timeoutAction],
+        comment: `Quá hạn duyệt ${hours} giờ`,
+      },
+    });
+
+    if (timeoutAction === 'AUTO_REJECT') {
+      await this.finalizeRejected(
+        request,
+        `Đơn nghỉ phép #${reqNum} đã bị tự động từ chối do quá hạn duyệt cấp ${level}`,
+        'LEAVE_TIMEOUT',
+      );
+      return 'REJECTED';
+    }
+
+    if (nextLevelConfig) {
+      // ESCALATE hoặc AUTO_APPROVE cấp hiện tại → chuyển lên cấp tiếp theo
+      await this.prisma.leaveRequest.update({
+        where: { id: requestId },
+        data: { currentLevel: nextLevelConfig.level },
+      });
+      this.notifyNextLevelApprovers(request.userId, request.flowId, nextLevelConfig.level, reqNum, requestId).catch(() => {});
+      this.leaveEmail.sendToRequester(requestId, 'LEAVE_TIMEOUT', {
+        message: `Đơn nghỉ phép #${reqNum} quá hạn duyệt cấp ${level}, đã được chuyển lên cấp ${nextLevelConfig.level}.`,
+      }).catch(() => {});
+      return timeoutAction === 'ESCALATE' ? 'ESCALATED' : 'APPROVED';
+    }
+
+    await this.finalizeApproved(
+      request,
+      `Đơn nghỉ phép #${reqNum} đã được tự động phê duyệt do quá hạn duyệt`,
+      'LEAVE_TIMEOUT',
+    );
+    return 'APPROVED';
+  }
+
+  // ── Kết thúc đơn: từ chối / duyệt hoàn toàn ──────────────────
+  // emailTemplate: LEAVE_TIMEOUT khi kết thúc do quá hạn, comment = ý kiến người duyệt
+
+  private async finalizeRejected(
+    request: { id: string; userId: string; leaveTypeId: string; companyId: string; startDate: Date; totalDays: Prisma.Decimal; leaveType: { isAccruable: boolean } },
+    message: string,
+    emailTemplate: EmailTemplateKey = 'LEAVE_REJECTED',
+    comment?: string,
+  ): Promise<void> {
+    await this.prisma.leaveRequest.update({
+      where: { id: request.id },
+      data: { status: 'REJECTED', rejectedAt: new Date() },
+    });
+    // Hoàn lại số ngày pending
+    if (request.leaveType.isAccruable) {
+      await this.balanceService.adjustPending(
+        request.userId, request.leaveTypeId,
+        request.startDate.getFullYear(), request.companyId,
+        -Number(request.totalDays),
+      );
+    }
+    // Thông báo cho người nộp đơn
+    this.wsGateway.sendNotification(request.userId, {
+      type: 'LEAVE_REJECTED',
+      title: 'Đơn nghỉ phép bị từ chối',
+      message,
+      data: { leaveRequestId: request.id },
+      timestamp: new Date(),
+    });
+    this.leaveEmail.sendToRequester(request.id, emailTemplate, { comment, message }).catch(() => {});
+  }
+
+  private async finalizeApproved(
+    request: { id: string; userId: string; leaveTypeId: string; companyId: string; startDate: Date; endDate: Date; totalDays: Prisma.Decimal; leaveType: { isAccruable: boolean } },
+    message: string,
+    emailTemplate: EmailTemplateKey = 'LEAVE_APPROVED',
+    comment?: string,
+  ): Promise<void> {
+    await this.prisma.leaveRequest.update({
+      where: { id: request.id },
+      data: { status: 'APPROVED', approvedAt: new Date() },
+    });
+    // Chuyển pending → used
+    if (request.leaveType.isAccruable) {
+      await this.balanceService.confirmUsed(
+        request.userId, request.leaveTypeId,
+        request.startDate.getFullYear(), request.companyId,
+        Number(request.totalDays),
+      );
+    }
+    // Người nộp đơn là người duyệt → kích hoạt ủy quyền ON_LEAVE của họ
+    this.delegationService.activateForApprovedLeave(request).catch(() => {});
+    // Thông báo cho người nộp đơn
+    this.wsGateway.sendNotification(request.userId, {
+      type: 'LEAVE_APPROVED',
+      title: 'Đơn nghỉ phép đã được duyệt',
+      message,
+      data: { leaveRequestId: request.id },
+      timestamp: new Date(),
+    });
+    this.leaveEmail.sendToRequester(request.id, emailTemplate, { comment, message }).catch(() => {});
+  }
+
   // ── Thông báo người duyệt cấp tiếp theo ──────────────────────
 
   private async notifyNextLevelApprovers(
@@ -253,12 +390,13 @@ export class LeaveApprovalService {
     // Only notify specific users directly; role-based approvers will see it when they load
     const level = await this.prisma.leaveApprovalFlowLevel.findFirst({
       where: { flowId, level: nextLevel, isActive: true },
-      select: { specificUserId: true, substitute1Id: true, substitute2Id: true },
+      select: { specificUserId: true, substitute1Id: true, substitute2Id: true, notifyByEmail: true },
     });
     if (!level) return;
 
-    const notifyIds = [level.specificUserId, level.substitute1Id, level.substitute2Id].filter(Boolean) as string[];
-    if (!notifyIds.length) return;
+    const directIds = [level.specificUserId, level.substitute1Id, level.substitute2Id].filter(Boolean) as string[];
+    if (!directIds.length) return;
+    const notifyIds = (await this.delegationService.withDelegates(directIds, 'LEAVE')).filter((id) => id !== requesterId);
 
     this.wsGateway.sendNotificationToUsers(notifyIds, {
       type: 'LEAVE_PENDING_APPROVAL',
@@ -267,11 +405,18 @@ export class LeaveApprovalService {
       data: { leaveRequestId },
       timestamp: new Date(),
     });
+    if (level.notifyByEmail) {
+      await this.leaveEmail.sendToApprovers(notifyIds, leaveRequestId, 'LEAVE_SUBMITTED');
+    }
   }
 
   // ── Kiểm tra người dùng có quyền duyệt đơn không ─────────────
 
   async canApproveRequest(requestId: string, userId: string): Promise<boolean> {
+    return !!(await this.getApprovalRight(requestId, userId));
+  }
+
+  private async getApprovalRight(requestId: string, userId: string): Promise<ApprovalRight | null> {
     const request = await this.prisma.leaveRequest.findUnique({
       where: { id: requestId },
       include: {
@@ -285,35 +430,51 @@ export class LeaveApprovalService {
         approvals: { select: { approverId: true } },
       },
     });
-    if (!request || request.status !== 'PENDING') return false;
+    if (!request || request.status !== 'PENDING') return null;
 
     // Không được phép tự duyệt đơn của chính mình
-    if ((request as any).userId === userId) return false;
+    if (request.userId === userId) return null;
 
     // Nếu người này đã duyệt rồi thì không duyệt lại nữa (chặn double-approval)
-    const alreadyApproved = (request as any).approvals?.some((a: any) => a.approverId === userId);
-    if (alreadyApproved) return false;
+    const approvedBy = new Set(request.approvals.map((a) => a.approverId));
+    if (approvedBy.has(userId)) return null;
 
     // Nếu không có flow → ai có quyền approve (ADMIN/SUPERADMIN) đều duyệt được
-    if (!request.flow) {
-      return this.hasApprovePermission(userId);
-    }
-
-    const currentLevelConfig = request.flow.levels.find((l) => l.level === request.currentLevel);
-    if (!currentLevelConfig) return false;
+    const levelConfig = request.flow?.levels.find((l) => l.level === request.currentLevel) ?? null;
+    if (request.flow && !levelConfig) return null;
 
-    return this.isEligibleApprover(currentLevelConfig, userId, {
+    const requesterInfo: RequesterInfo = {
       companyId: request.user.companyId,
       officeId: request.user.officeId ?? '',
       jobPosition: {
         departmentId: request.user.jobPosition?.departmentId ?? '',
         jobName: request.user.jobPosition?.jobName ?? null,
       },
-    });
+    };
+    const canApproveAs = (candidateId: string) =>
+      levelConfig
+        ? this.isEligibleApprover(levelConfig, candidateId, requesterInfo)
+        : this.hasApprovePermission(candidateId, requesterScope(requesterInfo));
+
+    if (await canApproveAs(userId)) {
+      const isSubstitute = !!levelConfig && (levelConfig.substitute1Id === userId || levelConfig.substitute2Id === userId);
+      return { isSubstitute, targetUserId: levelConfig?.specificUserId ?? null, delegationId: null };
+    }
+
+    // Ủy quyền: duyệt thay delegator khi chính delegator duyệt được cấp này
+    const delegations = await this.delegationService.getActiveDelegators(userId, 'LEAVE');
+    for (const d of delegations) {
+      if (d.delegatorId === request.userId || approvedBy.has(d.delegatorId)) continue;
+      if (await canApproveAs(d.delegatorId)) {
+        return { isSubstitute: true, targetUserId: d.delegatorId, delegationId: d.id };
+      }
+    }
+    return null;
   }
 
   // ── Lấy danh sách đơn đang chờ duyệt của một người ───────────
   // Performance: query bằng DB JOIN + index, cursor paginated
+  // Gộp cả đơn của những người đang ủy quyền cho approver (delegatedFrom ≠ null)
 
   async getPendingRequestsForApprover(
     approverId: string,
@@ -321,19 +482,94 @@ export class LeaveApprovalService {
     cursor?: string,
     limit = 20,
   ) {
+    const ownConditions = await this.buildPendingConditions(approverId, companyId);
+
+    const delegated: { delegator: { id: string; firstName: string; lastName: string; employeeCode: string }; where: Prisma.LeaveRequestWhereInput }[] = [];
+    for (const d of await this.delegationService.getActiveDelegators(approverId, 'LEAVE')) {
+      const conditions = await this.buildPendingConditions(d.delegatorId, companyId);
+      if (!conditions.length) continue;
+      delegated.push({
+        delegator: d.delegator,
+        // Không hiện đơn của chính approver / delegator
+        where: { AND: [{ OR: conditions }, { userId: { notIn: [approverId, d.delegatorId] } }] },
+      });
+    }
+
+    const scopes: Prisma.LeaveRequestWhereInput[] = [
+      ...(ownConditions.length ? [{ OR: ownConditions }] : []),
+      ...delegated.map((d) => d.where),
+    ];
+    if (!scopes.length) return { data: [], total: 0, nextCursor: null };
+
+    const where: Prisma.LeaveRequestWhereInput = {
+      AND: [
+        { OR: scopes },
+        ...(cursor ? [{ id: { gt: cursor } }] : []),
+      ],
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.leaveRequest.findMany({
+        where, take: limit, orderBy: { submittedAt: 'asc' },
+        include: {
+          user: { select: { id: true, firstName: true, lastName: true, employeeCode: true } },
+          leaveType: { select: { id: true, code: true, name: true, colorCode: true } },
+        },
+      }),
+      this.prisma.leaveRequest.count({ where }),
+    ]);
+
+    const nextCursor = data.length === limit ? data[data.length - 1].id : null;
+    if (!delegated.length || !data.length) {
+      return { data: data.map((r) => ({ ...r, delegatedFrom: null })), total, nextCursor };
+    }
+
+    // Đánh dấu đơn chỉ hiện nhờ ủy quyền
+    const ids = data.map((r) => r.id);
+    const ownIds = new Set(
+      ownConditions.length
+        ? (await this.prisma.leaveRequest.findMany({
+            where: { id: { in: ids }, OR: ownConditions },
+            select: { id: true },
+          })).map((r) => r.id)
+        : [],
+    );
+    const delegatedFrom = new Map<string, (typeof delegated)[number]['delegator']>();
+    for (const d of delegated) {
+      const pendingIds = ids.filter((id) => !ownIds.has(id) && !delegatedFrom.has(id));
+      if (!pendingIds.length) break;
+      const matched = await this.prisma.leaveRequest.findMany({
+        where: { AND: [{ id: { in: pendingIds } }, d.where] },
+        select: { id: true },
+      });
+      matched.forEach((r) => delegatedFrom.set(r.id, d.delegator));
+    }
+
+    return {
+      data: data.map((r) => ({ ...r, delegatedFrom: delegatedFrom.get(r.id) ?? null })),
+      total,
+      nextCursor,
+    };
+  }
+
+  /** Điều kiện lọc đơn PENDING mà approverId duyệt được (theo quyền của chính họ) */
+  private async buildPendingConditions(approverId: string, companyId: string): Promise<Prisma.LeaveRequestWhereInput[]> {
     const approver = await this.prisma.user.findUniqueOrThrow({
       where: { id: approverId },
       select: {
         id: true,
         companyId: true,
         officeId: true,
-        roles: { select: { roleDefinitionId: true } },
+        roles: {
+          where: { isActive: true },
+          select: { roleDefinitionId: true, scopeType: true, companyId: true, officeId: true, departmentId: true },
+        },
         jobPosition: { select: { departmentId: true, jobName: true } },
         managedDepartments: { select: { departmentId: true } },
       },
     });
 
-    const roleIds = approver.roles.map((r) => r.roleDefinitionId);
+    const roleIds = [...new Set(approver.roles.map((r) => r.roleDefinitionId))];
     const managedDeptIds = approver.managedDepartments.map((d) => d.departmentId);
 
     // Tìm tất cả flow levels mà người này có thể duyệt
@@ -364,36 +600,25 @@ export class LeaveApprovalService {
             : []),
         ],
       },
-      select: { flowId: true, level: true, approverMode: true, targetDepartmentId: true },
+      select: { flowId: true, level: true, approverMode: true, targetDepartmentId: true, roleDefinitionId: true },
     });
 
     if (!eligibleLevels.length) {
       // Fallback: if the approver has company-wide approve permission, show flowId=null requests
-      const canApproveAll = await this.hasApprovePermission(approverId);
-      if (!canApproveAll) return { data: [], total: 0, nextCursor: null };
-
-      const fallbackWhere: Prisma.LeaveRequestWhereInput = {
-        companyId,
-        status: 'PENDING',
-        flowId: null,
-        ...(cursor ? { id: { gt: cursor } } : {}),
-      };
-      const [data, total] = await Promise.all([
-        this.prisma.leaveRequest.findMany({
-          where: fallbackWhere, take: limit, orderBy: { submittedAt: 'asc' },
-          include: {
-            user: { select: { id: true, firstName: true, lastName: true, employeeCode: true } },
-            leaveType: { select: { id: true, code: true, name: true, colorCode: true } },
-          },
-        }),
-        this.prisma.leaveRequest.count({ where: fallbackWhere }),
-      ]);
-      return { data, total, nextCursor: data.length === limit ? data[data.length - 1].id : null };
+      const canApproveAll = await this.hasApprovePermission(approverId, { companyId });
+      return canApproveAll ? [{ companyId, status: 'PENDING', flowId: null }] : [];
     }
 
     // Build scope-aware where conditions per level (async để hỗ trợ VTCV lookup)
     const whereConditions: Prisma.LeaveRequestWhereInput[] = [];
     for (const el of eligibleLevels) {
+      // Role chỉ gán theo công ty / văn phòng / phòng ban → chỉ thấy đơn của người gửi trong phạm vi đó
+      const restriction = el.approverMode.startsWith('ROLE_IN_')
+        ? this.roleScopeRestriction(approver.roles.filter((r) => r.roleDefinitionId === el.roleDefinitionId))
+        : null;
+      const push = (condition: Prisma.LeaveRequestWhereInput) =>
+        whereConditions.push(restriction ? { AND: [condition, restriction] } : condition);
+
       const base: Prisma.LeaveRequestWhereInput = {
         flowId: el.flowId,
         currentLevel: el.level,
@@ -401,7 +626,7 @@ export class LeaveApprovalService {
       };
       // Scope ROLE_IN_OFFICE: only see requests from users in same office as approver
       if (el.approverMode === 'ROLE_IN_OFFICE') {
-        whereConditions.push({ ...base, user: { officeId: approver.officeId } });
+        push({ ...base, user: { officeId: approver.officeId } });
         continue;
       }
       // Scope ROLE_IN_DEPARTMENT: filter by dept, then VTCV-aware
@@ -413,22 +638,22 @@ export class LeaveApprovalService {
         if (el.targetDepartmentId) {
           // Explicit target dept: scope tightly to that dept
           if (approverJobName) {
-            whereConditions.push({ ...base, user: { jobPosition: { departmentId: el.targetDepartmentId, jobName: approverJobName } } });
+            push({ ...base, user: { jobPosition: { departmentId: el.targetDepartmentId, jobName: approverJobName } } });
           } else {
-            whereConditions.push({ ...base, user: { jobPosition: { departmentId: el.targetDepartmentId } } });
+            push({ ...base, user: { jobPosition: { departmentId: el.targetDepartmentId } } });
           }
         } else {
           // No explicit target dept → use approver's own dept + VTCV (strict 3-condition check)
           // + UDM-managed depts (cross-dept manager via UserDepartmentManagement)
           if (primaryDeptId) {
             if (approverJobName) {
-              whereConditions.push({ ...base, user: { jobPosition: { departmentId: primaryDeptId, jobName: approverJobName } } });
+              push({ ...base, user: { jobPosition: { departmentId: primaryDeptId, jobName: approverJobName } } });
             } else {
-              whereConditions.push({ ...base, user: { jobPosition: { departmentId: primaryDeptId } } });
+              push({ ...base, user: { jobPosition: { departmentId: primaryDeptId } } });
             }
           } else if (approver.officeId) {
             // Approver has no dept → office-wide (pure management role)
-            whereConditions.push({ ...base, user: { officeId: approver.officeId } });
+            push({ ...base, user: { officeId: approver.officeId } });
           }
         }
 
@@ -436,9 +661,9 @@ export class LeaveApprovalService {
         for (const { departmentId: managedDeptId } of approver.managedDepartments) {
           if (managedDeptId === primaryDeptId) continue;
           if (approverJobName) {
-            whereConditions.push({ ...base, user: { jobPosition: { departmentId: managedDeptId, jobName: approverJobName } } });
+            push({ ...base, user: { jobPosition: { departmentId: managedDeptId, jobName: approverJobName } } });
           } else {
-            whereConditions.push({ ...base, user: { jobPosition: { departmentId: managedDeptId } } });
+            push({ ...base, user: { jobPosition: { departmentId: managedDeptId } } });
           }
         }
         continue;
@@ -448,33 +673,21 @@ export class LeaveApprovalService {
         const deptIds = el.targetDepartmentId ? [el.targetDepartmentId] : managedDeptIds;
         for (const deptId of deptIds) {
           const vtcvCondition = await this.buildDeptMgrVtcvCondition(approverId, deptId, approver.jobPosition?.jobName ?? null);
-          whereConditions.push({ ...base, user: { jobPosition: { departmentId: deptId, ...vtcvCondition } } });
+          push({ ...base, user: { jobPosition: { departmentId: deptId, ...vtcvCondition } } });
         }
         continue;
       }
-      whereConditions.push(base);
+      push(base);
     }
 
-    const where: Prisma.LeaveRequestWhereInput = {
-      AND: [
-        { OR: whereConditions },
-        ...(cursor ? [{ id: { gt: cursor } }] : []),
-      ],
-    };
-
-    const [data, total] = await Promise.all([
-      this.prisma.leaveRequest.findMany({
-        where, take: limit, orderBy: { submittedAt: 'asc' },
-        include: {
-          user: { select: { id: true, firstName: true, lastName: true, employeeCode: true } },
-          leaveType: { select: { id: true, code: true, name: true, colorCode: true } },
-        },
-      }),
-      this.prisma.leaveRequest.count({ where }),
-    ]);
+    return whereConditions;
+  }
 
-    const nextCursor = data.length === limit ? data[data.length - 1].id : null;
-    return { data, total, nextCursor };
+  /** Điều kiện trên người gửi đơn theo các assignment của 1 role — null = có assignment GLOBAL (không giới hạn) */
+  private roleScopeRestriction(assignments: ScopedAssignment[]): Prisma.LeaveRequestWhereInput | null {
+    const filters = assignments.map((a) => scopeToUserWhere(a));
+    if (!filters.length || filters.some((f) => f === null)) return null;
+    return { OR: filters.map((f) => ({ user: f! })) };
   }
 
   // ── Private helpers ────────────────────────────────────────────
@@ -524,14 +737,14 @@ export class LeaveApprovalService {
 
       case 'ROLE_IN_COMPANY': {
         const count = await this.prisma.userRole.count({
-          where: { roleDefinitionId, isActive: true, userId: { not: excludeUserId } },
+          where: { roleDefinitionId, isActive: true, userId: { not: excludeUserId }, ...roleScopeWhere(requesterScope(requesterInfo)) },
         });
         return count > 0;
       }
 
       case 'ROLE_IN_OFFICE': {
         const usersWithRole = await this.prisma.userRole.findMany({
-          where: { roleDefinitionId, isActive: true, userId: { not: excludeUserId } },
+          where: { roleDefinitionId, isActive: true, userId: { not: excludeUserId }, ...roleScopeWhere(requesterScope(requesterInfo)) },
           select: { userId: true },
         });
         if (!usersWithRole.length) return false;
@@ -546,7 +759,7 @@ export class LeaveApprovalService {
         const deptId = targetDepartmentId ?? requesterInfo.jobPosition?.departmentId;
         if (!deptId && !requesterInfo.officeId) return true;
         const usersWithRole = await this.prisma.userRole.findMany({
-          where: { roleDefinitionId, isActive: true, userId: { not: excludeUserId } },
+          where: { roleDefinitionId, isActive: true, userId: { not: excludeUserId }, ...roleScopeWhere(requesterScope(requesterInfo)) },
           select: { userId: true },
         });
         if (!usersWithRole.length) return false;
@@ -615,14 +828,14 @@ export class LeaveApprovalService {
 
       case 'ROLE_IN_COMPANY': {
         const count = await this.prisma.userRole.count({
-          where: { roleDefinitionId, isActive: true },
+          where: { roleDefinitionId, isActive: true, ...roleScopeWhere(requesterScope(requesterInfo)) },
         });
         return count > 0;
       }
 
       case 'ROLE_IN_OFFICE': {
         const usersWithRole = await this.prisma.userRole.findMany({
-          where: { roleDefinitionId, isActive: true },
+          where: { roleDefinitionId, isActive: true, ...roleScopeWhere(requesterScope(requesterInfo)) },
           select: { userId: true },
         });
         if (!usersWithRole.length) return false;
@@ -637,7 +850,7 @@ export class LeaveApprovalService {
         const deptId = targetDepartmentId ?? requesterInfo.jobPosition?.departmentId;
         if (!deptId && !requesterInfo.officeId) return true;
         const usersWithRole = await this.prisma.userRole.findMany({
-          where: { roleDefinitionId, isActive: true },
+          where: { roleDefinitionId, isActive: true, ...roleScopeWhere(requesterScope(requesterInfo)) },
           select: { userId: true },
         });
         if (!usersWithRole.length) return false;
@@ -694,14 +907,14 @@ export class LeaveApprovalService {
 
       case 'ROLE_IN_COMPANY': {
         const hasRole = await this.prisma.userRole.findFirst({
-          where: { userId, roleDefinitionId, isActive: true },
+          where: { userId, roleDefinitionId, isActive: true, ...roleScopeWhere(requesterScope(requesterInfo)) },
         });
         return !!hasRole;
       }
 
       case 'ROLE_IN_OFFICE': {
         const hasRole = await this.prisma.userRole.findFirst({
-          where: { userId, roleDefinitionId, isActive: true },
+          where: { userId, roleDefinitionId, isActive: true, ...roleScopeWhere(requesterScope(requesterInfo)) },
         });
         if (!hasRole) return false;
         const approverUser = await this.prisma.user.findUnique({ where: { id: userId }, select: { officeId: true } });
@@ -710,7 +923,7 @@ export class LeaveApprovalService {
 
       case 'ROLE_IN_DEPARTMENT': {
         const hasRole = await this.prisma.userRole.findFirst({
-          where: { userId, roleDefinitionId, isActive: true },
+          where: { userId, roleDefinitionId, isActive: true, ...roleScopeWhere(requesterScope(requesterInfo)) },
         });
         if (!hasRole) return false;
         const deptId = targetDepartmentId ?? requesterInfo.jobPosition?.departmentId;
@@ -761,19 +974,6 @@ export class LeaveApprovalService {
     }
   }
 
-  private async resolveApproverContext(
-    request: any,
-    approverId: string,
-  ): Promise<{ isSubstitute: boolean; targetUserId: string | null }> {
-    const levelConfig = request.flow?.levels?.find((l: any) => l.level === request.currentLevel);
-    if (!levelConfig) return { isSubstitute: false, targetUserId: null };
-
-    const isSubstitute = levelConfig.substitute1Id === approverId || levelConfig.substitute2Id === approverId;
-    const targetUserId = levelConfig.specificUserId ?? null;
-
-    return { isSubstitute, targetUserId };
-  }
-
   /**
    * Check if a DEPARTMENT_MANAGER is eligible to approve requests from a given VTCV group.
    * Rules:
@@ -861,12 +1061,12 @@ export class LeaveApprovalService {
     return techSpecificVtcvs.length > 0 ? { jobName: { notIn: techSpecificVtcvs } } : {};
   }
 
-  private async hasApprovePermission(userId: string): Promise<boolean> {
+  private async hasApprovePermission(userId: string, scope?: OrgScope): Promise<boolean> {
     const user = await this.prisma.user.findUnique({
       where: { id: userId },
       select: {
         roles: {
-          where: { isActive: true },
+          where: { isActive: true, ...(scope && roleScopeWhere(scope)) },
           include: {
             roleDefinition: {
               include: {
@@ -3,6 +3,7 @@ import { PrismaService } from 'src/common/prisma.service';
 import { AdjustBalanceDto } from '../dto/leave-balance/adjust-balance.dto';
 import { Decimal } from '@prisma/client/runtime/library';
 import * as XLSX from 'xlsx';
+import { splitCarryOver } from './leave-carry-over.util';
 
 @Injectable()
 export class LeaveBalanceService {
@@ -30,11 +31,11 @@ export class LeaveBalanceService {
     });
     const leaveType = await this.prisma.leaveType.findUnique({ where: { id: leaveTypeId } });
 
+    // Chưa chốt năm (LeaveYearCloseService) → tính tạm; lần chốt sẽ SET lại carriedOver
     let carriedOver = 0;
     if (prevBalance && leaveType) {
-      const prevAvailable = this.calcAvailable(prevBalance);
-      const maxCarry = leaveType.maxCarryOver ? Number(leaveType.maxCarryOver) : Infinity;
-      carriedOver = Math.min(prevAvailable, maxCarry);
+      const maxCarry = leaveType.maxCarryOver != null ? Number(leaveType.maxCarryOver) : null;
+      carriedOver = splitCarryOver(this.calcAvailable(prevBalance), maxCarry).carriedOver;
     }
 
     return this.prisma.leaveBalance.create({
@@ -0,0 +1,217 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { LeaveRequestStatus, Prisma } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from 'src/common/prisma.service';
+import { LeaveVisibilityService } from './leave-visibility.service';
+import { IcsEvent, buildLeaveSegments, renderIcsCalendar } from './leave-ics.util';
+import { toDateKey } from './leave-calendar.util';
+
+const DAY_MS = 86_400_000;
+// Khoảng thời gian đưa vào feed
+const FEED_PAST_DAYS = 90;
+const FEED_FUTURE_DAYS = 365;
+// Giới hạn số đơn của người khác trong feed
+const MAX_TEAM_REQUESTS = 2000;
+
+const PART_LABEL = { FULL: '', MORNING: ' (sáng)', AFTERNOON: ' (chiều)' } as const;
+
+/**
+ * LeaveCalendarFeedService
+ * Feed ICS theo từng user để đăng ký trong Google/Outlook/Apple Calendar:
+ * - Đơn nghỉ đã duyệt của bản thân + ngày lễ của công ty
+ * - includeTeam: thêm đơn đã duyệt của người mình quản lý (trưởng nhóm / quản lý phòng ban)
+ *   hoặc được xem theo LeaveVisibilityRule
+ * URL chứa token ngẫu nhiên — DB chỉ lưu sha256, tạo token mới sẽ thu hồi token cũ.
+ */
+@Injectable()
+export class LeaveCalendarFeedService {
+  private readonly logger = new Logger(LeaveCalendarFeedService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly visibilityService: LeaveVisibilityService,
+  ) {}
+
+  // ── Token ─────────────────────────────────────────────────────
+
+  async getTokenStatus(userId: string) {
+    const token = await this.prisma.calendarFeedToken.findFirst({
+      where: { userId, revokedAt: null },
+      select: { id: true, includeTeam: true, createdAt: true, lastAccessedAt: true },
+      orderBy: { createdAt: 'desc' },
+    });
+    return { active: !!token, ...(token ?? {}) };
+  }
+
+  /** Tạo token mới (thu hồi token cũ) — token thô chỉ trả về 1 lần */
+  async issueToken(userId: string, includeTeam = false) {
+    const token = randomBytes(24).toString('base64url');
+
+    const [, created] = await this.prisma.$transaction([
+      this.prisma.calendarFeedToken.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      }),
+      this.prisma.calendarFeedToken.create({
+        data: { userId, tokenHash: this.hash(token), includeTeam },
+        select: { id: true, includeTeam: true, createdAt: true },
+      }),
+    ]);
+
+    return { ...created, token };
+  }
+
+  async revokeToken(userId: string) {
+    const { count } = await this.prisma.calendarFeedToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return { revoked: count };
+  }
+
+  // ── Feed ──────────────────────────────────────────────────────
+
+  async renderFeed(rawToken: string): Promise<string> {
+    const feedToken = await this.prisma.calendarFeedToken.findUnique({
+      where: { tokenHash: this.hash(rawToken) },
+      include: { user: { select: { id: true, companyId: true, isActive: true, firstName: true, lastName: true } } },
+    });
+    if (!feedToken || feedToken.revokedAt || !feedToken.user.isActive) {
+      throw new NotFoundException('Lịch không tồn tại hoặc đã bị thu hồi');
+    }
+
+    this.prisma.calendarFeedToken
+      .update({ where: { id: feedToken.id }, data: { lastAccessedAt: new Date() } })
+      .catch(() => {});
+
+    const user = feedToken.user;
+    const today = Date.parse(`${toDateKey(new Date(Date.now() + 7 * 3600_000))}T00:00:00.000Z`);
+    const from = new Date(today - FEED_PAST_DAYS * DAY_MS);
+    const to = new Date(today + FEED_FUTURE_DAYS * DAY_MS);
+
+    const [ownRequests, holidays, teamRequests] = await Promise.all([
+      this.loadApprovedRequests({ userId: user.id }, from, to),
+      this.prisma.publicHoliday.findMany({
+        where: {
+          isActive: true,
+          OR: [{ companyId: null }, { companyId: user.companyId }],
+          date: { gte: from, lte: to },
+        },
+        select: { id: true, name: true, date: true, description: true },
+        orderBy: { date: 'asc' },
+      }),
+      feedToken.includeTeam ? this.loadTeamRequests(user.id, user.companyId, from, to) : Promise.resolve([]),
+    ]);
+
+    const holidayDates = new Set(holidays.map((h) => toDateKey(h.date)));
+    const isNonWorking = (date: string) =>
+      holidayDates.has(date) || new Date(`${date}T00:00:00.000Z`).getUTCDay() === 0;
+
+    const events: IcsEvent[] = holidays.map((h) => ({
+      uid: `holiday-${h.id}@tbs`,
+      summary: `Nghỉ lễ: ${h.name}`,
+      description: h.description ?? undefined,
+      start: toDateKey(h.date),
+      end: toDateKey(h.date),
+      part: 'FULL',
+      category: 'Ngày lễ',
+    }));
+
+    for (const [requests, own] of [[ownRequests, true], [teamRequests, false]] as const) {
+      for (const r of requests) {
+        const segments = buildLeaveSegments(
+          {
+            startDate: toDateKey(r.startDate),
+            endDate: toDateKey(r.endDate),
+            startHalfDay: r.startHalfDay,
+            endHalfDay: r.endHalfDay,
+          },
+          isNonWorking,
+          r.leaveType.countWorkingDaysOnly,
+        );
+        const title = own
+          ? `Nghỉ phép: ${r.leaveType.name}`
+          : `${r.user.lastName} ${r.user.firstName}`.trim() + ` — ${r.leaveType.name}`;
+
+        segments.forEach((segment, index) => {
+          events.push({
+            uid: `leave-${r.id}-${index}@tbs`,
+            summary: title + PART_LABEL[segment.part],
+            description: `${r.requestNumber} · ${Number(r.totalDays)} ngày`,
+            start: segment.start,
+            end: segment.end,
+            part: segment.part,
+            category: own ? 'Nghỉ phép' : 'Nghỉ phép (đồng nghiệp)',
+          });
+        });
+      }
+    }
+
+    const name = `Lịch nghỉ — ${`${user.lastName} ${user.firstName}`.trim()}`;
+    return renderIcsCalendar(name, events);
+  }
+
+  private loadApprovedRequests(
+    where: Prisma.LeaveRequestWhereInput,
+    from: Date,
+    to: Date,
+    take?: number,
+  ) {
+    return this.prisma.leaveRequest.findMany({
+      where: {
+        ...where,
+        status: LeaveRequestStatus.APPROVED,
+        startDate: { lte: to },
+        endDate: { gte: from },
+      },
+      select: {
+        id: true, requestNumber: true, userId: true, startDate: true, endDate: true,
+        startHalfDay: true, endHalfDay: true, totalDays: true,
+        leaveType: { select: { id: true, name: true, countWorkingDaysOnly: true } },
+        user: { select: { firstName: true, lastName: true } },
+      },
+      orderBy: { startDate: 'asc' },
+      ...(take ? { take } : {}),
+    });
+  }
+
+  /** Đơn của người mình quản lý (nhóm / phòng ban) hoặc được xem theo LeaveVisibilityRule */
+  private async loadTeamRequests(userId: string, companyId: string, from: Date, to: Date) {
+    const [ledGroups, managedDepts] = await Promise.all([
+      this.prisma.group.findMany({ where: { leaderId: userId, isActive: true }, select: { id: true } }),
+      this.prisma.userDepartmentManagement.findMany({ where: { userId, isActive: true }, select: { departmentId: true } }),
+    ]);
+    const managedUsers = await this.prisma.user.findMany({
+      where: {
+        companyId,
+        isActive: true,
+        OR: [
+          { groupId: { in: ledGroups.map((g) => g.id) } },
+          { jobPosition: { departmentId: { in: managedDepts.map((d) => d.departmentId) } } },
+        ],
+      },
+      select: { id: true },
+    });
+    const visibleWhere = await this.visibilityService.visibleRequestsWhere(userId, companyId);
+
+    // Lọc người được xem ngay trong DB — giới hạn số đơn chỉ tính trên đơn liên quan
+    const requests = await this.loadApprovedRequests(
+      {
+        companyId,
+        NOT: { userId },
+        OR: [{ userId: { in: managedUsers.map((u) => u.id) } }, ...visibleWhere],
+      },
+      from,
+      to,
+      MAX_TEAM_REQUESTS,
+    );
+    if (requests.length === MAX_TEAM_REQUESTS) {
+      this.logger.warn(`[ICS] Feed của ${userId} chạm giới hạn ${MAX_TEAM_REQUESTS} đơn`);
+    }
+    return requests;
+  }
+
+  private hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,222 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { LeaveRequestStatus, Prisma } from '@prisma/client';
+import { PrismaService } from 'src/common/prisma.service';
+import { PermissionsService } from 'src/common/permissions.service';
+import { LeaveVisibilityService } from './leave-visibility.service';
+import { WorkingDayService } from './working-day.service';
+import { CalendarEntry, buildDailyAbsence, enumerateDates, toDateKey } from './leave-calendar.util';
+
+// Khoảng ngày tối đa mỗi lần xem lịch
+const MAX_RANGE_DAYS = 62;
+// Ngưỡng % vắng mặc định để cảnh báo (ghi đè bằng env hoặc query ?threshold=)
+const DEFAULT_THRESHOLD_PCT = Number(process.env.LEAVE_ABSENCE_THRESHOLD_PCT) || 20;
+const NO_GROUP_KEY = 'none';
+
+export type CalendarGroupBy = 'department' | 'team' | 'group';
+
+export interface CalendarViewer {
+  id: string;
+  companyId: string;
+  isSuperAdmin: boolean;
+}
+
+export interface LeaveCalendarQuery {
+  from: string; // YYYY-MM-DD
+  to: string;
+  companyId?: string; // chỉ SUPERADMIN
+  groupBy?: CalendarGroupBy;
+  officeId?: string;
+  departmentId?: string;
+  teamId?: string;
+  groupId?: string;
+  leaveTypeId?: string;
+  includePending?: boolean;
+  thresholdPct?: number;
+}
+
+const calendarUserSelect = {
+  id: true,
+  employeeCode: true,
+  firstName: true,
+  lastName: true,
+  groupId: true,
+  group: { select: { id: true, name: true, team: { select: { id: true, name: true } } } },
+  jobPosition: { select: { department: { select: { id: true, name: true } } } },
+} satisfies Prisma.UserSelect;
+
+type CalendarUser = Prisma.UserGetPayload<{ select: typeof calendarUserSelect }>;
+
+/**
+ * LeaveCalendarService
+ * Lịch vắng mặt theo khoảng ngày: đơn APPROVED (+ PENDING) nhóm theo phòng ban / tổ / nhóm,
+ * kèm số người vắng mỗi ngày và cảnh báo ngày vượt ngưỡng % để tổ trưởng sắp xếp sản xuất.
+ * Người có quyền leave-requests:manage thấy toàn công ty; còn lại lọc theo LeaveVisibilityRule.
+ */
+@Injectable()
+export class LeaveCalendarService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly permissionsService: PermissionsService,
+    private readonly visibilityService: LeaveVisibilityService,
+    private readonly workingDayService: WorkingDayService,
+  ) {}
+
+  async getCalendar(viewer: CalendarViewer, query: LeaveCalendarQuery) {
+    // SUPERADMIN: công ty theo query (bỏ trống = tất cả); còn lại: công ty của mình
+    const companyId = viewer.isSuperAdmin ? query.companyId : viewer.companyId;
+    const { from, to } = this.validateRange(query.from, query.to);
+    const groupBy: CalendarGroupBy = query.groupBy ?? 'group';
+    const thresholdPct = Number.isFinite(query.thresholdPct) ? query.thresholdPct! : DEFAULT_THRESHOLD_PCT;
+    const statuses: LeaveRequestStatus[] = query.includePending === false
+      ? [LeaveRequestStatus.APPROVED]
+      : [LeaveRequestStatus.APPROVED, LeaveRequestStatus.PENDING];
+
+    const userWhere: Prisma.UserWhereInput = {
+      isActive: true,
+      ...(companyId ? { companyId } : {}),
+      ...(query.officeId ? { officeId: query.officeId } : {}),
+      ...(query.groupId ? { groupId: query.groupId } : {}),
+      ...(query.teamId ? { group: { teamId: query.teamId } } : {}),
+      ...(query.departmentId ? { jobPosition: { departmentId: query.departmentId } } : {}),
+    };
+
+    const fromDate = new Date(`${from}T00:00:00.000Z`);
+    const toDate = new Date(`${to}T00:00:00.000Z`);
+
+    const [requests, users, holidays] = await Promise.all([
+      this.prisma.leaveRequest.findMany({
+        where: {
+          status: { in: statuses },
+          startDate: { lte: toDate },
+          endDate: { gte: fromDate },
+          ...(query.leaveTypeId ? { leaveTypeId: query.leaveTypeId } : {}),
+          user: userWhere,
+        },
+        select: {
+          id: true, requestNumber: true, status: true, userId: true, companyId: true,
+          startDate: true, endDate: true, startHalfDay: true, endHalfDay: true, totalDays: true,
+          leaveType: {
+            select: { id: true, code: true, name: true, colorCode: true, category: { select: { colorCode: true } } },
+          },
+        },
+        orderBy: { startDate: 'asc' },
+      }),
+      this.prisma.user.findMany({ where: userWhere, select: calendarUserSelect }),
+      this.workingDayService.getHolidayDates(fromDate, toDate, companyId),
+    ]);
+
+    const visible = await this.filterVisible(viewer, requests);
+    const userById = new Map(users.map((u) => [u.id, u]));
+    const dates = enumerateDates(from, to);
+    // CN + ngày lễ — không tính cảnh báo
+    const nonWorkingDates = new Set(dates.filter((d) => holidays.has(d) || new Date(`${d}T00:00:00.000Z`).getUTCDay() === 0));
+
+    // Sĩ số theo nhóm (tính trên toàn bộ nhân viên, không phụ thuộc quyền xem)
+    const groups = new Map<string, {
+      key: string;
+      name: string;
+      headcount: number;
+      entries: (CalendarEntry & Record<string, unknown>)[];
+    }>();
+    for (const user of users) {
+      const { key, name } = this.groupKeyOf(user, groupBy);
+      const group = groups.get(key) ?? { key, name, headcount: 0, entries: [] };
+      group.headcount++;
+      groups.set(key, group);
+    }
+
+    for (const r of requests) {
+      if (!visible.has(r.id)) continue;
+      const user = userById.get(r.userId);
+      if (!user) continue;
+      groups.get(this.groupKeyOf(user, groupBy).key)!.entries.push({
+        requestId: r.id,
+        requestNumber: r.requestNumber,
+        status: r.status,
+        userId: r.userId,
+        employeeCode: user.employeeCode,
+        fullName: `${user.lastName} ${user.firstName}`.trim(),
+        leaveTypeId: r.leaveType.id,
+        leaveTypeCode: r.leaveType.code,
+        leaveTypeName: r.leaveType.name,
+        colorCode: r.leaveType.colorCode ?? r.leaveType.category?.colorCode ?? null,
+        startDate: toDateKey(r.startDate),
+        endDate: toDateKey(r.endDate),
+        startHalfDay: r.startHalfDay,
+        endHalfDay: r.endHalfDay,
+        totalDays: r.totalDays,
+      });
+    }
+
+    // Chỉ trả nhóm có đơn viewer được xem
+    const result = [...groups.values()]
+      .filter((g) => g.entries.length)
+      .map((g) => ({
+        ...g,
+        days: buildDailyAbsence(g.entries, g.headcount, dates, thresholdPct, nonWorkingDates),
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name, 'vi'));
+
+    const alerts = result.flatMap((g) =>
+      g.days
+        .filter((d) => d.overThreshold)
+        .map((d) => ({ groupKey: g.key, groupName: g.name, headcount: g.headcount, ...d })),
+    ).sort((a, b) => a.date.localeCompare(b.date));
+
+    return {
+      from,
+      to,
+      groupBy,
+      thresholdPct,
+      nonWorkingDates: [...nonWorkingDates],
+      groups: result,
+      alerts,
+    };
+  }
+
+  private validateRange(from: string, to: string) {
+    const pattern = /^\d{4}-\d{2}-\d{2}$/;
+    if (!pattern.test(from ?? '') || !pattern.test(to ?? '')) {
+      throw new BadRequestException('from/to phải có dạng YYYY-MM-DD');
+    }
+    const days = (Date.parse(`${to}T00:00:00.000Z`) - Date.parse(`${from}T00:00:00.000Z`)) / 86_400_000 + 1;
+    if (!Number.isFinite(days) || days < 1) throw new BadRequestException('Khoảng ngày không hợp lệ');
+    if (days > MAX_RANGE_DAYS) throw new BadRequestException(`Chỉ xem tối đa ${MAX_RANGE_DAYS} ngày mỗi lần`);
+    return { from, to };
+  }
+
+  /** Set requestId viewer được xem */
+  private async filterVisible(
+    viewer: CalendarViewer,
+    requests: { id: string; userId: string; companyId: string; leaveType: { id: string } }[],
+  ): Promise<Set<string>> {
+    const canManage =
+      viewer.isSuperAdmin || (await this.permissionsService.hasPermission(viewer.id, 'leave-requests', 'manage'));
+    if (canManage) return new Set(requests.map((r) => r.id));
+
+    // Visibility rule theo công ty của viewer — đơn công ty khác không bao giờ thấy
+    const sameCompany = requests.filter((r) => r.companyId === viewer.companyId);
+    const visibleKeys = await this.visibilityService.canViewRequests(
+      viewer.id,
+      viewer.companyId,
+      sameCompany.map((r) => ({ userId: r.userId, leaveTypeId: r.leaveType.id })),
+    );
+    return new Set(sameCompany.filter((r) => visibleKeys.has(`${r.userId}:${r.leaveType.id}`)).map((r) => r.id));
+  }
+
+  private groupKeyOf(user: CalendarUser, groupBy: CalendarGroupBy): { key: string; name: string } {
+    const none = { key: NO_GROUP_KEY, name: 'Chưa phân nhóm' };
+    switch (groupBy) {
+      case 'department': {
+        const dept = user.jobPosition?.department;
+        return dept ? { key: dept.id, name: dept.name } : none;
+      }
+      case 'team': {
+        const team = user.group?.team;
+        return team ? { key: team.id, name: team.name } : none;
+      }
+      default:
+        return user.group ? { key: user.group.id, name: user.group.name } : none;
+    }
+  }
+}
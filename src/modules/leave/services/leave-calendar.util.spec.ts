@@ -0,0 +1,49 @@
+import { absenceOnDate, buildDailyAbsence, enumerateDates } from './leave-calendar.util';
+
+describe('Leave calendar utils', () => {
+  const entry = (userId: string, startDate: string, endDate: string, extra: Partial<{ status: string; startHalfDay: boolean; endHalfDay: boolean }> = {}) => ({
+    userId,
+    startDate,
+    endDate,
+    status: 'APPROVED',
+    startHalfDay: false,
+    endHalfDay: false,
+    ...extra,
+  });
+
+  it('should enumerate dates inclusively', () => {
+    expect(enumerateDates('2026-02-27', '2026-03-02')).toEqual(['2026-02-27', '2026-02-28', '2026-03-01', '2026-03-02']);
+  });
+
+  it('should count half days as 0.5', () => {
+    const e = entry('u1', '2026-03-02', '2026-03-04', { startHalfDay: true, endHalfDay: true });
+    expect(absenceOnDate(e, '2026-03-02')).toBe(0.5);
+    expect(absenceOnDate(e, '2026-03-03')).toBe(1);
+    expect(absenceOnDate(e, '2026-03-04')).toBe(0.5);
+    expect(absenceOnDate(e, '2026-03-05')).toBe(0);
+  });
+
+  it('should flag days above the threshold, counting pending separately', () => {
+    const days = buildDailyAbsence(
+      [entry('u1', '2026-03-02', '2026-03-03'), entry('u2', '2026-03-03', '2026-03-03', { status: 'PENDING' })],
+      5,
+      ['2026-03-02', '2026-03-03'],
+      30,
+    );
+    expect(days).toEqual([
+      { date: '2026-03-02', approved: 1, pending: 0, ratio: 20, overThreshold: false },
+      { date: '2026-03-03', approved: 1, pending: 1, ratio: 40, overThreshold: true },
+    ]);
+  });
+
+  it('should not double count one person and skip non-working days', () => {
+    const days = buildDailyAbsence(
+      [entry('u1', '2026-03-01', '2026-03-02'), entry('u1', '2026-03-02', '2026-03-02', { status: 'PENDING' })],
+      2,
+      ['2026-03-01', '2026-03-02'],
+      50,
+      new Set(['2026-03-01']),
+    );
+    expect(days).toEqual([{ date: '2026-03-02', approved: 1, pending: 0, ratio: 50, overThreshold: false }]);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Leave calendar helpers — số người vắng theo ngày / nhóm (thuần, không truy cập DB)
+ * Ngày dạng YYYY-MM-DD; startDate/endDate (@db.Date) lưu UTC 00:00.
+ */
+
+const DAY_MS = 86_400_000;
+
+export interface CalendarEntry {
+  userId: string;
+  status: string;
+  startDate: string;
+  endDate: string;
+  startHalfDay: boolean;
+  endHalfDay: boolean;
+}
+
+export interface DailyAbsence {
+  date: string;
+  approved: number; // số người (nửa ngày = 0.5)
+  pending: number;
+  ratio: number; // (approved + pending) / headcount, %
+  overThreshold: boolean;
+}
+
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function enumerateDates(from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (let t = Date.parse(`${from}T00:00:00.000Z`); t <= Date.parse(`${to}T00:00:00.000Z`); t += DAY_MS) {
+    dates.push(new Date(t).toISOString().slice(0, 10));
+  }
+  return dates;
+}
+
+/** Mức vắng của đơn trong 1 ngày: 0 | 0.5 | 1 */
+export function absenceOnDate(entry: CalendarEntry, date: string): number {
+  if (date < entry.startDate || date > entry.endDate) return 0;
+  if (date === entry.startDate && entry.startHalfDay) return 0.5;
+  if (date === entry.endDate && entry.endHalfDay) return 0.5;
+  return 1;
+}
+
+/**
+ * Tổng hợp vắng theo ngày cho 1 nhóm.
+ * Một người có nhiều đơn trong cùng ngày chỉ tính tối đa 1. Bỏ qua ngày không làm việc.
+ */
+export function buildDailyAbsence(
+  entries: CalendarEntry[],
+  headcount: number,
+  dates: string[],
+  thresholdPct: number,
+  nonWorkingDates: Set<string> = new Set(),
+): DailyAbsence[] {
+  const result: DailyAbsence[] = [];
+
+  for (const date of dates) {
+    if (nonWorkingDates.has(date)) continue;
+
+    const byUser = new Map<string, { approved: number; pending: number }>();
+    for (const entry of entries) {
+      const amount = absenceOnDate(entry, date);
+      if (!amount) continue;
+      const current = byUser.get(entry.userId) ?? { approved: 0, pending: 0 };
+      if (entry.status === 'APPROVED') current.approved += amount;
+      else current.pending += amount;
+      byUser.set(entry.userId, current);
+    }
+    if (!byUser.size) continue;
+
+    let approved = 0;
+    let pending = 0;
+    for (const v of byUser.values()) {
+      const a = Math.min(1, v.approved);
+      approved += a;
+      pending += Math.min(1 - a, v.pending);
+    }
+    const ratio = headcount > 0 ? Math.round(((approved + pending) / headcount) * 10000) / 100 : 0;
+    result.push({ date, approved, pending, ratio, overThreshold: headcount > 0 && ratio > thresholdPct });
+  }
+
+  return result;
+}
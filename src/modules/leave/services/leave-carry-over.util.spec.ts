@@ -0,0 +1,35 @@
+import {
+  carryOverDeadline,
+  isPastCarryOverDeadline,
+  splitCarryOver,
+  unusedCarryOver,
+} from './leave-carry-over.util';
+
+describe('Leave carry-over utils', () => {
+  it('should cap carry-over and expire the rest', () => {
+    expect(splitCarryOver(8.5, 5)).toEqual({ carriedOver: 5, expired: 3.5 });
+    expect(splitCarryOver(3, 5)).toEqual({ carriedOver: 3, expired: 0 });
+    expect(splitCarryOver(7, null)).toEqual({ carriedOver: 7, expired: 0 });
+  });
+
+  it('should not carry or expire a negative balance', () => {
+    expect(splitCarryOver(-2, 5)).toEqual({ carriedOver: 0, expired: 0 });
+  });
+
+  it('should clamp the deadline to the last day of the month', () => {
+    expect(carryOverDeadline(2027, 3, 31)).toBe('2027-03-31');
+    expect(carryOverDeadline(2027, 2, 30)).toBe('2027-02-28');
+  });
+
+  it('should only pass the deadline after the whole day in VN time', () => {
+    // 2027-03-31 23:00 VN
+    expect(isPastCarryOverDeadline('2027-03-31', new Date('2027-03-31T16:00:00.000Z'))).toBe(false);
+    // 2027-04-01 00:30 VN
+    expect(isPastCarryOverDeadline('2027-03-31', new Date('2027-03-31T17:30:00.000Z'))).toBe(true);
+  });
+
+  it('should consume carried days first', () => {
+    expect(unusedCarryOver(5, 2)).toBe(3);
+    expect(unusedCarryOver(5, 7)).toBe(0);
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Leave carry-over — chốt số dư cuối năm & hết hạn phép chuyển năm (thuần, không truy cập DB)
+ */
+
+const VN_OFFSET_MS = 7 * 60 * 60 * 1000;
+
+/**
+ * Số dư còn lại cuối năm → phần chuyển sang năm sau (tối đa maxCarryOver) + phần hết hạn.
+ * Số dư âm (dùng vượt) không chuyển và không hết hạn.
+ */
+export function splitCarryOver(
+  available: number,
+  maxCarryOver: number | null,
+): { carriedOver: number; expired: number } {
+  const remaining = Math.max(0, Math.round(available * 10) / 10);
+  const carriedOver = maxCarryOver != null ? Math.min(remaining, Math.max(0, maxCarryOver)) : remaining;
+  return { carriedOver, expired: Math.round((remaining - carriedOver) * 10) / 10 };
+}
+
+/** Hạn dùng phép chuyển năm — YYYY-MM-DD. Ngày vượt số ngày của tháng → ngày cuối tháng (VD 2/30 → 2/28) */
+export function carryOverDeadline(year: number, month: number, day: number): string {
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1, Math.min(day, lastDay))).toISOString().slice(0, 10);
+}
+
+/** Đã qua hạn chưa (theo ngày giờ VN): hết ngày deadline mới hết hạn */
+export function isPastCarryOverDeadline(deadline: string, now: Date = new Date()): boolean {
+  return new Date(now.getTime() + VN_OFFSET_MS).toISOString().slice(0, 10) > deadline;
+}
+
+/** Phép chuyển năm chưa dùng đến hạn — ngày đã dùng trừ vào phần chuyển năm trước (FIFO) */
+export function unusedCarryOver(carriedOver: number, used: number): number {
+  return Math.max(0, Math.round((carriedOver - Math.max(0, used)) * 10) / 10);
+}
@@ -0,0 +1,76 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from 'src/common/prisma.service';
+import { NotificationOutboxService } from '../../notification-channel/services/notification-outbox.service';
+import {
+  EmailTemplateData, EmailTemplateKey, formatVnDate,
+} from '../../notification-channel/templates/email.templates';
+
+/**
+ * LeaveEmailService
+ * Dựng dữ liệu template từ đơn nghỉ phép và xếp email vào outbox.
+ * - Người duyệt: chỉ gửi khi LeaveApprovalFlowLevel.notifyByEmail (caller kiểm tra)
+ * - Người nộp đơn: chỉ gửi khi LeaveRequest.notifyByEmail
+ */
+@Injectable()
+export class LeaveEmailService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly outbox: NotificationOutboxService,
+  ) {}
+
+  async sendToApprovers(
+    approverIds: string[],
+    leaveRequestId: string,
+    template: EmailTemplateKey,
+    message?: string,
+  ): Promise<void> {
+    if (!approverIds.length) return;
+    const found = await this.loadTemplateData(leaveRequestId);
+    if (!found) return;
+    await this.outbox.enqueueEmailToUsers(approverIds, template, { ...found.data, message });
+  }
+
+  async sendToRequester(
+    leaveRequestId: string,
+    template: EmailTemplateKey,
+    extra: { comment?: string | null; message?: string } = {},
+  ): Promise<void> {
+    const found = await this.loadTemplateData(leaveRequestId);
+    if (!found?.notifyByEmail) return;
+    await this.outbox.enqueueEmailToUsers([found.userId], template, {
+      ...found.data,
+      comment: extra.comment ?? undefined,
+      message: extra.message,
+    });
+  }
+
+  private async loadTemplateData(leaveRequestId: string) {
+    const request = await this.prisma.leaveRequest.findUnique({
+      where: { id: leaveRequestId },
+      select: {
+        userId: true,
+        requestNumber: true,
+        startDate: true,
+        endDate: true,
+        totalDays: true,
+        reason: true,
+        notifyByEmail: true,
+        leaveType: { select: { name: true } },
+        user: { select: { firstName: true, lastName: true, employeeCode: true } },
+      },
+    });
+    if (!request) return null;
+
+    const start = formatVnDate(request.startDate);
+    const end = formatVnDate(request.endDate);
+    const data: EmailTemplateData = {
+      code: request.requestNumber,
+      requesterName: `${request.user.lastName} ${request.user.firstName} (${request.user.employeeCode})`,
+      typeName: request.leaveType.name,
+      period: `${start === end ? start : `${start} - ${end}`} (${Number(request.totalDays)} ngày)`,
+      reason: request.reason ?? undefined,
+      link: '/leave',
+    };
+    return { userId: request.userId, notifyByEmail: request.notifyByEmail, data };
+  }
+}
@@ -1,5 +1,6 @@
 import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from 'src/common/prisma.service';
+import { ScopedAssignment, roleCoversScope } from 'src/common/utils/role-scope';
 import { CreateLeaveFlowDto } from '../dto/leave-flow/create-leave-flow.dto';
 
 @Injectable()
@@ -361,9 +362,13 @@ export class LeaveFlowService {
         user: {
           select: {
             id: true,
+            companyId: true,
             officeId: true,
             jobPosition: { select: { departmentId: true } },
-            roles: { select: { roleDefinitionId: true } },
+            roles: {
+              where: { isActive: true },
+              select: { roleDefinitionId: true, scopeType: true, companyId: true, officeId: true, departmentId: true },
+            },
           },
         },
         _count: { select: { approvals: true } },
@@ -418,11 +423,20 @@ export class LeaveFlowService {
    */
   private async computeStartingLevelInline(
     levels: any[],
-    user: { id: string; officeId: string | null; jobPosition: { departmentId: string } | null; roles: { roleDefinitionId: string }[] },
+    user: {
+      id: string;
+      companyId: string;
+      officeId: string | null;
+      jobPosition: { departmentId: string } | null;
+      roles: (ScopedAssignment & { roleDefinitionId: string })[];
+    },
   ): Promise<number> {
-    const userRoleIds = user.roles.map(r => r.roleDefinitionId);
     const userDeptId = user.jobPosition?.departmentId ?? null;
     const userOfficeId = user.officeId ?? null;
+    // Chỉ tính role có hiệu lực với chính đơn của user (phạm vi công ty / văn phòng / phòng ban của user)
+    const userRoleIds = user.roles
+      .filter(r => roleCoversScope(r, { companyId: user.companyId, officeId: userOfficeId, departmentId: userDeptId }))
+      .map(r => r.roleDefinitionId);
 
     for (const lvl of levels) {
       let requesterIsApprover = false;
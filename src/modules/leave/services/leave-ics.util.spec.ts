@@ -0,0 +1,66 @@
+import { buildLeaveSegments, escapeIcsText, foldIcsLine, renderIcsCalendar } from './leave-ics.util';
+
+describe('Leave ICS utils', () => {
+  const isSunday = (date: string) => new Date(`${date}T00:00:00.000Z`).getUTCDay() === 0;
+
+  it('should split a request around Sundays and holidays', () => {
+    // 2026-04-30 (lễ) … 2026-05-01 (lễ), 2026-05-03 là CN
+    const holidays = new Set(['2026-04-30', '2026-05-01']);
+    const segments = buildLeaveSegments(
+      { startDate: '2026-04-29', endDate: '2026-05-04', startHalfDay: false, endHalfDay: false },
+      (d) => holidays.has(d) || isSunday(d),
+      true,
+    );
+    expect(segments).toEqual([
+      { start: '2026-04-29', end: '2026-04-29', part: 'FULL' },
+      { start: '2026-05-02', end: '2026-05-02', part: 'FULL' },
+      { start: '2026-05-04', end: '2026-05-04', part: 'FULL' },
+    ]);
+  });
+
+  it('should keep calendar-day requests continuous', () => {
+    const segments = buildLeaveSegments(
+      { startDate: '2026-05-01', endDate: '2026-05-04', startHalfDay: false, endHalfDay: false },
+      isSunday,
+      false,
+    );
+    expect(segments).toEqual([{ start: '2026-05-01', end: '2026-05-04', part: 'FULL' }]);
+  });
+
+  it('should render half days as separate timed parts', () => {
+    const segments = buildLeaveSegments(
+      { startDate: '2026-03-02', endDate: '2026-03-05', startHalfDay: true, endHalfDay: true },
+      isSunday,
+      true,
+    );
+    expect(segments).toEqual([
+      { start: '2026-03-02', end: '2026-03-02', part: 'AFTERNOON' },
+      { start: '2026-03-03', end: '2026-03-04', part: 'FULL' },
+      { start: '2026-03-05', end: '2026-03-05', part: 'MORNING' },
+    ]);
+  });
+
+  it('should render all-day events with an exclusive end and timed half days', () => {
+    const ics = renderIcsCalendar(
+      'Lịch nghỉ',
+      [
+        { uid: 'a@tbs', summary: 'Nghỉ phép', start: '2026-03-03', end: '2026-03-04', part: 'FULL' },
+        { uid: 'b@tbs', summary: 'Nghỉ phép (sáng)', start: '2026-03-05', end: '2026-03-05', part: 'MORNING' },
+      ],
+      new Date('2026-03-01T00:00:00.000Z'),
+    );
+    expect(ics).toContain('DTSTART;VALUE=DATE:20260303\r\nDTEND;VALUE=DATE:20260305');
+    expect(ics).toContain('DTSTART;TZID=Asia/Ho_Chi_Minh:20260305T073000\r\nDTEND;TZID=Asia/Ho_Chi_Minh:20260305T120000');
+    expect(ics).toContain('DTSTAMP:20260301T000000Z');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('should escape text and fold long lines by octets', () => {
+    expect(escapeIcsText('a,b;c\nd')).toBe('a\\,b\\;c\\nd');
+    const folded = foldIcsLine('SUMMARY:' + 'Nghỉ lễ '.repeat(20));
+    for (const line of folded.split('\r\n')) {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+    }
+    expect(folded.split('\r\n').map((l, i) => (i ? l.slice(1) : l)).join('')).toBe('SUMMARY:' + 'Nghỉ lễ '.repeat(20));
+  });
+});
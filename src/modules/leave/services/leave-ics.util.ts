@@ -0,0 +1,152 @@
+/**
+ * iCalendar (RFC 5545) — dựng feed ICS cho đơn nghỉ & ngày lễ (thuần, không truy cập DB)
+ * Ngày dạng YYYY-MM-DD; giờ theo Asia/Ho_Chi_Minh (không có DST).
+ */
+
+const DAY_MS = 86_400_000;
+const TZID = 'Asia/Ho_Chi_Minh';
+// Nửa ngày theo giờ làm 7h30–16h30
+const HALF_DAY_HOURS = {
+  MORNING: { start: '07:30', end: '12:00' },
+  AFTERNOON: { start: '13:00', end: '16:30' },
+} as const;
+
+export type DayPart = 'FULL' | 'MORNING' | 'AFTERNOON';
+
+export interface LeaveSegment {
+  start: string;
+  end: string; // inclusive
+  part: DayPart;
+}
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  start: string; // YYYY-MM-DD
+  end: string; // inclusive
+  part: DayPart; // FULL = sự kiện cả ngày; MORNING/AFTERNOON = có giờ (chỉ 1 ngày)
+  category?: string;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00.000Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Tách đơn nghỉ thành các đoạn hiển thị:
+ * - startHalfDay → ngày đầu chỉ buổi chiều, endHalfDay → ngày cuối chỉ buổi sáng
+ * - skipNonWorking → bỏ CN / ngày lễ ở giữa (đơn tính theo ngày làm việc), tách thành nhiều đoạn
+ */
+export function buildLeaveSegments(
+  request: { startDate: string; endDate: string; startHalfDay: boolean; endHalfDay: boolean },
+  isNonWorking: (date: string) => boolean,
+  skipNonWorking: boolean,
+): LeaveSegment[] {
+  const segments: LeaveSegment[] = [];
+  let current: LeaveSegment | null = null;
+
+  for (let date = request.startDate; date <= request.endDate; date = addDays(date, 1)) {
+    if (skipNonWorking && isNonWorking(date)) {
+      current = null;
+      continue;
+    }
+
+    const part: DayPart =
+      date === request.startDate && request.startHalfDay
+        ? 'AFTERNOON'
+        : date === request.endDate && request.endHalfDay
+          ? 'MORNING'
+          : 'FULL';
+
+    if (part === 'FULL' && current?.part === 'FULL' && addDays(current.end, 1) === date) {
+      current.end = date;
+      continue;
+    }
+    current = { start: date, end: date, part };
+    segments.push(current);
+    if (part !== 'FULL') current = null;
+  }
+
+  return segments;
+}
+
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Gập dòng > 75 octet (UTF-8) — không cắt giữa ký tự nhiều byte */
+export function foldIcsLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Dòng nối tiếp bắt đầu bằng 1 space → chỉ còn 74 octet nội dung
+    const limit = parts.length ? 74 : 75;
+    if (bytes + size > limit) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatUtcStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function eventLines(event: IcsEvent, stamp: string): string[] {
+  const lines = ['BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`];
+
+  if (event.part === 'FULL') {
+    // Sự kiện cả ngày: DTEND là ngày kế tiếp (exclusive)
+    lines.push(`DTSTART;VALUE=DATE:${event.start.replace(/-/g, '')}`);
+    lines.push(`DTEND;VALUE=DATE:${addDays(event.end, 1).replace(/-/g, '')}`);
+  } else {
+    const hours = HALF_DAY_HOURS[event.part];
+    const day = event.start.replace(/-/g, '');
+    lines.push(`DTSTART;TZID=${TZID}:${day}T${hours.start.replace(':', '')}00`);
+    lines.push(`DTEND;TZID=${TZID}:${day}T${hours.end.replace(':', '')}00`);
+  }
+
+  lines.push(`SUMMARY:${escapeIcsText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.category) lines.push(`CATEGORIES:${escapeIcsText(event.category)}`);
+  lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+  return lines;
+}
+
+export function renderIcsCalendar(name: string, events: IcsEvent[], now: Date = new Date()): string {
+  const stamp = formatUtcStamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//TBS Group//Leave Calendar//VI',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+    `X-WR-TIMEZONE:${TZID}`,
+    'BEGIN:VTIMEZONE',
+    `TZID:${TZID}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    'TZOFFSETFROM:+0700',
+    'TZOFFSETTO:+0700',
+    'TZNAME:ICT',
+    'END:STANDARD',
+    'END:VTIMEZONE',
+    ...events.flatMap((e) => eventLines(e, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
@@ -11,6 +11,8 @@ import { UpdateLeaveRequestDto } from '../dto/leave-request/update-leave-request
 import { CancelLeaveRequestDto, AddLeaveCommentDto, BulkApproveLeaveDto, ApprovalDecision } from '../dto/leave-request/approve-leave.dto';
 import { LeaveRequestStatus, Prisma } from '@prisma/client';
 import { WebSocketGateway } from '../../websocket/websocket.gateway';
+import { LeaveEmailService } from './leave-email.service';
+import { ApprovalDelegationService } from '../../approval-delegation/approval-delegation.service';
 import * as XLSX from 'xlsx';
 
 @Injectable()
@@ -23,6 +25,8 @@ export class LeaveRequestService {
     private readonly approvalService: LeaveApprovalService,
     private readonly balanceService: LeaveBalanceService,
     private readonly wsGateway: WebSocketGateway,
+    private readonly leaveEmail: LeaveEmailService,
+    private readonly delegationService: ApprovalDelegationService,
   ) {}
 
   // ── Tạo đơn xin phép ──────────────────────────────────────────
@@ -204,6 +208,10 @@ export class LeaveRequestService {
         request.id,
       ).catch(() => {});
     }
+    // Đơn không cần duyệt → kích hoạt ủy quyền ON_LEAVE ngay
+    if (status === 'APPROVED') {
+      this.delegationService.activateForApprovedLeave(request).catch(() => {});
+    }
 
     return request;
   }
@@ -340,6 +348,9 @@ export class LeaveRequestService {
         requestId,
       ).catch(() => {});
     }
+    if (newStatus === 'APPROVED') {
+      this.delegationService.activateForApprovedLeave(updated).catch(() => {});
+    }
 
     return updated;
   }
@@ -397,6 +408,11 @@ export class LeaveRequestService {
       ).catch(() => {});
     }
 
+    // Huỷ đơn đã duyệt → thu hồi ủy quyền đã kích hoạt theo đơn
+    if (request.status === 'APPROVED') {
+      this.delegationService.revokeForLeaveRequest(requestId).catch(() => {});
+    }
+
     // Nếu admin/người duyệt huỷ đơn của người khác → thông báo cho người dùng
     if (isAdminOrApprover && request.userId !== userId) {
       this.wsGateway.sendNotification(request.userId, {
@@ -1075,8 +1091,9 @@ export class LeaveRequestService {
   /**
    * Resolve approver IDs for a given flow level and notify them.
    * Fire-and-forget — caller should .catch(() => {}) to avoid disrupting the main flow.
+   * Public vì LeaveTimeoutService dùng lại để gửi nhắc nhở quá hạn.
    */
-  private async notifyLevelApprovers(
+  async notifyLevelApprovers(
     requesterId: string,
     flowId: string | null,
     level: number,
@@ -1109,8 +1126,10 @@ export class LeaveRequestService {
       { id: true },
     );
 
-    const approverIds = approvers.map((a: any) => a.id).filter(Boolean);
-    if (approverIds.length === 0) return;
+    const directIds = approvers.map((a: any) => a.id).filter(Boolean);
+    if (directIds.length === 0) return;
+    // Kèm người đang được ủy quyền duyệt thay
+    const approverIds = (await this.delegationService.withDelegates(directIds, 'LEAVE')).filter((id) => id !== requesterId);
 
     this.wsGateway.sendNotificationToUsers(approverIds, {
       type,
@@ -1119,6 +1138,14 @@ export class LeaveRequestService {
       data: { leaveRequestId },
       timestamp: new Date(),
     });
+
+    // Email: đơn mới → LEAVE_SUBMITTED, nhắc hạn / quá hạn → LEAVE_TIMEOUT (huỷ đơn không gửi email)
+    const emailTemplate = type === 'LEAVE_PENDING_APPROVAL' ? 'LEAVE_SUBMITTED'
+      : ['LEAVE_APPROVAL_REMINDER', 'LEAVE_APPROVAL_OVERDUE'].includes(type) ? 'LEAVE_TIMEOUT'
+      : null;
+    if (lvl.notifyByEmail && emailTemplate) {
+      await this.leaveEmail.sendToApprovers(approverIds, leaveRequestId, emailTemplate, message);
+    }
   }
 
   // ──────────────────────────────────────────────────────────
@@ -0,0 +1,126 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { PrismaService } from 'src/common/prisma.service';
+import { LeaveApprovalService } from './leave-approval.service';
+import { LeaveRequestService } from './leave-request.service';
+
+/**
+ * LeaveTimeoutService
+ * Cron job chạy mỗi 15 phút — xử lý đơn PENDING quá hạn duyệt theo LeaveApprovalFlowLevel.timeoutHours:
+ * - Mốc bắt đầu cấp hiện tại = lần action gần nhất (LeaveApproval.actionAt) hoặc submittedAt
+ * - Trước hạn REMINDER_LEAD_HOURS giờ → nhắc người duyệt (1 lần mỗi cấp)
+ * - Quá hạn → áp dụng timeoutAction (ESCALATE / AUTO_APPROVE / AUTO_REJECT / NOTIFY_ONLY)
+ * - Mỗi bước đều claim bằng updateMany có điều kiện → an toàn khi chạy nhiều instance
+ */
+@Injectable()
+export class LeaveTimeoutService {
+  private readonly logger = new Logger(LeaveTimeoutService.name);
+  private readonly BATCH_SIZE = 500;
+  private readonly REMINDER_LEAD_HOURS = 2;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly approvalService: LeaveApprovalService,
+    private readonly requestService: LeaveRequestService,
+  ) {}
+
+  @Cron('*/15 * * * *', { name: 'leave-approval-timeout' })
+  async processTimeouts() {
+    // Chỉ các cấp có cấu hình timeout
+    const timedLevels = await this.prisma.leaveApprovalFlowLevel.findMany({
+      where: { isActive: true, timeoutHours: { not: null }, flow: { isActive: true } },
+      select: { flowId: true, level: true, timeoutHours: true, timeoutAction: true },
+    });
+    if (!timedLevels.length) return;
+
+    const levelMap = new Map(timedLevels.map((l) => [`${l.flowId}:${l.level}`, l]));
+    const now = Date.now();
+    const stats = { reminded: 0, escalated: 0, approved: 0, rejected: 0, notified: 0 };
+    let cursor: string | undefined = undefined;
+    let batchLength = 0;
+
+    do {
+      const requests = await this.prisma.leaveRequest.findMany({
+        where: {
+          status: 'PENDING',
+          OR: timedLevels.map((l) => ({ flowId: l.flowId, currentLevel: l.level })),
+        },
+        select: {
+          id: true,
+          requestNumber: true,
+          userId: true,
+          flowId: true,
+          currentLevel: true,
+          submittedAt: true,
+          createdAt: true,
+          timeoutReminderLevel: true,
+          timeoutHandledLevel: true,
+          approvals: { select: { actionAt: true }, orderBy: { actionAt: 'desc' }, take: 1 },
+        },
+        take: this.BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        orderBy: { id: 'asc' },
+      });
+
+      batchLength = requests.length;
+      if (!requests.length) break;
+      cursor = requests[requests.length - 1].id;
+
+      for (const req of requests) {
+        const cfg = levelMap.get(`${req.flowId}:${req.currentLevel}`);
+        if (!cfg) continue;
+        if (req.timeoutHandledLevel !== null && req.timeoutHandledLevel >= req.currentLevel) continue;
+
+        const levelStart = req.approvals[0]?.actionAt ?? req.submittedAt ?? req.createdAt;
+        const timeoutMs = cfg.timeoutHours * 3600_000;
+        const deadline = levelStart.getTime() + timeoutMs;
+        const leadMs = Math.min(this.REMINDER_LEAD_HOURS * 3600_000, timeoutMs / 2);
+
+        try {
+          if (now >= deadline) {
+            const result = await this.approvalService.applyTimeout(req.id, req.currentLevel, cfg.timeoutAction);
+            if (!result) continue;
+            if (result === 'ESCALATED') stats.escalated++;
+            else if (result === 'APPROVED') stats.approved++;
+            else if (result === 'REJECTED') stats.rejected++;
+            else {
+              stats.notified++;
+              this.requestService.notifyLevelApprovers(
+                req.userId, req.flowId, req.currentLevel,
+                `Đơn nghỉ phép #${req.requestNumber} đã quá hạn duyệt ${cfg.timeoutHours} giờ (cấp ${req.currentLevel})`,
+                req.id, 'LEAVE_APPROVAL_OVERDUE', 'Đơn nghỉ phép quá hạn duyệt',
+              ).catch(() => {});
+            }
+          } else if (
+            now >= deadline - leadMs &&
+            (req.timeoutReminderLevel === null || req.timeoutReminderLevel < req.currentLevel)
+          ) {
+            const claimed = await this.prisma.leaveRequest.updateMany({
+              where: {
+                id: req.id,
+                status: 'PENDING',
+                currentLevel: req.currentLevel,
+                OR: [{ timeoutReminderLevel: null }, { timeoutReminderLevel: { lt: req.currentLevel } }],
+              },
+              data: { timeoutReminderLevel: req.currentLevel },
+            });
+            if (claimed.count === 0) continue;
+            stats.reminded++;
+            const remainingMin = Math.max(1, Math.round((deadline - now) / 60_000));
+            this.requestService.notifyLevelApprovers(
+              req.userId, req.flowId, req.currentLevel,
+              `Đơn nghỉ phép #${req.requestNumber} sắp quá hạn duyệt (còn ~${remainingMin} phút)`,
+              req.id, 'LEAVE_APPROVAL_REMINDER', 'Nhắc duyệt đơn nghỉ phép',
+            ).catch(() => {});
+          }
+        } catch (err: any) {
+          this.logger.error(`[Timeout] Lỗi xử lý đơn ${req.requestNumber}: ${err?.message}`);
+        }
+      }
+    } while (batchLength === this.BATCH_SIZE);
+
+    if (Object.values(stats).some((v) => v > 0)) {
+      this.logger.log(`[Timeout] ${JSON.stringify(stats)}`);
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { Injectable, NotFoundException } from '@nestjs/common';
+import { LeaveVisibilityScope, Prisma } from '@prisma/client';
 import { PrismaService } from 'src/common/prisma.service';
 import { CreateVisibilityRuleDto } from '../dto/leave-visibility/create-visibility-rule.dto';
 
@@ -52,37 +53,17 @@ export class LeaveVisibilityService {
     // Luôn có thể xem đơn của chính mình
     if (viewerId === targetUserId) return true;
 
-    const viewer = await this.prisma.user.findUniqueOrThrow({
-      where: { id: viewerId },
-      select: {
-        id: true, officeId: true,
-        roles: { select: { roleDefinitionId: true } },
-        jobPosition: { select: { departmentId: true } },
-        group: { select: { id: true } },
-      },
-    });
+    const viewer = await this.loadViewer(viewerId);
 
     const target = await this.prisma.user.findUniqueOrThrow({
       where: { id: targetUserId },
-      select: {
-        id: true, officeId: true,
-        jobPosition: { select: { departmentId: true } },
-        groupId: true,
-      },
+      select: this.targetSelect,
     });
 
-    const roleIds = viewer.roles.map((r) => r.roleDefinitionId);
-
     // Lấy tất cả rules applicable cho viewer
     const rules = await this.prisma.leaveVisibilityRule.findMany({
       where: {
-        companyId,
-        isActive: true,
-        OR: [
-          { viewerUserId: viewerId },
-          { viewerRoleId: { in: roleIds } },
-          { viewerRoleId: null, viewerUserId: null }, // áp dụng cho tất cả
-        ],
+        ...this.viewerRulesWhere(viewer, companyId),
         AND: [
           { OR: [{ leaveTypeId: leaveTypeId ?? undefined }, { leaveTypeId: null }] },
           { OR: [{ officeId: viewer.officeId }, { officeId: null }] },
@@ -91,25 +72,144 @@ export class LeaveVisibilityService {
       orderBy: { priority: 'desc' },
     });
 
-    if (!rules.length) return false;
-
     // Kiểm tra rule có scope bao phủ target không
-    for (const rule of rules) {
-      switch (rule.scope) {
-        case 'TEAM':
-          if (viewer.group?.id && viewer.group.id === target.groupId) return true;
-          break;
-        case 'DEPARTMENT':
-          if (viewer.jobPosition?.departmentId === target.jobPosition?.departmentId) return true;
-          break;
-        case 'OFFICE':
-          if (viewer.officeId === target.officeId) return true;
-          break;
-        case 'COMPANY':
-          return true;
-      }
+    return rules.some((rule) => this.ruleCoversTarget(rule.scope, viewer, target));
+  }
+
+  /**
+   * Như canViewRequest nhưng cho nhiều đơn cùng lúc (calendar, danh sách)
+   * — 3 query cho cả batch thay vì 3 query / đơn.
+   * Trả về Set key `${userId}:${leaveTypeId}` mà viewer được xem.
+   */
+  async canViewRequests(
+    viewerId: string,
+    companyId: string,
+    targets: { userId: string; leaveTypeId: string }[],
+  ): Promise<Set<string>> {
+    const visible = new Set<string>();
+    const others = targets.filter((t) => t.userId !== viewerId);
+    targets.filter((t) => t.userId === viewerId).forEach((t) => visible.add(`${t.userId}:${t.leaveTypeId}`));
+    if (!others.length) return visible;
+
+    const viewer = await this.loadViewer(viewerId);
+    const [rules, targetUsers] = await Promise.all([
+      this.prisma.leaveVisibilityRule.findMany({
+        where: {
+          ...this.viewerRulesWhere(viewer, companyId),
+          OR: [{ officeId: viewer.officeId }, { officeId: null }],
+        },
+        select: { scope: true, leaveTypeId: true },
+      }),
+      this.prisma.user.findMany({
+        where: { id: { in: [...new Set(others.map((t) => t.userId))] } },
+        select: this.targetSelect,
+      }),
+    ]);
+    if (!rules.length) return visible;
+
+    const targetById = new Map(targetUsers.map((u) => [u.id, u]));
+    for (const t of others) {
+      const target = targetById.get(t.userId);
+      if (!target) continue;
+      const covered = rules.some(
+        (rule) =>
+          (rule.leaveTypeId === null || rule.leaveTypeId === t.leaveTypeId) &&
+          this.ruleCoversTarget(rule.scope, viewer, target),
+      );
+      if (covered) visible.add(`${t.userId}:${t.leaveTypeId}`);
+    }
+    return visible;
+  }
+
+  /**
+   * Điều kiện Prisma tương đương canViewRequests — lọc đơn của người khác ngay trong DB
+   * (danh sách lớn có giới hạn số dòng). Mảng rỗng = không rule nào cho xem.
+   */
+  async visibleRequestsWhere(viewerId: string, companyId: string): Promise<Prisma.LeaveRequestWhereInput[]> {
+    const viewer = await this.loadViewer(viewerId);
+    const rules = await this.prisma.leaveVisibilityRule.findMany({
+      where: {
+        ...this.viewerRulesWhere(viewer, companyId),
+        OR: [{ officeId: viewer.officeId }, { officeId: null }],
+      },
+      select: { scope: true, leaveTypeId: true },
+    });
+
+    return rules.flatMap((rule) => {
+      const user = this.scopeUserWhere(rule.scope, viewer);
+      return user ? [{ companyId, ...(rule.leaveTypeId ? { leaveTypeId: rule.leaveTypeId } : {}), user }] : [];
+    });
+  }
+
+  private readonly targetSelect = {
+    id: true, officeId: true,
+    jobPosition: { select: { departmentId: true } },
+    groupId: true,
+  } satisfies Prisma.UserSelect;
+
+  private loadViewer(viewerId: string) {
+    return this.prisma.user.findUniqueOrThrow({
+      where: { id: viewerId },
+      select: {
+        id: true, officeId: true,
+        roles: { select: { roleDefinitionId: true } },
+        jobPosition: { select: { departmentId: true } },
+        group: { select: { id: true } },
+      },
+    });
+  }
+
+  /** Rule áp dụng cho viewer: theo user, theo role, hoặc rule chung */
+  private viewerRulesWhere(
+    viewer: { id: string; roles: { roleDefinitionId: string }[] },
+    companyId: string,
+  ): Prisma.LeaveVisibilityRuleWhereInput {
+    return {
+      companyId,
+      isActive: true,
+      OR: [
+        { viewerUserId: viewer.id },
+        { viewerRoleId: { in: viewer.roles.map((r) => r.roleDefinitionId) } },
+        { viewerRoleId: null, viewerUserId: null }, // áp dụng cho tất cả
+      ],
+    };
+  }
+
+  /** Như ruleCoversTarget nhưng dưới dạng điều kiện trên User — null = scope không cho xem ai */
+  private scopeUserWhere(
+    scope: LeaveVisibilityScope,
+    viewer: { officeId: string; jobPosition: { departmentId: string } | null; group: { id: string } | null },
+  ): Prisma.UserWhereInput | null {
+    switch (scope) {
+      case 'TEAM':
+        return viewer.group?.id ? { groupId: viewer.group.id } : null;
+      case 'DEPARTMENT':
+        return viewer.jobPosition ? { jobPosition: { departmentId: viewer.jobPosition.departmentId } } : null;
+      case 'OFFICE':
+        return { officeId: viewer.officeId };
+      case 'COMPANY':
+        return {};
+      default:
+        return null;
     }
+  }
 
-    return false;
+  private ruleCoversTarget(
+    scope: LeaveVisibilityScope,
+    viewer: { officeId: string; jobPosition: { departmentId: string } | null; group: { id: string } | null },
+    target: { officeId: string; jobPosition: { departmentId: string } | null; groupId: string | null },
+  ): boolean {
+    switch (scope) {
+      case 'TEAM':
+        return !!viewer.group?.id && viewer.group.id === target.groupId;
+      case 'DEPARTMENT':
+        return viewer.jobPosition?.departmentId === target.jobPosition?.departmentId;
+      case 'OFFICE':
+        return viewer.officeId === target.officeId;
+      case 'COMPANY':
+        return true;
+      default:
+        return false;
+    }
   }
 }
@@ -0,0 +1,376 @@
+import { BadRequestException, ConflictException, Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { LeaveYearCloseStatus, Prisma } from '@prisma/client';
+import { PrismaService } from 'src/common/prisma.service';
+import { LeaveBalanceService } from './leave-balance.service';
+import { LeaveAccrualPolicyService } from './leave-accrual-policy.service';
+import {
+  carryOverDeadline,
+  isPastCarryOverDeadline,
+  splitCarryOver,
+  unusedCarryOver,
+} from './leave-carry-over.util';
+
+const VN_OFFSET_MS = 7 * 60 * 60 * 1000;
+// Lần chạy RUNNING quá lâu (instance chết giữa chừng) → cho phép chạy lại
+const STALE_RUN_MS = 2 * 60 * 60 * 1000;
+
+type TypeSummary = {
+  leaveTypeId: string;
+  code: string;
+  name: string;
+  balances: number;
+  carriedOver: number;
+  expired: number;
+};
+
+/**
+ * LeaveYearCloseService
+ * - Chốt phép cuối năm (01/01 00:30, sau accrual): số dư còn lại năm Y → carriedOver năm Y+1
+ *   (tối đa LeaveType.maxCarryOver), phần vượt ghi vào expired năm Y
+ * - Hết hạn phép chuyển năm (hàng ngày): qua hạn cấu hình trong LeaveAccrualPolicy (VD 31/3)
+ *   → phần carriedOver chưa dùng ghi vào expired năm Y+1
+ * Áp dụng cho loại phép tích lũy hoặc có maxCarryOver.
+ * Chạy lại an toàn: carriedOver được SET lại từ số dư năm Y; phần vượt đã ghi expired không còn trong số dư.
+ */
+@Injectable()
+export class LeaveYearCloseService {
+  private readonly logger = new Logger(LeaveYearCloseService.name);
+  private readonly BATCH_SIZE = 500;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly balanceService: LeaveBalanceService,
+    private readonly policyService: LeaveAccrualPolicyService,
+  ) {}
+
+  @Cron('30 0 1 1 *', { name: 'leave-year-close' }) // 00:30 ngày 1/1 — sau accrual tháng 12
+  async runYearEndClose() {
+    const year = this.vnYear() - 1;
+    const companies = await this.prisma.company.findMany({ where: { isActive: true }, select: { id: true } });
+    this.logger.log(`[YearClose] Bắt đầu chốt phép năm ${year} cho ${companies.length} công ty`);
+
+    for (const company of companies) {
+      await this.closeYear(company.id, year).catch((err) =>
+        this.logger.error(`[YearClose] Công ty ${company.id} năm ${year} thất bại: ${err.message}`),
+      );
+    }
+  }
+
+  /** Chốt thủ công / chạy lại — companyId undefined = SUPERADMIN (tất cả công ty) */
+  async triggerYearClose(year: number, companyId: string | undefined, triggeredById?: string) {
+    if (year >= this.vnYear()) {
+      throw new BadRequestException('Chỉ chốt được phép của năm đã kết thúc');
+    }
+    const companyIds = companyId
+      ? [companyId]
+      : (await this.prisma.company.findMany({ where: { isActive: true }, select: { id: true } })).map((c) => c.id);
+
+    const results = [];
+    for (const id of companyIds) {
+      results.push(await this.closeYear(id, year, triggeredById));
+    }
+    return results;
+  }
+
+  async closeYear(companyId: string, year: number, triggeredById?: string) {
+    const run = await this.claimRun(companyId, year, triggeredById);
+    try {
+      const totals = this.toTotals(
+        await this.processCompany(companyId, year),
+        (run.summary as TypeSummary[] | null) ?? [],
+      );
+      this.logger.log(
+        `[YearClose] ${companyId} năm ${year}: ${totals.balancesProcessed} số dư, chuyển ${totals.totalCarriedOver}, hết hạn ${totals.totalExpired}`,
+      );
+      return this.prisma.leaveYearClose.update({
+        where: { id: run.id },
+        data: { ...totals, status: LeaveYearCloseStatus.COMPLETED, finishedAt: new Date(), error: null },
+      });
+    } catch (err) {
+      await this.prisma.leaveYearClose.update({
+        where: { id: run.id },
+        data: { status: LeaveYearCloseStatus.FAILED, finishedAt: new Date(), error: (err as Error).message?.slice(0, 1000) },
+      });
+      throw err;
+    }
+  }
+
+  // ── Hết hạn phép chuyển năm ──────────────────────────────────
+
+  @Cron('15 1 * * *', { name: 'leave-carry-over-expiry' }) // 01:15 hàng ngày
+  async expireCarryOver() {
+    const year = this.vnYear();
+    const policies = await this.prisma.leaveAccrualPolicy.findMany({
+      where: { isActive: true, carryOverExpiryMonth: { not: null }, carryOverExpiryDay: { not: null } },
+      select: { leaveTypeId: true },
+    });
+    if (!policies.length) return;
+
+    const leaveTypeIds = [...new Set(policies.map((p) => p.leaveTypeId))];
+    const resolver = await this.policyService.loadResolver(leaveTypeIds);
+
+    let expiredCount = 0;
+    let cursor: string | undefined = undefined;
+    let batchLength = 0;
+
+    do {
+      const balances = await this.prisma.leaveBalance.findMany({
+        where: { year, leaveTypeId: { in: leaveTypeIds }, carriedOver: { gt: 0 }, carryOverExpiredAt: null },
+        select: { id: true, companyId: true, leaveTypeId: true, carriedOver: true, used: true },
+        take: this.BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        orderBy: { id: 'asc' },
+      });
+
+      batchLength = balances.length;
+      if (!balances.length) break;
+      cursor = balances[balances.length - 1].id;
+
+      for (const balance of balances) {
+        const policy = resolver({ id: balance.leaveTypeId, accrualPerMonth: null }, balance.companyId);
+        if (!policy.carryOverExpiryMonth || !policy.carryOverExpiryDay) continue;
+
+        const deadline = carryOverDeadline(year, policy.carryOverExpiryMonth, policy.carryOverExpiryDay);
+        if (!isPastCarryOverDeadline(deadline)) continue;
+
+        // Claim có điều kiện — mỗi balance chỉ hết hạn 1 lần
+        const { count } = await this.prisma.leaveBalance.updateMany({
+          where: { id: balance.id, carryOverExpiredAt: null },
+          data: {
+            expired: { increment: unusedCarryOver(Number(balance.carriedOver), Number(balance.used)) },
+            carryOverExpiredAt: new Date(),
+          },
+        });
+        expiredCount += count;
+      }
+    } while (batchLength === this.BATCH_SIZE);
+
+    if (expiredCount) {
+      this.logger.log(`[CarryOverExpiry] Đã xử lý hết hạn phép chuyển năm cho ${expiredCount} số dư (năm ${year})`);
+    }
+  }
+
+  // ── Báo cáo ──────────────────────────────────────────────────
+
+  /** Các lần chốt phép — companyId undefined = SUPERADMIN (tất cả công ty) */
+  async findRuns(companyId: string | undefined, year?: number) {
+    return this.prisma.leaveYearClose.findMany({
+      where: { ...(companyId ? { companyId } : {}), ...(year ? { year } : {}) },
+      include: { company: { select: { id: true, code: true, name: true } } },
+      orderBy: [{ year: 'desc' }, { companyId: 'asc' }],
+    });
+  }
+
+  /** Chi tiết từng nhân viên: số dư cuối năm Y, phần hết hạn, phần chuyển sang Y+1 */
+  async getCloseDetails(
+    companyId: string | undefined,
+    year: number,
+    query: { leaveTypeId?: string; page?: number; limit?: number },
+  ) {
+    const page = Math.max(1, Number(query.page) || 1);
+    const limit = Math.min(200, Math.max(1, Number(query.limit) || 50));
+    const where: Prisma.LeaveBalanceWhereInput = {
+      year,
+      ...(companyId ? { companyId } : {}),
+      ...(query.leaveTypeId ? { leaveTypeId: query.leaveTypeId } : {}),
+      leaveType: { OR: [{ isAccruable: true }, { maxCarryOver: { not: null } }] },
+    };
+
+    const [balances, total] = await Promise.all([
+      this.prisma.leaveBalance.findMany({
+        where,
+        include: {
+          user: { select: { id: true, employeeCode: true, firstName: true, lastName: true } },
+          leaveType: { select: { id: true, code: true, name: true, maxCarryOver: true } },
+        },
+        orderBy: [{ user: { employeeCode: 'asc' } }, { leaveTypeId: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.leaveBalance.count({ where }),
+    ]);
+
+    const nextBalances = await this.prisma.leaveBalance.findMany({
+      where: {
+        year: year + 1,
+        OR: balances.map((b) => ({ userId: b.userId, leaveTypeId: b.leaveTypeId })),
+      },
+      select: { userId: true, leaveTypeId: true, carriedOver: true, expired: true, carryOverExpiredAt: true },
+    });
+    const nextByKey = new Map(nextBalances.map((b) => [`${b.userId}:${b.leaveTypeId}`, b]));
+
+    const data = balances.map((b) => {
+      const next = nextByKey.get(`${b.userId}:${b.leaveTypeId}`);
+      return {
+        userId: b.userId,
+        employeeCode: b.user.employeeCode,
+        fullName: `${b.user.lastName} ${b.user.firstName}`.trim(),
+        leaveTypeId: b.leaveTypeId,
+        leaveTypeCode: b.leaveType.code,
+        leaveTypeName: b.leaveType.name,
+        maxCarryOver: b.leaveType.maxCarryOver,
+        accrued: b.accrued,
+        used: b.used,
+        available: this.balanceService.calcAvailable(b),
+        expired: b.expired,
+        carriedOver: next?.carriedOver ?? null,
+        carryOverExpired: next?.carryOverExpiredAt ? next.expired : null,
+        carryOverExpiredAt: next?.carryOverExpiredAt ?? null,
+      };
+    });
+
+    return { year, data, total, page, limit };
+  }
+
+  // ── Core ─────────────────────────────────────────────────────
+
+  private async claimRun(companyId: string, year: number, triggeredById?: string) {
+    const existing = await this.prisma.leaveYearClose.findUnique({
+      where: { companyId_year: { companyId, year } },
+    });
+
+    if (!existing) {
+      try {
+        return await this.prisma.leaveYearClose.create({
+          data: { companyId, year, triggeredById: triggeredById ?? null },
+        });
+      } catch (err: any) {
+        if (err?.code !== 'P2002') throw err;
+        throw new ConflictException(`Đang chốt phép năm ${year} cho công ty này, vui lòng thử lại sau`);
+      }
+    }
+
+    const { count } = await this.prisma.leaveYearClose.updateMany({
+      where: {
+        id: existing.id,
+        OR: [
+          { status: { not: LeaveYearCloseStatus.RUNNING } },
+          { startedAt: { lt: new Date(Date.now() - STALE_RUN_MS) } },
+        ],
+      },
+      data: {
+        status: LeaveYearCloseStatus.RUNNING,
+        runCount: { increment: 1 },
+        triggeredById: triggeredById ?? null,
+        startedAt: new Date(),
+        finishedAt: null,
+        error: null,
+      },
+    });
+    if (!count) {
+      throw new ConflictException(`Đang chốt phép năm ${year} cho công ty này, vui lòng thử lại sau`);
+    }
+    return existing;
+  }
+
+  private async processCompany(companyId: string, year: number) {
+    const types = await this.prisma.leaveType.findMany({
+      where: {
+        isActive: true,
+        AND: [
+          { OR: [{ companyId: null }, { companyId }] },
+          { OR: [{ isAccruable: true }, { maxCarryOver: { not: null } }] },
+        ],
+      },
+      select: { id: true, code: true, name: true, maxCarryOver: true },
+    });
+
+    const summary = new Map<string, TypeSummary>(
+      types.map((t) => [t.id, { leaveTypeId: t.id, code: t.code, name: t.name, balances: 0, carriedOver: 0, expired: 0 }]),
+    );
+    const maxCarryByType = new Map(types.map((t) => [t.id, t.maxCarryOver != null ? Number(t.maxCarryOver) : null]));
+    if (!types.length) return summary;
+
+    let cursor: string | undefined = undefined;
+    let batchLength = 0;
+
+    do {
+      const balances = await this.prisma.leaveBalance.findMany({
+        where: {
+          companyId,
+          year,
+          leaveTypeId: { in: types.map((t) => t.id) },
+          user: { isActive: true },
+        },
+        take: this.BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        orderBy: { id: 'asc' },
+      });
+
+      batchLength = balances.length;
+      if (!balances.length) break;
+      cursor = balances[balances.length - 1].id;
+
+      const nextBalances = await this.prisma.leaveBalance.findMany({
+        where: {
+          year: year + 1,
+          userId: { in: balances.map((b) => b.userId) },
+          leaveTypeId: { in: types.map((t) => t.id) },
+        },
+        select: { userId: true, leaveTypeId: true, carryOverExpiredAt: true },
+      });
+      const nextByKey = new Map(nextBalances.map((b) => [`${b.userId}:${b.leaveTypeId}`, b]));
+
+      for (const balance of balances) {
+        // Năm sau đã xử lý hết hạn carry-over → không sửa carriedOver nữa
+        if (nextByKey.get(`${balance.userId}:${balance.leaveTypeId}`)?.carryOverExpiredAt) continue;
+
+        const { carriedOver, expired } = splitCarryOver(
+          this.balanceService.calcAvailable(balance),
+          maxCarryByType.get(balance.leaveTypeId) ?? null,
+        );
+
+        await this.prisma.$transaction([
+          ...(expired > 0
+            ? [this.prisma.leaveBalance.update({ where: { id: balance.id }, data: { expired: { increment: expired } } })]
+            : []),
+          this.prisma.leaveBalance.upsert({
+            where: {
+              userId_leaveTypeId_year: { userId: balance.userId, leaveTypeId: balance.leaveTypeId, year: year + 1 },
+            },
+            update: { carriedOver },
+            create: {
+              userId: balance.userId,
+              leaveTypeId: balance.leaveTypeId,
+              year: year + 1,
+              companyId,
+              accrued: 0,
+              carriedOver,
+            },
+          }),
+        ]);
+
+        const typeSummary = summary.get(balance.leaveTypeId)!;
+        typeSummary.balances++;
+        typeSummary.carriedOver += carriedOver;
+        typeSummary.expired += expired;
+      }
+    } while (batchLength === this.BATCH_SIZE);
+
+    return summary;
+  }
+
+  /**
+   * Tổng hợp báo cáo. carriedOver là trạng thái (SET lại mỗi lần chạy),
+   * expired cộng dồn với các lần chạy trước — lần chạy lại chỉ ghi thêm phần vượt mới phát sinh.
+   */
+  private toTotals(summary: Map<string, TypeSummary>, previous: TypeSummary[]) {
+    const prevExpired = new Map(previous.map((p) => [p.leaveTypeId, Number(p.expired) || 0]));
+    const rows = [...summary.values()].map((s) => ({
+      ...s,
+      carriedOver: Math.round(s.carriedOver * 10) / 10,
+      expired: Math.round((s.expired + (prevExpired.get(s.leaveTypeId) ?? 0)) * 10) / 10,
+    }));
+    return {
+      balancesProcessed: rows.reduce((sum, r) => sum + r.balances, 0),
+      totalCarriedOver: rows.reduce((sum, r) => sum + r.carriedOver, 0),
+      totalExpired: rows.reduce((sum, r) => sum + r.expired, 0),
+      summary: rows as Prisma.InputJsonValue,
+    };
+  }
+
+  private vnYear(): number {
+    return new Date(Date.now() + VN_OFFSET_MS).getUTCFullYear();
+  }
+}
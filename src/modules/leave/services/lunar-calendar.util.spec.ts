@@ -0,0 +1,25 @@
+import { lunarToSolar, lunarToSolarDateKey, solarToLunar } from './lunar-calendar.util';
+
+describe('Lunar calendar utils', () => {
+  it('should resolve Tết Nguyên Đán for known years', () => {
+    expect(lunarToSolarDateKey(1, 1, 2024)).toBe('2024-02-10');
+    expect(lunarToSolarDateKey(1, 1, 2025)).toBe('2025-01-29');
+    expect(lunarToSolarDateKey(1, 1, 2026)).toBe('2026-02-17');
+    expect(lunarToSolarDateKey(1, 1, 2027)).toBe('2027-02-06');
+  });
+
+  it('should resolve Giỗ tổ Hùng Vương (10/3 âm lịch)', () => {
+    expect(lunarToSolarDateKey(10, 3, 2024)).toBe('2024-04-18');
+    expect(lunarToSolarDateKey(10, 3, 2025)).toBe('2025-04-07');
+    expect(lunarToSolarDateKey(10, 3, 2026)).toBe('2026-04-26');
+  });
+
+  it('should round-trip and handle leap months', () => {
+    // 2025 có tháng 6 nhuận: 25/7/2025 = 1/6 nhuận
+    expect(solarToLunar(25, 7, 2025)).toEqual({ day: 1, month: 6, year: 2025, leap: true });
+    expect(lunarToSolar(1, 6, 2025, true)).toEqual({ day: 25, month: 7, year: 2025 });
+    expect(lunarToSolar(1, 6, 2026, true)).toBeNull();
+    // Tháng Chạp thuộc năm âm trước
+    expect(solarToLunar(16, 2, 2026)).toMatchObject({ month: 12, year: 2025 });
+  });
+});
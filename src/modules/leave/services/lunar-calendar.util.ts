@@ -0,0 +1,191 @@
+/**
+ * Âm lịch Việt Nam ↔ dương lịch — thuật toán của Hồ Ngọc Đức (múi giờ +7)
+ * https://www.informatik.uni-leipzig.de/~duc/amlich/
+ * Dùng cho các ngày lễ theo âm lịch (Tết Nguyên Đán, Giỗ tổ Hùng Vương).
+ */
+
+const VN_TIMEZONE = 7;
+const DR = Math.PI / 180;
+
+export interface LunarDate {
+  day: number;
+  month: number;
+  year: number;
+  leap: boolean;
+}
+
+/** Số ngày Julius của ngày dương lịch */
+export function jdFromDate(day: number, month: number, year: number): number {
+  const a = Math.floor((14 - month) / 12);
+  const y = year + 4800 - a;
+  const m = month + 12 * a - 3;
+  let jd = day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4) - Math.floor(y / 100) + Math.floor(y / 400) - 32045;
+  if (jd < 2299161) {
+    jd = day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4) - 32083;
+  }
+  return jd;
+}
+
+export function jdToDate(jd: number): { day: number; month: number; year: number } {
+  let b: number;
+  let c: number;
+  if (jd > 2299160) {
+    const a = jd + 32044;
+    b = Math.floor((4 * a + 3) / 146097);
+    c = a - Math.floor((b * 146097) / 4);
+  } else {
+    b = 0;
+    c = jd + 32082;
+  }
+  const d = Math.floor((4 * c + 3) / 1461);
+  const e = c - Math.floor((1461 * d) / 4);
+  const m = Math.floor((5 * e + 2) / 153);
+  return {
+    day: e - Math.floor((153 * m + 2) / 5) + 1,
+    month: m + 3 - 12 * Math.floor(m / 10),
+    year: b * 100 + d - 4800 + Math.floor(m / 10),
+  };
+}
+
+/** Thời điểm (JD) của lần sóc thứ k tính từ 1/1/1900 */
+function newMoon(k: number): number {
+  const T = k / 1236.85;
+  const T2 = T * T;
+  const T3 = T2 * T;
+  let jd1 = 2415020.75933 + 29.53058868 * k + 0.0001178 * T2 - 0.000000155 * T3;
+  jd1 += 0.00033 * Math.sin((166.56 + 132.87 * T - 0.009173 * T2) * DR);
+  const M = 359.2242 + 29.10535608 * k - 0.0000333 * T2 - 0.00000347 * T3;
+  const Mpr = 306.0253 + 385.81691806 * k + 0.0107306 * T2 + 0.00001236 * T3;
+  const F = 21.2964 + 390.67050646 * k - 0.0016528 * T2 - 0.00000239 * T3;
+  let C1 = (0.1734 - 0.000393 * T) * Math.sin(M * DR) + 0.0021 * Math.sin(2 * DR * M);
+  C1 = C1 - 0.4068 * Math.sin(Mpr * DR) + 0.0161 * Math.sin(DR * 2 * Mpr);
+  C1 = C1 - 0.0004 * Math.sin(DR * 3 * Mpr);
+  C1 = C1 + 0.0104 * Math.sin(DR * 2 * F) - 0.0051 * Math.sin(DR * (M + Mpr));
+  C1 = C1 - 0.0074 * Math.sin(DR * (M - Mpr)) + 0.0004 * Math.sin(DR * (2 * F + M));
+  C1 = C1 - 0.0004 * Math.sin(DR * (2 * F - M)) - 0.0006 * Math.sin(DR * (2 * F + Mpr));
+  C1 = C1 + 0.001 * Math.sin(DR * (2 * F - Mpr)) + 0.0005 * Math.sin(DR * (2 * Mpr + M));
+  const deltaT =
+    T < -11
+      ? 0.001 + 0.000839 * T + 0.0002261 * T2 - 0.00000845 * T3 - 0.000000081 * T * T3
+      : -0.000278 + 0.000265 * T + 0.000262 * T2;
+  return jd1 + C1 - deltaT;
+}
+
+/** Kinh độ mặt trời (radian) tại thời điểm JD */
+function sunLongitude(jdn: number): number {
+  const T = (jdn - 2451545.0) / 36525;
+  const T2 = T * T;
+  const M = 357.5291 + 35999.0503 * T - 0.0001559 * T2 - 0.00000048 * T * T2;
+  const L0 = 280.46645 + 36000.76983 * T + 0.0003032 * T2;
+  let DL = (1.9146 - 0.004817 * T - 0.000014 * T2) * Math.sin(DR * M);
+  DL += (0.019993 - 0.000101 * T) * Math.sin(DR * 2 * M) + 0.00029 * Math.sin(DR * 3 * M);
+  const L = (L0 + DL) * DR;
+  return L - Math.PI * 2 * Math.floor(L / (Math.PI * 2));
+}
+
+function getNewMoonDay(k: number, tz: number): number {
+  return Math.floor(newMoon(k) + 0.5 + tz / 24);
+}
+
+/** Cung hoàng đạo (0..11) của mặt trời vào đầu ngày */
+function getSunLongitudeSector(dayNumber: number, tz: number): number {
+  return Math.floor((sunLongitude(dayNumber - 0.5 - tz / 24) / Math.PI) * 6);
+}
+
+/** Ngày bắt đầu tháng 11 âm lịch (chứa Đông chí) của năm */
+function getLunarMonth11(year: number, tz: number): number {
+  const off = jdFromDate(31, 12, year) - 2415021;
+  const k = Math.floor(off / 29.530588853);
+  const nm = getNewMoonDay(k, tz);
+  return getSunLongitudeSector(nm, tz) >= 9 ? getNewMoonDay(k - 1, tz) : nm;
+}
+
+/** Vị trí tháng nhuận tính từ tháng 11 (năm có 13 tháng) */
+function getLeapMonthOffset(a11: number, tz: number): number {
+  const k = Math.floor((a11 - 2415021.076998695) / 29.530588853 + 0.5);
+  let last: number;
+  let i = 1;
+  let arc = getSunLongitudeSector(getNewMoonDay(k + i, tz), tz);
+  do {
+    last = arc;
+    i++;
+    arc = getSunLongitudeSector(getNewMoonDay(k + i, tz), tz);
+  } while (arc !== last && i < 14);
+  return i - 1;
+}
+
+export function solarToLunar(day: number, month: number, year: number, tz = VN_TIMEZONE): LunarDate {
+  const dayNumber = jdFromDate(day, month, year);
+  const k = Math.floor((dayNumber - 2415021.076998695) / 29.530588853);
+  let monthStart = getNewMoonDay(k + 1, tz);
+  if (monthStart > dayNumber) monthStart = getNewMoonDay(k, tz);
+
+  let a11 = getLunarMonth11(year, tz);
+  let b11 = a11;
+  let lunarYear: number;
+  if (a11 >= monthStart) {
+    lunarYear = year;
+    a11 = getLunarMonth11(year - 1, tz);
+  } else {
+    lunarYear = year + 1;
+    b11 = getLunarMonth11(year + 1, tz);
+  }
+
+  const lunarDay = dayNumber - monthStart + 1;
+  const diff = Math.floor((monthStart - a11) / 29);
+  let leap = false;
+  let lunarMonth = diff + 11;
+  if (b11 - a11 > 365) {
+    const leapMonthDiff = getLeapMonthOffset(a11, tz);
+    if (diff >= leapMonthDiff) {
+      lunarMonth = diff + 10;
+      if (diff === leapMonthDiff) leap = true;
+    }
+  }
+  if (lunarMonth > 12) lunarMonth -= 12;
+  if (lunarMonth >= 11 && diff < 4) lunarYear -= 1;
+
+  return { day: lunarDay, month: lunarMonth, year: lunarYear, leap };
+}
+
+/** Âm lịch → dương lịch. null nếu tháng nhuận không tồn tại trong năm đó */
+export function lunarToSolar(
+  lunarDay: number,
+  lunarMonth: number,
+  lunarYear: number,
+  leap = false,
+  tz = VN_TIMEZONE,
+): { day: number; month: number; year: number } | null {
+  let a11: number;
+  let b11: number;
+  if (lunarMonth < 11) {
+    a11 = getLunarMonth11(lunarYear - 1, tz);
+    b11 = getLunarMonth11(lunarYear, tz);
+  } else {
+    a11 = getLunarMonth11(lunarYear, tz);
+    b11 = getLunarMonth11(lunarYear + 1, tz);
+  }
+
+  const k = Math.floor(0.5 + (a11 - 2415021.076998695) / 29.530588853);
+  let off = lunarMonth - 11;
+  if (off < 0) off += 12;
+
+  if (b11 - a11 > 365) {
+    const leapOff = getLeapMonthOffset(a11, tz);
+    let leapMonth = leapOff - 2;
+    if (leapMonth < 0) leapMonth += 12;
+    if (leap && lunarMonth !== leapMonth) return null;
+    if (leap || off >= leapOff) off += 1;
+  } else if (leap) {
+    return null;
+  }
+
+  const monthStart = getNewMoonDay(k + off, tz);
+  return jdToDate(monthStart + lunarDay - 1);
+}
+
+/** Âm lịch → YYYY-MM-DD (dương lịch) */
+export function lunarToSolarDateKey(lunarDay: number, lunarMonth: number, lunarYear: number): string {
+  const solar = lunarToSolar(lunarDay, lunarMonth, lunarYear)!;
+  return `${solar.year}-${String(solar.month).padStart(2, '0')}-${String(solar.day).padStart(2, '0')}`;
+}
@@ -0,0 +1,40 @@
+import { generateVietnameseHolidays, nationalDayAdjacentDate } from './public-holiday-generator.util';
+
+describe('Public holiday generator', () => {
+  it('should generate Tết as the last lunar day plus mùng 1–4', () => {
+    const tet = generateVietnameseHolidays(2026).filter((h) => h.name === 'Tết Nguyên Đán');
+    expect(tet.map((h) => h.date)).toEqual(['2026-02-16', '2026-02-17', '2026-02-18', '2026-02-19', '2026-02-20']);
+    expect(tet.every((h) => h.isLunar)).toBe(true);
+  });
+
+  it('should add a compensatory day when a holiday falls on Sunday', () => {
+    // 26/4/2026 (Giỗ tổ) là CN → nghỉ bù thứ Hai 27/4
+    const holidays = generateVietnameseHolidays(2026);
+    expect(holidays.find((h) => h.date === '2026-04-27')).toMatchObject({ kind: 'COMPENSATORY' });
+    expect(generateVietnameseHolidays(2026, { compensate: false }).some((h) => h.kind === 'COMPENSATORY')).toBe(false);
+  });
+
+  it('should skip holidays and rest days when placing compensatory days', () => {
+    // 2028: Tết 26/1 (thứ Tư) → 25/1–29/1, không CN; 30/4/2028 là CN → bù 2/5 (1/5 đã là lễ)
+    const holidays = generateVietnameseHolidays(2028);
+    expect(holidays.find((h) => h.kind === 'COMPENSATORY' && h.name.includes('Giải phóng'))?.date).toBe('2028-05-02');
+  });
+
+  it('should pick the National Day adjacent day like recent government notices', () => {
+    expect(nationalDayAdjacentDate(2024)).toBe('2024-09-03'); // 2/9 thứ Hai
+    expect(nationalDayAdjacentDate(2025)).toBe('2025-09-01'); // 2/9 thứ Ba
+    expect(nationalDayAdjacentDate(2025, 'AFTER')).toBe('2025-09-03');
+  });
+
+  it('should merge government-announced extra days without duplicates', () => {
+    const holidays = generateVietnameseHolidays(2025, {
+      extraDays: [
+        { date: '2025-05-02', name: 'Nghỉ hoán đổi' },
+        { date: '2025-05-01', name: 'Trùng ngày lễ' },
+      ],
+    });
+    expect(holidays.filter((h) => h.date === '2025-05-01')).toHaveLength(1);
+    expect(holidays.find((h) => h.date === '2025-05-02')).toMatchObject({ kind: 'EXTRA', name: 'Nghỉ hoán đổi' });
+    expect(new Set(holidays.map((h) => h.date)).size).toBe(holidays.length);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Sinh ngày nghỉ lễ Việt Nam theo quy tắc (Điều 112 BLLĐ 2019) — thuần, không truy cập DB
+ * - Tết Dương lịch 1/1, Giỗ tổ Hùng Vương 10/3 âm, 30/4, 1/5
+ * - Tết Nguyên Đán: mặc định ngày cuối năm âm + mùng 1–4 (5 ngày)
+ * - Quốc khánh 2/9 + 1 ngày liền kề trước/sau
+ * - Nghỉ bù khi ngày lễ trùng ngày nghỉ hằng tuần
+ * - Ngày nghỉ hoán đổi do Chính phủ công bố hằng năm → truyền qua extraDays
+ */
+import { lunarToSolarDateKey, solarToLunar } from './lunar-calendar.util';
+
+const DAY_MS = 86_400_000;
+
+export type GeneratedHolidayKind = 'STATUTORY' | 'COMPENSATORY' | 'EXTRA';
+export type NationalDayAdjacent = 'AUTO' | 'BEFORE' | 'AFTER';
+
+export interface GeneratedHoliday {
+  date: string; // YYYY-MM-DD
+  name: string;
+  description: string;
+  isLunar: boolean;
+  kind: GeneratedHolidayKind;
+}
+
+export interface HolidayGeneratorOptions {
+  /** Ngày nghỉ hằng tuần (0 = CN) — mặc định chỉ CN */
+  weeklyRestDays?: number[];
+  /** Số ngày nghỉ trước mùng 1 Tết — mặc định 1 */
+  tetDaysBefore?: number;
+  /** Số ngày nghỉ từ mùng 1 Tết — mặc định 4 */
+  tetDaysFromNewYear?: number;
+  nationalDayAdjacent?: NationalDayAdjacent;
+  /** Có sinh ngày nghỉ bù hay không — mặc định có */
+  compensate?: boolean;
+  /** Ngày nghỉ do Chính phủ công bố thêm (nghỉ hoán đổi / cầu) */
+  extraDays?: { date: string; name: string; description?: string }[];
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00.000Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function weekday(date: string): number {
+  return new Date(`${date}T00:00:00.000Z`).getUTCDay();
+}
+
+function solarKey(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Ngày liền kề Quốc khánh — AUTO nối với cuối tuần theo thông lệ các năm gần đây:
+ * 2/9 thứ Hai / thứ Năm → nghỉ thêm 3/9, còn lại → 1/9
+ */
+export function nationalDayAdjacentDate(year: number, mode: NationalDayAdjacent = 'AUTO'): string {
+  const nationalDay = solarKey(year, 9, 2);
+  const after = mode === 'AFTER' || (mode === 'AUTO' && [1, 4].includes(weekday(nationalDay)));
+  return addDays(nationalDay, after ? 1 : -1);
+}
+
+function statutoryHolidays(year: number, options: HolidayGeneratorOptions): GeneratedHoliday[] {
+  const statutory = (date: string, name: string, description: string, isLunar = false): GeneratedHoliday => ({
+    date, name, description, isLunar, kind: 'STATUTORY',
+  });
+
+  const holidays = [
+    statutory(solarKey(year, 1, 1), 'Tết Dương Lịch', 'Nghỉ lễ Tết Dương lịch (1/1)'),
+    statutory(lunarToSolarDateKey(10, 3, year), 'Giỗ tổ Hùng Vương', 'Giỗ tổ Hùng Vương (10/3 âm lịch)', true),
+    statutory(solarKey(year, 4, 30), 'Ngày Giải phóng miền Nam', 'Ngày Giải phóng miền Nam, thống nhất đất nước (30/4)'),
+    statutory(solarKey(year, 5, 1), 'Ngày Quốc tế Lao Động', 'Ngày Quốc tế Lao Động (1/5)'),
+    statutory(solarKey(year, 9, 2), 'Ngày Quốc khánh', 'Quốc khánh nước CHXHCNVN (2/9)'),
+  ];
+
+  const adjacent = nationalDayAdjacentDate(year, options.nationalDayAdjacent);
+  holidays.push(statutory(adjacent, 'Ngày Quốc khánh', `Nghỉ Quốc khánh (ngày liền kề 2/9: ${adjacent.slice(8)}/9)`));
+
+  // Tết Nguyên Đán của năm âm lịch bắt đầu trong năm dương lịch này
+  const newYear = lunarToSolarDateKey(1, 1, year);
+  const before = options.tetDaysBefore ?? 1;
+  const from = options.tetDaysFromNewYear ?? 4;
+  for (let offset = -before; offset < from; offset++) {
+    const date = addDays(newYear, offset);
+    const [y, m, d] = date.split('-').map(Number);
+    const label = offset >= 0 ? `Mùng ${offset + 1} Tết` : `${solarToLunar(d, m, y).day} tháng Chạp`;
+    holidays.push(statutory(date, 'Tết Nguyên Đán', `Tết Nguyên Đán — ${label}`, true));
+  }
+
+  return holidays;
+}
+
+/**
+ * Sinh danh sách ngày nghỉ của 1 năm dương lịch, sắp theo ngày, mỗi ngày tối đa 1 bản ghi.
+ * Ngày lễ trùng ngày nghỉ hằng tuần → nghỉ bù vào ngày làm việc kế tiếp chưa phải ngày nghỉ.
+ */
+export function generateVietnameseHolidays(year: number, options: HolidayGeneratorOptions = {}): GeneratedHoliday[] {
+  const restDays = new Set(options.weeklyRestDays ?? [0]);
+  const byDate = new Map<string, GeneratedHoliday>();
+
+  for (const holiday of statutoryHolidays(year, options)) {
+    if (!byDate.has(holiday.date)) byDate.set(holiday.date, holiday);
+  }
+  for (const extra of options.extraDays ?? []) {
+    if (byDate.has(extra.date)) continue;
+    byDate.set(extra.date, {
+      date: extra.date,
+      name: extra.name,
+      description: extra.description ?? `${extra.name} (theo thông báo của Chính phủ)`,
+      isLunar: false,
+      kind: 'EXTRA',
+    });
+  }
+
+  if (options.compensate !== false) {
+    const statutory = [...byDate.values()]
+      .filter((h) => h.kind === 'STATUTORY' && restDays.has(weekday(h.date)))
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    for (const holiday of statutory) {
+      let date = addDays(holiday.date, 1);
+      while (restDays.has(weekday(date)) || byDate.has(date)) date = addDays(date, 1);
+      byDate.set(date, {
+        date,
+        name: `Nghỉ bù ${holiday.name}`,
+        description: `Nghỉ bù do ${holiday.name} (${holiday.date}) trùng ngày nghỉ hằng tuần`,
+        isLunar: false,
+        kind: 'COMPENSATORY',
+      });
+    }
+  }
+
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
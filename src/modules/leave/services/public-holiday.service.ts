@@ -1,6 +1,12 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaService } from 'src/common/prisma.service';
 import { CreatePublicHolidayDto } from '../dto/public-holiday/create-public-holiday.dto';
+import { GeneratePublicHolidaysDto } from '../dto/public-holiday/generate-public-holidays.dto';
+import { GeneratedHoliday, generateVietnameseHolidays } from './public-holiday-generator.util';
+import { toDateKey } from './leave-calendar.util';
+
+// NEW = sẽ tạo, EXISTS = đã có ngày lễ cùng ngày, REMOVED = đã bị xoá (isActive=false) — không tạo lại
+export type GeneratedHolidayStatus = 'NEW' | 'EXISTS' | 'REMOVED';
 
 @Injectable()
 export class PublicHolidayService {
@@ -46,4 +52,101 @@ export class PublicHolidayService {
     await this.findOne(id);
     return this.prisma.publicHoliday.update({ where: { id }, data: { isActive: false } });
   }
+
+  // ── Sinh ngày lễ theo năm ────────────────────────────────────
+
+  /**
+   * Xem trước danh sách ngày lễ sinh theo quy tắc, đối chiếu với dữ liệu hiện có.
+   * companyId null = ngày lễ dùng chung; công ty cụ thể thì ngày lễ chung cũng được tính là đã có.
+   */
+  async previewGenerate(dto: GeneratePublicHolidaysDto, companyId: string | null) {
+    const generated = this.generate(dto);
+    const existing = await this.prisma.publicHoliday.findMany({
+      where: {
+        OR: [{ companyId: null }, ...(companyId ? [{ companyId }] : [])],
+        date: { gte: new Date(Date.UTC(dto.year, 0, 1)), lte: new Date(Date.UTC(dto.year, 11, 31)) },
+      },
+      select: { id: true, companyId: true, name: true, date: true, isActive: true },
+      orderBy: { date: 'asc' },
+    });
+
+    const byDate = new Map<string, typeof existing>();
+    for (const h of existing) {
+      const key = toDateKey(h.date);
+      byDate.set(key, [...(byDate.get(key) ?? []), h]);
+    }
+
+    const items = generated.map((holiday) => {
+      const sameDate = byDate.get(holiday.date) ?? [];
+      const active = sameDate.find((h) => h.isActive);
+      // Chỉ tính "đã xoá" khi bản ghi bị xoá thuộc đúng phạm vi đang sinh
+      const removed = sameDate.find((h) => !h.isActive && h.companyId === companyId);
+      const status: GeneratedHolidayStatus = active ? 'EXISTS' : removed ? 'REMOVED' : 'NEW';
+      const match = active ?? removed;
+      return {
+        ...holiday,
+        status,
+        existing: match ? { id: match.id, name: match.name, companyId: match.companyId } : null,
+      };
+    });
+
+    const generatedDates = new Set(generated.map((h) => h.date));
+    const unmatched = existing
+      .filter((h) => h.isActive && !generatedDates.has(toDateKey(h.date)))
+      .map((h) => ({ id: h.id, name: h.name, companyId: h.companyId, date: toDateKey(h.date) }));
+
+    return {
+      year: dto.year,
+      companyId,
+      items,
+      unmatched,
+      summary: {
+        total: items.length,
+        new: items.filter((i) => i.status === 'NEW').length,
+        exists: items.filter((i) => i.status === 'EXISTS').length,
+        removed: items.filter((i) => i.status === 'REMOVED').length,
+      },
+    };
+  }
+
+  /** Tạo các ngày NEW của bản xem trước — chạy lại nhiều lần không sinh trùng */
+  async commitGenerate(dto: GeneratePublicHolidaysDto, companyId: string | null) {
+    const preview = await this.previewGenerate(dto, companyId);
+    const toCreate = preview.items.filter((i) => i.status === 'NEW');
+
+    if (toCreate.length) {
+      await this.prisma.publicHoliday.createMany({
+        data: toCreate.map((h) => ({
+          companyId,
+          name: h.name,
+          date: new Date(`${h.date}T00:00:00.000Z`),
+          isLunar: h.isLunar,
+          description: h.description,
+        })),
+      });
+    }
+
+    return {
+      year: dto.year,
+      companyId,
+      created: toCreate.length,
+      skipped: preview.items.length - toCreate.length,
+      items: toCreate,
+    };
+  }
+
+  private generate(dto: GeneratePublicHolidaysDto): GeneratedHoliday[] {
+    const outside = (dto.extraDays ?? []).find((d) => !d.date.startsWith(`${dto.year}-`));
+    if (outside) {
+      throw new BadRequestException(`Ngày nghỉ thêm ${outside.date} không thuộc năm ${dto.year}`);
+    }
+    return generateVietnameseHolidays(dto.year, {
+      weeklyRestDays: dto.weeklyRestDays,
+      tetDaysBefore: dto.tetDaysBefore,
+      tetDaysFromNewYear: dto.tetDaysFromNewYear,
+      nationalDayAdjacent: dto.nationalDayAdjacent,
+      compensate: dto.compensate,
+      extraDays: dto.extraDays?.map((d) => ({ ...d, date: d.date.slice(0, 10) })),
+    });
+  }
 }
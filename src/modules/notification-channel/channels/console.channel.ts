@@ -0,0 +1,22 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { NotificationChannel, OutboundMessage } from './notification-channel.interface';
+
+export const CONSOLE_CHANNEL = 'CONSOLE';
+
+/**
+ * Kênh thay thế khi chạy local / test: chỉ ghi log, không gửi ra ngoài.
+ * Chỉ bật khi đặt NOTIFICATION_CONSOLE_CHANNEL=true — log chứa nội dung tin (OTP...) nên không bật ngầm.
+ */
+@Injectable()
+export class ConsoleChannel implements NotificationChannel {
+  readonly name = CONSOLE_CHANNEL;
+  private readonly logger = new Logger(ConsoleChannel.name);
+
+  isEnabled(): boolean {
+    return process.env.NOTIFICATION_CONSOLE_CHANNEL === 'true';
+  }
+
+  async send(message: OutboundMessage): Promise<void> {
+    this.logger.log(`📨 [${message.recipient}] ${message.subject}\n${message.textBody ?? message.body}`);
+  }
+}
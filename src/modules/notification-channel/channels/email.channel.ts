@@ -0,0 +1,50 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import * as nodemailer from 'nodemailer';
+import { NotificationChannel, OutboundMessage } from './notification-channel.interface';
+
+export const EMAIL_CHANNEL = 'EMAIL';
+
+@Injectable()
+export class EmailChannel implements NotificationChannel, OnModuleInit {
+  readonly name = EMAIL_CHANNEL;
+  private readonly logger = new Logger(EmailChannel.name);
+  private transporter: nodemailer.Transporter | null = null;
+  private from = '';
+
+  onModuleInit() {
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+      this.logger.warn('SMTP_HOST not configured — Email channel disabled');
+      return;
+    }
+
+    const port = Number(process.env.SMTP_PORT) || 587;
+    const user = process.env.SMTP_USER;
+    const pass = process.env.SMTP_PASS;
+
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      auth: user ? { user, pass } : undefined,
+    });
+    this.from = process.env.MAIL_FROM || user || 'TBS Group <no-reply@tbs.com>';
+    this.logger.log(`✅ Email channel initialized (SMTP ${host}:${port})`);
+  }
+
+  isEnabled(): boolean {
+    return this.transporter !== null;
+  }
+
+  async send(message: OutboundMessage): Promise<void> {
+    if (!this.transporter) throw new Error('SMTP chưa được cấu hình');
+
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.recipient,
+      subject: message.subject,
+      html: message.body,
+      text: message.textBody ?? undefined,
+    });
+  }
+}
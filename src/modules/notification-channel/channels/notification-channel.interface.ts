@@ -0,0 +1,21 @@
+export interface OutboundMessage {
+  recipient: string;
+  subject: string;
+  body: string;
+  textBody?: string | null;
+}
+
+/**
+ * Kênh gửi thông báo ra ngoài hệ thống (email, SMS, Zalo, ...).
+ * Đăng ký thêm kênh mới: implement interface này và thêm vào NOTIFICATION_CHANNELS
+ * trong NotificationChannelModule — outbox tự route theo `name`.
+ * Quy ước name: EMAIL (recipient = email), SMS / ZALO (recipient = số điện thoại), CONSOLE (chỉ ghi log).
+ */
+export interface NotificationChannel {
+  /** Khớp cột NotificationOutbox.channel */
+  readonly name: string;
+  isEnabled(): boolean;
+  send(message: OutboundMessage): Promise<void>;
+}
+
+export const NOTIFICATION_CHANNELS = Symbol('NOTIFICATION_CHANNELS');
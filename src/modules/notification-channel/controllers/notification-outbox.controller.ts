@@ -0,0 +1,41 @@
+import {
+  Controller, Get, Patch, Param, Query, ParseUUIDPipe, DefaultValuePipe, ParseIntPipe,
+} from '@nestjs/common';
+import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+import { GetUser } from 'src/common/decorators/get-user.decorator';
+import { NotificationOutboxService } from '../services/notification-outbox.service';
+
+@Controller('notifications/outbox')
+export class NotificationOutboxController {
+  constructor(private readonly service: NotificationOutboxService) {}
+
+  private resolveCompanyId(user: any): string | undefined {
+    const isSuperAdmin = user?.roles?.some((r: any) => r?.roleDefinition?.code === 'SUPERADMIN');
+    return isSuperAdmin ? undefined : (user?.companyId ?? undefined);
+  }
+
+  @Get()
+  @RequirePermissions('notifications:view')
+  findAll(
+    @GetUser() user: any,
+    @Query('status') status?: string,
+    @Query('channel') channel?: string,
+    @Query('recipient') recipient?: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page?: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit?: number,
+  ) {
+    return this.service.findAll({ status, channel, recipient, page, limit }, this.resolveCompanyId(user));
+  }
+
+  @Get(':id')
+  @RequirePermissions('notifications:view')
+  findById(@GetUser() user: any, @Param('id', ParseUUIDPipe) id: string) {
+    return this.service.findById(id, this.resolveCompanyId(user));
+  }
+
+  @Patch(':id/retry')
+  @RequirePermissions('notifications:manage')
+  retry(@GetUser() user: any, @Param('id', ParseUUIDPipe) id: string) {
+    return this.service.retry(id, this.resolveCompanyId(user));
+  }
+}
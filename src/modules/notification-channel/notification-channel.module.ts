@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { CommonModule } from '../../common/common.module';
+import { NOTIFICATION_CHANNELS } from './channels/notification-channel.interface';
+import { EmailChannel } from './channels/email.channel';
+import { ConsoleChannel } from './channels/console.channel';
+import { NotificationOutboxService } from './services/notification-outbox.service';
+import { NotificationOutboxController } from './controllers/notification-outbox.controller';
+
+@Module({
+  imports: [CommonModule],
+  controllers: [NotificationOutboxController],
+  providers: [
+    EmailChannel,
+    ConsoleChannel,
+    {
+      // Thêm kênh mới (SMS, Zalo, ...) vào danh sách này
+      provide: NOTIFICATION_CHANNELS,
+      useFactory: (email: EmailChannel, console: ConsoleChannel) => [email, console],
+      inject: [EmailChannel, ConsoleChannel],
+    },
+    NotificationOutboxService,
+  ],
+  exports: [NotificationOutboxService, NOTIFICATION_CHANNELS],
+})
+export class NotificationChannelModule {}
@@ -0,0 +1,209 @@
+import { Inject, Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { NotificationOutbox, NotificationOutboxStatus, Prisma } from '@prisma/client';
+import { PrismaService } from 'src/common/prisma.service';
+import { NOTIFICATION_CHANNELS, NotificationChannel } from '../channels/notification-channel.interface';
+import { EMAIL_CHANNEL } from '../channels/email.channel';
+import { EmailTemplateData, EmailTemplateKey, renderEmailTemplate } from '../templates/email.templates';
+
+// Số bản ghi xử lý mỗi lượt cron
+const BATCH_SIZE = 20;
+// Thời gian chờ trước lần thử lại thứ N (phút) — lần cuối dùng giá trị cuối mảng
+const RETRY_BACKOFF_MINUTES = [1, 5, 15, 60];
+// Bản ghi SENDING quá N phút (instance chết giữa chừng) → trả về PENDING
+const STALE_LOCK_MINUTES = 10;
+
+/**
+ * NotificationOutboxService
+ * - Render template + ghi vào bảng notification_outbox (không gửi trực tiếp trong request)
+ * - Cron mỗi phút claim bản ghi PENDING → SENDING, gửi qua kênh tương ứng, retry với backoff
+ * - Admin: xem outbox, gửi lại bản ghi FAILED
+ */
+@Injectable()
+export class NotificationOutboxService {
+  private readonly logger = new Logger(NotificationOutboxService.name);
+  private readonly channels: Map<string, NotificationChannel>;
+  private processing = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(NOTIFICATION_CHANNELS) channels: NotificationChannel[],
+  ) {
+    this.channels = new Map(channels.map((c) => [c.name, c]));
+  }
+
+  // ── Enqueue ──────────────────────────────────────────────────
+
+  /**
+   * Xếp hàng email cho danh sách user (bỏ qua user không có email / đã nghỉ).
+   * Không throw — lỗi chỉ log để không ảnh hưởng nghiệp vụ chính.
+   */
+  async enqueueEmailToUsers(
+    userIds: string[],
+    template: EmailTemplateKey,
+    data: EmailTemplateData,
+  ): Promise<number> {
+    const ids = [...new Set(userIds.filter(Boolean))];
+    if (!ids.length || !this.channels.get(EMAIL_CHANNEL)?.isEnabled()) return 0;
+
+    try {
+      const users = await this.prisma.user.findMany({
+        where: { id: { in: ids }, isActive: true, email: { not: null } },
+        select: { id: true, email: true, firstName: true, lastName: true },
+      });
+
+      const rows = users
+        .filter((u) => !!u.email?.trim())
+        .map((u) => {
+          const rendered = renderEmailTemplate(template, {
+            ...data,
+            recipientName: `${u.lastName} ${u.firstName}`,
+          });
+          return {
+            channel: EMAIL_CHANNEL,
+            recipient: u.email!.trim(),
+            recipientUserId: u.id,
+            template,
+            subject: rendered.subject,
+            body: rendered.html,
+            textBody: rendered.text,
+          };
+        });
+      if (!rows.length) return 0;
+
+      const result = await this.prisma.notificationOutbox.createMany({ data: rows });
+      return result.count;
+    } catch (err) {
+      this.logger.error(`Enqueue email ${template} failed: ${(err as Error).message}`);
+      return 0;
+    }
+  }
+
+  // ── Worker ───────────────────────────────────────────────────
+
+  @Cron(CronExpression.EVERY_MINUTE, { name: 'notification-outbox' })
+  async processOutbox() {
+    if (this.processing) return;
+    this.processing = true;
+    try {
+      await this.releaseStaleLocks();
+
+      const enabled = [...this.channels.values()].filter((c) => c.isEnabled()).map((c) => c.name);
+      if (!enabled.length) return;
+
+      const candidates = await this.prisma.notificationOutbox.findMany({
+        where: {
+          status: NotificationOutboxStatus.PENDING,
+          channel: { in: enabled },
+          nextAttemptAt: { lte: new Date() },
+        },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: BATCH_SIZE,
+      });
+
+      for (const row of candidates) {
+        // Claim có điều kiện status → an toàn khi chạy nhiều instance
+        const claimed = await this.prisma.notificationOutbox.updateMany({
+          where: { id: row.id, status: NotificationOutboxStatus.PENDING },
+          data: { status: NotificationOutboxStatus.SENDING, lockedAt: new Date(), attempts: { increment: 1 } },
+        });
+        if (!claimed.count) continue;
+        await this.deliver({ ...row, attempts: row.attempts + 1 });
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async deliver(row: NotificationOutbox) {
+    const channel = this.channels.get(row.channel);
+    try {
+      if (!channel) throw new Error(`Kênh ${row.channel} chưa được đăng ký`);
+      await channel.send({
+        recipient: row.recipient,
+        subject: row.subject,
+        body: row.body,
+        textBody: row.textBody,
+      });
+      await this.prisma.notificationOutbox.update({
+        where: { id: row.id },
+        data: { status: NotificationOutboxStatus.SENT, sentAt: new Date(), lockedAt: null, lastError: null },
+      });
+    } catch (err) {
+      const message = (err as Error).message ?? String(err);
+      const exhausted = row.attempts >= row.maxAttempts;
+      const delayMin = RETRY_BACKOFF_MINUTES[Math.min(row.attempts - 1, RETRY_BACKOFF_MINUTES.length - 1)];
+
+      await this.prisma.notificationOutbox.update({
+        where: { id: row.id },
+        data: {
+          status: exhausted ? NotificationOutboxStatus.FAILED : NotificationOutboxStatus.PENDING,
+          nextAttemptAt: new Date(Date.now() + delayMin * 60_000),
+          lockedAt: null,
+          lastError: message.slice(0, 1000),
+        },
+      });
+      this.logger.warn(
+        `Outbox ${row.id} (${row.channel} → ${row.recipient}) attempt ${row.attempts}/${row.maxAttempts} failed: ${message}`,
+      );
+    }
+  }
+
+  private async releaseStaleLocks() {
+    const result = await this.prisma.notificationOutbox.updateMany({
+      where: {
+        status: NotificationOutboxStatus.SENDING,
+        lockedAt: { lt: new Date(Date.now() - STALE_LOCK_MINUTES * 60_000) },
+      },
+      data: { status: NotificationOutboxStatus.PENDING, lockedAt: null },
+    });
+    if (result.count) this.logger.warn(`Released ${result.count} stale outbox lock(s)`);
+  }
+
+  // ── Admin ────────────────────────────────────────────────────
+
+  /** companyId undefined = SUPERADMIN — còn lại chỉ thấy thông báo gửi cho user trong công ty mình */
+  async findAll(
+    query: { status?: string; channel?: string; recipient?: string; page?: number; limit?: number },
+    companyId?: string,
+  ) {
+    const { status, channel, recipient, page = 1, limit = 20 } = query;
+    const where: Prisma.NotificationOutboxWhereInput = companyId ? { recipientUser: { companyId } } : {};
+    if (status) where.status = status as NotificationOutboxStatus;
+    if (channel) where.channel = channel;
+    if (recipient) where.recipient = { contains: recipient, mode: 'insensitive' };
+
+    const [data, total] = await Promise.all([
+      this.prisma.notificationOutbox.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        omit: { body: true, textBody: true },
+      }),
+      this.prisma.notificationOutbox.count({ where }),
+    ]);
+
+    return { data, total, page, limit };
+  }
+
+  async findById(id: string, companyId?: string) {
+    const row = await this.prisma.notificationOutbox.findFirst({
+      where: { id, ...(companyId ? { recipientUser: { companyId } } : {}) },
+    });
+    if (!row) throw new NotFoundException('Không tìm thấy thông báo');
+    return row;
+  }
+
+  /** Đưa bản ghi FAILED về hàng đợi, reset số lần thử */
+  async retry(id: string, companyId?: string) {
+    const row = await this.findById(id, companyId);
+    if (row.status !== NotificationOutboxStatus.FAILED) {
+      throw new BadRequestException('Chỉ có thể gửi lại thông báo đã thất bại');
+    }
+    return this.prisma.notificationOutbox.update({
+      where: { id },
+      data: { status: NotificationOutboxStatus.PENDING, attempts: 0, nextAttemptAt: new Date(), lastError: null },
+    });
+  }
+}
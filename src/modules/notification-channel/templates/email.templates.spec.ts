@@ -0,0 +1,57 @@
+import { renderEmailTemplate, escapeHtml, formatVnDate, isEmailTemplateKey } from './email.templates';
+
+describe('Email Templates', () => {
+  describe('renderEmailTemplate', () => {
+    it('should render leave submitted email with link and details', () => {
+      const result = renderEmailTemplate('LEAVE_SUBMITTED', {
+        recipientName: 'Nguyễn Văn A',
+        requesterName: 'Trần Thị B (NV001)',
+        code: 'LR-20260001',
+        typeName: 'Phép năm',
+        period: '21/04/2026 (1 ngày)',
+        link: '/leave',
+      }, 'https://hr.example.com/');
+
+      expect(result.subject).toBe('[Nghỉ phép] Đơn LR-20260001 cần anh/chị duyệt');
+      expect(result.text).toContain('Xin chào Nguyễn Văn A,');
+      expect(result.text).toContain('Người đề nghị: Trần Thị B (NV001)');
+      expect(result.text).toContain('https://hr.example.com/leave');
+      expect(result.html).toContain('href="https://hr.example.com/leave"');
+    });
+
+    it('should omit empty detail rows', () => {
+      const result = renderEmailTemplate('GATE_PASS_APPROVED', { code: 'GP-001' });
+      expect(result.text).not.toContain('Lý do:');
+      expect(result.text).not.toContain('Ý kiến người duyệt:');
+    });
+
+    it('should use custom message for timeout template', () => {
+      const result = renderEmailTemplate('LEAVE_TIMEOUT', {
+        code: 'LR-1',
+        message: 'Đơn đã được chuyển lên cấp 2.',
+      });
+      expect(result.text).toContain('Đơn đã được chuyển lên cấp 2.');
+    });
+
+    it('should escape user-provided values in html', () => {
+      const result = renderEmailTemplate('LEAVE_REJECTED', { comment: '<script>alert(1)</script>' });
+      expect(result.html).not.toContain('<script>');
+      expect(result.html).toContain('&lt;script&gt;');
+    });
+  });
+
+  describe('helpers', () => {
+    it('should escape html special characters', () => {
+      expect(escapeHtml(`a & b "c" <d> 'e'`)).toBe('a &amp; b &quot;c&quot; &lt;d&gt; &#39;e&#39;');
+    });
+
+    it('should format dates in Vietnam timezone', () => {
+      expect(formatVnDate(new Date('2026-04-20T18:30:00.000Z'))).toBe('21/04/2026');
+    });
+
+    it('should recognise template keys', () => {
+      expect(isEmailTemplateKey('LEAVE_APPROVED')).toBe(true);
+      expect(isEmailTemplateKey('UNKNOWN')).toBe(false);
+    });
+  });
+});
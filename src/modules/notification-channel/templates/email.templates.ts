@@ -0,0 +1,155 @@
+// Template email tiếng Việt cho các sự kiện đơn nghỉ phép / giấy ra vào cổng.
+// Hàm thuần (không phụ thuộc DI) để dễ test và render trước khi đưa vào outbox.
+
+export type EmailTemplateKey =
+  | 'LEAVE_SUBMITTED'
+  | 'LEAVE_APPROVED'
+  | 'LEAVE_REJECTED'
+  | 'LEAVE_TIMEOUT'
+  | 'GATE_PASS_SUBMITTED'
+  | 'GATE_PASS_APPROVED'
+  | 'GATE_PASS_REJECTED';
+
+export interface EmailTemplateData {
+  recipientName?: string;
+  requesterName?: string;
+  code?: string;      // mã đơn: requestNumber / passNumber
+  typeName?: string;  // loại phép / lý do ra cổng
+  period?: string;    // khoảng thời gian đã format sẵn
+  reason?: string;
+  comment?: string;   // ý kiến người duyệt / lý do từ chối
+  message?: string;   // nội dung bổ sung (vd: thông báo timeout)
+  link?: string;      // path trên frontend, vd '/leave'
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface TemplateDef {
+  subject: (d: EmailTemplateData) => string;
+  heading: string;
+  intro: (d: EmailTemplateData) => string;
+  actionLabel: string;
+}
+
+const TEMPLATES: Record<EmailTemplateKey, TemplateDef> = {
+  LEAVE_SUBMITTED: {
+    subject: (d) => `[Nghỉ phép] Đơn ${d.code ?? ''} cần anh/chị duyệt`,
+    heading: 'Đơn nghỉ phép chờ duyệt',
+    intro: (d) => `${d.requesterName ?? 'Nhân viên'} đã gửi đơn nghỉ phép cần anh/chị xem xét.`,
+    actionLabel: 'Xem và duyệt đơn',
+  },
+  LEAVE_APPROVED: {
+    subject: (d) => `[Nghỉ phép] Đơn ${d.code ?? ''} đã được duyệt`,
+    heading: 'Đơn nghỉ phép đã được duyệt',
+    intro: () => 'Đơn nghỉ phép của anh/chị đã được phê duyệt.',
+    actionLabel: 'Xem chi tiết',
+  },
+  LEAVE_REJECTED: {
+    subject: (d) => `[Nghỉ phép] Đơn ${d.code ?? ''} bị từ chối`,
+    heading: 'Đơn nghỉ phép bị từ chối',
+    intro: () => 'Đơn nghỉ phép của anh/chị đã bị từ chối.',
+    actionLabel: 'Xem chi tiết',
+  },
+  LEAVE_TIMEOUT: {
+    subject: (d) => `[Nghỉ phép] Đơn ${d.code ?? ''} quá hạn duyệt`,
+    heading: 'Đơn nghỉ phép quá hạn duyệt',
+    intro: (d) => d.message ?? 'Đơn nghỉ phép đã quá thời hạn duyệt.',
+    actionLabel: 'Xem đơn',
+  },
+  GATE_PASS_SUBMITTED: {
+    subject: (d) => `[Giấy ra vào cổng] Đơn ${d.code ?? ''} cần anh/chị duyệt`,
+    heading: 'Giấy ra vào cổng chờ duyệt',
+    intro: (d) => `${d.requesterName ?? 'Nhân viên'} đã gửi giấy ra vào cổng cần anh/chị xem xét.`,
+    actionLabel: 'Xem và duyệt đơn',
+  },
+  GATE_PASS_APPROVED: {
+    subject: (d) => `[Giấy ra vào cổng] Đơn ${d.code ?? ''} đã được duyệt`,
+    heading: 'Giấy ra vào cổng đã được duyệt',
+    intro: () => 'Giấy ra vào cổng của anh/chị đã được phê duyệt.',
+    actionLabel: 'Xem chi tiết',
+  },
+  GATE_PASS_REJECTED: {
+    subject: (d) => `[Giấy ra vào cổng] Đơn ${d.code ?? ''} bị từ chối`,
+    heading: 'Giấy ra vào cổng bị từ chối',
+    intro: () => 'Giấy ra vào cổng của anh/chị đã bị từ chối.',
+    actionLabel: 'Xem chi tiết',
+  },
+};
+
+export function isEmailTemplateKey(key: string): key is EmailTemplateKey {
+  return Object.prototype.hasOwnProperty.call(TEMPLATES, key);
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/** Format ngày giờ theo giờ Việt Nam, vd 21/04/2026 hoặc 21/04/2026 08:30 */
+export function formatVnDate(date: Date | string, withTime = false): string {
+  return new Date(date).toLocaleString('vi-VN', {
+    timeZone: 'Asia/Ho_Chi_Minh',
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    ...(withTime ? { hour: '2-digit', minute: '2-digit', hour12: false } : {}),
+  });
+}
+
+export function renderEmailTemplate(
+  key: EmailTemplateKey,
+  data: EmailTemplateData,
+  frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000',
+): RenderedEmail {
+  const tpl = TEMPLATES[key];
+  const subject = tpl.subject(data).replace(/\s+/g, ' ').trim();
+  const intro = tpl.intro(data);
+  const url = data.link ? `${frontendUrl.replace(/\/+$/, '')}${data.link}` : null;
+
+  const rows: [string, string | undefined][] = [
+    ['Mã đơn', data.code],
+    ['Người đề nghị', data.requesterName],
+    ['Loại', data.typeName],
+    ['Thời gian', data.period],
+    ['Lý do', data.reason],
+    ['Ý kiến người duyệt', data.comment],
+  ];
+  const filled = rows.filter((r): r is [string, string] => !!r[1]);
+
+  const greeting = data.recipientName ? `Xin chào ${data.recipientName},` : 'Xin chào,';
+
+  const text = [
+    greeting,
+    '',
+    intro,
+    '',
+    ...filled.map(([label, value]) => `${label}: ${value}`),
+    ...(url ? ['', `${tpl.actionLabel}: ${url}`] : []),
+    '',
+    'Email này được gửi tự động, vui lòng không trả lời.',
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html lang="vi">
+<body style="font-family:Arial,Helvetica,sans-serif;color:#1f2937;line-height:1.5">
+  <h2 style="color:#1d4ed8;margin-bottom:8px">${escapeHtml(tpl.heading)}</h2>
+  <p>${escapeHtml(greeting)}</p>
+  <p>${escapeHtml(intro)}</p>
+  ${filled.length ? `<table style="border-collapse:collapse;margin:12px 0">
+${filled.map(([label, value]) => `    <tr><td style="padding:4px 12px 4px 0;color:#6b7280">${escapeHtml(label)}</td><td style="padding:4px 0"><strong>${escapeHtml(value)}</strong></td></tr>`).join('\n')}
+  </table>` : ''}
+  ${url ? `<p><a href="${escapeHtml(url)}" style="display:inline-block;padding:8px 16px;background:#1d4ed8;color:#fff;text-decoration:none;border-radius:4px">${escapeHtml(tpl.actionLabel)}</a></p>` : ''}
+  <p style="color:#9ca3af;font-size:12px">Email này được gửi tự động, vui lòng không trả lời.</p>
+</body>
+</html>`;
+
+  return { subject, html, text };
+}
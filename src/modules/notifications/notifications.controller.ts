@@ -0,0 +1,36 @@
+import {
+  Controller, Get, Patch, Param, Query, ParseUUIDPipe, DefaultValuePipe, ParseIntPipe,
+} from '@nestjs/common';
+import { GetUser } from '../../common/decorators/get-user.decorator';
+import { NotificationsService } from './notifications.service';
+
+@Controller('notifications')
+export class NotificationsController {
+  constructor(private readonly service: NotificationsService) {}
+
+  @Get()
+  findMine(
+    @GetUser('id') userId: string,
+    @Query('unreadOnly') unreadOnly?: string,
+    @Query('type') type?: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page?: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit?: number,
+  ) {
+    return this.service.findMine(userId, { unreadOnly: unreadOnly === 'true', type, page, limit });
+  }
+
+  @Get('unread-count')
+  getUnreadCount(@GetUser('id') userId: string) {
+    return this.service.getUnreadCount(userId);
+  }
+
+  @Patch('read-all')
+  markAllRead(@GetUser('id') userId: string) {
+    return this.service.markAllRead(userId);
+  }
+
+  @Patch(':id/read')
+  markRead(@GetUser('id') userId: string, @Param('id', ParseUUIDPipe) id: string) {
+    return this.service.markRead(userId, id);
+  }
+}
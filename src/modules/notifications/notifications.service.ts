@@ -0,0 +1,123 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../common/prisma.service';
+
+export interface NotificationPayload {
+  type: string;
+  title: string;
+  message: string;
+  data?: Record<string, any> | null;
+}
+
+// Phát lại tối đa N thông báo chưa nhận, trong vòng N ngày gần nhất
+const REPLAY_LIMIT = 50;
+const REPLAY_WINDOW_DAYS = 7;
+// Thông báo đã đọc quá N ngày sẽ bị xoá
+const READ_RETENTION_DAYS = 90;
+
+@Injectable()
+export class NotificationsService {
+  private readonly logger = new Logger(NotificationsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** Lưu thông báo — gọi từ WebSocketGateway.sendNotification */
+  async create(userId: string, payload: NotificationPayload, opts: { id?: string; delivered?: boolean } = {}) {
+    return this.prisma.notification.create({
+      data: {
+        id: opts.id,
+        userId,
+        type: payload.type ?? 'GENERAL',
+        title: payload.title ?? '',
+        message: payload.message ?? '',
+        data: payload.data ?? Prisma.JsonNull,
+        deliveredAt: opts.delivered ? new Date() : null,
+      },
+    });
+  }
+
+  /**
+   * Lấy các thông báo chưa được gửi tới socket (user offline lúc gửi) và đánh dấu đã gửi.
+   * Claim bằng updateMany deliveredAt=null → nhiều tab kết nối cùng lúc không nhận trùng.
+   */
+  async takeUndelivered(userId: string) {
+    const since = new Date(Date.now() - REPLAY_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const pending = await this.prisma.notification.findMany({
+      where: { userId, deliveredAt: null, isRead: false, createdAt: { gte: since } },
+      orderBy: { createdAt: 'asc' },
+      take: REPLAY_LIMIT,
+      select: { id: true },
+    });
+    if (!pending.length) return [];
+
+    const ids = pending.map((n) => n.id);
+    const deliveredAt = new Date();
+    await this.prisma.notification.updateMany({
+      where: { id: { in: ids }, deliveredAt: null },
+      data: { deliveredAt },
+    });
+    return this.prisma.notification.findMany({
+      where: { id: { in: ids }, deliveredAt },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  // ── Hộp thư của tôi ──────────────────────────────────────────
+
+  async findMine(userId: string, query: { unreadOnly?: boolean; type?: string; page?: number; limit?: number }) {
+    const { unreadOnly, type } = query;
+    const page = query.page && query.page > 0 ? query.page : 1;
+    const limit = query.limit && query.limit > 0 ? Math.min(query.limit, 100) : 20;
+    const where: Prisma.NotificationWhereInput = { userId };
+    if (unreadOnly) where.isRead = false;
+    if (type) where.type = type;
+
+    const [data, total] = await Promise.all([
+      this.prisma.notification.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.notification.count({ where }),
+    ]);
+
+    return { data, total, page, limit };
+  }
+
+  async getUnreadCount(userId: string) {
+    const count = await this.prisma.notification.count({ where: { userId, isRead: false } });
+    return { count };
+  }
+
+  async markRead(userId: string, id: string) {
+    const notification = await this.prisma.notification.findFirst({ where: { id, userId } });
+    if (!notification) throw new NotFoundException('Không tìm thấy thông báo');
+    if (notification.isRead) return notification;
+
+    return this.prisma.notification.update({
+      where: { id },
+      data: { isRead: true, readAt: new Date() },
+    });
+  }
+
+  async markAllRead(userId: string) {
+    const result = await this.prisma.notification.updateMany({
+      where: { userId, isRead: false },
+      data: { isRead: true, readAt: new Date() },
+    });
+    return { count: result.count };
+  }
+
+  // ── Cron: dọn thông báo đã đọc cũ ────────────────────────────
+
+  @Cron('30 2 * * *', { name: 'notification-cleanup' })
+  async purgeOldNotifications() {
+    const cutoff = new Date(Date.now() - READ_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const result = await this.prisma.notification.deleteMany({
+      where: { isRead: true, createdAt: { lt: cutoff } },
+    });
+    if (result.count) this.logger.log(`Purged ${result.count} read notification(s) older than ${READ_RETENTION_DAYS} days`);
+  }
+}
@@ -4,12 +4,16 @@ import {
   ConflictException,
 } from '@nestjs/common';
 import { PrismaService } from '../../../common/prisma.service';
+import { PermissionsService } from '../../../common/permissions.service';
 import { CreateJobPositionDto } from '../dto/job-position/create-job-position.dto';
 import { UpdateJobPositionDto } from '../dto/job-position/update-job-position.dto';
 
 @Injectable()
 export class JobPositionService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private permissionsService: PermissionsService,
+  ) {}
 
   async create(createJobPositionDto: CreateJobPositionDto) {
     const { positionId, departmentId, jobName } = createJobPositionDto;
@@ -163,7 +167,7 @@ export class JobPositionService {
       code = this.generateCode(position.name, department.name, jobName);
     }
 
-    return this.prisma.jobPosition.update({
+    const updated = await this.prisma.jobPosition.update({
       where: { id },
       data: {
         ...updateJobPositionDto,
@@ -181,6 +185,11 @@ export class JobPositionService {
         },
       },
     });
+    // Phòng ban của vị trí là scope mặc định khi kiểm tra quyền của user
+    if (updated.departmentId !== jobPosition.departmentId) {
+      await this.permissionsService.invalidateJobPosition(id);
+    }
+    return updated;
   }
 
   async remove(id: string) {
@@ -0,0 +1,36 @@
+import { IsNumber, IsOptional, IsString, IsUUID, Matches, MaxLength, Min } from 'class-validator';
+import { ApiProperty, OmitType, PartialType } from '@nestjs/swagger';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class CreatePieceRateDto {
+  @ApiProperty({ description: 'Mã túi (Product)' })
+  @IsUUID()
+  productId: string;
+
+  @ApiProperty({ description: 'Công đoạn (Process)' })
+  @IsUUID()
+  processId: string;
+
+  @ApiProperty({ example: 1250.5, description: 'Đơn giá khoán (VNĐ / sản phẩm)' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  unitRate: number;
+
+  @ApiProperty({ example: '2026-10-01', description: 'Ngày bắt đầu áp dụng (YYYY-MM-DD)' })
+  @Matches(DATE_PATTERN, { message: 'effectiveFrom phải có định dạng YYYY-MM-DD' })
+  effectiveFrom: string;
+
+  @ApiProperty({ example: '2026-12-31', description: 'Ngày cuối áp dụng (bao gồm) — bỏ trống = đang áp dụng', required: false })
+  @IsOptional()
+  @Matches(DATE_PATTERN, { message: 'effectiveTo phải có định dạng YYYY-MM-DD' })
+  effectiveTo?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
+
+export class UpdatePieceRateDto extends PartialType(OmitType(CreatePieceRateDto, ['productId', 'processId'] as const)) {}
@@ -0,0 +1,132 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, Query, Res } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { Response } from 'express';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { GetUser } from '../../common/decorators/get-user.decorator';
+import { Audit } from '../../common/decorators/audit.decorator';
+import { PieceRateService } from './piece-rate.service';
+import { PieceWageService } from './piece-wage.service';
+import { CreatePieceRateDto, UpdatePieceRateDto } from './dto/piece-rate.dto';
+
+@ApiTags('payroll')
+@ApiBearerAuth('JWT-auth')
+@Controller('payroll')
+@Audit('PieceRate')
+export class PayrollController {
+  constructor(
+    private readonly pieceRateService: PieceRateService,
+    private readonly pieceWageService: PieceWageService,
+  ) {}
+
+  private resolveCompanyId(user: any): string | undefined {
+    const isSuperAdmin = user?.roles?.some((r: any) => r?.roleDefinition?.code === 'SUPERADMIN');
+    return isSuperAdmin ? undefined : (user?.companyId ?? undefined);
+  }
+
+  // ── Đơn giá khoán ────────────────────────────────────────────
+
+  @Get('piece-rates')
+  @RequirePermissions('payroll:view')
+  @ApiOperation({ summary: 'Bảng đơn giá khoán theo mã túi × công đoạn' })
+  @ApiQuery({ name: 'productId', required: false })
+  @ApiQuery({ name: 'processId', required: false })
+  @ApiQuery({ name: 'activeOn', required: false, description: 'Chỉ lấy đơn giá hiệu lực tại ngày (YYYY-MM-DD)' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  findRates(
+    @Query('productId') productId?: string,
+    @Query('processId') processId?: string,
+    @Query('activeOn') activeOn?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.pieceRateService.findAll({
+      productId,
+      processId,
+      activeOn,
+      page: page ? parseInt(page) : undefined,
+      limit: limit ? parseInt(limit) : undefined,
+    });
+  }
+
+  @Post('piece-rates')
+  @RequirePermissions('payroll:manage')
+  @ApiOperation({ summary: 'Thêm đơn giá khoán (tự đóng đơn giá đang áp dụng trước đó)' })
+  createRate(@Body() dto: CreatePieceRateDto) {
+    return this.pieceRateService.create(dto);
+  }
+
+  @Patch('piece-rates/:id')
+  @RequirePermissions('payroll:manage')
+  updateRate(@Param('id') id: string, @Body() dto: UpdatePieceRateDto) {
+    return this.pieceRateService.update(id, dto);
+  }
+
+  @Delete('piece-rates/:id')
+  @RequirePermissions('payroll:manage')
+  removeRate(@Param('id') id: string) {
+    return this.pieceRateService.remove(id);
+  }
+
+  // ── Lương khoán ──────────────────────────────────────────────
+
+  @Get('piece-wages/me')
+  @RequirePermissions('worksheets:view')
+  @ApiOperation({ summary: 'Phiếu lương khoán của chính mình trong kỳ' })
+  @ApiQuery({ name: 'from', required: true, description: 'YYYY-MM-DD' })
+  @ApiQuery({ name: 'to', required: true, description: 'YYYY-MM-DD' })
+  getMyPayslip(@GetUser() user: any, @Query('from') from: string, @Query('to') to: string) {
+    return this.pieceWageService.getWorkerPayslip(user.id, from, to);
+  }
+
+  @Get('piece-wages/workers/:workerId')
+  @RequirePermissions('payroll:view')
+  @ApiOperation({ summary: 'Phiếu lương khoán chi tiết của công nhân (theo mã túi × công đoạn và theo ngày)' })
+  @ApiQuery({ name: 'from', required: true, description: 'YYYY-MM-DD' })
+  @ApiQuery({ name: 'to', required: true, description: 'YYYY-MM-DD' })
+  getWorkerPayslip(
+    @GetUser() user: any,
+    @Param('workerId') workerId: string,
+    @Query('from') from: string,
+    @Query('to') to: string,
+  ) {
+    return this.pieceWageService.getWorkerPayslip(workerId, from, to, this.resolveCompanyId(user));
+  }
+
+  @Get('piece-wages/groups/:groupId/export')
+  @RequirePermissions('payroll:view')
+  @ApiOperation({ summary: 'Xuất Excel lương khoán của nhóm cho phòng lương' })
+  @ApiQuery({ name: 'from', required: true, description: 'YYYY-MM-DD' })
+  @ApiQuery({ name: 'to', required: true, description: 'YYYY-MM-DD' })
+  async exportGroupSummary(
+    @GetUser() user: any,
+    @Param('groupId') groupId: string,
+    @Query('from') from: string,
+    @Query('to') to: string,
+    @Res() res: Response,
+  ) {
+    const { buffer, filename, contentType } = await this.pieceWageService.exportGroupSummary(
+      groupId,
+      from,
+      to,
+      this.resolveCompanyId(user),
+    );
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(buffer);
+  }
+
+  @Get('piece-wages/groups/:groupId')
+  @RequirePermissions('payroll:view')
+  @ApiOperation({ summary: 'Tổng hợp lương khoán theo nhóm trong kỳ' })
+  @ApiQuery({ name: 'from', required: true, description: 'YYYY-MM-DD' })
+  @ApiQuery({ name: 'to', required: true, description: 'YYYY-MM-DD' })
+  getGroupSummary(
+    @GetUser() user: any,
+    @Param('groupId') groupId: string,
+    @Query('from') from: string,
+    @Query('to') to: string,
+  ) {
+    return this.pieceWageService.getGroupSummary(groupId, from, to, this.resolveCompanyId(user));
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PayrollController } from './payroll.controller';
+import { PieceRateService } from './piece-rate.service';
+import { PieceWageService } from './piece-wage.service';
+import { WorksheetModule } from '../worksheet/worksheet.module';
+
+@Module({
+  imports: [WorksheetModule],
+  controllers: [PayrollController],
+  providers: [PieceRateService, PieceWageService],
+  exports: [PieceRateService, PieceWageService],
+})
+export class PayrollModule {}
@@ -0,0 +1,199 @@
+import { BadRequestException, ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../common/prisma.service';
+import { CreatePieceRateDto, UpdatePieceRateDto } from './dto/piece-rate.dto';
+import { RateRow, rateKey } from './piece-wage.util';
+
+const DAY_MS = 86_400_000;
+
+const PIECE_RATE_INCLUDE = {
+  product: { select: { id: true, name: true, code: true } },
+  process: { select: { id: true, name: true, code: true } },
+} satisfies Prisma.PieceRateInclude;
+
+export interface PieceRateQuery {
+  productId?: string;
+  processId?: string;
+  activeOn?: string; // YYYY-MM-DD
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * PieceRateService
+ * Bảng đơn giá khoán theo mã túi × công đoạn có ngày hiệu lực.
+ * Thêm đơn giá mới cho cặp đang có đơn giá mở (effectiveTo = null) → tự đóng đơn giá cũ vào ngày liền trước.
+ */
+@Injectable()
+export class PieceRateService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findAll(query: PieceRateQuery) {
+    const page = query.page && query.page > 0 ? query.page : 1;
+    const limit = query.limit && query.limit > 0 ? Math.min(query.limit, 200) : 50;
+    const where: Prisma.PieceRateWhereInput = { productId: query.productId, processId: query.processId };
+    if (query.activeOn) {
+      const day = toDate(query.activeOn);
+      where.effectiveFrom = { lte: day };
+      where.OR = [{ effectiveTo: null }, { effectiveTo: { gte: day } }];
+    }
+
+    const [rows, total] = await Promise.all([
+      this.prisma.pieceRate.findMany({
+        where,
+        include: PIECE_RATE_INCLUDE,
+        orderBy: [{ product: { code: 'asc' } }, { process: { code: 'asc' } }, { effectiveFrom: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.pieceRate.count({ where }),
+    ]);
+    return { data: rows.map(serialize), total, page, limit };
+  }
+
+  async create(dto: CreatePieceRateDto) {
+    const productProcess = await this.prisma.productProcess.findUnique({
+      where: { productId_processId: { productId: dto.productId, processId: dto.processId } },
+      select: { id: true },
+    });
+    if (!productProcess) {
+      throw new BadRequestException('Công đoạn chưa được gán cho mã túi này');
+    }
+
+    const from = toDate(dto.effectiveFrom);
+    const to = dto.effectiveTo ? toDate(dto.effectiveTo) : null;
+    assertRange(from, to);
+
+    const existing = await this.prisma.pieceRate.findMany({
+      where: { productId: dto.productId, processId: dto.processId },
+      select: { id: true, effectiveFrom: true, effectiveTo: true },
+    });
+    // Đơn giá mở bắt đầu trước ngày hiệu lực mới → đóng lại thay vì báo trùng
+    const toClose = existing.find((r) => r.effectiveTo === null && r.effectiveFrom < from);
+    const closedAt = new Date(from.getTime() - DAY_MS);
+    assertNoOverlap(
+      existing.map((r) => (r.id === toClose?.id ? { ...r, effectiveTo: closedAt } : r)),
+      from,
+      to,
+    );
+
+    const rate = await this.prisma.$transaction(async (tx) => {
+      if (toClose) {
+        await tx.pieceRate.update({ where: { id: toClose.id }, data: { effectiveTo: closedAt } });
+      }
+      return tx.pieceRate.create({
+        data: {
+          productId: dto.productId,
+          processId: dto.processId,
+          unitRate: dto.unitRate,
+          effectiveFrom: from,
+          effectiveTo: to,
+          note: dto.note || null,
+        },
+        include: PIECE_RATE_INCLUDE,
+      });
+    });
+    return serialize(rate);
+  }
+
+  async update(id: string, dto: UpdatePieceRateDto) {
+    const rate = await this.prisma.pieceRate.findUnique({ where: { id } });
+    if (!rate) {
+      throw new NotFoundException('Không tìm thấy đơn giá');
+    }
+
+    const from = dto.effectiveFrom ? toDate(dto.effectiveFrom) : rate.effectiveFrom;
+    const to = dto.effectiveTo === undefined ? rate.effectiveTo : dto.effectiveTo ? toDate(dto.effectiveTo) : null;
+    assertRange(from, to);
+
+    const others = await this.prisma.pieceRate.findMany({
+      where: { productId: rate.productId, processId: rate.processId, id: { not: id } },
+      select: { id: true, effectiveFrom: true, effectiveTo: true },
+    });
+    assertNoOverlap(others, from, to);
+
+    const updated = await this.prisma.pieceRate.update({
+      where: { id },
+      data: {
+        unitRate: dto.unitRate,
+        effectiveFrom: from,
+        effectiveTo: to,
+        note: dto.note,
+      },
+      include: PIECE_RATE_INCLUDE,
+    });
+    return serialize(updated);
+  }
+
+  async remove(id: string) {
+    const rate = await this.prisma.pieceRate.findUnique({ where: { id }, select: { id: true } });
+    if (!rate) {
+      throw new NotFoundException('Không tìm thấy đơn giá');
+    }
+    await this.prisma.pieceRate.delete({ where: { id } });
+    return { id, deleted: true };
+  }
+
+  /** Đơn giá có hiệu lực trong kỳ của các cặp mã túi × công đoạn → Map theo rateKey */
+  async ratesForPeriod(pairs: Array<{ productId: string; processId: string }>, from: string, to: string) {
+    const map = new Map<string, RateRow[]>();
+    if (pairs.length === 0) return map;
+
+    const rows = await this.prisma.pieceRate.findMany({
+      where: {
+        productId: { in: [...new Set(pairs.map((p) => p.productId))] },
+        processId: { in: [...new Set(pairs.map((p) => p.processId))] },
+        effectiveFrom: { lte: toDate(to) },
+        OR: [{ effectiveTo: null }, { effectiveTo: { gte: toDate(from) } }],
+      },
+      orderBy: { effectiveFrom: 'asc' },
+    });
+    for (const r of rows) {
+      const key = rateKey(r.productId, r.processId);
+      const list = map.get(key) ?? [];
+      list.push({
+        id: r.id,
+        unitRate: Number(r.unitRate),
+        effectiveFrom: toDateString(r.effectiveFrom),
+        effectiveTo: r.effectiveTo ? toDateString(r.effectiveTo) : null,
+      });
+      map.set(key, list);
+    }
+    return map;
+  }
+}
+
+function serialize<T extends { unitRate: Prisma.Decimal; effectiveFrom: Date; effectiveTo: Date | null }>(rate: T) {
+  return {
+    ...rate,
+    unitRate: Number(rate.unitRate),
+    effectiveFrom: toDateString(rate.effectiveFrom),
+    effectiveTo: rate.effectiveTo ? toDateString(rate.effectiveTo) : null,
+  };
+}
+
+function assertRange(from: Date, to: Date | null) {
+  if (to && to < from) {
+    throw new BadRequestException('Ngày cuối áp dụng phải sau hoặc bằng ngày bắt đầu');
+  }
+}
+
+function assertNoOverlap(others: Array<{ effectiveFrom: Date; effectiveTo: Date | null }>, from: Date, to: Date | null) {
+  const conflict = others.find(
+    (r) => (to === null || r.effectiveFrom <= to) && (r.effectiveTo === null || from <= r.effectiveTo),
+  );
+  if (conflict) {
+    throw new ConflictException(
+      `Khoảng hiệu lực trùng với đơn giá từ ${toDateString(conflict.effectiveFrom)}` +
+        (conflict.effectiveTo ? ` đến ${toDateString(conflict.effectiveTo)}` : ''),
+    );
+  }
+}
+
+export function toDate(value: string): Date {
+  return new Date(`${value}T00:00:00.000Z`);
+}
+
+export function toDateString(value: Date): string {
+  return value.toISOString().slice(0, 10);
+}
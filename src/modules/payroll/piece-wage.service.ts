@@ -0,0 +1,275 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import * as XLSX from 'xlsx';
+import { PrismaService } from '../../common/prisma.service';
+import { getRecordHourCoefficient } from '../worksheet/shift-template.util';
+import { MonthlyBackupService } from '../worksheet/monthly-backup.service';
+import { PieceRateService, toDate, toDateString } from './piece-rate.service';
+import { PieceWageResult, WageHourInput, calculatePieceWage, percent, rateKey } from './piece-wage.util';
+
+const DAY_MS = 86_400_000;
+// Kỳ lương tối đa ~2 tháng để tránh quét quá nhiều phiếu
+const MAX_PERIOD_DAYS = 62;
+
+const WAGE_WORKSHEET_SELECT = {
+  date: true,
+  workerId: true,
+  records: {
+    select: {
+      workHour: true,
+      startTime: true,
+      endTime: true,
+      status: true,
+      attendanceMinutes: true,
+      items: { select: { productId: true, processId: true, actualOutput: true } },
+    },
+  },
+} satisfies Prisma.WorkSheetSelect;
+
+const WORKER_SELECT = {
+  id: true,
+  employeeCode: true,
+  firstName: true,
+  lastName: true,
+  group: { select: { id: true, name: true, code: true } },
+} satisfies Prisma.UserSelect;
+
+type WageWorksheet = Prisma.WorkSheetGetPayload<{ select: typeof WAGE_WORKSHEET_SELECT }>;
+
+/**
+ * PieceWageService
+ * Tính lương khoán theo kỳ từ SLTH của WorkSheetRecordItem (công thức: piece-wage.util)
+ * Kỳ có ngày trước mốc dọn dữ liệu theo giờ (chính sách lưu trữ) bị từ chối — không còn dữ liệu để tính.
+ */
+@Injectable()
+export class PieceWageService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly pieceRates: PieceRateService,
+    private readonly monthlyBackup: MonthlyBackupService,
+  ) {}
+
+  // ── Phiếu lương công nhân ────────────────────────────────────
+
+  /** companyId undefined = SUPERADMIN / phiếu của chính mình (không giới hạn công ty) */
+  async getWorkerPayslip(workerId: string, from: string, to: string, companyId?: string) {
+    this.assertPeriod(from, to);
+    const worker = await this.prisma.user.findFirst({
+      where: { id: workerId, ...(companyId ? { companyId } : {}) },
+      select: WORKER_SELECT,
+    });
+    if (!worker) {
+      throw new NotFoundException('Không tìm thấy công nhân');
+    }
+
+    const worksheets = await this.prisma.workSheet.findMany({
+      where: { workerId, date: { gte: toDate(from), lte: toDate(to) } },
+      select: WAGE_WORKSHEET_SELECT,
+    });
+    const [result] = await this.calculate([worksheets], from, to);
+    const names = await this.productProcessNames(result.lines);
+
+    return {
+      period: { from, to },
+      worker: this.formatWorker(worker),
+      lines: result.lines.map((l) => ({
+        ...l,
+        product: names.products.get(l.productId) ?? null,
+        process: names.processes.get(l.processId) ?? null,
+      })),
+      days: result.days,
+      totals: result.totals,
+    };
+  }
+
+  // ── Tổng hợp nhóm ────────────────────────────────────────────
+
+  async getGroupSummary(groupId: string, from: string, to: string, companyId?: string) {
+    this.assertPeriod(from, to);
+    const group = await this.prisma.group.findFirst({
+      where: { id: groupId, ...(companyId ? { team: { department: { office: { companyId } } } } : {}) },
+      select: { id: true, name: true, code: true, team: { select: { name: true, department: { select: { name: true } } } } },
+    });
+    if (!group) {
+      throw new NotFoundException('Group not found');
+    }
+
+    const worksheets = await this.prisma.workSheet.findMany({
+      where: { groupId, date: { gte: toDate(from), lte: toDate(to) } },
+      select: WAGE_WORKSHEET_SELECT,
+    });
+    const byWorker = new Map<string, WageWorksheet[]>();
+    worksheets.forEach((ws) => byWorker.set(ws.workerId, [...(byWorker.get(ws.workerId) ?? []), ws]));
+
+    const workerIds = [...byWorker.keys()];
+    const [workers, results] = await Promise.all([
+      this.prisma.user.findMany({ where: { id: { in: workerIds } }, select: WORKER_SELECT }),
+      this.calculate([...byWorker.values()], from, to),
+    ]);
+    const workerById = new Map(workers.map((w) => [w.id, w]));
+
+    const rows = workerIds
+      .map((id, index) => ({ worker: this.formatWorker(workerById.get(id)!), lines: results[index].lines, totals: results[index].totals }))
+      .sort((a, b) => (a.worker.employeeCode ?? '').localeCompare(b.worker.employeeCode ?? ''));
+
+    const sum = (pick: (t: PieceWageResult['totals']) => number) => rows.reduce((total, r) => total + pick(r.totals), 0);
+    const workedHours = sum((t) => t.workedHours);
+    const standardHours = sum((t) => t.standardHours);
+
+    return {
+      period: { from, to },
+      group: {
+        id: group.id,
+        name: group.name,
+        code: group.code,
+        team: group.team?.name ?? null,
+        department: group.team?.department?.name ?? null,
+      },
+      totals: {
+        workers: rows.length,
+        workedHours: Math.round(workedHours * 100) / 100,
+        standardHours: Math.round(standardHours * 100) / 100,
+        efficiency: percent(standardHours, workedHours),
+        quantity: sum((t) => t.quantity),
+        unratedQuantity: sum((t) => t.unratedQuantity),
+        pieceEarnings: sum((t) => t.pieceEarnings),
+        bonusAmount: sum((t) => t.bonusAmount),
+        shortfallAmount: sum((t) => t.shortfallAmount),
+        totalEarnings: sum((t) => t.totalEarnings),
+      },
+      workers: rows,
+    };
+  }
+
+  /** File Excel cho phòng lương: sheet tổng hợp theo công nhân + sheet chi tiết theo mã túi × công đoạn */
+  async exportGroupSummary(groupId: string, from: string, to: string, companyId?: string) {
+    const summary = await this.getGroupSummary(groupId, from, to, companyId);
+    const names = await this.productProcessNames(summary.workers.flatMap((w) => w.lines));
+
+    const overview = summary.workers.map((w) => ({
+      'MSNV': w.worker.employeeCode,
+      'Họ và tên': w.worker.fullName,
+      'Giờ làm': w.totals.workedHours,
+      'Giờ chuẩn': w.totals.standardHours,
+      'Năng suất (%)': w.totals.efficiency,
+      'Sản lượng': w.totals.quantity,
+      'SL chưa có đơn giá': w.totals.unratedQuantity,
+      'Tiền khoán': w.totals.pieceEarnings,
+      'Thưởng NS (%)': w.totals.bonusPct,
+      'Tiền thưởng NS': w.totals.bonusAmount,
+      'Giờ thiếu hụt': w.totals.shortfallHours,
+      'Tiền thiếu hụt': w.totals.shortfallAmount,
+      'Tổng lương khoán': w.totals.totalEarnings,
+    }));
+    const details = summary.workers.flatMap((w) =>
+      w.lines.map((l) => ({
+        'MSNV': w.worker.employeeCode,
+        'Họ và tên': w.worker.fullName,
+        'Mã túi': names.products.get(l.productId)?.code ?? l.productId,
+        'Công đoạn': names.processes.get(l.processId)?.name ?? l.processId,
+        'Đơn giá': l.unitRate ?? '',
+        'Định mức/giờ': l.standardOutputPerHour ?? '',
+        'Sản lượng': l.quantity,
+        'Giờ chuẩn': l.standardHours,
+        'Thành tiền': l.amount,
+      })),
+    );
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(overview), 'Tong hop');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(details), 'Chi tiet');
+    const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+
+    return {
+      buffer,
+      filename: `luong_khoan_${summary.group.code}_${from}_${to}.xlsx`,
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    };
+  }
+
+  // ── Helpers ──────────────────────────────────────────────────
+
+  /** Tính cho nhiều công nhân một lượt — dùng chung bảng đơn giá / định mức của kỳ */
+  private async calculate(worksheetsByWorker: WageWorksheet[][], from: string, to: string): Promise<PieceWageResult[]> {
+    const pairs = new Map<string, { productId: string; processId: string }>();
+    worksheetsByWorker.flat().forEach((ws) =>
+      ws.records.forEach((r) => r.items.forEach((i) => pairs.set(rateKey(i.productId, i.processId), i))),
+    );
+
+    const [rates, standards] = await Promise.all([
+      this.pieceRates.ratesForPeriod([...pairs.values()], from, to),
+      this.standardsFor([...pairs.values()]),
+    ]);
+
+    return worksheetsByWorker.map((worksheets) => {
+      const hours: WageHourInput[] = worksheets.flatMap((ws) =>
+        ws.records.map((r) => ({
+          date: toDateString(ws.date),
+          workHour: r.workHour,
+          slotHours: getRecordHourCoefficient(r),
+          status: r.status,
+          attendanceMinutes: r.attendanceMinutes,
+          items: r.items,
+        })),
+      );
+      return calculatePieceWage(hours, rates, standards);
+    });
+  }
+
+  private async standardsFor(pairs: Array<{ productId: string; processId: string }>) {
+    if (pairs.length === 0) return new Map<string, number>();
+    const rows = await this.prisma.productProcess.findMany({
+      where: {
+        productId: { in: [...new Set(pairs.map((p) => p.productId))] },
+        processId: { in: [...new Set(pairs.map((p) => p.processId))] },
+      },
+      select: { productId: true, processId: true, standardOutputPerHour: true },
+    });
+    return new Map(rows.map((r) => [rateKey(r.productId, r.processId), r.standardOutputPerHour]));
+  }
+
+  private async productProcessNames(lines: Array<{ productId: string; processId: string }>) {
+    const [products, processes] = await Promise.all([
+      this.prisma.product.findMany({
+        where: { id: { in: [...new Set(lines.map((l) => l.productId))] } },
+        select: { id: true, name: true, code: true },
+      }),
+      this.prisma.process.findMany({
+        where: { id: { in: [...new Set(lines.map((l) => l.processId))] } },
+        select: { id: true, name: true, code: true },
+      }),
+    ]);
+    return {
+      products: new Map(products.map((p) => [p.id, p])),
+      processes: new Map(processes.map((p) => [p.id, p])),
+    };
+  }
+
+  private formatWorker(worker: Prisma.UserGetPayload<{ select: typeof WORKER_SELECT }>) {
+    return {
+      id: worker.id,
+      employeeCode: worker.employeeCode,
+      fullName: `${worker.firstName} ${worker.lastName}`,
+      group: worker.group,
+    };
+  }
+
+  private assertPeriod(from: string, to: string) {
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    if (!datePattern.test(from ?? '') || !datePattern.test(to ?? '')) {
+      throw new BadRequestException('from / to phải có định dạng YYYY-MM-DD');
+    }
+    if (from > to) {
+      throw new BadRequestException('from phải trước hoặc bằng to');
+    }
+    if ((toDate(to).getTime() - toDate(from).getTime()) / DAY_MS > MAX_PERIOD_DAYS) {
+      throw new BadRequestException(`Kỳ lương tối đa ${MAX_PERIOD_DAYS} ngày`);
+    }
+    const cutoff = this.monthlyBackup.rawDataCutoff();
+    if (cutoff && from < toDateString(cutoff)) {
+      throw new BadRequestException(
+        `Dữ liệu theo giờ trước ${toDateString(cutoff)} đã được dọn theo chính sách lưu trữ — không tính được lương khoán của kỳ này`,
+      );
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import { RateRow, WageHourInput, bonusPctFor, calculatePieceWage, findRate, rateKey } from './piece-wage.util';
+
+const KEY = rateKey('p1', 'c1');
+
+const hour = (date: string, workHour: number, actualOutput: number, attendanceMinutes = 0, status = 'COMPLETED'): WageHourInput => ({
+  date,
+  workHour,
+  slotHours: 1,
+  status,
+  attendanceMinutes,
+  items: [{ productId: 'p1', processId: 'c1', actualOutput }],
+});
+
+const rates = (rows: RateRow[]) => new Map([[KEY, rows]]);
+const standards = new Map([[KEY, 100]]);
+
+describe('Piece wage utils', () => {
+  describe('findRate', () => {
+    const rows: RateRow[] = [
+      { id: 'old', unitRate: 100, effectiveFrom: '2026-01-01', effectiveTo: '2026-03-14' },
+      { id: 'new', unitRate: 120, effectiveFrom: '2026-03-15', effectiveTo: null },
+    ];
+
+    it('should pick the rate effective on the date (inclusive bounds)', () => {
+      expect(findRate(rows, '2026-03-14')?.id).toBe('old');
+      expect(findRate(rows, '2026-03-15')?.id).toBe('new');
+      expect(findRate(rows, '2025-12-31')).toBeNull();
+      expect(findRate(undefined, '2026-03-15')).toBeNull();
+    });
+  });
+
+  describe('bonusPctFor', () => {
+    it('should apply the highest tier reached', () => {
+      expect(bonusPctFor(99.9)).toBe(0);
+      expect(bonusPctFor(100)).toBe(5);
+      expect(bonusPctFor(115)).toBe(10);
+      expect(bonusPctFor(130)).toBe(15);
+    });
+  });
+
+  describe('calculatePieceWage', () => {
+    it('should price output with the rate effective on each day', () => {
+      const result = calculatePieceWage(
+        [hour('2026-03-14', 1, 100), hour('2026-03-15', 1, 100)],
+        rates([
+          { id: 'old', unitRate: 100, effectiveFrom: '2026-01-01', effectiveTo: '2026-03-14' },
+          { id: 'new', unitRate: 120, effectiveFrom: '2026-03-15', effectiveTo: null },
+        ]),
+        standards,
+      );
+
+      expect(result.lines.map((l) => [l.rateId, l.quantity, l.amount])).toEqual([
+        ['old', 100, 10_000],
+        ['new', 100, 12_000],
+      ]);
+      expect(result.totals.pieceEarnings).toBe(22_000);
+      expect(result.totals.efficiency).toBe(100);
+      expect(result.totals.bonusPct).toBe(5);
+      expect(result.totals.totalEarnings).toBe(23_100);
+    });
+
+    it('should exclude absent minutes from worked hours', () => {
+      // 2 giờ, vắng 30 phút → 1.5 giờ làm, 150 sp = 1.5 giờ chuẩn
+      const result = calculatePieceWage(
+        [hour('2026-03-02', 1, 100), hour('2026-03-02', 2, 50, 30)],
+        rates([{ id: 'r', unitRate: 100, effectiveFrom: '2026-01-01', effectiveTo: null }]),
+        standards,
+      );
+
+      expect(result.totals.workedHours).toBe(1.5);
+      expect(result.totals.efficiency).toBe(100);
+      expect(result.totals.shortfallHours).toBe(0);
+    });
+
+    it('should value shortfall at the worker average rate per standard hour', () => {
+      const result = calculatePieceWage(
+        [hour('2026-03-02', 1, 80), hour('2026-03-02', 2, 80)],
+        rates([{ id: 'r', unitRate: 100, effectiveFrom: '2026-01-01', effectiveTo: null }]),
+        standards,
+      );
+
+      expect(result.totals.efficiency).toBe(80);
+      expect(result.totals.bonusAmount).toBe(0);
+      expect(result.totals.shortfallHours).toBe(0.4);
+      // 16 000đ / 1.6 giờ chuẩn = 10 000đ/giờ × 0.4 giờ
+      expect(result.totals.shortfallAmount).toBe(4_000);
+      expect(result.totals.totalEarnings).toBe(16_000);
+    });
+
+    it('should skip hours that have not been entered yet', () => {
+      const result = calculatePieceWage(
+        [hour('2026-03-02', 1, 100), hour('2026-03-02', 2, 0, 0, 'PENDING')],
+        rates([{ id: 'r', unitRate: 100, effectiveFrom: '2026-01-01', effectiveTo: null }]),
+        standards,
+      );
+
+      expect(result.totals.workedHours).toBe(1);
+      expect(result.totals.efficiency).toBe(100);
+      expect(result.totals.shortfallHours).toBe(0);
+    });
+
+    it('should count output without an effective rate as unrated', () => {
+      const result = calculatePieceWage([hour('2026-03-02', 1, 100)], new Map(), standards);
+
+      expect(result.totals.unratedQuantity).toBe(100);
+      expect(result.totals.pieceEarnings).toBe(0);
+      expect(result.lines[0]).toMatchObject({ rateId: null, unitRate: null, quantity: 100 });
+    });
+  });
+});
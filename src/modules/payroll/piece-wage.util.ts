@@ -0,0 +1,179 @@
+/**
+ * Lương khoán theo sản phẩm — thuần, không truy cập DB
+ * - Tiền khoán = Σ SLTH × đơn giá hiệu lực tại ngày của phiếu
+ * - Năng suất = giờ chuẩn đạt được (SLTH / định mức giờ của ProductProcess) / giờ làm thực tế (đã trừ phút vắng)
+ * - Chỉ tính giờ đã nhập sản lượng (record khác PENDING)
+ * - Thưởng năng suất = % tiền khoán theo bậc năng suất
+ * - Thiếu hụt = số giờ chuẩn còn thiếu so với giờ làm, quy ra tiền theo đơn giá bình quân của công nhân (chỉ để đối chiếu, không trừ lương)
+ */
+
+// Bậc thưởng năng suất — bậc cao nhất mà công nhân đạt được
+export const EFFICIENCY_BONUS_TIERS = [
+  { minEfficiency: 120, bonusPct: 15 },
+  { minEfficiency: 110, bonusPct: 10 },
+  { minEfficiency: 100, bonusPct: 5 },
+];
+
+export interface RateRow {
+  id: string;
+  unitRate: number;
+  effectiveFrom: string; // YYYY-MM-DD
+  effectiveTo: string | null; // bao gồm ngày cuối
+}
+
+export interface WageHourInput {
+  date: string; // YYYY-MM-DD
+  workHour: number;
+  slotHours: number; // độ dài slot (1.5 cho slot 90 phút)
+  status: string; // WorkRecordStatus — PENDING = giờ chưa nhập sản lượng, không tính
+  attendanceMinutes: number;
+  items: Array<{ productId: string; processId: string; actualOutput: number }>;
+}
+
+export interface WageLine {
+  productId: string;
+  processId: string;
+  rateId: string | null;
+  unitRate: number | null; // null = chưa có đơn giá hiệu lực
+  standardOutputPerHour: number | null;
+  quantity: number;
+  amount: number;
+  standardHours: number;
+}
+
+export interface WageDay {
+  date: string;
+  workedHours: number;
+  standardHours: number;
+  quantity: number;
+  amount: number;
+  efficiency: number;
+}
+
+export interface PieceWageResult {
+  lines: WageLine[];
+  days: WageDay[];
+  totals: {
+    workedHours: number;
+    standardHours: number;
+    efficiency: number; // %
+    quantity: number;
+    unratedQuantity: number; // SLTH chưa có đơn giá — không được tính tiền
+    pieceEarnings: number;
+    bonusPct: number;
+    bonusAmount: number;
+    shortfallHours: number;
+    shortfallAmount: number;
+    totalEarnings: number;
+  };
+}
+
+export const rateKey = (productId: string, processId: string) => `${productId}:${processId}`;
+
+/** Đơn giá hiệu lực tại ngày — các khoảng không chồng nhau nên tối đa 1 dòng khớp */
+export function findRate(rates: RateRow[] | undefined, date: string): RateRow | null {
+  return rates?.find((r) => r.effectiveFrom <= date && (r.effectiveTo === null || date <= r.effectiveTo)) ?? null;
+}
+
+export function bonusPctFor(efficiency: number): number {
+  return EFFICIENCY_BONUS_TIERS.find((t) => efficiency >= t.minEfficiency)?.bonusPct ?? 0;
+}
+
+export function calculatePieceWage(
+  hours: WageHourInput[],
+  rates: Map<string, RateRow[]>,
+  standards: Map<string, number>,
+): PieceWageResult {
+  const lines = new Map<string, WageLine>();
+  const days = new Map<string, WageDay>();
+  let unratedQuantity = 0;
+
+  for (const hour of hours) {
+    if (hour.status === 'PENDING') continue;
+    const day = days.get(hour.date) ?? { date: hour.date, workedHours: 0, standardHours: 0, quantity: 0, amount: 0, efficiency: 0 };
+    day.workedHours += Math.max(0, hour.slotHours - hour.attendanceMinutes / 60);
+
+    for (const item of hour.items) {
+      if (!item.actualOutput) continue;
+      const key = rateKey(item.productId, item.processId);
+      const rate = findRate(rates.get(key), hour.date);
+      const standard = standards.get(key) || null;
+      const amount = rate ? item.actualOutput * rate.unitRate : 0;
+      const standardHours = standard ? item.actualOutput / standard : 0;
+      if (!rate) unratedQuantity += item.actualOutput;
+
+      const lineKey = `${key}:${rate?.id ?? 'none'}`;
+      const line = lines.get(lineKey) ?? {
+        productId: item.productId,
+        processId: item.processId,
+        rateId: rate?.id ?? null,
+        unitRate: rate?.unitRate ?? null,
+        standardOutputPerHour: standard,
+        quantity: 0,
+        amount: 0,
+        standardHours: 0,
+      };
+      line.quantity += item.actualOutput;
+      line.amount += amount;
+      line.standardHours += standardHours;
+      lines.set(lineKey, line);
+
+      day.quantity += item.actualOutput;
+      day.amount += amount;
+      day.standardHours += standardHours;
+    }
+    days.set(hour.date, day);
+  }
+
+  const dayRows = [...days.values()]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((d) => ({
+      ...d,
+      workedHours: round2(d.workedHours),
+      standardHours: round2(d.standardHours),
+      amount: Math.round(d.amount),
+      efficiency: percent(d.standardHours, d.workedHours),
+    }));
+  const lineRows = [...lines.values()].map((l) => ({ ...l, amount: Math.round(l.amount), standardHours: round2(l.standardHours) }));
+
+  const workedHours = [...days.values()].reduce((sum, d) => sum + d.workedHours, 0);
+  const standardHours = [...days.values()].reduce((sum, d) => sum + d.standardHours, 0);
+  const pieceEarnings = Math.round([...lines.values()].reduce((sum, l) => sum + l.amount, 0));
+  const efficiency = percent(standardHours, workedHours);
+  const bonusPct = bonusPctFor(efficiency);
+  const bonusAmount = Math.round((pieceEarnings * bonusPct) / 100);
+
+  // Đơn giá bình quân / giờ chuẩn — chỉ tính trên phần SLTH có đơn giá và định mức
+  const ratedStandardHours = [...lines.values()].filter((l) => l.unitRate !== null).reduce((sum, l) => sum + l.standardHours, 0);
+  const ratedStandardAmount = [...lines.values()]
+    .filter((l) => l.unitRate !== null && l.standardHours > 0)
+    .reduce((sum, l) => sum + l.amount, 0);
+  const shortfallHours = Math.max(0, workedHours - standardHours);
+  const shortfallAmount = ratedStandardHours > 0 ? Math.round((shortfallHours * ratedStandardAmount) / ratedStandardHours) : 0;
+
+  return {
+    lines: lineRows,
+    days: dayRows,
+    totals: {
+      workedHours: round2(workedHours),
+      standardHours: round2(standardHours),
+      efficiency,
+      quantity: dayRows.reduce((sum, d) => sum + d.quantity, 0),
+      unratedQuantity,
+      pieceEarnings,
+      bonusPct,
+      bonusAmount,
+      shortfallHours: round2(shortfallHours),
+      shortfallAmount,
+      totalEarnings: pieceEarnings + bonusAmount,
+    },
+  };
+}
+
+export function percent(value: number, base: number): number {
+  return base > 0 ? Math.round((value / base) * 1000) / 10 : 0;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,93 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, OmitType, PartialType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { ProductionOrderStatus } from '@prisma/client';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Giao cho đúng 1 cấp: groupId > teamId > departmentId — cấp cha tự điền theo cơ cấu */
+export class ProductionOrderAssignmentDto {
+  @ApiProperty({ description: 'Line (Department)', required: false })
+  @IsOptional()
+  @IsUUID()
+  departmentId?: string;
+
+  @ApiProperty({ description: 'Tổ (Team)', required: false })
+  @IsOptional()
+  @IsUUID()
+  teamId?: string;
+
+  @ApiProperty({ description: 'Nhóm (Group)', required: false })
+  @IsOptional()
+  @IsUUID()
+  groupId?: string;
+
+  @ApiProperty({ example: 2000, description: 'Sản lượng dự kiến giao cho đơn vị (kế hoạch tải line)', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  plannedQuantity?: number;
+}
+
+export class CreateProductionOrderDto {
+  @ApiProperty({ example: 'PO-2026-0012' })
+  @IsString()
+  @MaxLength(50)
+  orderNumber: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  customerName?: string;
+
+  @ApiProperty({ description: 'Mã túi (Product)' })
+  @IsUUID()
+  productId: string;
+
+  @ApiProperty({ example: 5000 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @ApiProperty({ example: '2026-10-20', description: 'Ngày bắt đầu tính sản lượng (YYYY-MM-DD) — mặc định hôm nay', required: false })
+  @IsOptional()
+  @Matches(DATE_PATTERN, { message: 'startDate phải có định dạng YYYY-MM-DD' })
+  startDate?: string;
+
+  @ApiProperty({ example: '2026-11-15', description: 'Hạn giao hàng (YYYY-MM-DD)' })
+  @Matches(DATE_PATTERN, { message: 'dueDate phải có định dạng YYYY-MM-DD' })
+  dueDate: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+
+  @ApiProperty({ type: [ProductionOrderAssignmentDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ProductionOrderAssignmentDto)
+  assignments: ProductionOrderAssignmentDto[];
+}
+
+export class UpdateProductionOrderDto extends PartialType(OmitType(CreateProductionOrderDto, ['productId'] as const)) {
+  @ApiProperty({ enum: ProductionOrderStatus, required: false })
+  @IsOptional()
+  @IsEnum(ProductionOrderStatus)
+  status?: ProductionOrderStatus;
+}
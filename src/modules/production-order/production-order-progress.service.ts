@@ -0,0 +1,415 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { Prisma, ProductionOrderStatus } from '@prisma/client';
+import { PrismaService } from '../../common/prisma.service';
+import { WebSocketGateway } from '../websocket/websocket.gateway';
+import { toVnDateString } from '../worksheet/production-summary.service';
+import { MonthlyBackupService } from '../worksheet/monthly-backup.service';
+import {
+  AllocationOrder,
+  DailyOutput,
+  OrderForecast,
+  OutputRow,
+  allocateOutput,
+  forecastOrder,
+  recentEfficiency,
+  toDate,
+  toDateString,
+} from './production-order.util';
+
+const OPEN_STATUSES = [ProductionOrderStatus.PLANNED, ProductionOrderStatus.IN_PROGRESS];
+// Sản lượng chỉ đọc trong khoảng này tính từ hôm nay — lệnh mở quá lâu chỉ được tính phần gần đây
+const MAX_OUTPUT_LOOKBACK_DAYS = 365;
+const LATE_RISKS = ['AT_RISK', 'OVERDUE'];
+
+const PROGRESS_ORDER_SELECT = {
+  id: true,
+  orderNumber: true,
+  productId: true,
+  quantity: true,
+  startDate: true,
+  dueDate: true,
+  status: true,
+  createdAt: true,
+  completedAt: true,
+  assignments: {
+    select: {
+      departmentId: true,
+      teamId: true,
+      groupId: true,
+      plannedQuantity: true,
+      department: { select: { id: true, name: true, officeId: true, office: { select: { companyId: true } } } },
+    },
+  },
+} satisfies Prisma.ProductionOrderSelect;
+
+type ProgressOrder = Prisma.ProductionOrderGetPayload<{ select: typeof PROGRESS_ORDER_SELECT }>;
+
+export interface OrderProgress extends OrderForecast {
+  finalProcess: { id: string; name: string; code: string } | null;
+  recentEfficiency: number | null; // % SLTH / SLKH công đoạn cuối tại các nhóm được giao
+  rawDataPurged: boolean; // lệnh bắt đầu trước mốc dọn dữ liệu theo giờ → sản lượng đã làm bị thiếu
+  daily: DailyOutput[];
+}
+
+export interface LineLoadingQuery {
+  officeId?: string;
+  departmentId?: string;
+  departmentIds?: string[]; // giới hạn cho nhóm trưởng
+  companyId?: string; // undefined = SUPERADMIN
+}
+
+/**
+ * ProductionOrderProgressService
+ * Tiến độ / dự báo / tải line của lệnh sản xuất (công thức: production-order.util)
+ * Sản lượng đọc trực tiếp từ WorkSheetRecordItem — tháng đã bị dọn dữ liệu theo giờ thì không còn được tính,
+ * lệnh bắt đầu trước mốc được gắn rawDataPurged và không bị cảnh báo trễ hạn theo sản lượng thiếu.
+ */
+@Injectable()
+export class ProductionOrderProgressService {
+  private readonly logger = new Logger(ProductionOrderProgressService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly wsGateway: WebSocketGateway,
+    private readonly monthlyBackup: MonthlyBackupService,
+  ) {}
+
+  // ── Tiến độ ──────────────────────────────────────────────────
+
+  /**
+   * Tiến độ của các lệnh — sản lượng được phân bổ FIFO giữa mọi lệnh chưa huỷ cùng mã túi,
+   * lệnh đã hoàn thành chỉ nhận sản lượng đến ngày hoàn thành,
+   * lệnh đã huỷ chỉ xem phần sản lượng tại nhóm của nó (không tranh với lệnh khác)
+   */
+  async progressFor(orderIds: string[], today: string = toVnDateString()): Promise<Map<string, OrderProgress>> {
+    const result = new Map<string, OrderProgress>();
+    if (orderIds.length === 0) return result;
+
+    const requested = await this.prisma.productionOrder.findMany({
+      where: { id: { in: orderIds } },
+      select: PROGRESS_ORDER_SELECT,
+    });
+    const productIds = [...new Set(requested.map((o) => o.productId))];
+    const openPeers = await this.prisma.productionOrder.findMany({
+      where: { productId: { in: productIds }, status: { in: OPEN_STATUSES } },
+      select: PROGRESS_ORDER_SELECT,
+    });
+    const outputFrom = outputWindowStart([...openPeers, ...requested], today);
+    // Lệnh hoàn thành trước khoảng đọc sản lượng không còn tranh phần sản lượng nào
+    const completedPeers = await this.prisma.productionOrder.findMany({
+      where: {
+        productId: { in: productIds },
+        status: ProductionOrderStatus.COMPLETED,
+        completedAt: { gte: toDate(outputFrom) },
+      },
+      select: PROGRESS_ORDER_SELECT,
+    });
+    const all = [...new Map([...openPeers, ...completedPeers, ...requested].map((o) => [o.id, o])).values()];
+
+    const cutoff = this.monthlyBackup.rawDataCutoff();
+    const [groupsByOrder, finalProcesses, holidays] = await Promise.all([
+      this.resolveGroups(all),
+      this.finalProcesses(productIds),
+      this.holidays(all, today),
+    ]);
+
+    for (const productId of productIds) {
+      const finalProcess = finalProcesses.get(productId) ?? null;
+      const orders = all.filter((o) => o.productId === productId);
+      const toAllocation = (o: ProgressOrder): AllocationOrder => ({
+        id: o.id,
+        quantity: o.quantity,
+        startDate: toDateString(o.startDate),
+        dueDate: toDateString(o.dueDate),
+        createdAt: o.createdAt,
+        groupIds: groupsByOrder.get(o.id) ?? [],
+        endDate: o.status === ProductionOrderStatus.COMPLETED && o.completedAt ? toVnDateString(o.completedAt) : undefined,
+      });
+
+      const output = finalProcess
+        ? await this.loadOutput(productId, finalProcess.id, orders, groupsByOrder, outputFrom, today)
+        : [];
+      const active = orders.filter((o) => o.status !== ProductionOrderStatus.CANCELLED);
+      const allocations = allocateOutput(active.map(toAllocation), output);
+      orders
+        .filter((o) => o.status === ProductionOrderStatus.CANCELLED)
+        .forEach((o) => allocations.set(o.id, allocateOutput([toAllocation(o)], output).get(o.id)!));
+
+      for (const order of requested.filter((o) => o.productId === productId)) {
+        const allocation = allocations.get(order.id)!;
+        const groupIds = new Set(groupsByOrder.get(order.id) ?? []);
+        const companyIds = new Set(order.assignments.map((a) => a.department.office.companyId));
+        const orderHolidays = new Set(holidays.filter((h) => !h.companyId || companyIds.has(h.companyId)).map((h) => h.date));
+
+        result.set(order.id, {
+          ...forecastOrder({ quantity: order.quantity, dueDate: toDateString(order.dueDate) }, allocation, today, orderHolidays),
+          finalProcess,
+          rawDataPurged: !!cutoff && order.startDate < cutoff,
+          recentEfficiency: recentEfficiency(
+            output.filter((r) => groupIds.has(r.groupId) && r.date >= toDateString(order.startDate)),
+            today,
+          ),
+          daily: allocation.daily.sort((a, b) => a.date.localeCompare(b.date)),
+        });
+      }
+    }
+    return result;
+  }
+
+  // ── Kế hoạch tải line ────────────────────────────────────────
+
+  /**
+   * Tải của từng line = Σ sản lượng cần đạt / ngày để kịp hạn của các lệnh đang mở (theo phần được giao)
+   * so với tốc độ hiện tại — loadPct > 100 nghĩa là line phải tăng tốc mới kịp hạn.
+   * Lệnh đã quá hạn tính cả phần còn lại vào nhu cầu của ngày hôm nay.
+   */
+  async getLineLoading(query: LineLoadingQuery) {
+    const departmentFilter: Prisma.ProductionOrderAssignmentWhereInput = {
+      departmentId: query.departmentId,
+      department: {
+        officeId: query.officeId,
+        office: query.companyId ? { companyId: query.companyId } : undefined,
+      },
+    };
+    if (query.departmentIds) departmentFilter.AND = [{ departmentId: { in: query.departmentIds } }];
+
+    const orders = await this.prisma.productionOrder.findMany({
+      where: { status: { in: OPEN_STATUSES }, assignments: { some: departmentFilter } },
+      select: { ...PROGRESS_ORDER_SELECT, product: { select: { id: true, name: true, code: true } } },
+      orderBy: [{ dueDate: 'asc' }, { createdAt: 'asc' }],
+    });
+    const progress = await this.progressFor(orders.map((o) => o.id));
+
+    const lines = new Map<string, { department: { id: string; name: string }; orders: any[] }>();
+    for (const order of orders) {
+      const p = progress.get(order.id)!;
+      for (const [departmentId, share] of departmentShares(order)) {
+        if (query.departmentId && departmentId !== query.departmentId) continue;
+        if (query.departmentIds && !query.departmentIds.includes(departmentId)) continue;
+        const department = order.assignments.find((a) => a.departmentId === departmentId)!.department;
+        if (query.officeId && department.officeId !== query.officeId) continue;
+
+        const line = lines.get(departmentId) ?? { department: { id: department.id, name: department.name }, orders: [] };
+        line.orders.push({
+          id: order.id,
+          orderNumber: order.orderNumber,
+          product: order.product,
+          dueDate: toDateString(order.dueDate),
+          sharePct: Math.round(share * 1000) / 10,
+          remaining: Math.ceil(p.remaining * share),
+          requiredDailyOutput: p.requiredDailyOutput === null ? null : Math.ceil(p.requiredDailyOutput * share),
+          recentDailyOutput: Math.round(p.recentDailyOutput * share),
+          forecastDate: p.forecastDate,
+          daysLate: p.daysLate,
+          risk: p.risk,
+        });
+        lines.set(departmentId, line);
+      }
+    }
+
+    return [...lines.values()]
+      .map((line) => {
+        const required = line.orders.reduce((sum, o) => sum + (o.requiredDailyOutput ?? o.remaining), 0);
+        const pace = line.orders.reduce((sum, o) => sum + o.recentDailyOutput, 0);
+        return {
+          ...line,
+          totals: {
+            orders: line.orders.length,
+            remaining: line.orders.reduce((sum, o) => sum + o.remaining, 0),
+            requiredDailyOutput: required,
+            recentDailyOutput: pace,
+            loadPct: pace > 0 ? Math.round((required / pace) * 1000) / 10 : null,
+            atRisk: line.orders.filter((o) => LATE_RISKS.includes(o.risk)).length,
+          },
+        };
+      })
+      .sort((a, b) => a.department.name.localeCompare(b.department.name));
+  }
+
+  // ── Cảnh báo trễ hạn ─────────────────────────────────────────
+
+  /**
+   * Cập nhật trạng thái lệnh đang mở theo tiến độ và cảnh báo 1 lần khi dự báo trễ hạn
+   * (người tạo lệnh + quản lý các line được giao). Dự báo kịp hạn trở lại → cho phép cảnh báo lần sau.
+   */
+  @Cron('30 6 * * *', { name: 'production-order-due-check' }) // 6:30 AM daily, sau bản tổng hợp ngày
+  async checkDueDates() {
+    const orders = await this.prisma.productionOrder.findMany({
+      where: { status: { in: OPEN_STATUSES } },
+      select: {
+        id: true,
+        orderNumber: true,
+        dueDate: true,
+        status: true,
+        lateWarnedAt: true,
+        createdById: true,
+        assignments: { select: { departmentId: true } },
+      },
+    });
+    const progress = await this.progressFor(orders.map((o) => o.id));
+    let completed = 0;
+    let warned = 0;
+
+    for (const order of orders) {
+      const p = progress.get(order.id)!;
+      if (p.risk === 'COMPLETED') {
+        await this.prisma.productionOrder.update({
+          where: { id: order.id },
+          data: { status: ProductionOrderStatus.COMPLETED, completedAt: new Date(), lateWarnedAt: null },
+        });
+        completed += 1;
+        continue;
+      }
+
+      const late = LATE_RISKS.includes(p.risk) && !p.rawDataPurged;
+      const data: Prisma.ProductionOrderUpdateInput = {};
+      if (order.status === ProductionOrderStatus.PLANNED && p.produced > 0) data.status = ProductionOrderStatus.IN_PROGRESS;
+      if (late && !order.lateWarnedAt) {
+        await this.notifyLate(order, p);
+        data.lateWarnedAt = new Date();
+        warned += 1;
+      } else if (!late && order.lateWarnedAt) {
+        data.lateWarnedAt = null;
+      }
+      if (Object.keys(data).length) {
+        await this.prisma.productionOrder.update({ where: { id: order.id }, data });
+      }
+    }
+
+    this.logger.log(`Production order due check: ${orders.length} open, ${completed} completed, ${warned} late warnings`);
+    return { open: orders.length, completed, warned };
+  }
+
+  private async notifyLate(
+    order: { id: string; orderNumber: string; dueDate: Date; createdById: string | null; assignments: Array<{ departmentId: string }> },
+    progress: OrderProgress,
+  ) {
+    const managers = await this.prisma.userDepartmentManagement.findMany({
+      where: { departmentId: { in: order.assignments.map((a) => a.departmentId) }, isActive: true },
+      select: { userId: true },
+    });
+    const recipients = [...new Set([order.createdById, ...managers.map((m) => m.userId)].filter((id): id is string => !!id))];
+    const dueDate = toDateString(order.dueDate);
+    const message =
+      progress.risk === 'OVERDUE'
+        ? `Lệnh ${order.orderNumber} đã quá hạn giao ${dueDate}, còn thiếu ${progress.remaining} sản phẩm`
+        : `Lệnh ${order.orderNumber} dự kiến hoàn thành ${progress.forecastDate}, trễ ${progress.daysLate} ngày so với hạn giao ${dueDate} ` +
+          `(cần ${progress.requiredDailyOutput} sp/ngày, hiện đạt ${progress.recentDailyOutput} sp/ngày)`;
+
+    this.wsGateway.sendNotificationToUsers(recipients, {
+      type: 'PRODUCTION_ORDER_LATE',
+      title: 'Lệnh sản xuất có nguy cơ trễ hạn',
+      message,
+      data: { productionOrderId: order.id },
+      timestamp: new Date(),
+    });
+  }
+
+  // ── Helpers ──────────────────────────────────────────────────
+
+  /** Nhóm thuộc phạm vi giao của từng lệnh (line → mọi nhóm của line, tổ → mọi nhóm của tổ) */
+  private async resolveGroups(orders: ProgressOrder[]): Promise<Map<string, string[]>> {
+    const assignments = orders.flatMap((o) => o.assignments);
+    const teamIds = [...new Set(assignments.filter((a) => !a.groupId && a.teamId).map((a) => a.teamId!))];
+    const departmentIds = [...new Set(assignments.filter((a) => !a.groupId && !a.teamId).map((a) => a.departmentId))];
+    const groups =
+      teamIds.length || departmentIds.length
+        ? await this.prisma.group.findMany({
+            where: { OR: [{ teamId: { in: teamIds } }, { team: { departmentId: { in: departmentIds } } }] },
+            select: { id: true, teamId: true, team: { select: { departmentId: true } } },
+          })
+        : [];
+
+    return new Map(
+      orders.map((o) => {
+        const ids = o.assignments.flatMap((a) => {
+          if (a.groupId) return [a.groupId];
+          if (a.teamId) return groups.filter((g) => g.teamId === a.teamId).map((g) => g.id);
+          return groups.filter((g) => g.team.departmentId === a.departmentId).map((g) => g.id);
+        });
+        return [o.id, [...new Set(ids)]];
+      }),
+    );
+  }
+
+  /** Công đoạn cuối của mã túi = ProductProcess đang dùng có sequence lớn nhất */
+  private async finalProcesses(productIds: string[]) {
+    const rows = await this.prisma.productProcess.findMany({
+      where: { productId: { in: productIds }, isActive: true },
+      select: { productId: true, process: { select: { id: true, name: true, code: true } } },
+      orderBy: { sequence: 'desc' },
+    });
+    const map = new Map<string, { id: string; name: string; code: string }>();
+    rows.forEach((r) => map.has(r.productId) || map.set(r.productId, r.process));
+    return map;
+  }
+
+  private async loadOutput(
+    productId: string,
+    processId: string,
+    orders: ProgressOrder[],
+    groupsByOrder: Map<string, string[]>,
+    from: string,
+    today: string,
+  ): Promise<OutputRow[]> {
+    const groupIds = [...new Set(orders.flatMap((o) => groupsByOrder.get(o.id) ?? []))];
+    if (groupIds.length === 0) return [];
+
+    const items = await this.prisma.workSheetRecordItem.findMany({
+      where: {
+        productId,
+        processId,
+        record: { worksheet: { groupId: { in: groupIds }, date: { gte: toDate(from), lte: toDate(today) } } },
+      },
+      select: {
+        actualOutput: true,
+        plannedOutput: true,
+        record: { select: { worksheet: { select: { groupId: true, date: true } } } },
+      },
+    });
+    return items.map((i) => ({
+      groupId: i.record.worksheet.groupId,
+      date: toDateString(i.record.worksheet.date),
+      actual: i.actualOutput,
+      planned: i.plannedOutput,
+    }));
+  }
+
+  private async holidays(orders: ProgressOrder[], today: string) {
+    const companyIds = [...new Set(orders.flatMap((o) => o.assignments.map((a) => a.department.office.companyId)))];
+    const from = orders.reduce((min, o) => (toDateString(o.dueDate) < min ? toDateString(o.dueDate) : min), today);
+    const rows = await this.prisma.publicHoliday.findMany({
+      where: {
+        isActive: true,
+        date: { gte: toDate(from) },
+        OR: [{ companyId: null }, { companyId: { in: companyIds.filter((id): id is string => !!id) } }],
+      },
+      select: { companyId: true, date: true },
+    });
+    return rows.map((r) => ({ companyId: r.companyId, date: toDateString(r.date) }));
+  }
+}
+
+/** Ngày bắt đầu đọc sản lượng: ngày bắt đầu sớm nhất của các lệnh, không quá MAX_OUTPUT_LOOKBACK_DAYS */
+function outputWindowStart(orders: Array<Pick<ProgressOrder, 'startDate'>>, today: string): string {
+  const earliest = new Date(toDate(today).getTime() - MAX_OUTPUT_LOOKBACK_DAYS * 86_400_000);
+  const from = orders.reduce((min, o) => (o.startDate < min ? o.startDate : min), toDate(today));
+  return toDateString(from < earliest ? earliest : from);
+}
+
+/**
+ * Tỷ lệ lệnh giao cho từng line: phần có plannedQuantity theo số lượng đặt,
+ * phần còn lại chia đều cho các đơn vị không ghi plannedQuantity
+ */
+function departmentShares(order: Pick<ProgressOrder, 'quantity' | 'assignments'>): Map<string, number> {
+  const planned = order.assignments.reduce((sum, a) => sum + (a.plannedQuantity ?? 0), 0);
+  const unplanned = order.assignments.filter((a) => !a.plannedQuantity).length;
+  const rest = Math.max(0, order.quantity - planned);
+  const shares = new Map<string, number>();
+  for (const a of order.assignments) {
+    const quantity = a.plannedQuantity ?? (unplanned ? rest / unplanned : 0);
+    shares.set(a.departmentId, (shares.get(a.departmentId) ?? 0) + (order.quantity > 0 ? quantity / order.quantity : 0));
+  }
+  return shares;
+}
@@ -0,0 +1,123 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { ProductionOrderStatus } from '@prisma/client';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { GetUser } from '../../common/decorators/get-user.decorator';
+import { Audit } from '../../common/decorators/audit.decorator';
+import { PrismaService } from '../../common/prisma.service';
+import { ProductionOrderService } from './production-order.service';
+import { ProductionOrderProgressService } from './production-order-progress.service';
+import { CreateProductionOrderDto, UpdateProductionOrderDto } from './dto/production-order.dto';
+
+// Vai trò xem được mọi lệnh — nhóm trưởng chỉ xem lệnh giao cho nhóm / tổ / line của mình
+const UNSCOPED_ROLES = ['SUPERADMIN', 'ADMIN', 'MANAGER', 'FACTORY_DIRECTOR', 'LINE_MANAGER'];
+
+@ApiTags('production-orders')
+@ApiBearerAuth('JWT-auth')
+@Controller('production-orders')
+@Audit('ProductionOrder')
+export class ProductionOrderController {
+  constructor(
+    private readonly productionOrderService: ProductionOrderService,
+    private readonly progressService: ProductionOrderProgressService,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  private resolveCompanyId(user: any): string | undefined {
+    const isSuperAdmin = user?.roles?.some((r: any) => r?.roleDefinition?.code === 'SUPERADMIN');
+    return isSuperAdmin ? undefined : (user?.companyId ?? undefined);
+  }
+
+  private async scopeGroupIds(user: any): Promise<string[] | undefined> {
+    const codes: string[] = user?.roles?.map((r: any) => r?.roleDefinition?.code) ?? [];
+    if (!codes.includes('TEAM_LEADER') || codes.some((code) => UNSCOPED_ROLES.includes(code))) return undefined;
+    const groups = await this.prisma.group.findMany({ where: { leaderId: user.id }, select: { id: true } });
+    return groups.map((g) => g.id);
+  }
+
+  @Get()
+  @RequirePermissions('production-orders:view')
+  @ApiOperation({ summary: 'Danh sách lệnh sản xuất kèm tiến độ và dự báo hoàn thành' })
+  @ApiQuery({ name: 'status', required: false, enum: ProductionOrderStatus })
+  @ApiQuery({ name: 'productId', required: false })
+  @ApiQuery({ name: 'departmentId', required: false })
+  @ApiQuery({ name: 'groupId', required: false })
+  @ApiQuery({ name: 'search', required: false, description: 'Số lệnh / khách hàng' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  async findAll(
+    @GetUser() user: any,
+    @Query('status') status?: ProductionOrderStatus,
+    @Query('productId') productId?: string,
+    @Query('departmentId') departmentId?: string,
+    @Query('groupId') groupId?: string,
+    @Query('search') search?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.productionOrderService.findAll({
+      status,
+      productId,
+      departmentId,
+      groupId,
+      search,
+      groupIds: await this.scopeGroupIds(user),
+      companyId: this.resolveCompanyId(user),
+      page: page ? parseInt(page) : undefined,
+      limit: limit ? parseInt(limit) : undefined,
+    });
+  }
+
+  @Get('line-loading')
+  @RequirePermissions('production-orders:view')
+  @ApiOperation({ summary: 'Kế hoạch tải line: nhu cầu sản lượng / ngày của các lệnh đang mở so với tốc độ hiện tại' })
+  @ApiQuery({ name: 'officeId', required: false })
+  @ApiQuery({ name: 'departmentId', required: false })
+  async getLineLoading(
+    @GetUser() user: any,
+    @Query('officeId') officeId?: string,
+    @Query('departmentId') departmentId?: string,
+  ) {
+    const groupIds = await this.scopeGroupIds(user);
+    return this.progressService.getLineLoading({
+      officeId,
+      departmentId,
+      departmentIds: groupIds ? await this.productionOrderService.departmentIdsOfGroups(groupIds) : undefined,
+      companyId: this.resolveCompanyId(user),
+    });
+  }
+
+  @Post('due-check/run')
+  @RequirePermissions('production-orders:manage')
+  @ApiOperation({ summary: 'Chạy ngay kiểm tra tiến độ + cảnh báo trễ hạn (bình thường chạy 6:30 hằng ngày)' })
+  runDueCheck() {
+    return this.progressService.checkDueDates();
+  }
+
+  @Get(':id')
+  @RequirePermissions('production-orders:view')
+  @ApiOperation({ summary: 'Chi tiết lệnh sản xuất: phân bổ, tiến độ theo ngày, dự báo hoàn thành' })
+  async findOne(@GetUser() user: any, @Param('id') id: string) {
+    return this.productionOrderService.findOne(id, await this.scopeGroupIds(user), this.resolveCompanyId(user));
+  }
+
+  @Post()
+  @RequirePermissions('production-orders:create')
+  @ApiOperation({ summary: 'Tạo lệnh sản xuất và giao cho line / tổ / nhóm' })
+  create(@Body() dto: CreateProductionOrderDto, @GetUser() user: any) {
+    return this.productionOrderService.create(dto, user.id, this.resolveCompanyId(user));
+  }
+
+  @Patch(':id')
+  @RequirePermissions('production-orders:update')
+  @ApiOperation({ summary: 'Cập nhật lệnh sản xuất (assignments truyền vào sẽ thay toàn bộ phân bổ cũ)' })
+  update(@GetUser() user: any, @Param('id') id: string, @Body() dto: UpdateProductionOrderDto) {
+    return this.productionOrderService.update(id, dto, this.resolveCompanyId(user));
+  }
+
+  @Delete(':id')
+  @RequirePermissions('production-orders:delete')
+  remove(@GetUser() user: any, @Param('id') id: string) {
+    return this.productionOrderService.remove(id, this.resolveCompanyId(user));
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { WebSocketModule } from '../websocket/websocket.module';
+import { WorksheetModule } from '../worksheet/worksheet.module';
+import { ProductionOrderController } from './production-order.controller';
+import { ProductionOrderService } from './production-order.service';
+import { ProductionOrderProgressService } from './production-order-progress.service';
+
+@Module({
+  imports: [WebSocketModule, WorksheetModule],
+  controllers: [ProductionOrderController],
+  providers: [ProductionOrderService, ProductionOrderProgressService],
+  exports: [ProductionOrderService, ProductionOrderProgressService],
+})
+export class ProductionOrderModule {}
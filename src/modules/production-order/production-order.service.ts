@@ -0,0 +1,328 @@
+import { BadRequestException, ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma, ProductionOrderStatus } from '@prisma/client';
+import { PrismaService } from '../../common/prisma.service';
+import { toVnDateString } from '../worksheet/production-summary.service';
+import { ProductionOrderProgressService } from './production-order-progress.service';
+import { toDate, toDateString } from './production-order.util';
+import {
+  CreateProductionOrderDto,
+  ProductionOrderAssignmentDto,
+  UpdateProductionOrderDto,
+} from './dto/production-order.dto';
+
+const ORDER_INCLUDE = {
+  product: { select: { id: true, name: true, code: true } },
+  createdBy: { select: { id: true, employeeCode: true, firstName: true, lastName: true } },
+  assignments: {
+    select: {
+      id: true,
+      plannedQuantity: true,
+      department: { select: { id: true, name: true } },
+      team: { select: { id: true, name: true, code: true } },
+      group: { select: { id: true, name: true, code: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.ProductionOrderInclude;
+
+type OrderWithRelations = Prisma.ProductionOrderGetPayload<{ include: typeof ORDER_INCLUDE }>;
+
+export interface ProductionOrderQuery {
+  status?: ProductionOrderStatus;
+  productId?: string;
+  departmentId?: string;
+  groupId?: string;
+  search?: string;
+  groupIds?: string[]; // giới hạn cho nhóm trưởng
+  companyId?: string; // undefined = SUPERADMIN
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * ProductionOrderService
+ * Lệnh sản xuất theo mã túi: số lượng, hạn giao, giao cho line / tổ / nhóm.
+ * Tiến độ + dự báo: ProductionOrderProgressService
+ */
+@Injectable()
+export class ProductionOrderService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly progress: ProductionOrderProgressService,
+  ) {}
+
+  async findAll(query: ProductionOrderQuery) {
+    const page = query.page && query.page > 0 ? query.page : 1;
+    const limit = query.limit && query.limit > 0 ? Math.min(query.limit, 100) : 20;
+    const where: Prisma.ProductionOrderWhereInput = { status: query.status, productId: query.productId };
+    const and: Prisma.ProductionOrderWhereInput[] = [];
+    if (query.departmentId) and.push({ assignments: { some: { departmentId: query.departmentId } } });
+    if (query.groupId) and.push(await this.groupScopeWhere([query.groupId]));
+    if (query.groupIds) and.push(await this.groupScopeWhere(query.groupIds));
+    if (query.companyId) and.push(companyScopeWhere(query.companyId));
+    if (query.search) {
+      and.push({
+        OR: [
+          { orderNumber: { contains: query.search, mode: 'insensitive' } },
+          { customerName: { contains: query.search, mode: 'insensitive' } },
+        ],
+      });
+    }
+    if (and.length) where.AND = and;
+
+    const [orders, total] = await Promise.all([
+      this.prisma.productionOrder.findMany({
+        where,
+        include: ORDER_INCLUDE,
+        orderBy: [{ dueDate: 'asc' }, { createdAt: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.productionOrder.count({ where }),
+    ]);
+    const progress = await this.progress.progressFor(orders.map((o) => o.id));
+
+    const data = orders.map((o) => {
+      const { daily: _daily, ...summary } = progress.get(o.id)!;
+      return { ...serialize(o), progress: summary };
+    });
+    return { data, total, page, limit };
+  }
+
+  /** companyId undefined = SUPERADMIN (mọi công ty) */
+  async findOne(id: string, groupIds?: string[], companyId?: string) {
+    const and: Prisma.ProductionOrderWhereInput[] = [{ id }];
+    if (groupIds) and.push(await this.groupScopeWhere(groupIds));
+    if (companyId) and.push(companyScopeWhere(companyId));
+    const where: Prisma.ProductionOrderWhereInput = { AND: and };
+    const order = await this.prisma.productionOrder.findFirst({ where, include: ORDER_INCLUDE });
+    if (!order) {
+      throw new NotFoundException('Không tìm thấy lệnh sản xuất');
+    }
+    const progress = await this.progress.progressFor([id]);
+    return { ...serialize(order), progress: progress.get(id)! };
+  }
+
+  async create(dto: CreateProductionOrderDto, createdById: string, companyId?: string) {
+    await this.assertOrderNumberFree(dto.orderNumber);
+    const product = await this.prisma.product.findFirst({
+      where: { id: dto.productId, ...(companyId ? { OR: [{ companyId }, { companyId: null }] } : {}) },
+      select: { id: true, processes: { where: { isActive: true }, select: { id: true }, take: 1 } },
+    });
+    if (!product) {
+      throw new NotFoundException('Không tìm thấy mã túi');
+    }
+    if (product.processes.length === 0) {
+      throw new BadRequestException('Mã túi chưa có công đoạn — không xác định được công đoạn cuối để tính tiến độ');
+    }
+
+    const startDate = dto.startDate ?? toVnDateString();
+    assertDates(startDate, dto.dueDate);
+    const assignments = await this.resolveAssignments(dto.assignments, dto.quantity, companyId);
+
+    const order = await this.prisma.productionOrder.create({
+      data: {
+        orderNumber: dto.orderNumber.trim(),
+        customerName: dto.customerName || null,
+        productId: dto.productId,
+        quantity: dto.quantity,
+        startDate: toDate(startDate),
+        dueDate: toDate(dto.dueDate),
+        note: dto.note || null,
+        createdById,
+        assignments: { create: assignments },
+      },
+      include: ORDER_INCLUDE,
+    });
+    return serialize(order);
+  }
+
+  async update(id: string, dto: UpdateProductionOrderDto, companyId?: string) {
+    const order = await this.prisma.productionOrder.findFirst({
+      where: { id, ...(companyId ? companyScopeWhere(companyId) : {}) },
+      include: { assignments: { select: { plannedQuantity: true } } },
+    });
+    if (!order) {
+      throw new NotFoundException('Không tìm thấy lệnh sản xuất');
+    }
+    if (dto.orderNumber && dto.orderNumber.trim() !== order.orderNumber) {
+      await this.assertOrderNumberFree(dto.orderNumber);
+    }
+
+    const quantity = dto.quantity ?? order.quantity;
+    const startDate = dto.startDate ?? toDateString(order.startDate);
+    const dueDate = dto.dueDate ?? toDateString(order.dueDate);
+    assertDates(startDate, dueDate);
+
+    const assignments = dto.assignments ? await this.resolveAssignments(dto.assignments, quantity, companyId) : null;
+    if (!assignments) {
+      assertPlannedWithin(order.assignments, quantity);
+    }
+
+    const data: Prisma.ProductionOrderUncheckedUpdateInput = {
+      orderNumber: dto.orderNumber?.trim(),
+      customerName: dto.customerName,
+      quantity: dto.quantity,
+      startDate: dto.startDate ? toDate(dto.startDate) : undefined,
+      dueDate: dto.dueDate ? toDate(dto.dueDate) : undefined,
+      note: dto.note,
+      status: dto.status,
+    };
+    if (dto.status && dto.status !== order.status) {
+      data.completedAt = dto.status === ProductionOrderStatus.COMPLETED ? new Date() : null;
+    }
+    // Đổi hạn / số lượng / phạm vi → đánh giá lại cảnh báo trễ hạn ở lần kiểm tra sau
+    if (dto.dueDate || dto.quantity || assignments) {
+      data.lateWarnedAt = null;
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      if (assignments) {
+        await tx.productionOrderAssignment.deleteMany({ where: { orderId: id } });
+        await tx.productionOrderAssignment.createMany({ data: assignments.map((a) => ({ orderId: id, ...a })) });
+      }
+      return tx.productionOrder.update({ where: { id }, data, include: ORDER_INCLUDE });
+    });
+    return serialize(updated);
+  }
+
+  async remove(id: string, companyId?: string) {
+    const order = await this.prisma.productionOrder.findFirst({
+      where: { id, ...(companyId ? companyScopeWhere(companyId) : {}) },
+      select: { id: true, status: true },
+    });
+    if (!order) {
+      throw new NotFoundException('Không tìm thấy lệnh sản xuất');
+    }
+    if (order.status !== ProductionOrderStatus.PLANNED && order.status !== ProductionOrderStatus.CANCELLED) {
+      throw new BadRequestException('Chỉ xoá được lệnh chưa sản xuất hoặc đã huỷ — hãy chuyển lệnh sang CANCELLED');
+    }
+    await this.prisma.productionOrder.delete({ where: { id } });
+    return { id, deleted: true };
+  }
+
+  /** Line của các nhóm — dùng giới hạn kế hoạch tải line cho nhóm trưởng */
+  async departmentIdsOfGroups(groupIds: string[]): Promise<string[]> {
+    const groups = await this.prisma.group.findMany({
+      where: { id: { in: groupIds } },
+      select: { team: { select: { departmentId: true } } },
+    });
+    return [...new Set(groups.map((g) => g.team.departmentId))];
+  }
+
+  // ── Helpers ──────────────────────────────────────────────────
+
+  /** Lệnh được giao cho chính nhóm, hoặc cho cả tổ / cả line chứa nhóm */
+  private async groupScopeWhere(groupIds: string[]): Promise<Prisma.ProductionOrderWhereInput> {
+    const groups = await this.prisma.group.findMany({
+      where: { id: { in: groupIds } },
+      select: { teamId: true, team: { select: { departmentId: true } } },
+    });
+    return {
+      assignments: {
+        some: {
+          OR: [
+            { groupId: { in: groupIds } },
+            { groupId: null, teamId: { in: groups.map((g) => g.teamId) } },
+            { groupId: null, teamId: null, departmentId: { in: groups.map((g) => g.team.departmentId) } },
+          ],
+        },
+      },
+    };
+  }
+
+  /** Điền cấp cha theo cơ cấu line → tổ → nhóm và kiểm tra cấp cha truyền vào có khớp (và thuộc công ty) */
+  private async resolveAssignments(dtos: ProductionOrderAssignmentDto[], quantity: number, companyId?: string) {
+    const resolved: Array<{ departmentId: string; teamId: string | null; groupId: string | null; plannedQuantity: number | null }> = [];
+
+    for (const dto of dtos) {
+      let departmentId: string;
+      let teamId: string | null = null;
+      let groupId: string | null = null;
+
+      if (dto.groupId) {
+        const group = await this.prisma.group.findUnique({
+          where: { id: dto.groupId },
+          select: { id: true, teamId: true, team: { select: { departmentId: true } } },
+        });
+        if (!group) {
+          throw new NotFoundException('Group not found');
+        }
+        groupId = group.id;
+        teamId = group.teamId;
+        departmentId = group.team.departmentId;
+      } else if (dto.teamId) {
+        const team = await this.prisma.team.findUnique({ where: { id: dto.teamId }, select: { id: true, departmentId: true } });
+        if (!team) {
+          throw new NotFoundException('Team not found');
+        }
+        teamId = team.id;
+        departmentId = team.departmentId;
+      } else if (dto.departmentId) {
+        const department = await this.prisma.department.findUnique({ where: { id: dto.departmentId }, select: { id: true } });
+        if (!department) {
+          throw new NotFoundException('Không tìm thấy line');
+        }
+        departmentId = department.id;
+      } else {
+        throw new BadRequestException('Mỗi phân bổ phải có departmentId, teamId hoặc groupId');
+      }
+
+      if ((dto.departmentId && dto.departmentId !== departmentId) || (dto.teamId && dto.teamId !== teamId)) {
+        throw new BadRequestException('Nhóm / tổ không thuộc line / tổ đã chọn');
+      }
+      if (resolved.some((r) => r.departmentId === departmentId && r.teamId === teamId && r.groupId === groupId)) {
+        throw new BadRequestException('Một đơn vị chỉ được giao 1 lần trong cùng lệnh');
+      }
+      resolved.push({ departmentId, teamId, groupId, plannedQuantity: dto.plannedQuantity ?? null });
+    }
+
+    if (companyId) {
+      const departmentIds = [...new Set(resolved.map((r) => r.departmentId))];
+      const own = await this.prisma.department.count({ where: { id: { in: departmentIds }, office: { companyId } } });
+      if (own !== departmentIds.length) {
+        throw new BadRequestException('Line được giao không thuộc công ty của bạn');
+      }
+    }
+
+    assertPlannedWithin(resolved, quantity);
+    return resolved;
+  }
+
+  private async assertOrderNumberFree(orderNumber: string) {
+    const existing = await this.prisma.productionOrder.findUnique({ where: { orderNumber: orderNumber.trim() }, select: { id: true } });
+    if (existing) {
+      throw new ConflictException(`Số lệnh ${orderNumber.trim()} đã tồn tại`);
+    }
+  }
+}
+
+/** Lệnh thuộc công ty: mã túi của công ty (hoặc dùng chung) và giao cho line của công ty */
+function companyScopeWhere(companyId: string): Prisma.ProductionOrderWhereInput {
+  return {
+    product: { OR: [{ companyId }, { companyId: null }] },
+    assignments: { some: { department: { office: { companyId } } } },
+  };
+}
+
+function serialize(order: OrderWithRelations) {
+  const { lateWarnedAt: _lateWarnedAt, ...rest } = order;
+  return {
+    ...rest,
+    startDate: toDateString(order.startDate),
+    dueDate: toDateString(order.dueDate),
+  };
+}
+
+function assertDates(startDate: string, dueDate: string) {
+  if (dueDate < startDate) {
+    throw new BadRequestException('Hạn giao phải sau hoặc bằng ngày bắt đầu');
+  }
+}
+
+function assertPlannedWithin(assignments: Array<{ plannedQuantity: number | null }>, quantity: number) {
+  const planned = assignments.reduce((sum, a) => sum + (a.plannedQuantity ?? 0), 0);
+  if (planned > quantity) {
+    throw new BadRequestException(`Tổng sản lượng giao (${planned}) vượt số lượng của lệnh (${quantity})`);
+  }
+}
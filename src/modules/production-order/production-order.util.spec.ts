@@ -0,0 +1,115 @@
+import { AllocationOrder, addWorkingDays, allocateOutput, countWorkingDays, forecastOrder, recentEfficiency } from './production-order.util';
+
+const order = (id: string, quantity: number, dueDate: string, groupIds = ['g1'], startDate = '2026-10-01'): AllocationOrder => ({
+  id,
+  quantity,
+  startDate,
+  dueDate,
+  createdAt: new Date('2026-09-30T00:00:00.000Z'),
+  groupIds,
+});
+
+const row = (groupId: string, date: string, actual: number, planned = 100) => ({ groupId, date, actual, planned });
+
+const NO_HOLIDAYS = new Set<string>();
+
+describe('Production order utils', () => {
+  describe('allocateOutput', () => {
+    it('should give shared output to the earliest due order first, capped at its quantity', () => {
+      const result = allocateOutput(
+        [order('late', 500, '2026-11-30'), order('early', 150, '2026-10-31')],
+        [row('g1', '2026-10-01', 100), row('g1', '2026-10-02', 100)],
+      );
+
+      expect(result.get('early')).toEqual({
+        produced: 150,
+        daily: [
+          { date: '2026-10-01', quantity: 100 },
+          { date: '2026-10-02', quantity: 50 },
+        ],
+      });
+      expect(result.get('late')).toEqual({ produced: 50, daily: [{ date: '2026-10-02', quantity: 50 }] });
+    });
+
+    it('should ignore output before the start date and outside the assigned groups', () => {
+      const result = allocateOutput(
+        [order('a', 1000, '2026-10-31', ['g1'], '2026-10-02')],
+        [row('g1', '2026-10-01', 100), row('g1', '2026-10-02', 80), row('g2', '2026-10-02', 70)],
+      );
+
+      expect(result.get('a')!.produced).toBe(80);
+    });
+
+    it('should stop a completed order from taking output after its completion date', () => {
+      const result = allocateOutput(
+        [{ ...order('done', 500, '2026-10-15'), endDate: '2026-10-01' }, order('open', 500, '2026-10-31')],
+        [row('g1', '2026-10-01', 100), row('g1', '2026-10-02', 100)],
+      );
+
+      expect(result.get('done')!.produced).toBe(100);
+      expect(result.get('open')).toEqual({ produced: 100, daily: [{ date: '2026-10-02', quantity: 100 }] });
+    });
+  });
+
+  describe('working days', () => {
+    // 2026-10-18 là Chủ nhật
+    it('should skip Sundays and holidays', () => {
+      expect(countWorkingDays('2026-10-17', '2026-10-20', NO_HOLIDAYS)).toBe(3);
+      expect(countWorkingDays('2026-10-17', '2026-10-20', new Set(['2026-10-19']))).toBe(2);
+      expect(addWorkingDays('2026-10-17', 2, NO_HOLIDAYS)).toBe('2026-10-19');
+      expect(addWorkingDays('2026-10-18', 1, NO_HOLIDAYS)).toBe('2026-10-19');
+    });
+  });
+
+  describe('forecastOrder', () => {
+    const allocation = {
+      produced: 300,
+      daily: [
+        { date: '2026-10-14', quantity: 100 },
+        { date: '2026-10-15', quantity: 100 },
+        { date: '2026-10-16', quantity: 100 },
+      ],
+    };
+
+    it('should forecast from the recent daily output and flag a missed due date', () => {
+      const forecast = forecastOrder({ quantity: 800, dueDate: '2026-10-20' }, allocation, '2026-10-17', NO_HOLIDAYS);
+
+      // còn 500 / 100 mỗi ngày = 5 ngày làm việc từ 17/10 (bỏ Chủ nhật 18/10)
+      expect(forecast.forecastDate).toBe('2026-10-22');
+      expect(forecast.daysLate).toBe(2);
+      expect(forecast.risk).toBe('AT_RISK');
+      expect(forecast.workingDaysLeft).toBe(3);
+      expect(forecast.requiredDailyOutput).toBe(167);
+    });
+
+    it('should be on track when the pace meets the due date', () => {
+      const forecast = forecastOrder({ quantity: 500, dueDate: '2026-10-20' }, allocation, '2026-10-17', NO_HOLIDAYS);
+
+      expect(forecast.forecastDate).toBe('2026-10-19');
+      expect(forecast.risk).toBe('ON_TRACK');
+      expect(forecast.progressPct).toBe(60);
+    });
+
+    it('should report completed, overdue and no-data orders', () => {
+      expect(forecastOrder({ quantity: 300, dueDate: '2026-10-20' }, allocation, '2026-10-17', NO_HOLIDAYS)).toMatchObject({
+        risk: 'COMPLETED',
+        forecastDate: '2026-10-16',
+      });
+      expect(forecastOrder({ quantity: 800, dueDate: '2026-10-16' }, allocation, '2026-10-17', NO_HOLIDAYS)).toMatchObject({
+        risk: 'OVERDUE',
+        requiredDailyOutput: null,
+      });
+      expect(forecastOrder({ quantity: 800, dueDate: '2026-10-20' }, { produced: 0, daily: [] }, '2026-10-17', NO_HOLIDAYS)).toMatchObject({
+        risk: 'NO_DATA',
+        forecastDate: null,
+      });
+    });
+  });
+
+  describe('recentEfficiency', () => {
+    it('should compare actual to planned over recent days, excluding today', () => {
+      expect(recentEfficiency([row('g1', '2026-10-16', 90), row('g2', '2026-10-16', 80), row('g1', '2026-10-17', 10)], '2026-10-17')).toBe(85);
+      expect(recentEfficiency([], '2026-10-17')).toBeNull();
+    });
+  });
+});
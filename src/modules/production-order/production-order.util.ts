@@ -0,0 +1,189 @@
+/**
+ * Lệnh sản xuất — tiến độ, dự báo hoàn thành — thuần, không truy cập DB
+ * - Sản lượng của lệnh = SLTH công đoạn cuối (ProductProcess.sequence lớn nhất) của mã túi tại các nhóm được giao, từ ngày bắt đầu
+ * - Nhiều lệnh cùng mã túi dùng chung nhóm → phân bổ FIFO: lệnh đến hạn trước nhận sản lượng trước, mỗi lệnh tối đa = số lượng đặt
+ * - Dự báo = số ngày làm việc cần thêm để làm hết phần còn lại theo sản lượng bình quân các ngày gần đây
+ */
+
+// Số ngày có sản lượng gần nhất dùng để tính tốc độ / hiệu suất
+export const RECENT_OUTPUT_DAYS = 7;
+
+export type OrderRisk = 'COMPLETED' | 'ON_TRACK' | 'AT_RISK' | 'OVERDUE' | 'NO_DATA';
+
+export interface AllocationOrder {
+  id: string;
+  quantity: number;
+  startDate: string; // YYYY-MM-DD
+  dueDate: string;
+  createdAt: Date;
+  groupIds: string[];
+  endDate?: string; // lệnh đã hoàn thành — chỉ nhận sản lượng đến ngày hoàn thành
+}
+
+export interface OutputRow {
+  groupId: string;
+  date: string; // YYYY-MM-DD
+  actual: number;
+  planned: number;
+}
+
+export interface DailyOutput {
+  date: string;
+  quantity: number;
+}
+
+export interface OrderAllocation {
+  produced: number;
+  daily: DailyOutput[];
+}
+
+export interface OrderForecast {
+  produced: number;
+  remaining: number;
+  progressPct: number;
+  recentDailyOutput: number; // bình quân / ngày có sản lượng (không tính hôm nay)
+  workingDaysLeft: number; // từ hôm nay đến hạn giao (bao gồm 2 đầu)
+  requiredDailyOutput: number | null; // cần đạt / ngày để kịp hạn — null khi đã quá hạn
+  forecastDate: string | null;
+  daysLate: number; // số ngày làm việc trễ hạn theo dự báo
+  risk: OrderRisk;
+}
+
+/** Phân bổ sản lượng của các nhóm cho các lệnh — trả về Map theo order id */
+export function allocateOutput(orders: AllocationOrder[], output: OutputRow[]): Map<string, OrderAllocation> {
+  // pool[groupId][date] = sản lượng chưa phân bổ
+  const pool = new Map<string, Map<string, number>>();
+  for (const row of output) {
+    if (row.actual <= 0) continue;
+    const byDate = pool.get(row.groupId) ?? new Map<string, number>();
+    byDate.set(row.date, (byDate.get(row.date) ?? 0) + row.actual);
+    pool.set(row.groupId, byDate);
+  }
+
+  const sorted = [...orders].sort(
+    (a, b) => a.dueDate.localeCompare(b.dueDate) || a.createdAt.getTime() - b.createdAt.getTime(),
+  );
+  const result = new Map<string, OrderAllocation>();
+
+  for (const order of sorted) {
+    let need = order.quantity;
+    const daily = new Map<string, number>();
+    const groups = order.groupIds.filter((id) => pool.has(id));
+    const dates = [...new Set(groups.flatMap((id) => [...pool.get(id)!.keys()]))]
+      .filter((d) => d >= order.startDate && (!order.endDate || d <= order.endDate))
+      .sort();
+
+    for (const date of dates) {
+      if (need <= 0) break;
+      for (const groupId of groups) {
+        const available = pool.get(groupId)!.get(date) ?? 0;
+        const take = Math.min(need, available);
+        if (take <= 0) continue;
+        pool.get(groupId)!.set(date, available - take);
+        daily.set(date, (daily.get(date) ?? 0) + take);
+        need -= take;
+        if (need <= 0) break;
+      }
+    }
+
+    result.set(order.id, {
+      produced: order.quantity - need,
+      daily: [...daily.entries()].map(([date, quantity]) => ({ date, quantity })),
+    });
+  }
+  return result;
+}
+
+/** Hiệu suất (SLTH / SLKH, %) của công đoạn cuối trong các ngày gần đây — null khi không có kế hoạch */
+export function recentEfficiency(output: OutputRow[], today: string): number | null {
+  const dates = [...new Set(output.filter((r) => r.date < today && r.actual > 0).map((r) => r.date))]
+    .sort()
+    .slice(-RECENT_OUTPUT_DAYS);
+  const recent = output.filter((r) => dates.includes(r.date));
+  const planned = recent.reduce((sum, r) => sum + r.planned, 0);
+  const actual = recent.reduce((sum, r) => sum + r.actual, 0);
+  return planned > 0 ? Math.round((actual / planned) * 1000) / 10 : null;
+}
+
+export function forecastOrder(
+  order: { quantity: number; dueDate: string },
+  allocation: OrderAllocation,
+  today: string,
+  holidays: Set<string>,
+): OrderForecast {
+  const produced = allocation.produced;
+  const remaining = Math.max(0, order.quantity - produced);
+  const recent = allocation.daily
+    .filter((d) => d.date < today && d.quantity > 0)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(-RECENT_OUTPUT_DAYS);
+  const recentDailyOutput = recent.length ? Math.round(recent.reduce((sum, d) => sum + d.quantity, 0) / recent.length) : 0;
+  const workingDaysLeft = today <= order.dueDate ? countWorkingDays(today, order.dueDate, holidays) : 0;
+
+  const base = {
+    produced,
+    remaining,
+    progressPct: order.quantity > 0 ? Math.min(100, Math.round((produced / order.quantity) * 1000) / 10) : 0,
+    recentDailyOutput,
+    workingDaysLeft,
+    requiredDailyOutput: workingDaysLeft > 0 ? Math.ceil(remaining / workingDaysLeft) : null,
+  };
+
+  if (remaining === 0) {
+    const last = allocation.daily.reduce<string | null>((max, d) => (max === null || d.date > max ? d.date : max), null);
+    return { ...base, forecastDate: last, daysLate: 0, risk: 'COMPLETED' };
+  }
+
+  const forecastDate = recentDailyOutput > 0 ? addWorkingDays(today, Math.ceil(remaining / recentDailyOutput), holidays) : null;
+  const daysLate = forecastDate && forecastDate > order.dueDate ? countWorkingDays(addDays(order.dueDate, 1), forecastDate, holidays) : 0;
+
+  let risk: OrderRisk;
+  if (today > order.dueDate) risk = 'OVERDUE';
+  else if (!forecastDate) risk = 'NO_DATA';
+  else risk = daysLate > 0 ? 'AT_RISK' : 'ON_TRACK';
+
+  return { ...base, forecastDate, daysLate, risk };
+}
+
+// ── Ngày làm việc (nghỉ Chủ nhật + ngày lễ) ──────────────────
+
+export function isWorkingDay(date: string, holidays: Set<string>): boolean {
+  return new Date(`${date}T00:00:00.000Z`).getUTCDay() !== 0 && !holidays.has(date);
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00.000Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Số ngày làm việc trong [from, to] */
+export function countWorkingDays(from: string, to: string, holidays: Set<string>): number {
+  let count = 0;
+  for (let d = from; d <= to; d = addDays(d, 1)) {
+    if (isWorkingDay(d, holidays)) count += 1;
+  }
+  return count;
+}
+
+/** Ngày làm việc thứ N tính từ `from` (from là ngày làm việc thì tính là ngày thứ 1) */
+export function addWorkingDays(from: string, days: number, holidays: Set<string>): string {
+  let d = from;
+  let left = days;
+  while (true) {
+    if (isWorkingDay(d, holidays)) {
+      left -= 1;
+      if (left <= 0) return d;
+    }
+    d = addDays(d, 1);
+  }
+}
+
+/** Cột @db.Date ↔ "YYYY-MM-DD" */
+export function toDate(value: string): Date {
+  return new Date(`${value}T00:00:00.000Z`);
+}
+
+export function toDateString(value: Date): string {
+  return value.toISOString().slice(0, 10);
+}
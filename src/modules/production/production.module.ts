@@ -1,6 +1,7 @@
 import { Module } from '@nestjs/common';
 import { EnvironmentConfig } from '../../config/config.environment';
 import { CommonModule } from '../../common/common.module';
+import { WorksheetModule } from '../worksheet/worksheet.module';
 
 // Services
 import { TeamService } from './services/team.service';
@@ -12,7 +13,7 @@ import { GroupController } from './controllers/group.controller';
 import { ProductionController } from './production.controller';
 
 @Module({
-  imports: [CommonModule],
+  imports: [CommonModule, WorksheetModule],
   controllers: [
     ProductionController,
     TeamController,
@@ -8,10 +8,14 @@ import { PrismaService } from '../../../common/prisma.service';
 import { CreateGroupDto } from '../dto/group/create-group.dto';
 import { UpdateGroupDto } from '../dto/group/update-group.dto';
 import { TransferGroupDto } from '../dto/group/transfer-group.dto';
+import { ShiftTemplateService } from '../../worksheet/shift-template.service';
 
 @Injectable()
 export class GroupService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private shiftTemplates: ShiftTemplateService,
+  ) {}
 
   async create(createGroupDto: CreateGroupDto) {
     const { code, teamId } = createGroupDto;
@@ -352,6 +356,7 @@ export class GroupService {
       select: {
         date: true,
         shiftType: true,
+        shiftTemplateId: true,
         productId: true,
         processId: true,
         plannedOutput: true,
@@ -369,6 +374,11 @@ export class GroupService {
       }
     });
 
+    // Khung giờ ca theo phiếu mẫu của từng ngày (key = dateKey)
+    const shiftsByDate = await this.shiftTemplates.resolveForWorksheets(
+      [...worksheetsByDate].map(([dateKey, ws]) => ({ ...ws, id: dateKey })),
+    );
+
     // Add user to group and create missing worksheets
     return this.prisma.$transaction(async (tx) => {
       // Update user's groupId
@@ -407,6 +417,7 @@ export class GroupService {
               productId: templateWorksheet.productId,
               processId: templateWorksheet.processId,
               shiftType: templateWorksheet.shiftType,
+              shiftTemplateId: shiftsByDate.get(dateStr)?.id ?? null,
               plannedOutput: templateWorksheet.plannedOutput,
               createdById: userId, // Use the new user as creator
               status: 'ACTIVE',
@@ -414,9 +425,7 @@ export class GroupService {
           });
 
           // Create records for each work hour
-          const workHours = this.getWorkHoursForShift(
-            templateWorksheet.shiftType,
-          );
+          const workHours = shiftsByDate.get(dateStr)?.slots ?? [];
 
           for (const { hour, startTime, endTime } of workHours) {
             await tx.workSheetRecord.create({
@@ -459,36 +468,6 @@ export class GroupService {
   }
 
   // Helper methods for worksheet creation
-  private getWorkHoursForShift(shiftType: string) {
-    const baseHours = [
-      { hour: 1, startTime: '07:30', endTime: '08:30' },
-      { hour: 2, startTime: '08:30', endTime: '09:30' },
-      { hour: 3, startTime: '09:30', endTime: '10:30' },
-      { hour: 4, startTime: '10:30', endTime: '11:30' },
-      { hour: 5, startTime: '12:30', endTime: '13:30' },
-      { hour: 6, startTime: '13:30', endTime: '14:30' },
-      { hour: 7, startTime: '14:30', endTime: '15:30' },
-      { hour: 8, startTime: '15:30', endTime: '16:30' },
-    ];
-
-    switch (shiftType) {
-      case 'EXTENDED_9_5H':
-        return [
-          ...baseHours,
-          { hour: 9, startTime: '16:30', endTime: '18:00' },
-        ];
-      case 'OVERTIME_11H':
-        return [
-          ...baseHours,
-          { hour: 9, startTime: '17:00', endTime: '18:00' },
-          { hour: 10, startTime: '18:00', endTime: '19:00' },
-          { hour: 11, startTime: '19:00', endTime: '20:00' },
-        ];
-      default:
-        return baseHours;
-    }
-  }
-
   private createDateTimeFromTimeString(date: Date, timeString: string): Date {
     const [hours, minutes] = timeString.split(':').map(Number);
 
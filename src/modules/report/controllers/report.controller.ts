@@ -0,0 +1,151 @@
+import {
+  Controller, Get, Post, Put, Patch, Delete, Body, Param, Query,
+  ParseUUIDPipe, DefaultValuePipe, ParseIntPipe,
+} from '@nestjs/common';
+import { ReportService } from '../services/report.service';
+import { TaskEvaluationService } from '../services/task-evaluation.service';
+import { CreateReportDto, UpdateReportDto, UpdateReportTaskDto, SetReportLockDto } from '../dto/report.dto';
+import { EvaluateTaskDto } from '../dto/task-evaluation.dto';
+import { GetUser } from 'src/common/decorators/get-user.decorator';
+import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+
+@Controller('reports')
+export class ReportController {
+  constructor(
+    private readonly service: ReportService,
+    private readonly evaluationService: TaskEvaluationService,
+  ) {}
+
+  private resolveCompanyId(user: any): string | undefined {
+    const isSuperAdmin = user?.roles?.some((r: any) => r?.roleDefinition?.code === 'SUPERADMIN');
+    return isSuperAdmin ? undefined : (user?.companyId ?? undefined);
+  }
+
+  // ── Kỳ báo cáo hiện tại ─────────────────────────────────────
+
+  @Get('current-period')
+  @RequirePermissions('reports:view')
+  getCurrentPeriod() {
+    return this.service.getCurrentPeriod();
+  }
+
+  // ── Báo cáo của tôi ─────────────────────────────────────────
+
+  @Post()
+  @RequirePermissions('reports:create')
+  create(@GetUser('id') userId: string, @Body() dto: CreateReportDto) {
+    return this.service.create(userId, dto);
+  }
+
+  @Get('my')
+  @RequirePermissions('reports:view')
+  getMyReports(
+    @GetUser('id') userId: string,
+    @Query('year') year?: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page?: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit?: number,
+  ) {
+    return this.service.getMyReports(userId, { year: year ? Number(year) : undefined, page, limit });
+  }
+
+  @Get('my/week')
+  @RequirePermissions('reports:view')
+  getMyReportByWeek(
+    @GetUser('id') userId: string,
+    @Query('weekNumber') weekNumber?: string,
+    @Query('year') year?: string,
+  ) {
+    return this.service.getMyReportByWeek(
+      userId,
+      weekNumber ? Number(weekNumber) : undefined,
+      year ? Number(year) : undefined,
+    );
+  }
+
+  // ── Báo cáo cấp dưới ────────────────────────────────────────
+
+  @Get('hierarchy')
+  @RequirePermissions('hierarchy-reports:view')
+  getHierarchyReports(
+    @GetUser('id') userId: string,
+    @Query('weekNumber') weekNumber?: string,
+    @Query('year') year?: string,
+    @Query('departmentId') departmentId?: string,
+  ) {
+    return this.service.getHierarchyReports(userId, {
+      weekNumber: weekNumber ? Number(weekNumber) : undefined,
+      year: year ? Number(year) : undefined,
+      departmentId,
+    });
+  }
+
+  // ── Công việc & đánh giá ────────────────────────────────────
+
+  @Patch('tasks/:taskId')
+  @RequirePermissions('reports:update')
+  updateTask(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @GetUser('id') userId: string,
+    @Body() dto: UpdateReportTaskDto,
+  ) {
+    return this.service.updateTask(taskId, userId, dto);
+  }
+
+  @Get('tasks/:taskId/evaluations')
+  @RequirePermissions('task-evaluations:view')
+  getEvaluations(@Param('taskId', ParseUUIDPipe) taskId: string, @GetUser('id') userId: string) {
+    return this.evaluationService.getEvaluations(taskId, userId);
+  }
+
+  @Put('tasks/:taskId/evaluations')
+  @RequirePermissions('task-evaluations:create')
+  evaluate(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @GetUser('id') userId: string,
+    @Body() dto: EvaluateTaskDto,
+  ) {
+    return this.evaluationService.evaluate(taskId, userId, dto);
+  }
+
+  @Delete('tasks/:taskId/evaluations')
+  @RequirePermissions('task-evaluations:delete')
+  removeEvaluation(@Param('taskId', ParseUUIDPipe) taskId: string, @GetUser('id') userId: string) {
+    return this.evaluationService.remove(taskId, userId);
+  }
+
+  // ── Chi tiết / sửa / xoá ────────────────────────────────────
+
+  @Get(':id')
+  @RequirePermissions('reports:view')
+  findOne(@Param('id', ParseUUIDPipe) id: string, @GetUser('id') userId: string) {
+    return this.service.findById(id, userId);
+  }
+
+  @Put(':id')
+  @RequirePermissions('reports:update')
+  update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @GetUser('id') userId: string,
+    @Body() dto: UpdateReportDto,
+  ) {
+    return this.service.update(id, userId, dto);
+  }
+
+  @Delete(':id')
+  @RequirePermissions('reports:delete')
+  delete(@Param('id', ParseUUIDPipe) id: string, @GetUser('id') userId: string) {
+    return this.service.delete(id, userId);
+  }
+
+  // ── Admin: khoá / mở khoá ───────────────────────────────────
+
+  @Patch(':id/lock')
+  @RequirePermissions('reports:manage')
+  setLocked(
+    @Param('id', ParseUUIDPipe) id: string,
+    @GetUser() currentUser: any,
+    @Body() dto: SetReportLockDto,
+  ) {
+    return this.service.setLocked(id, dto.isLocked, this.resolveCompanyId(currentUser));
+  }
+}
@@ -0,0 +1,86 @@
+import {
+  IsString, IsBoolean, IsOptional, IsInt, IsArray, IsUUID,
+  ValidateNested, Min, Max, MinLength, ArrayMaxSize,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ReportTaskDto {
+  /** Có id = sửa công việc hiện có (giữ đánh giá của quản lý); không có = thêm mới */
+  @IsOptional()
+  @IsUUID()
+  id?: string;
+
+  @IsString()
+  @MinLength(1)
+  taskName: string;
+
+  @IsOptional() @IsBoolean() monday?: boolean;
+  @IsOptional() @IsBoolean() tuesday?: boolean;
+  @IsOptional() @IsBoolean() wednesday?: boolean;
+  @IsOptional() @IsBoolean() thursday?: boolean;
+  @IsOptional() @IsBoolean() friday?: boolean;
+  @IsOptional() @IsBoolean() saturday?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  isCompleted?: boolean;
+
+  /** Lý do chưa hoàn thành (bỏ qua khi isCompleted = true) */
+  @IsOptional()
+  @IsString()
+  reasonNotDone?: string;
+}
+
+export class CreateReportDto {
+  @IsInt()
+  @Min(1)
+  @Max(53)
+  weekNumber: number;
+
+  @IsInt()
+  @Min(2000)
+  year: number;
+
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => ReportTaskDto)
+  tasks: ReportTaskDto[];
+}
+
+/** Thay toàn bộ danh sách công việc của báo cáo */
+export class UpdateReportDto {
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => ReportTaskDto)
+  tasks: ReportTaskDto[];
+}
+
+/** Cập nhật 1 công việc (tick ngày / hoàn thành) */
+export class UpdateReportTaskDto {
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  taskName?: string;
+
+  @IsOptional() @IsBoolean() monday?: boolean;
+  @IsOptional() @IsBoolean() tuesday?: boolean;
+  @IsOptional() @IsBoolean() wednesday?: boolean;
+  @IsOptional() @IsBoolean() thursday?: boolean;
+  @IsOptional() @IsBoolean() friday?: boolean;
+  @IsOptional() @IsBoolean() saturday?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  isCompleted?: boolean;
+
+  @IsOptional()
+  @IsString()
+  reasonNotDone?: string;
+}
+
+export class SetReportLockDto {
+  @IsBoolean()
+  isLocked: boolean;
+}
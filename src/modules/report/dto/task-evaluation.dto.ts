@@ -0,0 +1,20 @@
+import { IsString, IsBoolean, IsOptional, IsEnum } from 'class-validator';
+import { EvaluationType } from '@prisma/client';
+
+export class EvaluateTaskDto {
+  @IsEnum(EvaluationType)
+  evaluationType: EvaluationType;
+
+  /** Đánh giá của quản lý về việc hoàn thành (mặc định giữ nguyên tự đánh giá của nhân viên) */
+  @IsOptional()
+  @IsBoolean()
+  evaluatedIsCompleted?: boolean;
+
+  @IsOptional()
+  @IsString()
+  evaluatedReasonNotDone?: string;
+
+  @IsOptional()
+  @IsString()
+  evaluatorComment?: string;
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ReportController } from './controllers/report.controller';
+import { ReportService } from './services/report.service';
+import { TaskEvaluationService } from './services/task-evaluation.service';
+import { CommonModule } from 'src/common/common.module';
+import { WebSocketModule } from '../websocket/websocket.module';
+
+@Module({
+  imports: [CommonModule, WebSocketModule],
+  controllers: [ReportController],
+  providers: [ReportService, TaskEvaluationService],
+  exports: [ReportService],
+})
+export class ReportModule {}
@@ -0,0 +1,475 @@
+import {
+  Injectable, BadRequestException, NotFoundException, ForbiddenException, Logger,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from 'src/common/prisma.service';
+import { PermissionsService } from 'src/common/permissions.service';
+import {
+  getCurrentWorkWeek, getCurrentReportingPeriod, getWorkWeekDateRange,
+  isValidWeekForCreation, isValidWeekForEdit, isValidWeekForDeletion, formatWorkWeek,
+} from 'src/common/utils/week-utils';
+import { CreateReportDto, ReportTaskDto, UpdateReportDto, UpdateReportTaskDto } from '../dto/report.dto';
+
+const USER_SELECT = {
+  id: true, firstName: true, lastName: true, employeeCode: true,
+  jobPosition: {
+    select: {
+      jobName: true,
+      position: { select: { name: true, level: true } },
+      department: { select: { id: true, name: true } },
+    },
+  },
+};
+
+const REPORT_INCLUDE = {
+  user: { select: USER_SELECT },
+  tasks: {
+    orderBy: { createdAt: 'asc' as const },
+    include: {
+      evaluations: {
+        orderBy: { updatedAt: 'desc' as const },
+        include: { evaluator: { select: { id: true, firstName: true, lastName: true, employeeCode: true } } },
+      },
+    },
+  },
+};
+
+export interface ReportViewerContext {
+  id: string;
+  companyId: string;
+  departmentId: string | null;
+  positionLevel: number;
+  canViewHierarchy: boolean;
+  managedDeptIds: string[];
+  canManage: boolean; // SUPERADMIN hoặc có quyền reports:manage
+  isSuperAdmin: boolean;
+}
+
+/**
+ * ReportService — báo cáo công việc tuần
+ * - Tuần báo cáo theo work week (T6 tuần trước → T5), xem common/utils/week-utils
+ * - Tạo/sửa chỉ trong tuần hiện tại ± 1; khoá sau khi hết kỳ báo cáo (hết T5 của work week)
+ * - Chỉ nhân viên có Position.isReportable mới phải/được nộp báo cáo
+ * - Quản lý có Position.canViewHierarchy xem được báo cáo cấp dưới
+ */
+@Injectable()
+export class ReportService {
+  private readonly logger = new Logger(ReportService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly permissionsService: PermissionsService,
+  ) {}
+
+  // ── Tạo báo cáo ──────────────────────────────────────────────
+
+  async create(userId: string, dto: CreateReportDto) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { jobPosition: { select: { position: { select: { isReportable: true } } } } },
+    });
+    if (!user?.jobPosition?.position?.isReportable) {
+      throw new ForbiddenException('Chức vụ của bạn không thuộc diện nộp báo cáo tuần');
+    }
+
+    const current = getCurrentWorkWeek();
+    if (!isValidWeekForCreation(dto.weekNumber, dto.year, current.weekNumber, current.year)) {
+      throw new BadRequestException('Chỉ được tạo báo cáo cho tuần trước, tuần hiện tại hoặc tuần kế tiếp');
+    }
+    if (this.isReportingPeriodOver(dto.weekNumber, dto.year)) {
+      throw new BadRequestException(`${formatWorkWeek(dto.weekNumber, dto.year)} đã hết kỳ báo cáo`);
+    }
+
+    const existing = await this.prisma.report.findUnique({
+      where: { weekNumber_year_userId: { weekNumber: dto.weekNumber, year: dto.year, userId } },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new BadRequestException(`Bạn đã có báo cáo ${formatWorkWeek(dto.weekNumber, dto.year)}`);
+    }
+
+    const tasks = dto.tasks.map((t) => this.toTaskData(t));
+    return this.prisma.report.create({
+      data: {
+        weekNumber: dto.weekNumber,
+        year: dto.year,
+        userId,
+        isCompleted: this.computeCompleted(tasks),
+        tasks: { create: tasks },
+      },
+      include: REPORT_INCLUDE,
+    });
+  }
+
+  // ── Báo cáo của tôi ──────────────────────────────────────────
+
+  async getMyReports(userId: string, query: { year?: number; page?: number; limit?: number }) {
+    const { year, page = 1, limit = 20 } = query;
+    const where: Prisma.ReportWhereInput = { userId, ...(year ? { year } : {}) };
+
+    const [data, total] = await Promise.all([
+      this.prisma.report.findMany({
+        where,
+        orderBy: [{ year: 'desc' }, { weekNumber: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+        include: { _count: { select: { tasks: true } } },
+      }),
+      this.prisma.report.count({ where }),
+    ]);
+
+    return { data, total, page, limit };
+  }
+
+  async getMyReportByWeek(userId: string, weekNumber?: number, year?: number) {
+    const week = weekNumber && year ? { weekNumber, year } : getCurrentWorkWeek();
+    const report = await this.prisma.report.findUnique({
+      where: { weekNumber_year_userId: { weekNumber: week.weekNumber, year: week.year, userId } },
+      include: REPORT_INCLUDE,
+    });
+    return { ...week, report };
+  }
+
+  /** Thông tin kỳ báo cáo hiện tại — FE dùng để hiển thị tuần & hạn chót */
+  getCurrentPeriod() {
+    const period = getCurrentReportingPeriod();
+    return {
+      ...period,
+      title: formatWorkWeek(period.workWeek.weekNumber, period.workWeek.year, 'full'),
+    };
+  }
+
+  // ── Xem chi tiết ─────────────────────────────────────────────
+
+  async findById(id: string, viewerId: string) {
+    const report = await this.prisma.report.findUnique({ where: { id }, include: REPORT_INCLUDE });
+    if (!report) throw new NotFoundException('Không tìm thấy báo cáo');
+
+    const viewer = await this.getViewerContext(viewerId);
+    if (!(await this.canViewUserReports(viewer, report.userId))) {
+      throw new ForbiddenException('Bạn không có quyền xem báo cáo này');
+    }
+    return report;
+  }
+
+  // ── Cập nhật ─────────────────────────────────────────────────
+
+  async update(id: string, userId: string, dto: UpdateReportDto) {
+    const report = await this.getEditableReport(id, userId);
+    const tasks = dto.tasks.map((t) => this.toTaskData(t));
+
+    const existingIds = new Set(
+      (await this.prisma.reportTask.findMany({ where: { reportId: report.id }, select: { id: true } })).map((t) => t.id),
+    );
+    const unknown = dto.tasks.find((t) => t.id && !existingIds.has(t.id));
+    if (unknown) throw new BadRequestException('Công việc không thuộc báo cáo này');
+    const keptIds = dto.tasks.filter((t) => t.id).map((t) => t.id!);
+
+    // Sửa tại chỗ theo id → giữ đánh giá của quản lý; chỉ công việc bị bỏ khỏi danh sách mới bị xoá (kèm đánh giá)
+    await this.prisma.$transaction([
+      this.prisma.reportTask.deleteMany({ where: { reportId: report.id, id: { notIn: keptIds } } }),
+      ...dto.tasks.map((t, i) =>
+        t.id
+          ? this.prisma.reportTask.update({ where: { id: t.id }, data: tasks[i] })
+          : this.prisma.reportTask.create({ data: { ...tasks[i], reportId: report.id } }),
+      ),
+      this.prisma.report.update({
+        where: { id: report.id },
+        data: { isCompleted: this.computeCompleted(tasks) },
+      }),
+    ]);
+
+    return this.prisma.report.findUnique({ where: { id: report.id }, include: REPORT_INCLUDE });
+  }
+
+  async updateTask(taskId: string, userId: string, dto: UpdateReportTaskDto) {
+    const task = await this.prisma.reportTask.findUnique({
+      where: { id: taskId },
+      select: { id: true, reportId: true, isCompleted: true, reasonNotDone: true },
+    });
+    if (!task) throw new NotFoundException('Không tìm thấy công việc');
+    await this.getEditableReport(task.reportId, userId);
+
+    const isCompleted = dto.isCompleted ?? task.isCompleted;
+    const reasonNotDone = dto.reasonNotDone !== undefined ? dto.reasonNotDone?.trim() || null : task.reasonNotDone;
+
+    await this.prisma.reportTask.update({
+      where: { id: taskId },
+      data: {
+        ...(dto.taskName !== undefined ? { taskName: dto.taskName.trim() } : {}),
+        ...(dto.monday !== undefined ? { monday: dto.monday } : {}),
+        ...(dto.tuesday !== undefined ? { tuesday: dto.tuesday } : {}),
+        ...(dto.wednesday !== undefined ? { wednesday: dto.wednesday } : {}),
+        ...(dto.thursday !== undefined ? { thursday: dto.thursday } : {}),
+        ...(dto.friday !== undefined ? { friday: dto.friday } : {}),
+        ...(dto.saturday !== undefined ? { saturday: dto.saturday } : {}),
+        isCompleted,
+        reasonNotDone: isCompleted ? null : reasonNotDone,
+      },
+    });
+    await this.refreshCompletion(task.reportId);
+
+    return this.prisma.report.findUnique({ where: { id: task.reportId }, include: REPORT_INCLUDE });
+  }
+
+  // ── Xoá ──────────────────────────────────────────────────────
+
+  async delete(id: string, userId: string) {
+    const report = await this.getEditableReport(id, userId);
+    const current = getCurrentWorkWeek();
+    if (!isValidWeekForDeletion(report.weekNumber, report.year, current.weekNumber, current.year)) {
+      throw new BadRequestException('Chỉ được xoá báo cáo của tuần hiện tại hoặc tuần kế tiếp');
+    }
+    await this.prisma.report.delete({ where: { id } });
+    return { message: 'Đã xoá báo cáo' };
+  }
+
+  // ── Admin: khoá / mở khoá ────────────────────────────────────
+
+  async setLocked(id: string, isLocked: boolean, companyId?: string) {
+    const report = await this.prisma.report.findUnique({
+      where: { id },
+      select: { id: true, user: { select: { companyId: true } } },
+    });
+    if (!report) throw new NotFoundException('Không tìm thấy báo cáo');
+    if (companyId && report.user.companyId !== companyId) {
+      throw new ForbiddenException('Báo cáo không thuộc công ty của bạn');
+    }
+    // Mở khoá thủ công được ghi nhận để kiểm tra quyền sửa và cron auto-lock không khoá lại theo hạn kỳ
+    return this.prisma.report.update({
+      where: { id },
+      data: { isLocked, unlockedAt: isLocked ? null : new Date() },
+      include: REPORT_INCLUDE,
+    });
+  }
+
+  // ── Báo cáo cấp dưới theo tuần ───────────────────────────────
+
+  /**
+   * Danh sách nhân viên (isReportable) mà viewer được xem, kèm tình trạng báo cáo tuần.
+   * Nhân viên chưa nộp báo cáo vẫn xuất hiện với report = null.
+   */
+  async getHierarchyReports(
+    viewerId: string,
+    query: { weekNumber?: number; year?: number; departmentId?: string },
+  ) {
+    const week = query.weekNumber && query.year
+      ? { weekNumber: query.weekNumber, year: query.year }
+      : getCurrentWorkWeek();
+
+    const viewer = await this.getViewerContext(viewerId);
+    const scope = this.buildVisibleUsersWhere(viewer);
+    if (!scope) throw new ForbiddenException('Bạn không có quyền xem báo cáo của cấp dưới');
+
+    const users = await this.prisma.user.findMany({
+      where: {
+        AND: [
+          scope,
+          {
+            isActive: true,
+            id: { not: viewer.id },
+            jobPosition: {
+              position: { isReportable: true },
+              ...(query.departmentId ? { departmentId: query.departmentId } : {}),
+            },
+          },
+        ],
+      },
+      select: {
+        ...USER_SELECT,
+        reports: {
+          where: { weekNumber: week.weekNumber, year: week.year },
+          select: {
+            id: true, isCompleted: true, isLocked: true, updatedAt: true,
+            tasks: { select: { isCompleted: true, _count: { select: { evaluations: true } } } },
+          },
+        },
+      },
+      orderBy: [{ jobPosition: { department: { name: 'asc' } } }, { firstName: 'asc' }],
+    });
+
+    const data = users.map(({ reports, ...user }) => {
+      const report = reports[0] ?? null;
+      return {
+        user,
+        report: report
+          ? {
+              id: report.id,
+              isCompleted: report.isCompleted,
+              isLocked: report.isLocked,
+              updatedAt: report.updatedAt,
+              totalTasks: report.tasks.length,
+              completedTasks: report.tasks.filter((t) => t.isCompleted).length,
+              evaluatedTasks: report.tasks.filter((t) => t._count.evaluations > 0).length,
+            }
+          : null,
+      };
+    });
+
+    return {
+      ...week,
+      title: formatWorkWeek(week.weekNumber, week.year, 'full'),
+      summary: {
+        totalUsers: data.length,
+        submitted: data.filter((d) => d.report).length,
+        notSubmitted: data.filter((d) => !d.report).length,
+        completed: data.filter((d) => d.report?.isCompleted).length,
+      },
+      data,
+    };
+  }
+
+  // ── Cron: khoá báo cáo sau kỳ báo cáo ────────────────────────
+
+  @Cron('5 0 * * *', { name: 'report-auto-lock' }) // 00:05 hàng ngày
+  async lockExpiredReports() {
+    const openWeeks = await this.prisma.report.groupBy({
+      by: ['year', 'weekNumber'],
+      where: { isLocked: false, unlockedAt: null },
+    });
+
+    let locked = 0;
+    for (const w of openWeeks) {
+      if (!this.isReportingPeriodOver(w.weekNumber, w.year)) continue;
+      const result = await this.prisma.report.updateMany({
+        where: { year: w.year, weekNumber: w.weekNumber, isLocked: false, unlockedAt: null },
+        data: { isLocked: true },
+      });
+      locked += result.count;
+    }
+
+    if (locked > 0) this.logger.log(`[Report] Đã khoá ${locked} báo cáo hết kỳ`);
+  }
+
+  // ── Visibility ───────────────────────────────────────────────
+
+  async getViewerContext(viewerId: string): Promise<ReportViewerContext> {
+    const viewer = await this.prisma.user.findUnique({
+      where: { id: viewerId },
+      select: {
+        id: true,
+        companyId: true,
+        jobPosition: {
+          select: { departmentId: true, position: { select: { level: true, canViewHierarchy: true } } },
+        },
+        managedDepartments: { where: { isActive: true }, select: { departmentId: true } },
+        roles: { where: { isActive: true }, select: { roleDefinition: { select: { code: true } } } },
+      },
+    });
+    if (!viewer) throw new NotFoundException('Không tìm thấy người dùng');
+
+    const isSuperAdmin = viewer.roles.some((r) => r.roleDefinition?.code === 'SUPERADMIN');
+    const canManage = isSuperAdmin || (await this.permissionsService.hasPermission(viewerId, 'reports', 'manage'));
+
+    return {
+      id: viewer.id,
+      companyId: viewer.companyId,
+      departmentId: viewer.jobPosition?.departmentId ?? null,
+      positionLevel: viewer.jobPosition?.position?.level ?? 0,
+      canViewHierarchy: viewer.jobPosition?.position?.canViewHierarchy ?? false,
+      managedDeptIds: viewer.managedDepartments.map((d) => d.departmentId),
+      canManage,
+      isSuperAdmin,
+    };
+  }
+
+  /**
+   * Viewer xem được báo cáo của target khi:
+   * - là chính mình
+   * - có quyền reports:manage (trong công ty; SUPERADMIN mọi công ty)
+   * - chức vụ canViewHierarchy và target thuộc phòng viewer quản lý (UDM),
+   *   hoặc cùng phòng với cấp bậc thấp hơn (position.level lớn hơn)
+   */
+  async canViewUserReports(viewer: ReportViewerContext, targetUserId: string): Promise<boolean> {
+    if (viewer.id === targetUserId) return true;
+    const scope = this.buildVisibleUsersWhere(viewer);
+    if (!scope) return false;
+    const count = await this.prisma.user.count({ where: { AND: [scope, { id: targetUserId }] } });
+    return count > 0;
+  }
+
+  /** Điều kiện Prisma cho tập user viewer được xem (không gồm chính mình); null = không xem được ai */
+  private buildVisibleUsersWhere(viewer: ReportViewerContext): Prisma.UserWhereInput | null {
+    if (viewer.isSuperAdmin) return {};
+    if (viewer.canManage) return { companyId: viewer.companyId };
+    if (!viewer.canViewHierarchy) return null;
+
+    const conditions: Prisma.UserWhereInput[] = [];
+    if (viewer.managedDeptIds.length > 0) {
+      conditions.push({ jobPosition: { departmentId: { in: viewer.managedDeptIds } } });
+    }
+    if (viewer.departmentId) {
+      conditions.push({
+        jobPosition: {
+          departmentId: viewer.departmentId,
+          position: { level: { gt: viewer.positionLevel } },
+        },
+      });
+    }
+    if (conditions.length === 0) return null;
+    return { companyId: viewer.companyId, OR: conditions };
+  }
+
+  // ── Helpers ──────────────────────────────────────────────────
+
+  /** Kỳ báo cáo của work week kết thúc cuối ngày T5 */
+  isReportingPeriodOver(weekNumber: number, year: number, now = new Date()): boolean {
+    const { resultDays } = getWorkWeekDateRange(weekNumber, year);
+    const periodEnd = new Date(resultDays[3].getTime());
+    periodEnd.setHours(23, 59, 59, 999);
+    return now > periodEnd;
+  }
+
+  async refreshCompletion(reportId: string) {
+    const tasks = await this.prisma.reportTask.findMany({
+      where: { reportId },
+      select: { isCompleted: true },
+    });
+    await this.prisma.report.update({
+      where: { id: reportId },
+      data: { isCompleted: this.computeCompleted(tasks) },
+    });
+  }
+
+  private async getEditableReport(id: string, userId: string) {
+    const report = await this.prisma.report.findUnique({
+      where: { id },
+      select: { id: true, userId: true, weekNumber: true, year: true, isLocked: true, unlockedAt: true },
+    });
+    if (!report) throw new NotFoundException('Không tìm thấy báo cáo');
+    if (report.userId !== userId) throw new ForbiddenException('Không có quyền chỉnh sửa báo cáo này');
+    if (report.isLocked) {
+      throw new BadRequestException('Báo cáo đã bị khoá do hết kỳ báo cáo');
+    }
+    // Admin đã mở khoá → được sửa dù đã hết kỳ / ngoài cửa sổ tuần
+    if (report.unlockedAt) return report;
+    if (this.isReportingPeriodOver(report.weekNumber, report.year)) {
+      throw new BadRequestException('Báo cáo đã bị khoá do hết kỳ báo cáo');
+    }
+    const current = getCurrentWorkWeek();
+    if (!isValidWeekForEdit(report.weekNumber, report.year, current.weekNumber, current.year)) {
+      throw new BadRequestException('Chỉ được chỉnh sửa báo cáo của tuần trước, tuần hiện tại hoặc tuần kế tiếp');
+    }
+    return report;
+  }
+
+  private toTaskData(t: ReportTaskDto) {
+    const isCompleted = t.isCompleted ?? false;
+    return {
+      taskName: t.taskName.trim(),
+      monday: t.monday ?? false,
+      tuesday: t.tuesday ?? false,
+      wednesday: t.wednesday ?? false,
+      thursday: t.thursday ?? false,
+      friday: t.friday ?? false,
+      saturday: t.saturday ?? false,
+      isCompleted,
+      reasonNotDone: isCompleted ? null : t.reasonNotDone?.trim() || null,
+    };
+  }
+
+  private computeCompleted(tasks: { isCompleted: boolean }[]): boolean {
+    return tasks.length > 0 && tasks.every((t) => t.isCompleted);
+  }
+}
@@ -0,0 +1,144 @@
+import {
+  Injectable, BadRequestException, NotFoundException, ForbiddenException,
+} from '@nestjs/common';
+import { PrismaService } from 'src/common/prisma.service';
+import { WebSocketGateway } from 'src/modules/websocket/websocket.gateway';
+import { formatWorkWeek } from 'src/common/utils/week-utils';
+import { ReportService } from './report.service';
+import { EvaluateTaskDto } from '../dto/task-evaluation.dto';
+
+const EVALUATION_LABEL: Record<string, string> = {
+  APPROVAL: 'xác nhận',
+  REJECTION: 'không xác nhận',
+  REVIEW: 'nhận xét',
+};
+
+/**
+ * TaskEvaluationService — quản lý đánh giá công việc trong báo cáo tuần.
+ * Mỗi người đánh giá có tối đa 1 bản ghi / công việc (@@unique taskId + evaluatorId).
+ * Giá trị tự đánh giá ban đầu của nhân viên được lưu lại (original*) để có thể hoàn tác.
+ */
+@Injectable()
+export class TaskEvaluationService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly reportService: ReportService,
+    private readonly wsGateway: WebSocketGateway,
+  ) {}
+
+  async getEvaluations(taskId: string, viewerId: string) {
+    const task = await this.getTaskWithOwner(taskId);
+    const viewer = await this.reportService.getViewerContext(viewerId);
+    if (!(await this.reportService.canViewUserReports(viewer, task.report.userId))) {
+      throw new ForbiddenException('Bạn không có quyền xem báo cáo này');
+    }
+    return this.prisma.taskEvaluation.findMany({
+      where: { taskId },
+      orderBy: { updatedAt: 'desc' },
+      include: { evaluator: { select: { id: true, firstName: true, lastName: true, employeeCode: true } } },
+    });
+  }
+
+  async evaluate(taskId: string, evaluatorId: string, dto: EvaluateTaskDto) {
+    const task = await this.getTaskWithOwner(taskId);
+    if (task.report.userId === evaluatorId) {
+      throw new ForbiddenException('Không thể tự đánh giá báo cáo của chính mình');
+    }
+    const viewer = await this.reportService.getViewerContext(evaluatorId);
+    if (!(await this.reportService.canViewUserReports(viewer, task.report.userId))) {
+      throw new ForbiddenException('Bạn không có quyền đánh giá báo cáo này');
+    }
+
+    const existing = await this.prisma.taskEvaluation.findUnique({
+      where: { taskId_evaluatorId: { taskId, evaluatorId } },
+      select: { originalIsCompleted: true, originalReasonNotDone: true },
+    });
+    // Giữ giá trị gốc từ lần đánh giá đầu tiên của bất kỳ ai
+    const first = existing ?? await this.prisma.taskEvaluation.findFirst({
+      where: { taskId },
+      orderBy: { createdAt: 'asc' },
+      select: { originalIsCompleted: true, originalReasonNotDone: true },
+    });
+    const originalIsCompleted = first?.originalIsCompleted ?? task.isCompleted;
+    const originalReasonNotDone = first ? first.originalReasonNotDone : task.reasonNotDone;
+
+    const evaluatedIsCompleted = dto.evaluatedIsCompleted
+      ?? (dto.evaluationType === 'REJECTION' ? false : task.isCompleted);
+    const evaluatedReasonNotDone = evaluatedIsCompleted
+      ? null
+      : (dto.evaluatedReasonNotDone?.trim() || task.reasonNotDone);
+
+    if (dto.evaluationType === 'REJECTION' && !dto.evaluatorComment?.trim()) {
+      throw new BadRequestException('Vui lòng nhập nhận xét khi không xác nhận công việc');
+    }
+
+    const data = {
+      originalIsCompleted,
+      originalReasonNotDone,
+      evaluatedIsCompleted,
+      evaluatedReasonNotDone,
+      evaluatorComment: dto.evaluatorComment?.trim() || null,
+      evaluationType: dto.evaluationType,
+    };
+
+    const evaluation = await this.prisma.taskEvaluation.upsert({
+      where: { taskId_evaluatorId: { taskId, evaluatorId } },
+      create: { taskId, evaluatorId, ...data },
+      update: data,
+      include: { evaluator: { select: { id: true, firstName: true, lastName: true, employeeCode: true } } },
+    });
+
+    // Kết quả đánh giá của quản lý ghi đè lên công việc
+    await this.prisma.reportTask.update({
+      where: { id: taskId },
+      data: { isCompleted: evaluatedIsCompleted, reasonNotDone: evaluatedReasonNotDone },
+    });
+    await this.reportService.refreshCompletion(task.reportId);
+
+    const evaluatorName = `${evaluation.evaluator.lastName} ${evaluation.evaluator.firstName}`;
+    this.wsGateway.sendNotification(task.report.userId, {
+      type: 'REPORT_TASK_EVALUATED',
+      title: 'Báo cáo tuần được đánh giá',
+      message: `${evaluatorName} đã ${EVALUATION_LABEL[dto.evaluationType]} công việc "${task.taskName}" — ${formatWorkWeek(task.report.weekNumber, task.report.year)}`,
+      data: { reportId: task.reportId, taskId },
+      timestamp: new Date(),
+    });
+
+    return evaluation;
+  }
+
+  async remove(taskId: string, evaluatorId: string) {
+    const evaluation = await this.prisma.taskEvaluation.findUnique({
+      where: { taskId_evaluatorId: { taskId, evaluatorId } },
+      include: { task: { select: { reportId: true } } },
+    });
+    if (!evaluation) throw new NotFoundException('Không tìm thấy đánh giá');
+
+    await this.prisma.taskEvaluation.delete({ where: { id: evaluation.id } });
+
+    // Không còn đánh giá nào → khôi phục tự đánh giá gốc của nhân viên
+    const remaining = await this.prisma.taskEvaluation.findFirst({
+      where: { taskId },
+      orderBy: { updatedAt: 'desc' },
+      select: { evaluatedIsCompleted: true, evaluatedReasonNotDone: true },
+    });
+    await this.prisma.reportTask.update({
+      where: { id: taskId },
+      data: remaining
+        ? { isCompleted: remaining.evaluatedIsCompleted, reasonNotDone: remaining.evaluatedReasonNotDone }
+        : { isCompleted: evaluation.originalIsCompleted, reasonNotDone: evaluation.originalReasonNotDone },
+    });
+    await this.reportService.refreshCompletion(evaluation.task.reportId);
+
+    return { message: 'Đã xoá đánh giá' };
+  }
+
+  private async getTaskWithOwner(taskId: string) {
+    const task = await this.prisma.reportTask.findUnique({
+      where: { id: taskId },
+      include: { report: { select: { userId: true, weekNumber: true, year: true } } },
+    });
+    if (!task) throw new NotFoundException('Không tìm thấy công việc');
+    return task;
+  }
+}
@@ -0,0 +1,23 @@
+import { Socket } from 'socket.io';
+
+/**
+ * Lấy JWT từ handshake:
+ *  1) auth.token / query.token (iOS / token mode)
+ *  2) cookie httpOnly `access_token` (web cookie mode — cookie vẫn được gửi trong WS handshake)
+ */
+export function extractSocketToken(client: Socket): string | undefined {
+  const token = client.handshake.auth?.token || (client.handshake.query?.token as string | undefined);
+  if (token) return token;
+
+  const cookieHeader = client.handshake.headers?.cookie || '';
+  const cookieMap = cookieHeader.split(';').reduce((acc, pair) => {
+    const idx = pair.indexOf('=');
+    if (idx > 0) {
+      const key = pair.slice(0, idx).trim();
+      const val = pair.slice(idx + 1).trim();
+      acc[key] = decodeURIComponent(val);
+    }
+    return acc;
+  }, {} as Record<string, string>);
+  return cookieMap['access_token'];
+}
@@ -11,7 +11,11 @@ import { Server, Socket } from 'socket.io';
 import { UseGuards, Logger, Inject, forwardRef } from '@nestjs/common';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { JwtService } from '@nestjs/jwt';
+import { randomUUID } from 'crypto';
 import { PushNotificationService } from '../push-notification/push-notification.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { extractSocketToken } from './socket-auth.util';
+import { SessionService } from '../../auth/session.service';
 
 @NestWebSocketGateway({
   namespace: 'notifications',
@@ -31,28 +35,14 @@ export class WebSocketGateway implements OnGatewayConnection, OnGatewayDisconnec
     private jwtService: JwtService,
     @Inject(forwardRef(() => PushNotificationService))
     private pushService: PushNotificationService,
+    private notificationsService: NotificationsService,
+    private sessionService: SessionService,
   ) {}
 
   async handleConnection(client: Socket) {
     try {
-      // Extract token: 1) from handshake auth/query (iOS/token mode)
-      //                2) from httpOnly cookie (web cookie mode)
-      let token: string | undefined = client.handshake.auth?.token || client.handshake.query?.token as string;
-
-      if (!token) {
-        // Parse cookie header manually (httpOnly cookies ARE sent in WS handshake)
-        const cookieHeader = client.handshake.headers?.cookie || '';
-        const cookieMap = cookieHeader.split(';').reduce((acc, pair) => {
-          const idx = pair.indexOf('=');
-          if (idx > 0) {
-            const key = pair.slice(0, idx).trim();
-            const val = pair.slice(idx + 1).trim();
-            acc[key] = decodeURIComponent(val);
-          }
-          return acc;
-        }, {} as Record<string, string>);
-        token = cookieMap['access_token'];
-      }
+      // Extract token: handshake auth/query (iOS/token mode) or httpOnly cookie (web cookie mode)
+      const token = extractSocketToken(client);
       
       if (!token) {
         this.logger.warn(`Client ${client.id} connected without token`);
@@ -71,6 +61,14 @@ export class WebSocketGateway implements OnGatewayConnection, OnGatewayDisconnec
         client.disconnect();
         return;
       }
+
+      // Phiên đã bị thu hồi (đăng xuất / đổi mật khẩu / khóa tài khoản) → không cho kết nối
+      if (!(await this.sessionService.isSocketTokenActive(payload))) {
+        this.logger.warn(`Client ${client.id} connected with revoked session (user ${userId})`);
+        client.emit('unauthorized', { message: 'Session revoked' });
+        client.disconnect();
+        return;
+      }
       
       // Store client connection
       this.connectedUsers.set(client.id, { socketId: client.id, userId });
@@ -86,6 +84,9 @@ export class WebSocketGateway implements OnGatewayConnection, OnGatewayDisconnec
         userId,
         timestamp: new Date().toISOString()
       });
+
+      // Phát lại thông báo gửi trong lúc user offline
+      await this.replayMissedNotifications(client, userId);
       
     } catch (error) {
       this.logger.error(`❌ WebSocket authentication failed for client ${client.id}:`, error.message);
@@ -94,6 +95,26 @@ export class WebSocketGateway implements OnGatewayConnection, OnGatewayDisconnec
     }
   }
 
+  private async replayMissedNotifications(client: Socket, userId: string) {
+    try {
+      const missed = await this.notificationsService.takeUndelivered(userId);
+      for (const n of missed) {
+        client.emit('notification', {
+          id: n.id,
+          type: n.type,
+          title: n.title,
+          message: n.message,
+          data: n.data,
+          timestamp: n.createdAt,
+          replayed: true,
+        });
+      }
+      if (missed.length) this.logger.debug(`Replayed ${missed.length} notification(s) to user ${userId}`);
+    } catch (error) {
+      this.logger.warn(`Failed to replay notifications for user ${userId}: ${error.message}`);
+    }
+  }
+
   handleDisconnect(client: Socket) {
     const connection = this.connectedUsers.get(client.id);
     if (connection) {
@@ -144,9 +165,13 @@ export class WebSocketGateway implements OnGatewayConnection, OnGatewayDisconnec
     this.logger.debug(`Gate pass update broadcasted to room: gate-pass-${gatePassId}`);
   }
 
-  // Send notification to specific user
+  // Send notification to specific user (lưu vào hộp thư — user offline sẽ nhận lại khi kết nối)
   sendNotification(userId: string, notification: any) {
-    this.server.to(`user_${userId}`).emit('notification', notification);
+    const id = randomUUID();
+    this.notificationsService
+      .create(userId, notification, { id, delivered: this.isUserConnected(userId) })
+      .catch((err) => this.logger.warn(`Failed to store notification for user ${userId}: ${err.message}`));
+    this.server.to(`user_${userId}`).emit('notification', { ...notification, id });
     this.logger.debug(`Notification sent to user ${userId}:`, notification);
     // Also send Web Push for background delivery
     this.pushService.sendToUser(userId, {
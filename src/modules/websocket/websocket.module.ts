@@ -3,6 +3,8 @@ import { JwtModule } from '@nestjs/jwt';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { WebSocketGateway } from './websocket.gateway';
 import { PushNotificationModule } from '../push-notification/push-notification.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { AuthModule } from '../../auth/auth.module';
 
 @Module({
   imports: [
@@ -16,6 +18,8 @@ import { PushNotificationModule } from '../push-notification/push-notification.m
       }),
     }),
     forwardRef(() => PushNotificationModule),
+    NotificationsModule,
+    AuthModule, // SessionService — kiểm tra phiên khi socket kết nối
   ],
   providers: [WebSocketGateway],
   exports: [WebSocketGateway],
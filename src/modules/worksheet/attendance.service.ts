@@ -0,0 +1,199 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../common/prisma.service';
+import { CreateAttendanceEventDto } from './dto/create-attendance-event.dto';
+import { RecordCauseService } from './record-cause.service';
+import {
+  FULL_RANGE_EVENT_TYPES,
+  adjustPlannedForAttendance,
+  distributeAttendanceMinutes,
+  recordPlannedOutput,
+  slotMinutes,
+  slotsInRange,
+} from './attendance.util';
+
+export const ATTENDANCE_EVENT_SELECT = {
+  id: true,
+  eventType: true,
+  minutes: true,
+  hourStart: true,
+  hourEnd: true,
+  note: true,
+  createdAt: true,
+  targetGroup: { select: { id: true, name: true } },
+  createdBy: { select: { id: true, firstName: true, lastName: true } },
+} satisfies Prisma.AttendanceEventSelect;
+
+interface AttendanceWorksheet {
+  id: string;
+  workerId: string;
+  groupId: string;
+  plannedOutput: number;
+}
+
+/**
+ * AttendanceService
+ * Vắng mặt theo giờ của công nhân (đi muộn, về sớm, vắng, nghỉ, điều chuyển nhóm):
+ * - Nhóm trưởng ghi nhận cho 1 khoảng giờ của phiếu
+ * - SLKH của các giờ bị ảnh hưởng tự trừ theo số phút vắng, xoá sự kiện thì khôi phục
+ */
+@Injectable()
+export class AttendanceService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly recordCauses: RecordCauseService,
+  ) {}
+
+  // ── Sự kiện ──────────────────────────────────────────────────
+
+  listEvents(worksheetId: string) {
+    return this.prisma.attendanceEvent.findMany({
+      where: { worksheetId },
+      select: ATTENDANCE_EVENT_SELECT,
+      orderBy: [{ hourStart: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async createEvent(worksheet: AttendanceWorksheet, dto: CreateAttendanceEventDto, createdById: string) {
+    const slots = await this.prisma.workSheetRecord.findMany({
+      where: { worksheetId: worksheet.id },
+      select: { workHour: true, startTime: true, endTime: true },
+    });
+    if (slots.length === 0) {
+      throw new BadRequestException('Phiếu chưa có giờ làm việc');
+    }
+
+    const hours = new Set(slots.map((s) => s.workHour));
+    for (const hour of [dto.hourStart, dto.hourEnd]) {
+      if (hour !== undefined && !hours.has(hour)) {
+        throw new BadRequestException(`Giờ ${hour} không có trong ca làm việc của phiếu`);
+      }
+    }
+    if (dto.hourStart !== undefined && dto.hourEnd !== undefined && dto.hourStart > dto.hourEnd) {
+      throw new BadRequestException('Giờ bắt đầu phải nhỏ hơn hoặc bằng giờ kết thúc');
+    }
+
+    const rangeMinutes = slotsInRange(slots, dto.hourStart ?? null, dto.hourEnd ?? null)
+      .reduce((sum, s) => sum + slotMinutes(s), 0);
+    const fullRange = FULL_RANGE_EVENT_TYPES.includes(dto.eventType);
+    if (!fullRange) {
+      if (!dto.minutes) {
+        throw new BadRequestException('Vui lòng nhập số phút vắng');
+      }
+      if (dto.minutes > rangeMinutes) {
+        throw new BadRequestException(`Số phút vắng vượt quá khoảng giờ đã chọn (${rangeMinutes} phút)`);
+      }
+    }
+
+    if (dto.eventType === 'REASSIGNMENT') {
+      if (!dto.targetGroupId) {
+        throw new BadRequestException('Vui lòng chọn nhóm được điều chuyển sang');
+      }
+      if (dto.targetGroupId === worksheet.groupId) {
+        throw new BadRequestException('Nhóm điều chuyển phải khác nhóm hiện tại');
+      }
+      const target = await this.prisma.group.findUnique({ where: { id: dto.targetGroupId }, select: { id: true } });
+      if (!target) {
+        throw new NotFoundException('Không tìm thấy nhóm điều chuyển');
+      }
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const event = await tx.attendanceEvent.create({
+        data: {
+          worksheetId: worksheet.id,
+          userId: worksheet.workerId,
+          eventType: dto.eventType,
+          minutes: fullRange ? rangeMinutes : dto.minutes!,
+          hourStart: dto.hourStart ?? null,
+          hourEnd: dto.hourEnd ?? null,
+          targetGroupId: dto.eventType === 'REASSIGNMENT' ? dto.targetGroupId : null,
+          createdById,
+          note: dto.note || null,
+        },
+        select: ATTENDANCE_EVENT_SELECT,
+      });
+      await this.recalculatePlanned(tx, worksheet.id, worksheet.plannedOutput);
+      return event;
+    });
+  }
+
+  async deleteEvent(worksheet: AttendanceWorksheet, eventId: string) {
+    const event = await this.prisma.attendanceEvent.findFirst({
+      where: { id: eventId, worksheetId: worksheet.id },
+      select: { id: true },
+    });
+    if (!event) {
+      throw new NotFoundException('Không tìm thấy sự kiện vắng mặt');
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.attendanceEvent.delete({ where: { id: eventId } });
+      await this.recalculatePlanned(tx, worksheet.id, worksheet.plannedOutput);
+    });
+    return { id: eventId, deleted: true };
+  }
+
+  // ── Điều chỉnh SLKH ──────────────────────────────────────────
+
+  /**
+   * Tính lại phút vắng + SLKH của mọi giờ trong phiếu (gọi trong transaction)
+   * SLKH gốc giữ ở basePlannedOutput để khôi phục khi giờ đó hết vắng mặt
+   */
+  async recalculatePlanned(tx: Prisma.TransactionClient, worksheetId: string, worksheetPlannedOutput: number) {
+    const [records, events] = await Promise.all([
+      tx.workSheetRecord.findMany({
+        where: { worksheetId },
+        select: {
+          id: true,
+          workHour: true,
+          startTime: true,
+          endTime: true,
+          plannedOutput: true,
+          basePlannedOutput: true,
+          attendanceMinutes: true,
+          actualOutput: true,
+        },
+      }),
+      tx.attendanceEvent.findMany({
+        where: { worksheetId },
+        select: { eventType: true, minutes: true, hourStart: true, hourEnd: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    const lost = distributeAttendanceMinutes(records, events);
+
+    for (const record of records) {
+      const lostMinutes = lost.get(record.workHour) ?? 0;
+      let data: { plannedOutput: number | null; basePlannedOutput: number | null; attendanceMinutes: number };
+      if (lostMinutes > 0) {
+        const base = record.basePlannedOutput
+          ?? recordPlannedOutput({ plannedOutput: record.plannedOutput }, worksheetPlannedOutput);
+        data = {
+          plannedOutput: adjustPlannedForAttendance(base, slotMinutes(record), lostMinutes),
+          basePlannedOutput: base,
+          attendanceMinutes: lostMinutes,
+        };
+      } else {
+        data = {
+          plannedOutput: record.basePlannedOutput ?? record.plannedOutput,
+          basePlannedOutput: null,
+          attendanceMinutes: 0,
+        };
+      }
+
+      if (
+        data.plannedOutput === record.plannedOutput &&
+        data.basePlannedOutput === record.basePlannedOutput &&
+        data.attendanceMinutes === record.attendanceMinutes
+      ) {
+        continue;
+      }
+
+      await tx.workSheetRecord.update({ where: { id: record.id }, data });
+      // Kế hoạch đổi → nguyên nhân cũ không còn khớp phần hụt thì bỏ
+      await this.recordCauses.applyCauses(tx, { ...record, ...data }, worksheetPlannedOutput, undefined);
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { adjustPlannedForAttendance, distributeAttendanceMinutes, recordPlannedOutput } from './attendance.util';
+
+const time = (hhmm: string) => new Date(`1970-01-01T${hhmm}:00.000Z`);
+
+const slots = [
+  { workHour: 1, startTime: time('07:30'), endTime: time('08:30') },
+  { workHour: 2, startTime: time('08:30'), endTime: time('09:30') },
+  { workHour: 3, startTime: time('09:30'), endTime: time('10:30') },
+  { workHour: 9, startTime: time('16:30'), endTime: time('18:00') },
+];
+
+describe('Attendance utils', () => {
+  describe('distributeAttendanceMinutes', () => {
+    it('should spill late arrivals forward from the first hour', () => {
+      const lost = distributeAttendanceMinutes(slots, [{ eventType: 'LATE', minutes: 75, hourStart: null, hourEnd: null }]);
+      expect([...lost.entries()]).toEqual([
+        [1, 60],
+        [2, 15],
+      ]);
+    });
+
+    it('should fill early leaves backward from the last hour', () => {
+      const lost = distributeAttendanceMinutes(slots, [
+        { eventType: 'EARLY_LEAVE', minutes: 100, hourStart: null, hourEnd: null },
+      ]);
+      expect(lost.get(9)).toBe(90);
+      expect(lost.get(3)).toBe(10);
+    });
+
+    it('should cover the whole range for absences and reassignments', () => {
+      const lost = distributeAttendanceMinutes(slots, [
+        { eventType: 'REASSIGNMENT', minutes: 0, hourStart: 2, hourEnd: 3 },
+      ]);
+      expect(lost.get(1)).toBeUndefined();
+      expect(lost.get(2)).toBe(60);
+      expect(lost.get(3)).toBe(60);
+    });
+
+    it('should never exceed the slot length when events overlap', () => {
+      const lost = distributeAttendanceMinutes(slots, [
+        { eventType: 'BREAK', minutes: 30, hourStart: 1, hourEnd: 1 },
+        { eventType: 'ABSENT', minutes: 0, hourStart: 1, hourEnd: 1 },
+        { eventType: 'LATE', minutes: 20, hourStart: 1, hourEnd: 2 },
+      ]);
+      expect(lost.get(1)).toBe(60);
+      expect(lost.get(2)).toBe(20);
+    });
+  });
+
+  describe('adjustPlannedForAttendance', () => {
+    it('should scale the plan by the minutes actually worked', () => {
+      expect(adjustPlannedForAttendance(100, 60, 15)).toBe(75);
+      expect(adjustPlannedForAttendance(100, 60, 60)).toBe(0);
+      expect(adjustPlannedForAttendance(100, 60, 0)).toBe(100);
+    });
+  });
+
+  describe('recordPlannedOutput', () => {
+    it('should keep a zero plan caused by attendance', () => {
+      expect(recordPlannedOutput({ plannedOutput: 0, attendanceMinutes: 60 }, 80)).toBe(0);
+    });
+
+    it('should fall back to the worksheet plan for legacy records', () => {
+      expect(recordPlannedOutput({ plannedOutput: 0 }, 80)).toBe(80);
+      expect(recordPlannedOutput({ plannedOutput: 90, attendanceMinutes: 0 }, 80)).toBe(90);
+    });
+  });
+});
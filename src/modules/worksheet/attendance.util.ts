@@ -0,0 +1,122 @@
+/**
+ * Vắng mặt theo giờ (AttendanceEvent) → số phút vắng của từng giờ và SLKH sau khi trừ — thuần, không truy cập DB
+ * - ABSENT / REASSIGNMENT: vắng toàn bộ các giờ trong khoảng
+ * - LATE / BREAK / OTHER: trừ số phút từ giờ đầu khoảng trở đi
+ * - EARLY_LEAVE: trừ số phút từ giờ cuối khoảng trở về trước
+ * Tổng phút vắng của 1 giờ không vượt quá độ dài slot.
+ */
+import { getRecordHourCoefficient } from './shift-template.util';
+
+export const FULL_RANGE_EVENT_TYPES = ['ABSENT', 'REASSIGNMENT'];
+
+export const ATTENDANCE_LABELS: Record<string, string> = {
+  LATE: 'Đi muộn',
+  EARLY_LEAVE: 'Về sớm',
+  ABSENT: 'Vắng mặt',
+  REASSIGNMENT: 'Điều chuyển nhóm',
+  BREAK: 'Nghỉ giữa giờ',
+  OTHER: 'Khác',
+};
+
+export interface AttendanceSlot {
+  workHour: number;
+  startTime: Date | string;
+  endTime: Date | string;
+}
+
+export interface AttendanceEventLike {
+  eventType: string;
+  minutes: number;
+  hourStart: number | null;
+  hourEnd: number | null;
+}
+
+/** Độ dài slot (phút) */
+export function slotMinutes(slot: { startTime: Date | string; endTime: Date | string }): number {
+  return Math.round(getRecordHourCoefficient(slot) * 60);
+}
+
+/** Các slot thuộc khoảng giờ của sự kiện, theo thứ tự giờ */
+export function slotsInRange<T extends AttendanceSlot>(slots: T[], hourStart: number | null, hourEnd: number | null): T[] {
+  const sorted = [...slots].sort((a, b) => a.workHour - b.workHour);
+  const from = hourStart ?? sorted[0]?.workHour;
+  const to = hourEnd ?? sorted[sorted.length - 1]?.workHour;
+  return sorted.filter((s) => s.workHour >= from && s.workHour <= to);
+}
+
+/** Số phút vắng theo từng giờ (workHour → phút) */
+export function distributeAttendanceMinutes(
+  slots: AttendanceSlot[],
+  events: AttendanceEventLike[],
+): Map<number, number> {
+  const capacity = new Map(slots.map((s) => [s.workHour, slotMinutes(s)]));
+  const lost = new Map<number, number>();
+  const take = (workHour: number, minutes: number) => {
+    const free = (capacity.get(workHour) ?? 0) - (lost.get(workHour) ?? 0);
+    const used = Math.max(0, Math.min(free, minutes));
+    if (used > 0) lost.set(workHour, (lost.get(workHour) ?? 0) + used);
+    return used;
+  };
+
+  for (const event of events) {
+    const range = slotsInRange(slots, event.hourStart, event.hourEnd);
+    if (FULL_RANGE_EVENT_TYPES.includes(event.eventType)) {
+      range.forEach((s) => take(s.workHour, Infinity));
+      continue;
+    }
+    const ordered = event.eventType === 'EARLY_LEAVE' ? range.reverse() : range;
+    let remaining = event.minutes;
+    for (const s of ordered) {
+      if (remaining <= 0) break;
+      remaining -= take(s.workHour, remaining);
+    }
+  }
+  return lost;
+}
+
+/** SLKH của giờ sau khi trừ thời gian vắng (tỷ lệ theo số phút còn làm việc) */
+export function adjustPlannedForAttendance(basePlanned: number, slotLength: number, lostMinutes: number): number {
+  if (lostMinutes <= 0 || slotLength <= 0) return basePlanned;
+  const worked = Math.max(0, slotLength - lostMinutes);
+  return Math.round((basePlanned * worked) / slotLength);
+}
+
+/**
+ * SLKH/giờ của record để tổng hợp — 0 do vắng mặt là hợp lệ,
+ * chỉ fallback SLKH/giờ của phiếu cho dữ liệu cũ chưa có SLKH theo giờ
+ */
+export function recordPlannedOutput(
+  record: { plannedOutput: number | null; attendanceMinutes?: number | null },
+  worksheetPlannedOutput: number,
+): number {
+  if (record.attendanceMinutes) return record.plannedOutput ?? 0;
+  return record.plannedOutput && record.plannedOutput > 0 ? record.plannedOutput : worksheetPlannedOutput;
+}
+
+/**
+ * Dữ liệu SLKH ghi vào record khi nhập / sửa kế hoạch giờ có vắng mặt:
+ * basePlanned là SLKH đầy đủ, plannedOutput là SLKH sau khi trừ phút vắng
+ */
+export function attendancePlannedData(
+  basePlanned: number,
+  record: { attendanceMinutes: number; startTime: Date | string; endTime: Date | string },
+): { plannedOutput: number; basePlannedOutput: number | null } {
+  if (!record.attendanceMinutes) return { plannedOutput: basePlanned, basePlannedOutput: null };
+  return {
+    plannedOutput: adjustPlannedForAttendance(basePlanned, slotMinutes(record), record.attendanceMinutes),
+    basePlannedOutput: basePlanned,
+  };
+}
+
+/** Tổng hợp theo loại: số lần + tổng phút vắng */
+export function summarizeAttendance(
+  events: Array<{ eventType: string; minutes: number }>,
+): Record<string, { label: string; count: number; minutes: number }> {
+  const summary: Record<string, { label: string; count: number; minutes: number }> = {};
+  for (const e of events) {
+    const row = (summary[e.eventType] ??= { label: ATTENDANCE_LABELS[e.eventType] ?? e.eventType, count: 0, minutes: 0 });
+    row.count += 1;
+    row.minutes += e.minutes;
+  }
+  return summary;
+}
@@ -1,6 +1,7 @@
 import { IsArray, ValidateNested, IsUUID, IsInt, IsOptional, IsString, Min } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
+import { RecordCauseDto } from './upsert-record-causes.dto';
 
 /**
  * DTO for single product entry within a worker's hour
@@ -73,6 +74,18 @@ export class HourWorkerOutputDto {
   @ValidateNested({ each: true })
   @Type(() => ProductEntryDto)
   entries: ProductEntryDto[];
+
+  @ApiProperty({
+    type: [RecordCauseDto],
+    description: 'Nguyên nhân hụt sản lượng giờ này — tổng delta phải bằng SLTH − SLKH (bỏ trống = giữ nguyên, [] = xoá)',
+    required: false,
+    example: [{ cause: 'MATERIALS', delta: -8, note: 'Thiếu dây kéo' }],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RecordCauseDto)
+  causes?: RecordCauseDto[];
 }
 
 /**
@@ -0,0 +1,47 @@
+import { IsEnum, IsInt, IsOptional, IsString, IsUUID, Max, MaxLength, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { AttendanceEventType } from '@prisma/client';
+
+export class CreateAttendanceEventDto {
+  @ApiProperty({
+    example: 'LATE',
+    description: 'LATE, EARLY_LEAVE, ABSENT, REASSIGNMENT, BREAK or OTHER',
+    enum: AttendanceEventType,
+  })
+  @IsEnum(AttendanceEventType)
+  eventType: AttendanceEventType;
+
+  @ApiProperty({ example: 1, description: 'Giờ bắt đầu (giờ thứ mấy trong ca) — mặc định giờ đầu ca', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  hourStart?: number;
+
+  @ApiProperty({ example: 2, description: 'Giờ kết thúc — mặc định giờ cuối ca', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  hourEnd?: number;
+
+  @ApiProperty({
+    example: 20,
+    description: 'Số phút vắng (bắt buộc trừ ABSENT / REASSIGNMENT — hai loại này tính cả khoảng giờ)',
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(24 * 60)
+  minutes?: number;
+
+  @ApiProperty({ description: 'REASSIGNMENT: nhóm được điều chuyển sang', required: false })
+  @IsOptional()
+  @IsUUID()
+  targetGroupId?: string;
+
+  @ApiProperty({ example: 'Kẹt xe', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
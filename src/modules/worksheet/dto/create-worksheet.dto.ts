@@ -42,6 +42,15 @@ export class CreateWorksheetDto {
   @IsEnum(ShiftType)
   shiftType: ShiftType;
 
+  @ApiProperty({
+    example: 'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+    description: 'Khung giờ ca cụ thể (bỏ trống = mẫu mặc định của xưởng theo shiftType)',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  shiftTemplateId?: string;
+
   @ApiProperty({
     example: 'f47ac10b-58cc-4372-a567-0e02b2c3d479',
     description: 'Product UUID (mã túi xách)',
@@ -0,0 +1,20 @@
+import { IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class GenerateMonthlyBackupDto {
+  @ApiProperty({ example: 2026, description: 'Năm' })
+  @IsInt()
+  @Min(2000)
+  year: number;
+
+  @ApiProperty({ example: 9, description: 'Tháng (1-12)' })
+  @IsInt()
+  @Min(1)
+  @Max(12)
+  month: number;
+
+  @ApiProperty({ required: false, description: 'Chỉ snapshot các nhóm của xưởng này' })
+  @IsOptional()
+  @IsUUID()
+  officeId?: string;
+}
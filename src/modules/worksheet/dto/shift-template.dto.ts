@@ -0,0 +1,99 @@
+import {
+  IsArray, IsBoolean, IsEnum, IsInt, IsOptional, IsString, IsUUID, Matches, Min, ValidateNested, ArrayMinSize,
+} from 'class-validator';
+import { ApiProperty, PartialType, OmitType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { ShiftType } from '@prisma/client';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class ShiftSlotDto {
+  @ApiProperty({ example: 1, description: 'Giờ thứ mấy trong ca (bắt đầu từ 1, liên tiếp)' })
+  @IsInt()
+  @Min(1)
+  hour: number;
+
+  @ApiProperty({ example: '07:30', description: 'Giờ bắt đầu (HH:mm)' })
+  @Matches(TIME_PATTERN, { message: 'startTime phải có định dạng HH:mm' })
+  startTime: string;
+
+  @ApiProperty({ example: '08:30', description: 'Giờ kết thúc (HH:mm) — nhỏ hơn startTime nghĩa là qua nửa đêm' })
+  @Matches(TIME_PATTERN, { message: 'endTime phải có định dạng HH:mm' })
+  endTime: string;
+}
+
+export class ShiftBreakDto {
+  @ApiProperty({ example: 'Nghỉ trưa', required: false })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiProperty({ example: '11:30' })
+  @Matches(TIME_PATTERN, { message: 'startTime phải có định dạng HH:mm' })
+  startTime: string;
+
+  @ApiProperty({ example: '12:30' })
+  @Matches(TIME_PATTERN, { message: 'endTime phải có định dạng HH:mm' })
+  endTime: string;
+}
+
+export class CreateShiftTemplateDto {
+  @ApiProperty({ example: 'NIGHT_8H' })
+  @IsString()
+  code: string;
+
+  @ApiProperty({ example: 'Ca đêm 8 tiếng' })
+  @IsString()
+  name: string;
+
+  @ApiProperty({
+    example: 'NORMAL_8H',
+    enum: ShiftType,
+    description: 'Loại ca tương ứng — phiếu công vẫn lưu shiftType để báo cáo',
+  })
+  @IsEnum(ShiftType)
+  shiftType: ShiftType;
+
+  @ApiProperty({ required: false, description: 'Áp dụng cho xưởng (bỏ trống = toàn công ty)' })
+  @IsOptional()
+  @IsUUID()
+  officeId?: string;
+
+  @ApiProperty({ required: false, description: 'Chỉ SUPERADMIN được chọn; user khác lấy theo JWT' })
+  @IsOptional()
+  @IsUUID()
+  companyId?: string;
+
+  @ApiProperty({ type: [ShiftSlotDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ShiftSlotDto)
+  slots: ShiftSlotDto[];
+
+  @ApiProperty({ type: [ShiftBreakDto], required: false })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ShiftBreakDto)
+  breaks?: ShiftBreakDto[];
+
+  @ApiProperty({ required: false, description: 'Mặc định tự nhận theo slot qua nửa đêm' })
+  @IsOptional()
+  @IsBoolean()
+  isNightShift?: boolean;
+
+  @ApiProperty({ required: false, description: 'Ưu tiên khi tạo phiếu chỉ chọn shiftType' })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+}
+
+export class UpdateShiftTemplateDto extends PartialType(
+  OmitType(CreateShiftTemplateDto, ['officeId', 'companyId'] as const),
+) {
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -1,6 +1,8 @@
-import { IsEnum, IsOptional, IsUUID, IsInt, IsString, Min } from 'class-validator';
+import { IsArray, IsEnum, IsOptional, IsUUID, IsInt, IsString, Min, ValidateNested } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
 import { WorkRecordStatus } from '@prisma/client';
+import { RecordCauseDto } from './upsert-record-causes.dto';
 
 /**
  * DTO for updating a single WorkSheetRecord (1 giờ làm việc của 1 công nhân)
@@ -61,4 +63,15 @@ export class UpdateWorksheetRecordDto {
   @IsOptional()
   @IsString()
   note?: string;
+
+  @ApiProperty({
+    type: [RecordCauseDto],
+    description: 'Nguyên nhân hụt sản lượng — tổng delta phải bằng SLTH − SLKH (bỏ trống = giữ nguyên, [] = xoá)',
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RecordCauseDto)
+  causes?: RecordCauseDto[];
 }
@@ -1,4 +1,4 @@
-import { IsArray, IsEnum, IsInt, IsOptional, IsString, ValidateNested } from 'class-validator';
+import { IsArray, IsEnum, IsInt, IsOptional, IsString, Max, MaxLength, ValidateNested } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
 
@@ -21,9 +21,10 @@ export class RecordCauseDto {
 
   @ApiProperty({
     example: -5,
-    description: 'Positive or negative impact on output',
+    description: 'Impact on output (negative = units lost). Deltas of one hour must add up to actual − planned',
   })
   @IsInt()
+  @Max(-1)
   delta: number;
 
   @ApiProperty({
@@ -33,13 +34,14 @@ export class RecordCauseDto {
   })
   @IsOptional()
   @IsString()
+  @MaxLength(500)
   note?: string;
 }
 
 export class UpsertRecordCausesDto {
   @ApiProperty({
     type: [RecordCauseDto],
-    description: 'Array of causes affecting this record',
+    description: 'Array of causes affecting this record (empty array clears them)',
   })
   @IsArray()
   @ValidateNested({ each: true })
@@ -0,0 +1,109 @@
+import { Body, Controller, ForbiddenException, Get, Param, Post, Query } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { GetUser } from '../../common/decorators/get-user.decorator';
+import { Audit } from '../../common/decorators/audit.decorator';
+import { PrismaService } from '../../common/prisma.service';
+import { MonthlyBackupService } from './monthly-backup.service';
+import { GenerateMonthlyBackupDto } from './dto/monthly-backup.dto';
+
+function isAdmin(user: any): boolean {
+  return user?.roles?.some((r: any) => ['SUPERADMIN', 'ADMIN'].includes(r?.roleDefinition?.code)) ?? false;
+}
+
+@ApiTags('worksheet-backups')
+@ApiBearerAuth('JWT-auth')
+@Controller('worksheet-backups')
+@Audit('WorkSheetMonthlyBackup')
+export class MonthlyBackupController {
+  constructor(
+    private readonly monthlyBackupService: MonthlyBackupService,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  /** Nhóm trưởng (không phải admin) chỉ xem snapshot của các nhóm mình phụ trách */
+  private async scopeGroupIds(user: any): Promise<string[] | undefined> {
+    if (isAdmin(user)) return undefined;
+    const groups = await this.prisma.group.findMany({ where: { leaderId: user.id }, select: { id: true } });
+    return groups.map((g) => g.id);
+  }
+
+  private assertAdmin(user: any) {
+    if (!isAdmin(user)) {
+      throw new ForbiddenException('Chỉ quản trị viên được thực hiện thao tác này');
+    }
+  }
+
+  @Get()
+  @RequirePermissions('worksheets:view')
+  @ApiOperation({ summary: 'Danh sách snapshot sản lượng theo tháng (nhóm × tháng)' })
+  @ApiQuery({ name: 'year', required: false, type: Number })
+  @ApiQuery({ name: 'month', required: false, type: Number })
+  @ApiQuery({ name: 'officeId', required: false })
+  @ApiQuery({ name: 'groupId', required: false })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  async findAll(
+    @GetUser() user: any,
+    @Query('year') year?: string,
+    @Query('month') month?: string,
+    @Query('officeId') officeId?: string,
+    @Query('groupId') groupId?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.monthlyBackupService.findAll({
+      year: year ? parseInt(year) : undefined,
+      month: month ? parseInt(month) : undefined,
+      officeId,
+      groupId,
+      groupIds: await this.scopeGroupIds(user),
+      page: page ? parseInt(page) : undefined,
+      limit: limit ? parseInt(limit) : undefined,
+    });
+  }
+
+  @Get('retention')
+  @RequirePermissions('worksheets:manage')
+  @ApiOperation({ summary: 'Chính sách lưu trữ dữ liệu theo giờ (WORKSHEET_RAW_RETENTION_MONTHS)' })
+  getRetention() {
+    const cutoff = this.monthlyBackupService.rawDataCutoff();
+    return {
+      retentionMonths: this.monthlyBackupService.retentionMonths,
+      enabled: !!cutoff,
+      cutoff: cutoff?.toISOString().slice(0, 10) ?? null,
+    };
+  }
+
+  @Post('generate')
+  @RequirePermissions('worksheets:manage')
+  @ApiOperation({ summary: 'Snapshot lại sản lượng của 1 tháng (ghi đè bản cũ)' })
+  async generate(@GetUser() user: any, @Body() dto: GenerateMonthlyBackupDto) {
+    this.assertAdmin(user);
+    const snapshots = await this.monthlyBackupService.snapshotMonth(dto.year, dto.month, dto.officeId);
+    return { year: dto.year, month: dto.month, officeId: dto.officeId ?? null, snapshots };
+  }
+
+  @Post('retention/run')
+  @RequirePermissions('worksheets:manage')
+  @ApiOperation({ summary: 'Chạy dọn dữ liệu theo giờ cũ ngay (sau khi xác minh snapshot)' })
+  runRetention(@GetUser() user: any) {
+    this.assertAdmin(user);
+    return this.monthlyBackupService.applyRetention();
+  }
+
+  @Get(':id')
+  @RequirePermissions('worksheets:view')
+  @ApiOperation({ summary: 'Chi tiết snapshot tháng (kèm backupData)' })
+  async findOne(@GetUser() user: any, @Param('id') id: string) {
+    return this.monthlyBackupService.findOne(id, await this.scopeGroupIds(user));
+  }
+
+  @Post(':id/restore')
+  @RequirePermissions('worksheets:manage')
+  @ApiOperation({ summary: 'Khôi phục dữ liệu theo giờ của tháng từ snapshot' })
+  restore(@GetUser() user: any, @Param('id') id: string) {
+    this.assertAdmin(user);
+    return this.monthlyBackupService.restore(id);
+  }
+}
@@ -0,0 +1,354 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { CauseType, Prisma, WorkRecordStatus } from '@prisma/client';
+import { PrismaService } from '../../common/prisma.service';
+import {
+  MONTHLY_BACKUP_VERSION,
+  MonthlyBackupData,
+  buildMonthlyBackup,
+  dropsRecords,
+  monthRange,
+  parseTimeOfDay,
+  retentionCutoff,
+  sameFingerprint,
+} from './monthly-backup.util';
+
+// Số tháng giữ dữ liệu theo giờ (ngoài tháng hiện tại) — 0 / không đặt = không dọn (phải bật rõ ràng)
+const RAW_RETENTION_MONTHS = parseRetentionMonths(process.env.WORKSHEET_RAW_RETENTION_MONTHS);
+// Tháng vừa khôi phục từ snapshot được giữ nguyên dữ liệu theo giờ trong N ngày
+const RESTORE_HOLD_DAYS = 30;
+
+const SOURCE_WORKSHEET_SELECT = {
+  id: true,
+  date: true,
+  workerId: true,
+  productId: true,
+  processId: true,
+  shiftType: true,
+  plannedOutput: true,
+  status: true,
+  worker: { select: { employeeCode: true } },
+  records: {
+    select: {
+      id: true,
+      workHour: true,
+      startTime: true,
+      endTime: true,
+      plannedOutput: true,
+      basePlannedOutput: true,
+      attendanceMinutes: true,
+      actualOutput: true,
+      status: true,
+      updatedById: true,
+      items: {
+        select: { entryIndex: true, productId: true, processId: true, plannedOutput: true, actualOutput: true, note: true },
+      },
+      causes: { select: { cause: true, delta: true, note: true } },
+    },
+  },
+} satisfies Prisma.WorkSheetSelect;
+
+export interface MonthlyBackupQuery {
+  year?: number;
+  month?: number;
+  officeId?: string;
+  groupId?: string;
+  groupIds?: string[]; // giới hạn cho nhóm trưởng
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * MonthlyBackupService
+ * - Snapshot sản lượng theo giờ của từng nhóm × tháng vào WorkSheetMonthlyBackup (định dạng: monthly-backup.util)
+ * - Dọn WorkSheetRecord / Item / Cause cũ hơn N tháng — chỉ sau khi snapshot khớp với dữ liệu thô
+ * - Khôi phục dữ liệu theo giờ của 1 tháng từ snapshot
+ * Phiếu (WorkSheet), vắng mặt và bản tổng hợp ngày không bị xoá.
+ */
+@Injectable()
+export class MonthlyBackupService {
+  private readonly logger = new Logger(MonthlyBackupService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  get retentionMonths(): number {
+    return RAW_RETENTION_MONTHS;
+  }
+
+  /** Ngày đầu tiên còn giữ dữ liệu theo giờ — null khi không bật dọn dữ liệu */
+  rawDataCutoff(now: Date = new Date()): Date | null {
+    return RAW_RETENTION_MONTHS > 0 ? retentionCutoff(now, RAW_RETENTION_MONTHS) : null;
+  }
+
+  // ── Snapshot ─────────────────────────────────────────────────
+
+  /**
+   * Snapshot mọi nhóm có phiếu trong tháng (ghi đè bản cũ) — trả về số bản đã ghi
+   * Tháng trước mốc dọn dữ liệu bị từ chối: dữ liệu theo giờ đã xoá, snapshot là bản duy nhất.
+   */
+  async snapshotMonth(year: number, month: number, officeId?: string): Promise<number> {
+    this.assertMonth(year, month);
+    const { from, to } = monthRange(year, month);
+    const cutoff = this.rawDataCutoff();
+    if (cutoff && from < cutoff) {
+      throw new BadRequestException(
+        `Dữ liệu theo giờ trước ${cutoff.toISOString().slice(0, 10)} đã được dọn theo chính sách lưu trữ — không thể snapshot lại tháng này`,
+      );
+    }
+    const groups = await this.prisma.workSheet.groupBy({
+      by: ['officeId', 'groupId'],
+      where: { date: { gte: from, lt: to }, ...(officeId ? { officeId } : {}) },
+    });
+
+    let written = 0;
+    for (const g of groups) {
+      if (await this.writeSnapshot(year, month, g.officeId, g.groupId)) written += 1;
+    }
+    this.logger.log(`Monthly backup ${year}-${String(month).padStart(2, '0')}: ${written}/${groups.length} group snapshots`);
+    return written;
+  }
+
+  /** null = nguồn đã mất dữ liệu theo giờ mà bản lưu còn giữ → giữ nguyên bản lưu */
+  private async writeSnapshot(year: number, month: number, officeId: string, groupId: string) {
+    const where = { month_year_officeId_groupId: { month, year, officeId, groupId } };
+    const data = buildMonthlyBackup({ year, month, officeId, groupId }, await this.loadSource(year, month, officeId, groupId));
+    const stored = await this.prisma.workSheetMonthlyBackup.findUnique({ where, select: { backupData: true } });
+    const storedData = stored && this.tryParse(stored.backupData);
+    if (storedData && dropsRecords(storedData.worksheets, data.worksheets)) {
+      this.logger.warn(`Monthly backup of group ${groupId} ${year}-${month} has records missing from the source, snapshot kept`);
+      return null;
+    }
+    const values = {
+      totalWorksheets: data.summary.totalWorksheets,
+      totalOutput: data.summary.totalActual,
+      avgEfficiency: data.summary.avgEfficiency,
+      backupData: data as unknown as Prisma.InputJsonValue,
+    };
+    await this.prisma.workSheetMonthlyBackup.upsert({
+      where,
+      create: { month, year, officeId, groupId, ...values },
+      update: { ...values, createdAt: new Date() },
+    });
+    return data;
+  }
+
+  private loadSource(year: number, month: number, officeId: string, groupId: string) {
+    const { from, to } = monthRange(year, month);
+    return this.prisma.workSheet.findMany({
+      where: { officeId, groupId, date: { gte: from, lt: to } },
+      select: SOURCE_WORKSHEET_SELECT,
+    });
+  }
+
+  // ── Chính sách lưu trữ ───────────────────────────────────────
+
+  /**
+   * Dọn dữ liệu theo giờ của các tháng trước mốc lưu trữ
+   * Từng nhóm × tháng: snapshot lại nếu chưa có / không khớp, đọc lại từ DB để xác minh rồi mới xoá.
+   * Nhóm × tháng vừa khôi phục (holdUntil chưa qua) được bỏ qua.
+   */
+  async applyRetention(now: Date = new Date()) {
+    const cutoff = this.rawDataCutoff(now);
+    const result = { cutoff: cutoff?.toISOString().slice(0, 10) ?? null, months: 0, groups: 0, purgedRecords: 0, skipped: 0, held: 0 };
+    if (!cutoff) return result;
+
+    const oldest = await this.prisma.workSheet.findFirst({
+      where: { date: { lt: cutoff }, records: { some: {} } },
+      orderBy: { date: 'asc' },
+      select: { date: true },
+    });
+    if (!oldest) return result;
+
+    let year = oldest.date.getUTCFullYear();
+    let month = oldest.date.getUTCMonth() + 1;
+    while (monthRange(year, month).from < cutoff) {
+      const { from, to } = monthRange(year, month);
+      const groups = await this.prisma.workSheet.groupBy({
+        by: ['officeId', 'groupId'],
+        where: { date: { gte: from, lt: to }, records: { some: {} } },
+      });
+      if (groups.length) result.months += 1;
+      const held = await this.prisma.workSheetMonthlyBackup.findMany({
+        where: { year, month, holdUntil: { gt: now } },
+        select: { officeId: true, groupId: true },
+      });
+      const heldKeys = new Set(held.map((h) => `${h.officeId}:${h.groupId}`));
+
+      for (const g of groups) {
+        if (heldKeys.has(`${g.officeId}:${g.groupId}`)) {
+          result.held += 1;
+          continue;
+        }
+        const purged = await this.purgeGroupMonth(year, month, g.officeId, g.groupId);
+        if (purged === null) {
+          result.skipped += 1;
+        } else {
+          result.groups += 1;
+          result.purgedRecords += purged;
+        }
+      }
+
+      month += 1;
+      if (month > 12) {
+        month = 1;
+        year += 1;
+      }
+    }
+
+    this.logger.log(
+      `Raw data retention (before ${result.cutoff}): purged ${result.purgedRecords} records of ${result.groups} group-months, ${result.skipped} skipped, ${result.held} on hold`,
+    );
+    return result;
+  }
+
+  /** Trả về số record đã xoá, null = snapshot không khớp nên giữ nguyên dữ liệu thô */
+  private async purgeGroupMonth(year: number, month: number, officeId: string, groupId: string): Promise<number | null> {
+    const source = buildMonthlyBackup({ year, month, officeId, groupId }, await this.loadSource(year, month, officeId, groupId));
+    const where = { month_year_officeId_groupId: { month, year, officeId, groupId } };
+
+    const matches = async () => {
+      const stored = await this.prisma.workSheetMonthlyBackup.findUnique({ where, select: { backupData: true } });
+      const data = stored && this.tryParse(stored.backupData);
+      return !!data && sameFingerprint(data.worksheets, source.worksheets);
+    };
+
+    if (!(await matches())) {
+      await this.writeSnapshot(year, month, officeId, groupId);
+      if (!(await matches())) {
+        this.logger.warn(`Monthly backup mismatch for group ${groupId} ${year}-${month}, raw data kept`);
+        return null;
+      }
+    }
+
+    const recordIds = source.worksheets.flatMap((ws) => ws.records.map((r) => r.id));
+    const { count } = await this.prisma.workSheetRecord.deleteMany({ where: { id: { in: recordIds } } });
+    return count;
+  }
+
+  // ── Tra cứu ──────────────────────────────────────────────────
+
+  async findAll(query: MonthlyBackupQuery) {
+    const page = query.page && query.page > 0 ? query.page : 1;
+    const limit = query.limit && query.limit > 0 ? Math.min(query.limit, 100) : 20;
+    const where: Prisma.WorkSheetMonthlyBackupWhereInput = {
+      year: query.year,
+      month: query.month,
+      officeId: query.officeId,
+      groupId: query.groupId,
+    };
+    if (query.groupIds) where.AND = [{ groupId: { in: query.groupIds } }];
+
+    const [data, total] = await Promise.all([
+      this.prisma.workSheetMonthlyBackup.findMany({
+        where,
+        select: {
+          id: true,
+          year: true,
+          month: true,
+          totalWorksheets: true,
+          totalOutput: true,
+          avgEfficiency: true,
+          createdAt: true,
+          office: { select: { id: true, name: true } },
+          group: { select: { id: true, name: true, code: true } },
+        },
+        orderBy: [{ year: 'desc' }, { month: 'desc' }, { group: { code: 'asc' } }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.workSheetMonthlyBackup.count({ where }),
+    ]);
+    return { data, total, page, limit };
+  }
+
+  async findOne(id: string, groupIds?: string[]) {
+    const backup = await this.prisma.workSheetMonthlyBackup.findUnique({
+      where: { id },
+      include: {
+        office: { select: { id: true, name: true } },
+        group: { select: { id: true, name: true, code: true } },
+      },
+    });
+    if (!backup || (groupIds && !groupIds.includes(backup.groupId))) {
+      throw new NotFoundException('Không tìm thấy bản sao lưu tháng');
+    }
+    return backup;
+  }
+
+  // ── Khôi phục ────────────────────────────────────────────────
+
+  /**
+   * Tạo lại records / items / causes của tháng từ snapshot (giữ nguyên record id)
+   * Bỏ qua phiếu đã bị xoá hoặc vẫn còn dữ liệu theo giờ.
+   * Đặt holdUntil → chính sách lưu trữ không dọn lại tháng này trong RESTORE_HOLD_DAYS ngày.
+   */
+  async restore(id: string) {
+    const backup = await this.findOne(id);
+    const data = this.parse(backup.backupData);
+
+    const existing = await this.prisma.workSheet.findMany({
+      where: { id: { in: data.worksheets.map((ws) => ws.id) } },
+      select: { id: true, _count: { select: { records: true } } },
+    });
+    const restorable = new Set(existing.filter((ws) => ws._count.records === 0).map((ws) => ws.id));
+    const worksheets = data.worksheets.filter((ws) => restorable.has(ws.id));
+    const records = worksheets.flatMap((ws) => ws.records.map((r) => ({ worksheetId: ws.id, ...r })));
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.workSheetRecord.createMany({
+        data: records.map(({ items: _items, causes: _causes, ...r }) => ({
+          ...r,
+          startTime: parseTimeOfDay(r.startTime),
+          endTime: parseTimeOfDay(r.endTime),
+          status: r.status as WorkRecordStatus,
+        })),
+      });
+      await tx.workSheetRecordItem.createMany({
+        data: records.flatMap((r) => r.items.map((item) => ({ recordId: r.id, ...item }))),
+      });
+      await tx.workSheetRecordCause.createMany({
+        data: records.flatMap((r) => r.causes.map((c) => ({ recordId: r.id, ...c, cause: c.cause as CauseType }))),
+      });
+      await tx.workSheetMonthlyBackup.update({
+        where: { id },
+        data: { holdUntil: new Date(Date.now() + RESTORE_HOLD_DAYS * 86_400_000) },
+      });
+    });
+
+    return {
+      id,
+      year: backup.year,
+      month: backup.month,
+      groupId: backup.groupId,
+      restoredWorksheets: worksheets.length,
+      restoredRecords: records.length,
+      skippedWorksheets: data.worksheets.length - worksheets.length,
+      holdDays: RESTORE_HOLD_DAYS,
+    };
+  }
+
+  // ── Helpers ──────────────────────────────────────────────────
+
+  private parse(value: Prisma.JsonValue): MonthlyBackupData {
+    const data = this.tryParse(value);
+    if (!data) {
+      throw new BadRequestException('Định dạng bản sao lưu tháng không được hỗ trợ');
+    }
+    return data;
+  }
+
+  private tryParse(value: Prisma.JsonValue): MonthlyBackupData | null {
+    const data = value as unknown as MonthlyBackupData;
+    return data && data.version === MONTHLY_BACKUP_VERSION && Array.isArray(data.worksheets) ? data : null;
+  }
+
+  private assertMonth(year: number, month: number) {
+    if (!Number.isInteger(year) || year < 2000 || !Number.isInteger(month) || month < 1 || month > 12) {
+      throw new BadRequestException('Tháng / năm không hợp lệ');
+    }
+  }
+}
+
+function parseRetentionMonths(value: string | undefined): number {
+  const months = Number(value?.trim() || 0);
+  return Number.isInteger(months) && months > 0 ? months : 0;
+}
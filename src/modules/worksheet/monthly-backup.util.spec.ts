@@ -0,0 +1,115 @@
+import { SourceWorksheet, buildMonthlyBackup, dropsRecords, monthRange, retentionCutoff, sameFingerprint } from './monthly-backup.util';
+
+const time = (hhmm: string) => new Date(`1970-01-01T${hhmm}:00.000Z`);
+
+const record = (id: string, workHour: number, start: string, end: string, actual: number) => ({
+  id,
+  workHour,
+  startTime: time(start),
+  endTime: time(end),
+  plannedOutput: 100,
+  basePlannedOutput: null,
+  attendanceMinutes: 0,
+  actualOutput: actual,
+  status: 'COMPLETED',
+  updatedById: null,
+  items: [{ entryIndex: 1, productId: 'p1', processId: 'c1', plannedOutput: 100, actualOutput: actual, note: null }],
+  causes: actual < 100 ? [{ cause: 'MATERIALS', delta: actual - 100, note: null }] : [],
+});
+
+const worksheet = (id: string, date: string, records: SourceWorksheet['records']): SourceWorksheet => ({
+  id,
+  date: new Date(`${date}T00:00:00.000Z`),
+  workerId: `w-${id}`,
+  productId: 'p1',
+  processId: 'c1',
+  shiftType: 'NORMAL_8H',
+  plannedOutput: 100,
+  status: 'COMPLETED',
+  worker: { employeeCode: `NV-${id}` },
+  records,
+});
+
+const meta = { year: 2026, month: 3, officeId: 'o1', groupId: 'g1' };
+
+describe('Monthly backup utils', () => {
+  describe('buildMonthlyBackup', () => {
+    it('should summarise the month with slot coefficients', () => {
+      const data = buildMonthlyBackup(meta, [
+        worksheet('a', '2026-03-02', [record('r1', 1, '07:30', '08:30', 90), record('r2', 9, '16:30', '18:00', 150)]),
+        worksheet('b', '2026-03-01', [record('r3', 1, '07:30', '08:30', 100)]),
+      ]);
+
+      expect(data.version).toBe(1);
+      expect(data.worksheets.map((w) => w.id)).toEqual(['b', 'a']);
+      expect(data.worksheets[1].records[1].startTime).toBe('16:30:00');
+      expect(data.summary).toMatchObject({
+        totalWorksheets: 2,
+        totalRecords: 3,
+        totalItems: 3,
+        totalCauses: 1,
+        totalPlanned: 350,
+        totalActual: 340,
+        avgEfficiency: 97.1,
+      });
+    });
+  });
+
+  describe('sameFingerprint', () => {
+    it('should detect records that are missing from the snapshot', () => {
+      const full = buildMonthlyBackup(meta, [worksheet('a', '2026-03-02', [record('r1', 1, '07:30', '08:30', 90)])]);
+      const copy = JSON.parse(JSON.stringify(full));
+      expect(sameFingerprint(copy.worksheets, full.worksheets)).toBe(true);
+
+      copy.worksheets[0].records[0].items = [];
+      expect(sameFingerprint(copy.worksheets, full.worksheets)).toBe(false);
+    });
+
+    it('should detect changed values when the counts still match', () => {
+      const full = buildMonthlyBackup(meta, [worksheet('a', '2026-03-02', [record('r1', 1, '07:30', '08:30', 90)])]);
+      const copy = JSON.parse(JSON.stringify(full));
+      copy.worksheets[0].records[0].items[0].processId = 'c2';
+      expect(sameFingerprint(copy.worksheets, full.worksheets)).toBe(false);
+    });
+
+    it('should ignore key order of the stored JSON', () => {
+      const full = buildMonthlyBackup(meta, [worksheet('a', '2026-03-02', [record('r1', 1, '07:30', '08:30', 90)])]);
+      const reordered = JSON.parse(JSON.stringify(full), (_key, value) =>
+        value && typeof value === 'object' && !Array.isArray(value)
+          ? Object.fromEntries(Object.entries(value).reverse())
+          : value,
+      );
+      expect(sameFingerprint(reordered.worksheets, full.worksheets)).toBe(true);
+    });
+  });
+
+  describe('dropsRecords', () => {
+    it('should refuse to overwrite a snapshot with a month whose records were purged', () => {
+      const stored = buildMonthlyBackup(meta, [worksheet('a', '2026-03-02', [record('r1', 1, '07:30', '08:30', 90)])]);
+      const purged = buildMonthlyBackup(meta, [worksheet('a', '2026-03-02', [])]);
+      expect(dropsRecords(stored.worksheets, purged.worksheets)).toBe(true);
+      expect(dropsRecords(stored.worksheets, buildMonthlyBackup(meta, []).worksheets)).toBe(true);
+    });
+
+    it('should allow re-snapshotting while the raw data is still there', () => {
+      const stored = buildMonthlyBackup(meta, [worksheet('a', '2026-03-02', [record('r1', 1, '07:30', '08:30', 90)])]);
+      const current = buildMonthlyBackup(meta, [
+        worksheet('a', '2026-03-02', [record('r1', 1, '07:30', '08:30', 95)]),
+        worksheet('b', '2026-03-03', []),
+      ]);
+      expect(dropsRecords(stored.worksheets, current.worksheets)).toBe(false);
+    });
+  });
+
+  describe('ranges', () => {
+    it('should cover the whole calendar month', () => {
+      const { from, to } = monthRange(2026, 12);
+      expect(from.toISOString()).toBe('2026-12-01T00:00:00.000Z');
+      expect(to.toISOString()).toBe('2027-01-01T00:00:00.000Z');
+    });
+
+    it('should keep the current month plus N previous months', () => {
+      expect(retentionCutoff(new Date('2026-10-19T00:00:00.000Z'), 12).toISOString()).toBe('2025-10-01T00:00:00.000Z');
+    });
+  });
+});
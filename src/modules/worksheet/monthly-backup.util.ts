@@ -0,0 +1,235 @@
+/**
+ * Snapshot tháng của phiếu công (WorkSheetMonthlyBackup.backupData) — thuần, không truy cập DB
+ * Mỗi bản = 1 nhóm × 1 tháng, chứa đủ dữ liệu theo giờ (records / items / causes) để khôi phục
+ * sau khi dữ liệu thô đã bị dọn theo chính sách lưu trữ.
+ */
+import { createHash } from 'crypto';
+import { recordPlannedOutput } from './attendance.util';
+import { getRecordHourCoefficient } from './shift-template.util';
+
+export const MONTHLY_BACKUP_VERSION = 1;
+
+// ── Định dạng backupData (version 1) ─────────────────────────
+
+export interface MonthlyBackupData {
+  version: number;
+  year: number;
+  month: number; // 1-12
+  officeId: string;
+  groupId: string;
+  generatedAt: string; // ISO
+  summary: MonthlyBackupSummary;
+  worksheets: BackupWorksheet[];
+}
+
+export interface MonthlyBackupSummary {
+  totalWorksheets: number;
+  totalWorkers: number;
+  totalRecords: number;
+  totalItems: number;
+  totalCauses: number;
+  totalPlanned: number; // SLKH đã nhân hệ số độ dài slot — giống bản tổng hợp ngày
+  totalActual: number; // tổng SLTH của items
+  avgEfficiency: number; // %, 1 chữ số thập phân
+}
+
+export interface BackupWorksheet {
+  id: string; // WorkSheet.id — phiếu không bị xoá khi dọn dữ liệu thô
+  date: string; // YYYY-MM-DD
+  workerId: string;
+  employeeCode: string | null;
+  productId: string;
+  processId: string;
+  shiftType: string;
+  plannedOutput: number;
+  status: string;
+  records: BackupRecord[];
+}
+
+export interface BackupRecord {
+  id: string; // giữ nguyên id khi khôi phục
+  workHour: number;
+  startTime: string; // HH:mm:ss (cột @db.Time, UTC time-of-day)
+  endTime: string;
+  plannedOutput: number | null;
+  basePlannedOutput: number | null;
+  attendanceMinutes: number;
+  actualOutput: number | null;
+  status: string;
+  updatedById: string | null;
+  items: Array<{
+    entryIndex: number;
+    productId: string;
+    processId: string;
+    plannedOutput: number;
+    actualOutput: number;
+    note: string | null;
+  }>;
+  causes: Array<{ cause: string; delta: number; note: string | null }>;
+}
+
+// ── Dữ liệu nguồn (Prisma rows) ──────────────────────────────
+
+export interface SourceWorksheet {
+  id: string;
+  date: Date;
+  workerId: string;
+  productId: string;
+  processId: string;
+  shiftType: string;
+  plannedOutput: number;
+  status: string;
+  worker: { employeeCode: string | null };
+  records: Array<{
+    id: string;
+    workHour: number;
+    startTime: Date;
+    endTime: Date;
+    plannedOutput: number | null;
+    basePlannedOutput: number | null;
+    attendanceMinutes: number;
+    actualOutput: number | null;
+    status: string;
+    updatedById: string | null;
+    items: BackupRecord['items'];
+    causes: BackupRecord['causes'];
+  }>;
+}
+
+/** Khoảng ngày [from, to) của tháng — so với cột WorkSheet.date (@db.Date) */
+export function monthRange(year: number, month: number): { from: Date; to: Date } {
+  return { from: new Date(Date.UTC(year, month - 1, 1)), to: new Date(Date.UTC(year, month, 1)) };
+}
+
+/**
+ * Ngày đầu tháng mốc dọn dữ liệu: giữ tháng hiện tại + N tháng trước đó,
+ * các tháng trước mốc được phép xoá dữ liệu theo giờ
+ */
+export function retentionCutoff(now: Date, months: number): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - months, 1));
+}
+
+export function buildMonthlyBackup(
+  meta: { year: number; month: number; officeId: string; groupId: string },
+  worksheets: SourceWorksheet[],
+  generatedAt: Date = new Date(),
+): MonthlyBackupData {
+  let totalPlanned = 0;
+  let totalActual = 0;
+
+  const rows: BackupWorksheet[] = [...worksheets]
+    .sort((a, b) => a.date.getTime() - b.date.getTime() || a.workerId.localeCompare(b.workerId))
+    .map((ws) => ({
+      id: ws.id,
+      date: ws.date.toISOString().slice(0, 10),
+      workerId: ws.workerId,
+      employeeCode: ws.worker.employeeCode,
+      productId: ws.productId,
+      processId: ws.processId,
+      shiftType: ws.shiftType,
+      plannedOutput: ws.plannedOutput,
+      status: ws.status,
+      records: [...ws.records]
+        .sort((a, b) => a.workHour - b.workHour)
+        .map((r) => {
+          totalPlanned += recordPlannedOutput(r, ws.plannedOutput) * getRecordHourCoefficient(r);
+          totalActual += r.items.reduce((sum, i) => sum + (i.actualOutput || 0), 0);
+          return {
+            id: r.id,
+            workHour: r.workHour,
+            startTime: timeOfDay(r.startTime),
+            endTime: timeOfDay(r.endTime),
+            plannedOutput: r.plannedOutput,
+            basePlannedOutput: r.basePlannedOutput,
+            attendanceMinutes: r.attendanceMinutes,
+            actualOutput: r.actualOutput,
+            status: r.status,
+            updatedById: r.updatedById,
+            items: [...r.items]
+              .sort((a, b) => a.entryIndex - b.entryIndex)
+              .map(({ entryIndex, productId, processId, plannedOutput, actualOutput, note }) => ({
+                entryIndex,
+                productId,
+                processId,
+                plannedOutput,
+                actualOutput,
+                note,
+              })),
+            causes: [...r.causes]
+              .sort((a, b) => a.cause.localeCompare(b.cause))
+              .map(({ cause, delta, note }) => ({ cause, delta, note })),
+          };
+        }),
+    }));
+
+  const fingerprint = backupFingerprint(rows);
+  totalPlanned = Math.round(totalPlanned);
+  return {
+    version: MONTHLY_BACKUP_VERSION,
+    ...meta,
+    generatedAt: generatedAt.toISOString(),
+    summary: {
+      totalWorksheets: rows.length,
+      totalWorkers: new Set(rows.map((w) => w.workerId)).size,
+      totalRecords: fingerprint.records,
+      totalItems: fingerprint.items,
+      totalCauses: fingerprint.causes,
+      totalPlanned,
+      totalActual,
+      avgEfficiency: totalPlanned > 0 ? Math.round((totalActual / totalPlanned) * 1000) / 10 : 0,
+    },
+    worksheets: rows,
+  };
+}
+
+/** Đếm lại + băm toàn bộ nội dung snapshot — dùng để xác minh trước khi dọn dữ liệu thô */
+export function backupFingerprint(worksheets: BackupWorksheet[]) {
+  const fingerprint = { worksheets: worksheets.length, records: 0, items: 0, causes: 0, actual: 0, hash: '' };
+  for (const ws of worksheets) {
+    for (const r of ws.records) {
+      fingerprint.records += 1;
+      fingerprint.items += r.items.length;
+      fingerprint.causes += r.causes.length;
+      fingerprint.actual += r.items.reduce((sum, i) => sum + (i.actualOutput || 0), 0);
+    }
+  }
+  // Sai lệch bất kỳ giá trị nào (không chỉ số lượng) → không khớp
+  fingerprint.hash = createHash('sha256').update(canonicalJson(worksheets)).digest('hex');
+  return fingerprint;
+}
+
+export function sameFingerprint(a: BackupWorksheet[], b: BackupWorksheet[]): boolean {
+  const fa = backupFingerprint(a);
+  const fb = backupFingerprint(b);
+  return (Object.keys(fa) as Array<keyof typeof fa>).every((key) => fa[key] === fb[key]);
+}
+
+/**
+ * Snapshot mới làm mất dữ liệu theo giờ của bản đang lưu: có phiếu trong bản lưu còn records
+ * nhưng nguồn hiện tại không còn (đã bị dọn) → không được ghi đè bản lưu
+ */
+export function dropsRecords(stored: BackupWorksheet[], next: BackupWorksheet[]): boolean {
+  const nextRecords = new Map(next.map((ws) => [ws.id, ws.records.length]));
+  return stored.some((ws) => ws.records.length > 0 && !nextRecords.get(ws.id));
+}
+
+/** JSON với key sắp xếp — jsonb của Postgres không giữ thứ tự key như lúc ghi */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/** Cột @db.Time → "HH:mm:ss" và ngược lại */
+export function timeOfDay(value: Date): string {
+  return value.toISOString().slice(11, 19);
+}
+
+export function parseTimeOfDay(value: string): Date {
+  return new Date(`1970-01-01T${value}.000Z`);
+}
@@ -0,0 +1,359 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { Prisma, ProductionScopeType } from '@prisma/client';
+import { PrismaService } from '../../common/prisma.service';
+import { getRecordHourCoefficient } from './shift-template.util';
+import { recordPlannedOutput } from './attendance.util';
+import { MonthlyBackupService } from './monthly-backup.service';
+
+const VN_OFFSET_MS = 7 * 60 * 60 * 1000;
+// Cron quét lại các bản tổng hợp bị đánh dấu stale trong N ngày gần nhất
+const STALE_SWEEP_DAYS = 31;
+
+interface ScopeMeta {
+  scopeType: ProductionScopeType;
+  scopeId: string;
+  officeId: string;
+  departmentId: string | null;
+  teamId: string | null;
+  groupId: string | null;
+}
+
+interface HourAcc {
+  workHour: number;
+  planned: number;
+  actual: number;
+  totalRecords: number;
+  completedRecords: number;
+  attendanceMinutes: number; // phút vắng (dữ liệu cũ trước khi có cột này không có)
+}
+
+interface ScopeAcc extends ScopeMeta {
+  workerIds: Set<string>;
+  worksheetWorkerIds: Set<string>;
+  totalPlanned: number;
+  totalActual: number;
+  totalRecords: number;
+  completedRecords: number;
+  hourly: Map<number, HourAcc>;
+  causeDeltas: Record<string, number>;
+  attendance: Record<string, { count: number; minutes: number }>;
+}
+
+export interface DailySummaryQuery {
+  date: string; // YYYY-MM-DD
+  scopeType?: ProductionScopeType;
+  officeId?: string;
+  departmentId?: string;
+  teamId?: string;
+  groupId?: string;
+  groupIds?: string[]; // giới hạn cho nhóm trưởng
+}
+
+/** Ngày (YYYY-MM-DD) theo giờ Việt Nam */
+export function toVnDateString(date: Date = new Date()): string {
+  return new Date(date.getTime() + VN_OFFSET_MS).toISOString().split('T')[0];
+}
+
+/**
+ * ProductionSummaryService
+ * Tổng hợp sản lượng theo ngày cho group → team → department (line) → office (xưởng).
+ * - Cách tính SLKH / SLTH giống getWorksheetsForReport (hệ số giờ theo độ dài slot, SLTH = tổng items)
+ * - Ngày trong quá khứ: đọc từ bảng production_daily_summaries, tự tính lại khi thiếu hoặc isStale
+ * - Ngày hôm nay: tính trực tiếp, không ghi bảng
+ * - Ngày trước mốc dọn dữ liệu theo giờ: chỉ đọc bản đã ghi, không tính lại (dữ liệu thô không còn)
+ */
+@Injectable()
+export class ProductionSummaryService {
+  private readonly logger = new Logger(ProductionSummaryService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly monthlyBackup: MonthlyBackupService,
+  ) {}
+
+  // ── Tổng hợp & ghi bảng ──────────────────────────────────────
+
+  /** Tính lại và ghi đè bản tổng hợp của một ngày (toàn bộ hoặc một xưởng) */
+  async generateForDate(dateStr: string, officeId?: string): Promise<number> {
+    if (this.isRawDataPurged(dateStr)) {
+      throw new BadRequestException(`Dữ liệu theo giờ của ngày ${dateStr} đã được dọn theo chính sách lưu trữ — không tính lại được bản tổng hợp`);
+    }
+    const rows = await this.buildSummaries(dateStr, officeId);
+    const date = new Date(dateStr);
+
+    // Cron, ensureFresh và admin có thể tính lại cùng một ngày cùng lúc → khoá theo ngày
+    // để deleteMany + createMany không xen kẽ nhau (P2002 trên unique date/scope)
+    await this.prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`production-summary:${dateStr}`}))`;
+      await tx.productionDailySummary.deleteMany({
+        where: { date, ...(officeId ? { officeId } : {}) },
+      });
+      await tx.productionDailySummary.createMany({ data: rows });
+    });
+
+    return rows.length;
+  }
+
+  /** Đánh dấu bản tổng hợp cần tính lại khi phiếu công của ngày đã qua bị sửa */
+  async markStale(groupId: string, date: Date | string): Promise<void> {
+    const dateStr = typeof date === 'string' ? date.slice(0, 10) : date.toISOString().split('T')[0];
+    if (dateStr >= toVnDateString()) return; // hôm nay luôn tính trực tiếp
+    if (this.isRawDataPurged(dateStr)) return; // giữ bản đã ghi — không còn dữ liệu để tính lại
+
+    const group = await this.prisma.group.findUnique({
+      where: { id: groupId },
+      select: { teamId: true, team: { select: { departmentId: true, department: { select: { officeId: true } } } } },
+    });
+    if (!group) return;
+
+    await this.prisma.productionDailySummary.updateMany({
+      where: {
+        date: new Date(dateStr),
+        isStale: false,
+        scopeId: { in: [groupId, group.teamId, group.team.departmentId, group.team.department.officeId] },
+      },
+      data: { isStale: true },
+    });
+  }
+
+  /** Tính lại các ngày có bản tổng hợp stale (gọi từ cron) */
+  async refreshStale(): Promise<number> {
+    const sweepFrom = new Date(toVnDateString(new Date(Date.now() - STALE_SWEEP_DAYS * 24 * 60 * 60 * 1000)));
+    const cutoff = this.monthlyBackup.rawDataCutoff();
+    const since = cutoff && cutoff > sweepFrom ? cutoff : sweepFrom;
+    const stale = await this.prisma.productionDailySummary.findMany({
+      where: { isStale: true, date: { gte: since } },
+      distinct: ['date', 'officeId'],
+      select: { date: true, officeId: true },
+    });
+
+    for (const s of stale) {
+      await this.generateForDate(s.date.toISOString().split('T')[0], s.officeId);
+    }
+    return stale.length;
+  }
+
+  // ── Đọc ──────────────────────────────────────────────────────
+
+  async getDailySummaries(query: DailySummaryQuery) {
+    const isPast = query.date < toVnDateString();
+
+    let rows: Array<Record<string, unknown> & { totalPlanned?: unknown }>;
+    if (isPast) {
+      await this.ensureFresh(query.date, query.officeId);
+      rows = await this.readRows(query);
+    } else {
+      rows = (await this.buildSummaries(query.date, query.officeId)).filter((r) => this.matches(r, query));
+    }
+
+    return {
+      date: query.date,
+      source: isPast ? 'SNAPSHOT' : 'LIVE',
+      rawDataPurged: this.isRawDataPurged(query.date), // true → bản tổng hợp không còn tính lại được
+      data: rows.map((r) => ({ ...r, totalPlanned: Number(r.totalPlanned) })),
+    };
+  }
+
+  /** Tính lại nếu ngày chưa có bản tổng hợp hoặc có bản stale */
+  private async ensureFresh(dateStr: string, officeId?: string) {
+    if (this.isRawDataPurged(dateStr)) return;
+    const date = new Date(dateStr);
+    const scope = { date, ...(officeId ? { officeId } : {}) };
+    const [total, stale] = await Promise.all([
+      this.prisma.productionDailySummary.count({ where: scope }),
+      this.prisma.productionDailySummary.count({ where: { ...scope, isStale: true } }),
+    ]);
+    if (total === 0 || stale > 0) {
+      const count = await this.generateForDate(dateStr, officeId);
+      this.logger.log(`Recomputed ${count} production summaries for ${dateStr}${officeId ? ` (office ${officeId})` : ''}`);
+    }
+  }
+
+  /** Ngày nằm trước mốc dọn dữ liệu theo giờ (WORKSHEET_RAW_RETENTION_MONTHS) */
+  private isRawDataPurged(dateStr: string): boolean {
+    const cutoff = this.monthlyBackup.rawDataCutoff();
+    return !!cutoff && dateStr < cutoff.toISOString().slice(0, 10);
+  }
+
+  private readRows(query: DailySummaryQuery) {
+    return this.prisma.productionDailySummary.findMany({
+      where: {
+        date: new Date(query.date),
+        ...(query.scopeType ? { scopeType: query.scopeType } : {}),
+        ...(query.officeId ? { officeId: query.officeId } : {}),
+        ...(query.departmentId ? { departmentId: query.departmentId } : {}),
+        ...(query.teamId ? { teamId: query.teamId } : {}),
+        ...(query.groupId ? { groupId: query.groupId } : {}),
+        ...(query.groupIds ? { groupId: { in: query.groupIds } } : {}),
+      },
+      orderBy: [{ scopeType: 'desc' }, { scopeId: 'asc' }],
+    });
+  }
+
+  private matches(r: Prisma.ProductionDailySummaryCreateManyInput, q: DailySummaryQuery): boolean {
+    if (q.scopeType && r.scopeType !== q.scopeType) return false;
+    if (q.officeId && r.officeId !== q.officeId) return false;
+    if (q.departmentId && r.departmentId !== q.departmentId) return false;
+    if (q.teamId && r.teamId !== q.teamId) return false;
+    if (q.groupId && r.groupId !== q.groupId) return false;
+    if (q.groupIds && !q.groupIds.includes(r.groupId ?? '')) return false;
+    return true;
+  }
+
+  // ── Tính toán ────────────────────────────────────────────────
+
+  private async buildSummaries(dateStr: string, officeId?: string): Promise<Prisma.ProductionDailySummaryCreateManyInput[]> {
+    const date = new Date(dateStr);
+    const groupSelect = {
+      id: true,
+      teamId: true,
+      team: { select: { departmentId: true, department: { select: { officeId: true } } } },
+    } as const;
+
+    const [worksheets, workers] = await Promise.all([
+      this.prisma.workSheet.findMany({
+        where: { date, ...(officeId ? { group: { team: { department: { officeId } } } } : {}) },
+        select: {
+          workerId: true,
+          shiftType: true,
+          plannedOutput: true,
+          group: { select: groupSelect },
+          records: {
+            select: {
+              workHour: true,
+              startTime: true,
+              endTime: true,
+              plannedOutput: true,
+              attendanceMinutes: true,
+              status: true,
+              items: { select: { actualOutput: true } },
+              causes: { select: { cause: true, delta: true } },
+            },
+          },
+          attendanceEvents: { select: { eventType: true, minutes: true } },
+        },
+      }),
+      this.prisma.user.findMany({
+        where: {
+          isActive: true,
+          groupId: { not: null },
+          ...(officeId ? { group: { team: { department: { officeId } } } } : {}),
+        },
+        select: { id: true, group: { select: groupSelect } },
+      }),
+    ]);
+
+    const accs = new Map<string, ScopeAcc>();
+    const scopesOf = (group: { id: string; teamId: string; team: { departmentId: string; department: { officeId: string } } }) => {
+      const office = group.team.department.officeId;
+      const dept = group.team.departmentId;
+      const metas: ScopeMeta[] = [
+        { scopeType: 'GROUP', scopeId: group.id, officeId: office, departmentId: dept, teamId: group.teamId, groupId: group.id },
+        { scopeType: 'TEAM', scopeId: group.teamId, officeId: office, departmentId: dept, teamId: group.teamId, groupId: null },
+        { scopeType: 'DEPARTMENT', scopeId: dept, officeId: office, departmentId: dept, teamId: null, groupId: null },
+        { scopeType: 'OFFICE', scopeId: office, officeId: office, departmentId: null, teamId: null, groupId: null },
+      ];
+      return metas.map((m) => {
+        const key = `${m.scopeType}:${m.scopeId}`;
+        let acc = accs.get(key);
+        if (!acc) {
+          acc = {
+            ...m,
+            workerIds: new Set(),
+            worksheetWorkerIds: new Set(),
+            totalPlanned: 0,
+            totalActual: 0,
+            totalRecords: 0,
+            completedRecords: 0,
+            hourly: new Map(),
+            causeDeltas: {},
+            attendance: {},
+          };
+          accs.set(key, acc);
+        }
+        return acc;
+      });
+    };
+
+    for (const w of workers) {
+      if (!w.group) continue;
+      scopesOf(w.group).forEach((acc) => acc.workerIds.add(w.id));
+    }
+
+    for (const ws of worksheets) {
+      const targets = scopesOf(ws.group);
+      let planned = 0;
+      let actual = 0;
+      const hours: HourAcc[] = [];
+      const causes: Record<string, number> = {};
+
+      for (const record of ws.records) {
+        const hourCoefficient = getRecordHourCoefficient(record);
+        planned += recordPlannedOutput(record, ws.plannedOutput) * hourCoefficient;
+        const hourActual = record.items.reduce((sum, i) => sum + (i.actualOutput || 0), 0);
+        actual += hourActual;
+        hours.push({
+          workHour: record.workHour,
+          planned: record.plannedOutput || 0,
+          actual: hourActual,
+          totalRecords: 1,
+          completedRecords: record.status === 'COMPLETED' ? 1 : 0,
+          attendanceMinutes: record.attendanceMinutes,
+        });
+        record.causes.forEach((c) => { causes[c.cause] = (causes[c.cause] ?? 0) + c.delta; });
+      }
+
+      for (const acc of targets) {
+        acc.worksheetWorkerIds.add(ws.workerId);
+        acc.workerIds.add(ws.workerId);
+        acc.totalPlanned += planned;
+        acc.totalActual += actual;
+        for (const h of hours) {
+          acc.totalRecords += h.totalRecords;
+          acc.completedRecords += h.completedRecords;
+          const hourAcc = acc.hourly.get(h.workHour) ?? {
+            workHour: h.workHour, planned: 0, actual: 0, totalRecords: 0, completedRecords: 0, attendanceMinutes: 0,
+          };
+          hourAcc.planned += h.planned;
+          hourAcc.actual += h.actual;
+          hourAcc.totalRecords += h.totalRecords;
+          hourAcc.completedRecords += h.completedRecords;
+          hourAcc.attendanceMinutes += h.attendanceMinutes;
+          acc.hourly.set(h.workHour, hourAcc);
+        }
+        Object.entries(causes).forEach(([cause, delta]) => {
+          acc.causeDeltas[cause] = (acc.causeDeltas[cause] ?? 0) + delta;
+        });
+        ws.attendanceEvents.forEach((e) => {
+          const a = acc.attendance[e.eventType] ?? { count: 0, minutes: 0 };
+          a.count += 1;
+          a.minutes += e.minutes;
+          acc.attendance[e.eventType] = a;
+        });
+      }
+    }
+
+    const generatedAt = new Date();
+    return [...accs.values()].map((acc) => ({
+      date,
+      scopeType: acc.scopeType,
+      scopeId: acc.scopeId,
+      officeId: acc.officeId,
+      departmentId: acc.departmentId,
+      teamId: acc.teamId,
+      groupId: acc.groupId,
+      totalWorkers: acc.workerIds.size,
+      workersWithWorksheet: acc.worksheetWorkerIds.size,
+      totalPlanned: new Prisma.Decimal(acc.totalPlanned),
+      totalActual: acc.totalActual,
+      efficiency: acc.totalPlanned > 0 ? Math.round((acc.totalActual / acc.totalPlanned) * 100) : 0,
+      totalRecords: acc.totalRecords,
+      completedRecords: acc.completedRecords,
+      hourly: [...acc.hourly.values()].sort((a, b) => a.workHour - b.workHour) as unknown as Prisma.InputJsonValue,
+      causeDeltas: acc.causeDeltas,
+      attendance: acc.attendance,
+      isStale: false,
+      generatedAt,
+    }));
+  }
+}
@@ -0,0 +1,229 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { CauseType, Prisma } from '@prisma/client';
+import { PrismaService } from '../../common/prisma.service';
+import { ParetoItem, RecordCauseInput, hourTarget, paretoRank, validateRecordCauses } from './record-cause.util';
+
+const DAY_MS = 86_400_000;
+// Giới hạn khoảng thời gian phân tích để tránh quét quá nhiều phiếu
+const MAX_ANALYTICS_DAYS = 186;
+
+export type CausePeriod = 'day' | 'week' | 'month';
+
+export interface CauseAnalyticsQuery {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+  period?: CausePeriod;
+  officeId?: string;
+  departmentId?: string; // line
+  teamId?: string;
+  groupId?: string;
+  productId?: string;
+  processId?: string;
+  groupIds?: string[]; // giới hạn cho nhóm trưởng
+}
+
+interface Bucket {
+  key: string;
+  name: string | null;
+  code?: string | null;
+  recordIds: Set<string>; // số giờ có nguyên nhân
+  causeDeltas: Record<string, number>;
+}
+
+/**
+ * RecordCauseService
+ * Nguyên nhân hụt sản lượng theo giờ (VT / CN / CL / MM / Khác):
+ * - Ghi nguyên nhân khi nhập sản lượng theo giờ / sửa 1 giờ — tổng delta phải bằng phần hụt (SLTH − SLKH)
+ * - Phân tích Pareto theo line (phòng ban), mã túi, công đoạn và theo kỳ
+ * Giờ có nhiều mã túi: nguyên nhân tính cho mã túi / công đoạn của entry đầu tiên trong giờ.
+ */
+@Injectable()
+export class RecordCauseService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ── Ghi nguyên nhân ──────────────────────────────────────────
+
+  /**
+   * Ghi nguyên nhân cho 1 giờ (gọi trong transaction, sau khi đã cập nhật SLKH / SLTH)
+   * - causes có giá trị → thay toàn bộ nguyên nhân của giờ đó (mảng rỗng = xoá)
+   * - causes undefined → giữ nguyên, trừ khi không còn khớp phần hụt mới thì xoá
+   */
+  async applyCauses(
+    tx: Prisma.TransactionClient,
+    record: {
+      id: string;
+      plannedOutput: number | null;
+      actualOutput: number | null;
+      attendanceMinutes?: number | null;
+      startTime: Date;
+      endTime: Date;
+    },
+    worksheetPlannedOutput: number,
+    causes: RecordCauseInput[] | undefined,
+    context?: string,
+  ) {
+    const target = hourTarget(record, worksheetPlannedOutput);
+    if (causes === undefined) {
+      const existing = await tx.workSheetRecordCause.findMany({
+        where: { recordId: record.id },
+        select: { cause: true, delta: true },
+      });
+      if (existing.length && validateRecordCauses(target, record.actualOutput, existing)) {
+        await tx.workSheetRecordCause.deleteMany({ where: { recordId: record.id } });
+      }
+      return;
+    }
+
+    const error = validateRecordCauses(target, record.actualOutput, causes);
+    if (error) {
+      throw new BadRequestException(context ? `${context}: ${error}` : error);
+    }
+
+    await tx.workSheetRecordCause.deleteMany({ where: { recordId: record.id } });
+    if (causes.length) {
+      await tx.workSheetRecordCause.createMany({
+        data: causes.map((c) => ({
+          recordId: record.id,
+          cause: c.cause as CauseType,
+          delta: c.delta,
+          note: c.note || null,
+        })),
+      });
+    }
+  }
+
+  // ── Phân tích Pareto ─────────────────────────────────────────
+
+  async getCauseAnalytics(query: CauseAnalyticsQuery) {
+    const period = query.period ?? 'day';
+    const from = new Date(`${query.from}T00:00:00.000Z`);
+    const to = new Date(`${query.to}T00:00:00.000Z`);
+    if ((to.getTime() - from.getTime()) / DAY_MS > MAX_ANALYTICS_DAYS) {
+      throw new BadRequestException(`Khoảng thời gian phân tích tối đa ${MAX_ANALYTICS_DAYS} ngày`);
+    }
+
+    const worksheetWhere: Prisma.WorkSheetWhereInput = { date: { gte: from, lte: to } };
+    if (query.groupId) worksheetWhere.groupId = query.groupId;
+    else if (query.teamId) worksheetWhere.group = { teamId: query.teamId };
+    else if (query.departmentId) worksheetWhere.group = { team: { departmentId: query.departmentId } };
+    else if (query.officeId) worksheetWhere.officeId = query.officeId;
+    if (query.groupIds) {
+      worksheetWhere.AND = [{ groupId: { in: query.groupIds } }];
+    }
+
+    const causes = await this.prisma.workSheetRecordCause.findMany({
+      where: { record: { worksheet: worksheetWhere } },
+      select: {
+        recordId: true,
+        cause: true,
+        delta: true,
+        record: {
+          select: {
+            items: {
+              where: { entryIndex: 1 },
+              select: {
+                product: { select: { id: true, name: true, code: true } },
+                process: { select: { id: true, name: true, code: true } },
+              },
+            },
+            worksheet: {
+              select: {
+                date: true,
+                product: { select: { id: true, name: true, code: true } },
+                process: { select: { id: true, name: true, code: true } },
+                group: { select: { team: { select: { department: { select: { id: true, name: true } } } } } },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    const total: Record<string, number> = {};
+    const recordIds = new Set<string>();
+    const byLine = new Map<string, Bucket>();
+    const byProduct = new Map<string, Bucket>();
+    const byProcess = new Map<string, Bucket>();
+    const byPeriod = new Map<string, Bucket>();
+
+    for (const c of causes) {
+      const { worksheet, items } = c.record;
+      const product = items[0]?.product ?? worksheet.product;
+      const process = items[0]?.process ?? worksheet.process;
+      if (query.productId && product.id !== query.productId) continue;
+      if (query.processId && process.id !== query.processId) continue;
+
+      const line = worksheet.group.team?.department;
+      const periodKey = periodOf(worksheet.date, period);
+
+      recordIds.add(c.recordId);
+      total[c.cause] = (total[c.cause] ?? 0) + c.delta;
+      this.addTo(byLine, line?.id ?? 'NONE', line?.name ?? null, null, c);
+      this.addTo(byProduct, product.id, product.name, product.code, c);
+      this.addTo(byProcess, process.id, process.name, process.code, c);
+      this.addTo(byPeriod, periodKey, periodKey, null, c);
+    }
+
+    const pareto = paretoRank(total);
+    return {
+      from: query.from,
+      to: query.to,
+      period,
+      totalLostOutput: pareto.reduce((sum, p) => sum + p.lostOutput, 0),
+      recordsWithCauses: recordIds.size,
+      pareto,
+      byLine: this.rank(byLine).map(({ key, name, ...rest }) => ({ departmentId: key === 'NONE' ? null : key, name, ...rest })),
+      byProduct: this.rank(byProduct).map(({ key, ...rest }) => ({ productId: key, ...rest })),
+      byProcess: this.rank(byProcess).map(({ key, ...rest }) => ({ processId: key, ...rest })),
+      byPeriod: this.rank(byPeriod)
+        .sort((a, b) => a.key.localeCompare(b.key))
+        .map(({ key, name: _name, code: _code, ...rest }) => ({ period: key, ...rest })),
+    };
+  }
+
+  // ── Helpers ──────────────────────────────────────────────────
+
+  private addTo(
+    buckets: Map<string, Bucket>,
+    key: string,
+    name: string | null,
+    code: string | null,
+    cause: { recordId: string; cause: string; delta: number },
+  ) {
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = { key, name, code, recordIds: new Set(), causeDeltas: {} };
+      buckets.set(key, bucket);
+    }
+    bucket.recordIds.add(cause.recordId);
+    bucket.causeDeltas[cause.cause] = (bucket.causeDeltas[cause.cause] ?? 0) + cause.delta;
+  }
+
+  /** Bucket → Pareto, sắp theo tổng hụt giảm dần */
+  private rank(buckets: Map<string, Bucket>): Array<{
+    key: string;
+    name: string | null;
+    code?: string | null;
+    records: number;
+    lostOutput: number;
+    pareto: ParetoItem[];
+  }> {
+    return [...buckets.values()]
+      .map(({ causeDeltas, recordIds, ...bucket }) => {
+        const pareto = paretoRank(causeDeltas);
+        return { ...bucket, records: recordIds.size, lostOutput: pareto.reduce((sum, p) => sum + p.lostOutput, 0), pareto };
+      })
+      .sort((a, b) => b.lostOutput - a.lostOutput);
+  }
+}
+
+/** Khoá kỳ: ngày (YYYY-MM-DD), tuần (ngày thứ Hai đầu tuần) hoặc tháng (YYYY-MM) */
+function periodOf(date: Date, period: CausePeriod): string {
+  const day = date.toISOString().slice(0, 10);
+  if (period === 'month') return day.slice(0, 7);
+  if (period === 'week') {
+    const offset = (date.getUTCDay() + 6) % 7;
+    return new Date(date.getTime() - offset * DAY_MS).toISOString().slice(0, 10);
+  }
+  return day;
+}
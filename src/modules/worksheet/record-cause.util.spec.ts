@@ -0,0 +1,72 @@
+import { hourTarget, paretoRank, validateRecordCauses } from './record-cause.util';
+
+const time = (hhmm: string) => new Date(`1970-01-01T${hhmm}:00.000Z`);
+
+describe('Record cause utils', () => {
+  describe('validateRecordCauses', () => {
+    it('should accept causes adding up to the shortfall', () => {
+      expect(
+        validateRecordCauses(100, 80, [
+          { cause: 'MATERIALS', delta: -15 },
+          { cause: 'MACHINERY', delta: -5 },
+        ]),
+      ).toBeNull();
+    });
+
+    it('should always accept an empty list', () => {
+      expect(validateRecordCauses(100, 120, [])).toBeNull();
+      expect(validateRecordCauses(null, null, [])).toBeNull();
+    });
+
+    it('should reject causes that do not match the shortfall', () => {
+      expect(validateRecordCauses(100, 80, [{ cause: 'MATERIALS', delta: -10 }])).toContain('(-20)');
+    });
+
+    it('should reject causes when the hour met its target', () => {
+      expect(validateRecordCauses(100, 100, [{ cause: 'OTHER', delta: -1 }])).not.toBeNull();
+    });
+
+    it('should reject duplicate causes and non-negative deltas', () => {
+      expect(
+        validateRecordCauses(100, 80, [
+          { cause: 'QUALITY', delta: -10 },
+          { cause: 'QUALITY', delta: -10 },
+        ]),
+      ).not.toBeNull();
+      expect(
+        validateRecordCauses(100, 80, [
+          { cause: 'QUALITY', delta: -25 },
+          { cause: 'OTHER', delta: 5 },
+        ]),
+      ).not.toBeNull();
+    });
+
+    it('should reject causes on hours without plan or output', () => {
+      expect(validateRecordCauses(null, 80, [{ cause: 'OTHER', delta: -1 }])).not.toBeNull();
+    });
+  });
+
+  describe('hourTarget', () => {
+    it('should scale the hourly target by slot length', () => {
+      expect(hourTarget({ plannedOutput: 100, startTime: time('16:30'), endTime: time('18:00') }, 80)).toBe(150);
+    });
+
+    it('should fall back to the worksheet target', () => {
+      expect(hourTarget({ plannedOutput: null, startTime: time('07:30'), endTime: time('08:30') }, 80)).toBe(80);
+    });
+  });
+
+  describe('paretoRank', () => {
+    it('should sort by lost output with cumulative share', () => {
+      const result = paretoRank({ MATERIALS: -20, QUALITY: -60, OTHER: -20, MACHINERY: 0 });
+      expect(result.map((r) => r.cause)).toEqual(['QUALITY', 'MATERIALS', 'OTHER']);
+      expect(result.map((r) => r.share)).toEqual([60, 20, 20]);
+      expect(result.map((r) => r.cumulativeShare)).toEqual([60, 80, 100]);
+      expect(result[0].label).toBe('Chất lượng');
+    });
+
+    it('should return an empty list without losses', () => {
+      expect(paretoRank({})).toEqual([]);
+    });
+  });
+});
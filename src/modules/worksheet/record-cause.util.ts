@@ -0,0 +1,96 @@
+/**
+ * Nguyên nhân hụt sản lượng theo giờ (WorkSheetRecordCause) — thuần, không truy cập DB
+ * delta = ảnh hưởng lên sản lượng (âm = số SP bị hụt do nguyên nhân đó)
+ * Tổng delta của 1 giờ phải bằng SLTH − SLKH của giờ đó.
+ */
+import { recordPlannedOutput } from './attendance.util';
+import { getRecordHourCoefficient } from './shift-template.util';
+
+export const CAUSE_LABELS: Record<string, string> = {
+  MATERIALS: 'Vật tư',
+  TECHNOLOGY: 'Công nghệ',
+  QUALITY: 'Chất lượng',
+  MACHINERY: 'Máy móc - thiết bị',
+  OTHER: 'Khác',
+};
+
+export interface RecordCauseInput {
+  cause: string;
+  delta: number;
+  note?: string | null;
+}
+
+export interface ParetoItem {
+  cause: string;
+  label: string;
+  lostOutput: number;
+  share: number; // % trên tổng hụt
+  cumulativeShare: number; // % cộng dồn — nhóm nguyên nhân chính là các dòng có cumulativeShare ≤ 80
+}
+
+/**
+ * SLKH thực của 1 giờ — cùng cách tính với getWorksheetGrid / bản tổng hợp ngày:
+ * SLKH giờ (đã trừ vắng mặt, fallback SLKH/giờ của phiếu) × hệ số độ dài slot
+ */
+export function hourTarget(
+  record: { plannedOutput: number | null; attendanceMinutes?: number | null; startTime: Date; endTime: Date },
+  worksheetPlannedOutput: number,
+): number {
+  const planned = recordPlannedOutput(record, worksheetPlannedOutput);
+  return Math.round(planned * getRecordHourCoefficient(record));
+}
+
+/** Trả về thông báo lỗi, null = hợp lệ. Danh sách rỗng luôn hợp lệ (xoá nguyên nhân). */
+export function validateRecordCauses(
+  plannedOutput: number | null,
+  actualOutput: number | null,
+  causes: RecordCauseInput[],
+): string | null {
+  if (causes.length === 0) return null;
+  if (plannedOutput == null || actualOutput == null) {
+    return 'Giờ này chưa có kế hoạch hoặc sản lượng, không thể ghi nguyên nhân';
+  }
+
+  const seen = new Set<string>();
+  for (const c of causes) {
+    if (seen.has(c.cause)) return `Nguyên nhân ${CAUSE_LABELS[c.cause] ?? c.cause} bị lặp`;
+    seen.add(c.cause);
+    if (!Number.isInteger(c.delta) || c.delta >= 0) {
+      return 'Ảnh hưởng của mỗi nguyên nhân phải là số nguyên âm (số sản phẩm bị hụt)';
+    }
+  }
+
+  const shortfall = plannedOutput - actualOutput;
+  if (shortfall <= 0) return 'Giờ này đạt kế hoạch, không cần ghi nguyên nhân';
+
+  const total = causes.reduce((sum, c) => sum + c.delta, 0);
+  if (total !== -shortfall) {
+    return `Tổng ảnh hưởng các nguyên nhân (${total}) phải bằng phần hụt so với kế hoạch (${-shortfall})`;
+  }
+  return null;
+}
+
+/** Xếp hạng Pareto từ tổng delta theo nguyên nhân (delta âm → số SP hụt) */
+export function paretoRank(causeDeltas: Record<string, number>): ParetoItem[] {
+  const rows = Object.entries(causeDeltas)
+    .map(([cause, delta]) => ({ cause, lostOutput: Math.max(0, -delta) }))
+    .filter((r) => r.lostOutput > 0)
+    .sort((a, b) => b.lostOutput - a.lostOutput || a.cause.localeCompare(b.cause));
+
+  const total = rows.reduce((sum, r) => sum + r.lostOutput, 0);
+  let cumulative = 0;
+  return rows.map((r) => {
+    cumulative += r.lostOutput;
+    return {
+      cause: r.cause,
+      label: CAUSE_LABELS[r.cause] ?? r.cause,
+      lostOutput: r.lostOutput,
+      share: round1((r.lostOutput / total) * 100),
+      cumulativeShare: round1((cumulative / total) * 100),
+    };
+  });
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
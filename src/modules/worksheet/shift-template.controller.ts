@@ -0,0 +1,74 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { ShiftType } from '@prisma/client';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { GetUser } from '../../common/decorators/get-user.decorator';
+import { Audit } from '../../common/decorators/audit.decorator';
+import { ShiftTemplateService } from './shift-template.service';
+import { CreateShiftTemplateDto, UpdateShiftTemplateDto } from './dto/shift-template.dto';
+
+@ApiTags('shift-templates')
+@ApiBearerAuth('JWT-auth')
+@Controller('shift-templates')
+@Audit('ShiftTemplate')
+export class ShiftTemplateController {
+  constructor(private readonly shiftTemplateService: ShiftTemplateService) {}
+
+  private resolveCompanyId(user: any): string | undefined {
+    const isSuperAdmin = user?.roles?.some((r: any) => r?.roleDefinition?.code === 'SUPERADMIN');
+    return isSuperAdmin ? undefined : (user?.companyId ?? undefined);
+  }
+
+  @Get()
+  @RequirePermissions('worksheets:view')
+  @ApiOperation({ summary: 'Danh sách khung giờ ca (của xưởng / công ty / mặc định)' })
+  @ApiQuery({ name: 'officeId', required: false, description: 'Chỉ lấy các mẫu áp dụng được cho xưởng này' })
+  @ApiQuery({ name: 'shiftType', required: false, enum: ShiftType })
+  @ApiQuery({ name: 'includeInactive', required: false, type: Boolean })
+  findAll(
+    @GetUser() user: any,
+    @Query('officeId') officeId?: string,
+    @Query('shiftType') shiftType?: ShiftType,
+    @Query('includeInactive') includeInactive?: string,
+  ) {
+    return this.shiftTemplateService.findAll(this.resolveCompanyId(user), {
+      officeId,
+      shiftType,
+      includeInactive: includeInactive === 'true',
+    });
+  }
+
+  @Get('resolve')
+  @RequirePermissions('worksheets:view')
+  @ApiOperation({ summary: 'Khung giờ sẽ áp dụng khi tạo phiếu công cho xưởng + loại ca' })
+  @ApiQuery({ name: 'officeId', required: true })
+  @ApiQuery({ name: 'shiftType', required: false, enum: ShiftType })
+  resolve(@Query('officeId') officeId: string, @Query('shiftType') shiftType?: ShiftType) {
+    return this.shiftTemplateService.resolve({ officeId, shiftType });
+  }
+
+  @Get(':id')
+  @RequirePermissions('worksheets:view')
+  findOne(@Param('id') id: string) {
+    return this.shiftTemplateService.findById(id);
+  }
+
+  @Post()
+  @RequirePermissions('worksheets:manage')
+  @ApiOperation({ summary: 'Tạo khung giờ ca cho xưởng / công ty' })
+  create(@GetUser() user: any, @Body() dto: CreateShiftTemplateDto) {
+    return this.shiftTemplateService.create(dto, this.resolveCompanyId(user));
+  }
+
+  @Patch(':id')
+  @RequirePermissions('worksheets:manage')
+  update(@GetUser() user: any, @Param('id') id: string, @Body() dto: UpdateShiftTemplateDto) {
+    return this.shiftTemplateService.update(id, dto, this.resolveCompanyId(user));
+  }
+
+  @Delete(':id')
+  @RequirePermissions('worksheets:manage')
+  remove(@GetUser() user: any, @Param('id') id: string) {
+    return this.shiftTemplateService.remove(id, this.resolveCompanyId(user));
+  }
+}
@@ -0,0 +1,270 @@
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma, ShiftTemplate, ShiftType } from '@prisma/client';
+import { PrismaService } from '../../common/prisma.service';
+import { CreateShiftTemplateDto, UpdateShiftTemplateDto } from './dto/shift-template.dto';
+import {
+  DEFAULT_SHIFT_DEFINITIONS,
+  ShiftBreak,
+  ShiftSlot,
+  crossesMidnight,
+  validateShiftDefinition,
+} from './shift-template.util';
+
+export interface ResolvedShiftTemplate {
+  id: string | null; // null = fallback hard-coded (DB chưa seed mẫu mặc định)
+  code: string;
+  name: string;
+  shiftType: ShiftType;
+  slots: ShiftSlot[];
+  breaks: ShiftBreak[];
+  isNightShift: boolean;
+}
+
+/**
+ * ShiftTemplateService
+ * Khung giờ ca làm việc theo thứ tự ưu tiên: xưởng (officeId) → công ty → mặc định hệ thống → hằng số.
+ * Phiếu công lưu shiftTemplateId lúc tạo; phiếu cũ (null) dùng mẫu đang áp dụng cho shiftType.
+ */
+@Injectable()
+export class ShiftTemplateService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ── Resolve ──────────────────────────────────────────────────
+
+  /**
+   * Chọn khung giờ cho phiếu công của một xưởng.
+   * Có shiftTemplateId → dùng đúng mẫu đó (phải áp dụng được cho xưởng); không có → theo shiftType.
+   */
+  async resolve(params: {
+    officeId: string;
+    shiftType?: ShiftType;
+    shiftTemplateId?: string | null;
+  }): Promise<ResolvedShiftTemplate> {
+    const office = await this.prisma.office.findUnique({
+      where: { id: params.officeId },
+      select: { id: true, companyId: true },
+    });
+    if (!office) throw new NotFoundException('Không tìm thấy xưởng');
+
+    if (params.shiftTemplateId) {
+      const template = await this.prisma.shiftTemplate.findUnique({ where: { id: params.shiftTemplateId } });
+      if (!template || !template.isActive) {
+        throw new BadRequestException('Khung giờ ca không tồn tại hoặc đã ngừng sử dụng');
+      }
+      if (
+        (template.officeId && template.officeId !== office.id) ||
+        (template.companyId && template.companyId !== office.companyId)
+      ) {
+        throw new BadRequestException('Khung giờ ca không áp dụng cho xưởng này');
+      }
+      return this.toResolved(template);
+    }
+
+    const shiftType = params.shiftType ?? ShiftType.NORMAL_8H;
+    const candidates = await this.prisma.shiftTemplate.findMany({
+      where: {
+        isActive: true,
+        shiftType,
+        OR: [
+          { officeId: office.id },
+          { officeId: null, companyId: office.companyId },
+          { officeId: null, companyId: null },
+        ],
+      },
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    const rank = (t: ShiftTemplate) => (t.officeId ? 0 : t.companyId ? 1 : 2);
+    const best = candidates.sort((a, b) => rank(a) - rank(b))[0];
+    return best ? this.toResolved(best) : this.fallback(shiftType);
+  }
+
+  /**
+   * Resolve hàng loạt cho danh sách phiếu (grid / analytics) — cache theo mẫu hoặc (xưởng, shiftType)
+   * @returns Map key = worksheet id
+   */
+  async resolveForWorksheets(
+    worksheets: Array<{ id: string; officeId: string; shiftType: ShiftType; shiftTemplateId?: string | null }>,
+  ): Promise<Map<string, ResolvedShiftTemplate>> {
+    const cache = new Map<string, Promise<ResolvedShiftTemplate>>();
+    const result = new Map<string, ResolvedShiftTemplate>();
+
+    for (const ws of worksheets) {
+      const key = ws.shiftTemplateId ?? `${ws.officeId}:${ws.shiftType}`;
+      if (!cache.has(key)) {
+        cache.set(
+          key,
+          ws.shiftTemplateId
+            ? this.findStoredTemplate(ws.shiftTemplateId, ws)
+            : this.resolve({ officeId: ws.officeId, shiftType: ws.shiftType }),
+        );
+      }
+      result.set(ws.id, await cache.get(key)!);
+    }
+    return result;
+  }
+
+  /** Mẫu đã gắn vào phiếu — vẫn dùng khi đã ngừng áp dụng (isActive=false), xóa mất thì theo shiftType */
+  private async findStoredTemplate(
+    id: string,
+    ws: { officeId: string; shiftType: ShiftType },
+  ): Promise<ResolvedShiftTemplate> {
+    const template = await this.prisma.shiftTemplate.findUnique({ where: { id } });
+    return template ? this.toResolved(template) : this.resolve({ officeId: ws.officeId, shiftType: ws.shiftType });
+  }
+
+  private toResolved(template: ShiftTemplate): ResolvedShiftTemplate {
+    return {
+      id: template.id,
+      code: template.code,
+      name: template.name,
+      shiftType: template.shiftType,
+      slots: [...(template.slots as unknown as ShiftSlot[])].sort((a, b) => a.hour - b.hour),
+      breaks: (template.breaks as unknown as ShiftBreak[]) ?? [],
+      isNightShift: template.isNightShift,
+    };
+  }
+
+  private fallback(shiftType: ShiftType): ResolvedShiftTemplate {
+    const def = DEFAULT_SHIFT_DEFINITIONS[shiftType] ?? DEFAULT_SHIFT_DEFINITIONS.NORMAL_8H;
+    return {
+      id: null,
+      code: shiftType,
+      name: def.name,
+      shiftType,
+      slots: def.slots,
+      breaks: def.breaks,
+      isNightShift: false,
+    };
+  }
+
+  // ── CRUD ─────────────────────────────────────────────────────
+
+  /** companyId undefined = SUPERADMIN (xem tất cả) */
+  async findAll(
+    companyId: string | undefined,
+    query: { officeId?: string; shiftType?: ShiftType; includeInactive?: boolean },
+  ) {
+    const where: Prisma.ShiftTemplateWhereInput = {};
+    if (!query.includeInactive) where.isActive = true;
+    if (query.shiftType) where.shiftType = query.shiftType;
+    if (companyId) where.OR = [{ companyId }, { companyId: null, officeId: null }];
+    if (query.officeId) {
+      // Các mẫu áp dụng được cho xưởng: của xưởng + chung công ty + mặc định
+      const office = await this.prisma.office.findUnique({
+        where: { id: query.officeId },
+        select: { companyId: true },
+      });
+      if (!office) throw new NotFoundException('Không tìm thấy xưởng');
+      where.AND = [{
+        OR: [
+          { officeId: query.officeId },
+          { officeId: null, companyId: office.companyId },
+          { officeId: null, companyId: null },
+        ],
+      }];
+    }
+
+    return this.prisma.shiftTemplate.findMany({
+      where,
+      include: { office: { select: { id: true, name: true } } },
+      orderBy: [{ shiftType: 'asc' }, { officeId: 'asc' }, { code: 'asc' }],
+    });
+  }
+
+  async findById(id: string) {
+    const template = await this.prisma.shiftTemplate.findUnique({
+      where: { id },
+      include: { office: { select: { id: true, name: true } } },
+    });
+    if (!template) throw new NotFoundException('Không tìm thấy khung giờ ca');
+    return template;
+  }
+
+  async create(dto: CreateShiftTemplateDto, companyId: string | undefined) {
+    let targetCompanyId = companyId ?? dto.companyId ?? null;
+    if (dto.officeId) {
+      const office = await this.prisma.office.findUnique({
+        where: { id: dto.officeId },
+        select: { companyId: true },
+      });
+      if (!office) throw new NotFoundException('Không tìm thấy xưởng');
+      if (companyId && office.companyId !== companyId) {
+        throw new ForbiddenException('Xưởng không thuộc công ty của bạn');
+      }
+      targetCompanyId = office.companyId;
+    }
+
+    const breaks = dto.breaks ?? [];
+    this.assertValidDefinition(dto.slots, breaks);
+
+    return this.prisma.shiftTemplate.create({
+      data: {
+        code: dto.code.trim().toUpperCase(),
+        name: dto.name.trim(),
+        shiftType: dto.shiftType,
+        companyId: targetCompanyId,
+        officeId: dto.officeId ?? null,
+        slots: dto.slots as unknown as Prisma.InputJsonValue,
+        breaks: breaks as unknown as Prisma.InputJsonValue,
+        isNightShift: dto.isNightShift ?? crossesMidnight(dto.slots),
+        isDefault: dto.isDefault ?? false,
+      },
+    });
+  }
+
+  /**
+   * Sửa khung giờ — chỉ ảnh hưởng phiếu tạo sau; record của phiếu cũ giữ nguyên giờ đã lưu.
+   */
+  async update(id: string, dto: UpdateShiftTemplateDto, companyId: string | undefined) {
+    const template = await this.findById(id);
+    this.assertCanModify(template, companyId);
+
+    const slots = dto.slots ?? (template.slots as unknown as ShiftSlot[]);
+    const breaks = dto.breaks ?? (template.breaks as unknown as ShiftBreak[]);
+    if (dto.slots || dto.breaks) this.assertValidDefinition(slots, breaks);
+
+    return this.prisma.shiftTemplate.update({
+      where: { id },
+      data: {
+        code: dto.code?.trim().toUpperCase(),
+        name: dto.name?.trim(),
+        shiftType: dto.shiftType,
+        slots: dto.slots ? (dto.slots as unknown as Prisma.InputJsonValue) : undefined,
+        breaks: dto.breaks ? (dto.breaks as unknown as Prisma.InputJsonValue) : undefined,
+        isNightShift: dto.isNightShift ?? (dto.slots ? crossesMidnight(slots) : undefined),
+        isDefault: dto.isDefault,
+        isActive: dto.isActive,
+      },
+    });
+  }
+
+  /** Mẫu đã dùng cho phiếu công → chỉ ngừng áp dụng, giữ lại để phiếu cũ tra cứu */
+  async remove(id: string, companyId: string | undefined) {
+    const template = await this.findById(id);
+    this.assertCanModify(template, companyId);
+
+    const used = await this.prisma.workSheet.count({ where: { shiftTemplateId: id } });
+    if (used > 0) {
+      await this.prisma.shiftTemplate.update({ where: { id }, data: { isActive: false } });
+      return { message: `Khung giờ ca đang được ${used} phiếu công sử dụng — đã chuyển sang ngừng áp dụng` };
+    }
+    await this.prisma.shiftTemplate.delete({ where: { id } });
+    return { message: 'Đã xóa khung giờ ca' };
+  }
+
+  private assertCanModify(template: ShiftTemplate, companyId: string | undefined) {
+    if (!companyId) return;
+    if (!template.companyId) {
+      throw new ForbiddenException('Chỉ SUPERADMIN được sửa khung giờ ca mặc định');
+    }
+    if (template.companyId !== companyId) {
+      throw new ForbiddenException('Khung giờ ca không thuộc công ty của bạn');
+    }
+  }
+
+  private assertValidDefinition(slots: ShiftSlot[], breaks: ShiftBreak[]) {
+    const errors = validateShiftDefinition({ slots, breaks });
+    if (errors.length) throw new BadRequestException(errors.join('; '));
+  }
+}
@@ -0,0 +1,101 @@
+import {
+  DEFAULT_SHIFT_DEFINITIONS,
+  crossesMidnight,
+  getRecordHourCoefficient,
+  isWithinRecordTime,
+  parseTimeOfDay,
+  validateShiftDefinition,
+} from './shift-template.util';
+
+const time = (hhmm: string) => new Date(`1970-01-01T${hhmm}:00.000Z`);
+
+describe('Shift template utils', () => {
+  describe('parseTimeOfDay', () => {
+    it('should parse HH:mm to minutes', () => {
+      expect(parseTimeOfDay('07:30')).toBe(450);
+      expect(parseTimeOfDay('23:59')).toBe(1439);
+    });
+
+    it('should reject invalid values', () => {
+      expect(parseTimeOfDay('24:00')).toBeNull();
+      expect(parseTimeOfDay('7:30')).toBeNull();
+      expect(parseTimeOfDay('')).toBeNull();
+    });
+  });
+
+  describe('getRecordHourCoefficient', () => {
+    it('should return 1 for a one-hour slot', () => {
+      expect(getRecordHourCoefficient({ startTime: time('07:30'), endTime: time('08:30') })).toBe(1);
+    });
+
+    it('should return 1.5 for hour 9 of the 9.5h shift', () => {
+      expect(getRecordHourCoefficient({ startTime: time('16:30'), endTime: time('18:00') })).toBe(1.5);
+    });
+
+    it('should handle slots crossing midnight', () => {
+      expect(getRecordHourCoefficient({ startTime: time('23:30'), endTime: time('00:30') })).toBe(1);
+    });
+  });
+
+  describe('isWithinRecordTime', () => {
+    it('should compare against Vietnam local time', () => {
+      const record = { startTime: time('07:30'), endTime: time('08:30') };
+      expect(isWithinRecordTime(record, new Date('2026-03-10T00:45:00.000Z'))).toBe(true); // 07:45 VN
+      expect(isWithinRecordTime(record, new Date('2026-03-10T01:30:00.000Z'))).toBe(false); // 08:30 VN
+    });
+
+    it('should support night slots', () => {
+      const record = { startTime: time('23:30'), endTime: time('00:30') };
+      expect(isWithinRecordTime(record, new Date('2026-03-10T17:10:00.000Z'))).toBe(true); // 00:10 VN
+    });
+  });
+
+  describe('validateShiftDefinition', () => {
+    it('should accept all seeded defaults', () => {
+      Object.values(DEFAULT_SHIFT_DEFINITIONS).forEach((def) => {
+        expect(validateShiftDefinition(def)).toEqual([]);
+      });
+    });
+
+    it('should accept a night shift crossing midnight', () => {
+      const errors = validateShiftDefinition({
+        slots: [
+          { hour: 1, startTime: '22:00', endTime: '23:00' },
+          { hour: 2, startTime: '23:00', endTime: '00:00' },
+          { hour: 3, startTime: '00:30', endTime: '01:30' },
+        ],
+        breaks: [{ name: 'Nghỉ giữa ca', startTime: '00:00', endTime: '00:30' }],
+      });
+      expect(errors).toEqual([]);
+    });
+
+    it('should reject gaps in hour numbering', () => {
+      const errors = validateShiftDefinition({
+        slots: [
+          { hour: 1, startTime: '07:00', endTime: '08:00' },
+          { hour: 3, startTime: '08:00', endTime: '09:00' },
+        ],
+        breaks: [],
+      });
+      expect(errors.length).toBeGreaterThan(0);
+    });
+
+    it('should reject breaks overlapping a slot', () => {
+      const errors = validateShiftDefinition({
+        slots: [{ hour: 1, startTime: '07:00', endTime: '08:00' }],
+        breaks: [{ name: 'Sai', startTime: '07:30', endTime: '08:15' }],
+      });
+      expect(errors).toEqual(['Giờ nghỉ Sai trùng với Giờ thứ 1']);
+    });
+  });
+
+  describe('crossesMidnight', () => {
+    it('should detect night shifts', () => {
+      expect(crossesMidnight(DEFAULT_SHIFT_DEFINITIONS.NORMAL_8H.slots)).toBe(false);
+      expect(crossesMidnight([
+        { hour: 1, startTime: '22:00', endTime: '23:00' },
+        { hour: 2, startTime: '23:00', endTime: '00:00' },
+      ])).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Shift template helpers — khung giờ ca làm việc
+ * Giờ lưu dạng "HH:mm" theo giờ địa phương của xưởng (giống WorkSheetRecord.startTime/endTime @db.Time)
+ */
+import { ShiftType } from '@prisma/client';
+
+const VN_OFFSET_MS = 7 * 60 * 60 * 1000;
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface ShiftSlot {
+  hour: number; // Giờ thứ mấy trong ca (1..N)
+  startTime: string; // "HH:mm"
+  endTime: string; // "HH:mm" — nhỏ hơn startTime nghĩa là qua nửa đêm
+}
+
+export interface ShiftBreak {
+  name?: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface ShiftDefinition {
+  slots: ShiftSlot[];
+  breaks: ShiftBreak[];
+}
+
+// ── Mặc định theo enum ShiftType (seed + fallback khi DB chưa có mẫu) ───
+
+const BASE_SLOTS: ShiftSlot[] = [
+  { hour: 1, startTime: '07:30', endTime: '08:30' },
+  { hour: 2, startTime: '08:30', endTime: '09:30' },
+  { hour: 3, startTime: '09:30', endTime: '10:30' },
+  { hour: 4, startTime: '10:30', endTime: '11:30' },
+  { hour: 5, startTime: '12:30', endTime: '13:30' },
+  { hour: 6, startTime: '13:30', endTime: '14:30' },
+  { hour: 7, startTime: '14:30', endTime: '15:30' },
+  { hour: 8, startTime: '15:30', endTime: '16:30' },
+];
+
+const LUNCH_BREAK: ShiftBreak = { name: 'Nghỉ trưa', startTime: '11:30', endTime: '12:30' };
+
+export const DEFAULT_SHIFT_DEFINITIONS: Record<ShiftType, ShiftDefinition & { name: string }> = {
+  NORMAL_8H: {
+    name: 'Ca 8 tiếng',
+    slots: BASE_SLOTS,
+    breaks: [LUNCH_BREAK],
+  },
+  EXTENDED_9_5H: {
+    name: 'Ca 9.5 tiếng',
+    // Giờ 9 dài 1.5 tiếng (16:30-18:00)
+    slots: [...BASE_SLOTS, { hour: 9, startTime: '16:30', endTime: '18:00' }],
+    breaks: [LUNCH_BREAK],
+  },
+  OVERTIME_11H: {
+    name: 'Ca 11 tiếng (tăng ca)',
+    slots: [
+      ...BASE_SLOTS,
+      { hour: 9, startTime: '17:00', endTime: '18:00' },
+      { hour: 10, startTime: '18:00', endTime: '19:00' },
+      { hour: 11, startTime: '19:00', endTime: '20:00' },
+    ],
+    breaks: [LUNCH_BREAK, { name: 'Nghỉ chiều', startTime: '16:30', endTime: '17:00' }],
+  },
+};
+
+// ── Time-of-day helpers ──────────────────────────────────────
+
+/** "HH:mm" → số phút từ 00:00, null nếu sai định dạng */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value ?? '');
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/** Thời lượng (phút) của khoảng start → end, tự cộng 24h khi qua nửa đêm */
+function spanMinutes(start: number, end: number): number {
+  return end > start ? end - start : end + MINUTES_PER_DAY - start;
+}
+
+/** Cột @db.Time trả về Date 1970-01-01 theo UTC → số phút trong ngày */
+function timeColumnToMinutes(value: Date | string): number {
+  const date = value instanceof Date ? value : new Date(value);
+  return date.getUTCHours() * 60 + date.getUTCMinutes();
+}
+
+/**
+ * Hệ số giờ = thời lượng slot / 60 phút (giờ 9 ca 9.5h = 1.5).
+ * SLKH của record là sản lượng/giờ nên nhân hệ số để ra kế hoạch thực của slot.
+ */
+export function getRecordHourCoefficient(record: { startTime: Date | string; endTime: Date | string }): number {
+  const minutes = spanMinutes(timeColumnToMinutes(record.startTime), timeColumnToMinutes(record.endTime));
+  return Math.round((minutes / 60) * 100) / 100;
+}
+
+/** now có nằm trong khung giờ của record không (so theo giờ Việt Nam) */
+export function isWithinRecordTime(
+  record: { startTime: Date | string; endTime: Date | string },
+  now: Date = new Date(),
+): boolean {
+  const vnNow = new Date(now.getTime() + VN_OFFSET_MS);
+  const current = vnNow.getUTCHours() * 60 + vnNow.getUTCMinutes();
+  const start = timeColumnToMinutes(record.startTime);
+  const end = timeColumnToMinutes(record.endTime);
+  return end > start
+    ? current >= start && current < end
+    : current >= start || current < end; // ca đêm qua 00:00
+}
+
+// ── Validation ───────────────────────────────────────────────
+
+/**
+ * Kiểm tra khung giờ: hour liên tiếp từ 1, slot nối tiếp nhau theo thời gian,
+ * tổng ca không quá 24h, giờ nghỉ không chồng lên slot nào.
+ * @returns danh sách lỗi (rỗng = hợp lệ)
+ */
+export function validateShiftDefinition(def: ShiftDefinition): string[] {
+  const errors: string[] = [];
+  const slots = [...(def.slots ?? [])].sort((a, b) => a.hour - b.hour);
+  if (!slots.length) return ['Ca làm việc phải có ít nhất 1 giờ'];
+
+  // Trải thời gian ca trên trục phút tuyệt đối (tính từ 00:00 ngày bắt đầu ca)
+  const intervals: Array<{ label: string; start: number; end: number }> = [];
+  let cursor = -1;
+  slots.forEach((slot, index) => {
+    if (slot.hour !== index + 1) {
+      errors.push(`Giờ thứ ${index + 1} bị thiếu hoặc trùng`);
+    }
+    const start = parseTimeOfDay(slot.startTime);
+    const end = parseTimeOfDay(slot.endTime);
+    if (start === null || end === null) {
+      errors.push(`Giờ thứ ${slot.hour}: thời gian phải có định dạng HH:mm`);
+      return;
+    }
+    let absStart = start;
+    while (absStart < cursor) absStart += MINUTES_PER_DAY;
+    const absEnd = absStart + spanMinutes(start, end);
+    intervals.push({ label: `Giờ thứ ${slot.hour}`, start: absStart, end: absEnd });
+    cursor = absEnd;
+  });
+  if (errors.length) return errors;
+
+  const shiftStart = intervals[0].start;
+  const shiftEnd = intervals[intervals.length - 1].end;
+  if (shiftEnd - shiftStart > MINUTES_PER_DAY) {
+    errors.push('Tổng thời gian ca không được vượt quá 24 giờ');
+  }
+
+  for (const brk of def.breaks ?? []) {
+    const label = `Giờ nghỉ ${brk.name ?? `${brk.startTime}-${brk.endTime}`}`;
+    const start = parseTimeOfDay(brk.startTime);
+    const end = parseTimeOfDay(brk.endTime);
+    if (start === null || end === null) {
+      errors.push(`${label}: thời gian phải có định dạng HH:mm`);
+      continue;
+    }
+    let absStart = start;
+    while (absStart < shiftStart) absStart += MINUTES_PER_DAY;
+    const absEnd = absStart + spanMinutes(start, end);
+    const overlap = intervals.find((i) => absStart < i.end && i.start < absEnd);
+    if (overlap) errors.push(`${label} trùng với ${overlap.label}`);
+  }
+
+  return errors;
+}
+
+/** Ca có slot nào bắt đầu sau nửa đêm so với slot đầu tiên */
+export function crossesMidnight(slots: ShiftSlot[]): boolean {
+  let prev = -1;
+  for (const slot of [...slots].sort((a, b) => a.hour - b.hour)) {
+    const start = parseTimeOfDay(slot.startTime) ?? 0;
+    const end = parseTimeOfDay(slot.endTime) ?? 0;
+    if (start < prev || end <= start) return true;
+    prev = end;
+  }
+  return false;
+}
@@ -24,11 +24,14 @@ import { BatchUpdateByHourDto } from './dto/batch-update-by-hour.dto';
 import { QuickUpdateRecordDto } from './dto/quick-update-record.dto';
 import { AdjustRecordTargetDto } from './dto/adjust-record-target.dto';
 import { BulkUpdateGroupWorksheetsDto } from './dto/bulk-update-group-worksheets.dto';
+import { UpsertRecordCausesDto } from './dto/upsert-record-causes.dto';
+import { CreateAttendanceEventDto } from './dto/create-attendance-event.dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { RequirePermissions } from '../../common/decorators/permissions.decorator';
 import { Roles } from '../../common/decorators/roles.decorator';
 import { GetUser } from '../../common/decorators/get-user.decorator';
+import { Audit } from '../../common/decorators/audit.decorator';
 import { WorksheetService } from './worksheet.service';
 
 function getPrimaryRole(user: any): string {
@@ -43,6 +46,7 @@ function getPrimaryRole(user: any): string {
 @UseGuards(JwtAuthGuard, RolesGuard)
 @RequirePermissions('worksheets:view')
 @Controller('worksheets')
+@Audit('WorkSheet')
 export class WorksheetController {
   constructor(private readonly worksheetService: WorksheetService) {}
 
@@ -214,6 +218,59 @@ export class WorksheetController {
     return this.worksheetService.updateRecord(worksheetId, recordId, updateRecordDto, user);
   }
 
+  @Put(':id/records/:recordId/causes')
+  @Roles('SUPERADMIN', 'ADMIN', 'USER')
+  @RequirePermissions('worksheets:update')
+  @ApiOperation({
+    summary: 'Set shortfall causes for one hour',
+    description: 'Replaces the causes (VT, CN, CL, MM, khác) of the record. Deltas must be negative and add up to actual − planned.'
+  })
+  @ApiResponse({ status: 200, description: 'Causes updated successfully' })
+  updateRecordCauses(
+    @Param('id') worksheetId: string,
+    @Param('recordId') recordId: string,
+    @Body() dto: UpsertRecordCausesDto,
+    @GetUser() user: any
+  ) {
+    return this.worksheetService.updateRecordCauses(worksheetId, recordId, dto, user);
+  }
+
+  @Get(':id/attendance')
+  @ApiOperation({ summary: 'List attendance events of a worksheet' })
+  @ApiResponse({ status: 200, description: 'Attendance events retrieved successfully' })
+  getAttendanceEvents(@Param('id') worksheetId: string, @GetUser() user: any) {
+    return this.worksheetService.getAttendanceEvents(worksheetId, user);
+  }
+
+  @Post(':id/attendance')
+  @Roles('SUPERADMIN', 'ADMIN', 'USER')
+  @RequirePermissions('worksheets:update')
+  @ApiOperation({
+    summary: 'Record an attendance event for an hour range',
+    description: 'Late, early leave, absent, break or reassignment. Planned output of the affected hours is reduced by the minutes missed.'
+  })
+  @ApiResponse({ status: 201, description: 'Attendance event recorded successfully' })
+  createAttendanceEvent(
+    @Param('id') worksheetId: string,
+    @Body() dto: CreateAttendanceEventDto,
+    @GetUser() user: any
+  ) {
+    return this.worksheetService.createAttendanceEvent(worksheetId, dto, user);
+  }
+
+  @Delete(':id/attendance/:eventId')
+  @Roles('SUPERADMIN', 'ADMIN', 'USER')
+  @RequirePermissions('worksheets:update')
+  @ApiOperation({ summary: 'Delete an attendance event and restore planned output' })
+  @ApiResponse({ status: 200, description: 'Attendance event deleted successfully' })
+  deleteAttendanceEvent(
+    @Param('id') worksheetId: string,
+    @Param('eventId') eventId: string,
+    @GetUser() user: any
+  ) {
+    return this.worksheetService.deleteAttendanceEvent(worksheetId, eventId, user);
+  }
+
   @Patch(':id/records/:recordId/quick-update')
   @Roles('SUPERADMIN', 'ADMIN', 'USER')
   @RequirePermissions('worksheets:update')
@@ -341,6 +398,95 @@ export class WorksheetController {
     );
   }
 
+  @Get('reports/daily-summary')
+  @ApiOperation({
+    summary: 'Get persisted daily production summary',
+    description: 'Planned/actual/efficiency, worker counts, cause deltas and attendance per Group → Team → Line → Factory. Past dates read from the summary table (recomputed when stale); today is computed live.'
+  })
+  @ApiQuery({ name: 'date', required: true, type: String, description: 'Date (YYYY-MM-DD)' })
+  @ApiQuery({ name: 'scopeType', required: false, enum: ['GROUP', 'TEAM', 'DEPARTMENT', 'OFFICE'] })
+  @ApiQuery({ name: 'officeId', required: false, type: String })
+  @ApiQuery({ name: 'departmentId', required: false, type: String })
+  @ApiQuery({ name: 'teamId', required: false, type: String })
+  @ApiQuery({ name: 'groupId', required: false, type: String })
+  @ApiResponse({ status: 200, description: 'Daily summary retrieved successfully' })
+  getDailyProductionSummary(
+    @Query('date') date: string,
+    @Query('scopeType') scopeType?: string,
+    @Query('officeId') officeId?: string,
+    @Query('departmentId') departmentId?: string,
+    @Query('teamId') teamId?: string,
+    @Query('groupId') groupId?: string,
+    @GetUser() user?: any
+  ) {
+    return this.worksheetService.getDailyProductionSummary({
+      date,
+      scopeType,
+      officeId,
+      departmentId,
+      teamId,
+      groupId,
+      userId: user?.id,
+      userRole: getPrimaryRole(user)
+    });
+  }
+
+  @Post('reports/daily-summary/recompute')
+  @RequirePermissions('worksheets:manage')
+  @ApiOperation({ summary: 'Recompute daily production summary for a past date (Admin only)' })
+  @ApiQuery({ name: 'date', required: true, type: String, description: 'Date (YYYY-MM-DD)' })
+  @ApiQuery({ name: 'officeId', required: false, type: String })
+  @ApiResponse({ status: 201, description: 'Summary recomputed' })
+  recomputeDailyProductionSummary(
+    @Query('date') date: string,
+    @Query('officeId') officeId?: string,
+    @GetUser() user?: any
+  ) {
+    return this.worksheetService.recomputeDailyProductionSummary(date, officeId, user);
+  }
+
+  @Get('reports/causes')
+  @ApiOperation({
+    summary: 'Pareto analysis of hourly shortfall causes',
+    description: 'Lost output by cause (VT, CN, CL, MM, khác) with share and cumulative share, broken down by line, product, process and period.'
+  })
+  @ApiQuery({ name: 'from', required: true, type: String, description: 'Start date (YYYY-MM-DD)' })
+  @ApiQuery({ name: 'to', required: true, type: String, description: 'End date (YYYY-MM-DD)' })
+  @ApiQuery({ name: 'period', required: false, enum: ['day', 'week', 'month'] })
+  @ApiQuery({ name: 'officeId', required: false, type: String })
+  @ApiQuery({ name: 'departmentId', required: false, type: String, description: 'Line' })
+  @ApiQuery({ name: 'teamId', required: false, type: String })
+  @ApiQuery({ name: 'groupId', required: false, type: String })
+  @ApiQuery({ name: 'productId', required: false, type: String })
+  @ApiQuery({ name: 'processId', required: false, type: String })
+  @ApiResponse({ status: 200, description: 'Cause analytics retrieved successfully' })
+  getCauseAnalytics(
+    @Query('from') from: string,
+    @Query('to') to: string,
+    @Query('period') period?: string,
+    @Query('officeId') officeId?: string,
+    @Query('departmentId') departmentId?: string,
+    @Query('teamId') teamId?: string,
+    @Query('groupId') groupId?: string,
+    @Query('productId') productId?: string,
+    @Query('processId') processId?: string,
+    @GetUser() user?: any
+  ) {
+    return this.worksheetService.getCauseAnalytics({
+      from,
+      to,
+      period,
+      officeId,
+      departmentId,
+      teamId,
+      groupId,
+      productId,
+      processId,
+      userId: user?.id,
+      userRole: getPrimaryRole(user)
+    });
+  }
+
   @Get('reports/by-organization')
   @ApiOperation({ 
     summary: 'Get worksheets for report export by organization structure',
@@ -4,13 +4,42 @@ import {
   SubscribeMessage,
   OnGatewayConnection,
   OnGatewayDisconnect,
+  ConnectedSocket,
+  MessageBody,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
 import { Logger } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { PrismaService } from '../../common/prisma.service';
+import { PermissionsService } from '../../common/permissions.service';
+import { extractSocketToken } from '../websocket/socket-auth.util';
+import { SessionService } from '../../auth/session.service';
+
+// Room theo cấp tổ chức — sự kiện của một nhóm được phát tới group → team → department → office
+const ROOM_ALL = 'scope:all';
+const officeRoom = (id: string) => `office:${id}`;
+const departmentRoom = (id: string) => `department:${id}`;
+const teamRoom = (id: string) => `team:${id}`;
+const groupRoom = (id: string) => `group:${id}`;
+
+interface ScopeIds {
+  officeId?: string;
+  departmentId?: string;
+  teamId?: string;
+  groupId?: string;
+}
 
 /**
  * ⭐ Worksheet WebSocket Gateway - Real-time updates
- * 
+ *
+ * Kết nối phải có JWT (giống WebSocketGateway). Client được join vào room theo quyền:
+ * - SUPERADMIN            → scope:all
+ * - ADMIN                 → office của toàn bộ công ty
+ * - worksheets:manage     → office của mình (giám đốc xưởng)
+ * - worksheets:create     → department của mình (quản lý chuyền / tổ trưởng)
+ * - worksheets:view       → team + group của mình
+ * - Nhóm trưởng           → các group mình phụ trách
+ *
  * Events:
  * - worksheet:updated → Emitted when worksheet data changes
  * - report:refresh → Client requests report refresh
@@ -27,11 +56,54 @@ export class WorksheetGateway implements OnGatewayConnection, OnGatewayDisconnec
   server: Server;
 
   private logger = new Logger('WorksheetGateway');
-  private connectedClients = new Map<string, Socket>();
+  private connectedClients = new Map<string, { socket: Socket; userId: string }>();
+
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly prisma: PrismaService,
+    private readonly permissionsService: PermissionsService,
+    private readonly sessionService: SessionService,
+  ) {}
+
+  async handleConnection(client: Socket) {
+    try {
+      const token = extractSocketToken(client);
+      if (!token) {
+        this.logger.warn(`Client ${client.id} connected without token`);
+        client.emit('error', { message: 'Authentication required' });
+        client.disconnect();
+        return;
+      }
+
+      const payload = this.jwtService.verify(token);
+      const userId = payload?.sub;
+      if (!userId) {
+        client.emit('error', { message: 'Invalid token' });
+        client.disconnect();
+        return;
+      }
+      if (!(await this.sessionService.isSocketTokenActive(payload))) {
+        client.emit('unauthorized', { message: 'Session revoked' });
+        client.disconnect();
+        return;
+      }
 
-  handleConnection(client: Socket) {
-    this.logger.log(`Client connected: ${client.id}`);
-    this.connectedClients.set(client.id, client);
+      const rooms = await this.resolveUserRooms(userId);
+      if (!rooms.length) {
+        this.logger.warn(`Client ${client.id} (user ${userId}) has no worksheet scope`);
+        client.emit('error', { message: 'Không có quyền xem phiếu công' });
+        client.disconnect();
+        return;
+      }
+
+      await client.join(rooms);
+      this.connectedClients.set(client.id, { socket: client, userId });
+      this.logger.log(`Client connected: ${client.id} (user ${userId}, ${rooms.length} rooms)`);
+    } catch (error) {
+      this.logger.error(`❌ Worksheet socket authentication failed for client ${client.id}: ${error.message}`);
+      client.emit('unauthorized', { message: 'Authentication failed' });
+      client.disconnect();
+    }
   }
 
   handleDisconnect(client: Socket) {
@@ -39,6 +111,82 @@ export class WorksheetGateway implements OnGatewayConnection, OnGatewayDisconnec
     this.connectedClients.delete(client.id);
   }
 
+  /** Danh sách room client được join theo quyền và vị trí trong tổ chức */
+  private async resolveUserRooms(userId: string): Promise<string[]> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        companyId: true,
+        officeId: true,
+        isActive: true,
+        group: { select: { id: true, teamId: true } },
+        jobPosition: { select: { departmentId: true } },
+        ledGroups: { where: { isActive: true }, select: { id: true } },
+      },
+    });
+    if (!user?.isActive) return [];
+
+    const perms = await this.permissionsService.getUserPermissions(userId);
+    const roleCodes = perms.roles.map((r) => r.code);
+    if (roleCodes.includes('SUPERADMIN')) return [ROOM_ALL];
+
+    const ws = perms.resources['worksheets'];
+    const rooms = new Set<string>(user.ledGroups.map((g) => groupRoom(g.id)));
+    if (!ws?.view) return [...rooms];
+
+    if (roleCodes.includes('ADMIN')) {
+      const offices = await this.prisma.office.findMany({
+        where: { companyId: user.companyId },
+        select: { id: true },
+      });
+      offices.forEach((o) => rooms.add(officeRoom(o.id)));
+    } else if (ws.manage) {
+      rooms.add(officeRoom(user.officeId));
+    } else if (ws.create && user.jobPosition?.departmentId) {
+      rooms.add(departmentRoom(user.jobPosition.departmentId));
+    }
+
+    if (user.group) {
+      rooms.add(teamRoom(user.group.teamId));
+      rooms.add(groupRoom(user.group.id));
+    }
+    return [...rooms];
+  }
+
+  /** Bổ sung các cấp cha còn thiếu (group → team → department → office) rồi trả về room đích */
+  private async resolveScopeRooms(scope: ScopeIds): Promise<string[]> {
+    const ids = { ...scope };
+
+    if (ids.groupId && !ids.teamId) {
+      const group = await this.prisma.group.findUnique({ where: { id: ids.groupId }, select: { teamId: true } });
+      ids.teamId = group?.teamId;
+    }
+    if (ids.teamId && !ids.departmentId) {
+      const team = await this.prisma.team.findUnique({ where: { id: ids.teamId }, select: { departmentId: true } });
+      ids.departmentId = team?.departmentId;
+    }
+    if (ids.departmentId && !ids.officeId) {
+      const dept = await this.prisma.department.findUnique({ where: { id: ids.departmentId }, select: { officeId: true } });
+      ids.officeId = dept?.officeId;
+    }
+
+    const rooms = [ROOM_ALL];
+    if (ids.officeId) rooms.push(officeRoom(ids.officeId));
+    if (ids.departmentId) rooms.push(departmentRoom(ids.departmentId));
+    if (ids.teamId) rooms.push(teamRoom(ids.teamId));
+    if (ids.groupId) rooms.push(groupRoom(ids.groupId));
+    return rooms;
+  }
+
+  private emitToScope(scope: ScopeIds, event: string, payload: any) {
+    this.resolveScopeRooms(scope)
+      .then((rooms) => {
+        // server.to([...]) gộp room → mỗi socket chỉ nhận 1 lần
+        this.server.to(rooms).emit(event, payload);
+      })
+      .catch((err) => this.logger.warn(`Failed to emit ${event}: ${err.message}`));
+  }
+
   /**
    * ⭐ Emit worksheet update event
    * Called after batchUpdateByHour, completeWorksheet, etc.
@@ -49,7 +197,7 @@ export class WorksheetGateway implements OnGatewayConnection, OnGatewayDisconnec
     workHour?: number;
     affectedWorkers: number;
   }) {
-    this.server.emit('worksheet:updated', {
+    this.emitToScope({ groupId: data.groupId }, 'worksheet:updated', {
       timestamp: new Date().toISOString(),
       ...data,
     });
@@ -72,8 +220,9 @@ export class WorksheetGateway implements OnGatewayConnection, OnGatewayDisconnec
     };
   }) {
     this.logger.log(`Emitting report refresh: ${data.date}`);
-    
-    this.server.emit('report:refresh', {
+
+    const { officeId, departmentId, teamId, groupId } = data;
+    this.emitToScope({ officeId, departmentId, teamId, groupId }, 'report:refresh', {
       timestamp: new Date().toISOString(),
       ...data,
     });
@@ -81,13 +230,24 @@ export class WorksheetGateway implements OnGatewayConnection, OnGatewayDisconnec
 
   /**
    * ⭐ Subscribe to report room for targeted updates
+   * Chỉ cho phép khi client đã thuộc một room bao trùm nhóm đó
    */
   @SubscribeMessage('report:subscribe')
-  handleReportSubscribe(client: Socket, payload: { date: string; groupId?: string }) {
+  async handleReportSubscribe(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: { date: string; groupId?: string },
+  ) {
+    const allowed = payload.groupId
+      ? (await this.resolveScopeRooms({ groupId: payload.groupId })).some((r) => client.rooms.has(r))
+      : client.rooms.has(ROOM_ALL);
+    if (!allowed) {
+      return { event: 'report:forbidden', data: { groupId: payload.groupId ?? null } };
+    }
+
     const room = `report:${payload.date}:${payload.groupId || 'all'}`;
     client.join(room);
     this.logger.log(`Client ${client.id} subscribed to ${room}`);
-    
+
     return { event: 'report:subscribed', data: { room } };
   }
 
@@ -95,9 +255,9 @@ export class WorksheetGateway implements OnGatewayConnection, OnGatewayDisconnec
    * ⭐ Emit to specific report room
    */
   emitToReportRoom(
-    date: string, 
-    groupId: string | undefined, 
-    event: string, 
+    date: string,
+    groupId: string | undefined,
+    event: string,
     data: any
   ) {
     const room = `report:${date}:${groupId || 'all'}`;
@@ -1,11 +1,40 @@
 import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { WorksheetController } from './worksheet.controller';
 import { WorksheetService } from './worksheet.service';
 import { WorksheetGateway } from './worksheet.gateway';
+import { ProductionSummaryService } from './production-summary.service';
+import { ShiftTemplateService } from './shift-template.service';
+import { ShiftTemplateController } from './shift-template.controller';
+import { RecordCauseService } from './record-cause.service';
+import { AttendanceService } from './attendance.service';
+import { MonthlyBackupService } from './monthly-backup.service';
+import { MonthlyBackupController } from './monthly-backup.controller';
+import { AuthModule } from '../../auth/auth.module';
 
 @Module({
-  controllers: [WorksheetController],
-  providers: [WorksheetService, WorksheetGateway],
-  exports: [WorksheetService, WorksheetGateway],
+  imports: [
+    // JWT để xác thực kết nối socket namespace /worksheets
+    JwtModule.registerAsync({
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) => ({
+        secret: config.get<string>('JWT_SECRET'),
+      }),
+    }),
+    AuthModule, // SessionService — kiểm tra phiên khi socket kết nối
+  ],
+  controllers: [WorksheetController, ShiftTemplateController, MonthlyBackupController],
+  providers: [
+    WorksheetService,
+    WorksheetGateway,
+    ProductionSummaryService,
+    ShiftTemplateService,
+    RecordCauseService,
+    AttendanceService,
+    MonthlyBackupService,
+  ],
+  exports: [WorksheetService, WorksheetGateway, ProductionSummaryService, ShiftTemplateService, MonthlyBackupService],
 })
 export class WorksheetModule {}
@@ -4,8 +4,18 @@ import { CreateWorksheetDto } from './dto/create-worksheet.dto';
 import { UpdateWorksheetDto } from './dto/update-worksheet.dto';
 import { UpdateWorksheetRecordDto } from './dto/update-worksheet-record.dto';
 import { BatchUpdateByHourDto, HourWorkerOutputDto } from './dto/batch-update-by-hour.dto';
-import { ShiftType, WorkSheetStatus, WorkRecordStatus } from '@prisma/client';
+import { WorkSheetStatus, WorkRecordStatus } from '@prisma/client';
 import { WorksheetGateway } from './worksheet.gateway';
+import { ProductionSummaryService, toVnDateString } from './production-summary.service';
+import { ShiftTemplateService, ResolvedShiftTemplate } from './shift-template.service';
+import { getRecordHourCoefficient, isWithinRecordTime } from './shift-template.util';
+import { RecordCauseService, CausePeriod } from './record-cause.service';
+import { paretoRank } from './record-cause.util';
+import { UpsertRecordCausesDto } from './dto/upsert-record-causes.dto';
+import { CreateAttendanceEventDto } from './dto/create-attendance-event.dto';
+import { AttendanceService, ATTENDANCE_EVENT_SELECT } from './attendance.service';
+import { ATTENDANCE_LABELS, attendancePlannedData, recordPlannedOutput, summarizeAttendance } from './attendance.util';
+import { MonthlyBackupService } from './monthly-backup.service';
 
 function getPrimaryRole(user: any): string {
   const roles: any[] = user?.roles ?? [];
@@ -19,6 +29,11 @@ export class WorksheetService {
   constructor(
     private prisma: PrismaService,
     private worksheetGateway: WorksheetGateway,
+    private productionSummary: ProductionSummaryService,
+    private shiftTemplates: ShiftTemplateService,
+    private recordCauses: RecordCauseService,
+    private attendance: AttendanceService,
+    private monthlyBackup: MonthlyBackupService,
   ) {}
 
   /**
@@ -80,7 +95,7 @@ export class WorksheetService {
    * Tạo phiếu công cho toàn bộ nhóm (bulk create)
    */
   async createWorksheet(createDto: CreateWorksheetDto, createdById: string) {
-    const { groupId, workerIds, date, shiftType, productId, processId, plannedOutput } = createDto;
+    const { groupId, workerIds, date, shiftType, shiftTemplateId, productId, processId, plannedOutput } = createDto;
 
     // Validate input
     if (!groupId && !workerIds?.length) {
@@ -201,6 +216,9 @@ export class WorksheetService {
       throw new BadRequestException(`${existingCount} worker(s) already have worksheets for this date`);
     }
 
+    // Khung giờ ca theo xưởng (hoặc mẫu được chọn)
+    const shift = await this.shiftTemplates.resolve({ officeId, shiftType, shiftTemplateId });
+
     // Create worksheets for all workers in transaction
     const worksheets = await this.prisma.$transaction(async (tx) => {
       const created = [];
@@ -215,7 +233,8 @@ export class WorksheetService {
             officeId, // Office = Factory
             productId,
             processId,
-            shiftType,
+            shiftType: shift.shiftType,
+            shiftTemplateId: shift.id,
             plannedOutput,
             createdById,
             status: WorkSheetStatus.ACTIVE
@@ -223,9 +242,7 @@ export class WorksheetService {
         });
 
         // Create records for each work hour
-        const workHours = this.getWorkHoursForShift(shiftType);
-        
-        for (const { hour, startTime, endTime } of workHours) {
+        for (const { hour, startTime, endTime } of shift.slots) {
           await tx.workSheetRecord.create({
             data: {
               worksheetId: worksheet.id,
@@ -301,6 +318,7 @@ export class WorksheetService {
         date: dateObj
       },
       include: {
+        worker: { select: { employeeCode: true } },
         records: {
           where: { workHour },
           include: {
@@ -370,7 +388,7 @@ export class WorksheetService {
         const updated = await tx.workSheetRecord.update({
           where: { id: record.id },
           data: {
-            plannedOutput: totalPlanned, // ⭐ Save summed planned for this hour
+            ...attendancePlannedData(totalPlanned, record), // ⭐ Save summed planned for this hour (minus attendance)
             actualOutput: totalActual,
             status: WorkRecordStatus.COMPLETED,
             updatedById: user.id
@@ -385,11 +403,17 @@ export class WorksheetService {
           }
         });
 
+        // Nguyên nhân hụt sản lượng (VT, CN, CL, MM) — tổng delta phải khớp phần hụt
+        await this.recordCauses.applyCauses(
+          tx, updated, worksheet.plannedOutput, output.causes, `Công nhân ${worksheet.worker.employeeCode}`
+        );
+
         updates.push({
           workerId: output.workerId,
           recordId: record.id,
           totalActual,
-          itemsCount: output.entries.length
+          itemsCount: output.entries.length,
+          causesCount: output.causes?.length
         });
       }
 
@@ -411,6 +435,8 @@ export class WorksheetService {
       workHour,
       affectedWorkers: result.length,
     });
+    // Sửa phiếu của ngày đã qua → bản tổng hợp ngày đó cần tính lại
+    this.productionSummary.markStale(groupId, batchDto.date).catch(() => {});
 
     return {
       message: `Updated ${result.length} workers for hour ${workHour}`,
@@ -472,9 +498,14 @@ export class WorksheetService {
                 process: { select: { name: true, code: true } }
               },
               orderBy: { entryIndex: 'asc' }
-            }
+            },
+            causes: { select: { cause: true, delta: true, note: true } }
           },
           orderBy: { workHour: 'asc' }
+        },
+        attendanceEvents: {
+          select: ATTENDANCE_EVENT_SELECT,
+          orderBy: [{ hourStart: 'asc' }, { createdAt: 'asc' }]
         }
       },
       orderBy: {
@@ -482,13 +513,21 @@ export class WorksheetService {
       }
     });
 
+    // Khung giờ ca của từng phiếu → UI dựng cột giờ + giờ nghỉ
+    const shifts = await this.shiftTemplates.resolveForWorksheets(worksheets);
+    const shiftTemplates = [...new Map(
+      [...shifts.values()].map(shift => [shift.id ?? shift.code, shift])
+    ).values()];
+
     // Transform to grid format
     const grid = worksheets.map(ws => {
       const hours = ws.records.map(record => ({
         workHour: record.workHour,
         startTime: record.startTime,
         endTime: record.endTime,
-        plannedOutput: record.plannedOutput, // ⭐ Sum of items' plannedOutput
+        plannedOutput: record.plannedOutput, // ⭐ Sum of items' plannedOutput (minus attendance)
+        basePlannedOutput: record.basePlannedOutput,
+        attendanceMinutes: record.attendanceMinutes,
         actualOutput: record.actualOutput,
         status: record.status,
         items: record.items.map(item => ({
@@ -506,23 +545,17 @@ export class WorksheetService {
           plannedOutput: item.plannedOutput, // ⭐ ADD: SLKH for this entry
           actualOutput: item.actualOutput,
           note: item.note
-        }))
+        })),
+        causes: record.causes
       }));
 
       // ⭐ Calculate totalPlanned with fallback logic and hour duration coefficient
       // If record.plannedOutput is null (old data), use worksheet.plannedOutput
-      // ⭐ Hour 9 in EXTENDED_9_5H is 1.5 hours (16:30-18:00), multiply by 1.5
-      const totalPlanned = ws.records.reduce((sum, r) => {
-        const hourCoefficient = (ws.shiftType === ShiftType.EXTENDED_9_5H && r.workHour === 9) ? 1.5 : 1;
-        
-        if (r.plannedOutput && r.plannedOutput > 0) {
-          // New data: use summed plannedOutput from items
-          return sum + (r.plannedOutput * hourCoefficient);
-        } else {
-          // Old data: fallback to worksheet.plannedOutput
-          return sum + (ws.plannedOutput * hourCoefficient);
-        }
-      }, 0);
+      // — giờ vắng mặt trọn giờ có SLKH = 0, không fallback
+      // ⭐ Hour coefficient = slot duration (hour 9 in EXTENDED_9_5H is 16:30-18:00 → 1.5)
+      const totalPlanned = ws.records.reduce((sum, r) =>
+        sum + recordPlannedOutput(r, ws.plannedOutput) * getRecordHourCoefficient(r), 0
+      );
       
       const totalActual = ws.records.reduce((sum, r) => 
         sum + r.items.reduce((itemSum, item) => itemSum + (item.actualOutput || 0), 0), 0
@@ -536,11 +569,14 @@ export class WorksheetService {
         defaultProcess: ws.process,
         plannedOutputPerHour: ws.plannedOutput,
         shiftType: ws.shiftType,
+        shiftTemplateId: shifts.get(ws.id)?.id ?? null,
         hours,
+        attendanceEvents: ws.attendanceEvents,
         summary: {
           totalPlanned,
           totalActual,
-          efficiency
+          efficiency,
+          attendanceMinutes: ws.records.reduce((sum, r) => sum + r.attendanceMinutes, 0)
         }
       };
     });
@@ -552,47 +588,12 @@ export class WorksheetService {
       },
       date: dateObj.toISOString().split('T')[0],
       totalWorkers: grid.length,
+      shiftTemplates,
       workers: grid
     };
   }
 
   // Helper methods
-  private getWorkHoursForShift(shiftType: ShiftType) {
-    const baseHours = [
-      { hour: 1, startTime: '07:30', endTime: '08:30' },
-      { hour: 2, startTime: '08:30', endTime: '09:30' },
-      { hour: 3, startTime: '09:30', endTime: '10:30' },
-      { hour: 4, startTime: '10:30', endTime: '11:30' },
-      // ⭐ SKIP: 11:30-12:30 (Lunch break - not included in any shift)
-      { hour: 5, startTime: '12:30', endTime: '13:30' },
-      { hour: 6, startTime: '13:30', endTime: '14:30' },
-      { hour: 7, startTime: '14:30', endTime: '15:30' },
-      { hour: 8, startTime: '15:30', endTime: '16:30' }
-    ];
-
-    switch (shiftType) {
-      case ShiftType.EXTENDED_9_5H:
-        // Ca 9.5h: 8 giờ + 1.5 giờ (16:30-18:00)
-        return [
-          ...baseHours,
-          { hour: 9, startTime: '16:30', endTime: '18:00' }
-        ];
-      case ShiftType.OVERTIME_11H:
-        // Ca 11h: 8 giờ + nghỉ chiều (16:30-17:00) + 3 giờ tăng ca (17:00-20:00)
-        // ⭐ SKIP: 16:30-17:00 (Afternoon break - not included)
-        return [
-          ...baseHours,
-          { hour: 9, startTime: '17:00', endTime: '18:00' },
-          { hour: 10, startTime: '18:00', endTime: '19:00' },
-          { hour: 11, startTime: '19:00', endTime: '20:00' }
-        ];
-      case ShiftType.NORMAL_8H:
-      default:
-        // Ca 8h: Chỉ có 8 giờ cơ bản
-        return baseHours;
-    }
-  }
-
   private createDateTimeFromTimeString(date: Date, timeString: string): Date {
     const [hours, minutes] = timeString.split(':').map(Number);
     
@@ -737,6 +738,8 @@ export class WorksheetService {
         records: {
           select: {
             workHour: true,
+            startTime: true,
+            endTime: true,
             plannedOutput: true,
             status: true,
             items: {
@@ -764,20 +767,12 @@ export class WorksheetService {
     return worksheets.map(ws => {
       // ⭐ NEW LOGIC with SLKH per entry: SUM record.plannedOutput across all hours
       // Each record.plannedOutput = SUM of items' plannedOutput for that hour
-      // ⭐ IMPORTANT: Hour 9 in EXTENDED_9_5H shift is 1.5 hours long (16:30-18:00), so multiply by 1.5
+      // ⭐ IMPORTANT: slots longer than 1h (e.g. hour 9 in EXTENDED_9_5H, 16:30-18:00) are weighted by duration
       // Fallback to old calculation if record.plannedOutput is null (backward compatibility)
-      const totalPlanned = ws.records.reduce((sum, r) => {
-        // Calculate hour duration coefficient (1.5x for hour 9 in 9.5h shift)
-        const hourCoefficient = (ws.shiftType === ShiftType.EXTENDED_9_5H && r.workHour === 9) ? 1.5 : 1;
-        
-        if (r.plannedOutput && r.plannedOutput > 0) {
-          // New data: record already has summed plannedOutput from items
-          return sum + (r.plannedOutput * hourCoefficient);
-        } else {
-          // Old data: fallback to worksheet.plannedOutput per hour
-          return sum + (ws.plannedOutput * hourCoefficient);
-        }
-      }, 0);
+      // Hour duration coefficient from the record's slot (1.5x for a 90-minute slot)
+      const totalPlanned = ws.records.reduce((sum, r) =>
+        sum + recordPlannedOutput(r, ws.plannedOutput) * getRecordHourCoefficient(r), 0
+      );
       
       const totalActual = ws.records.reduce((sum, r) => 
         sum + r.items.reduce((itemSum, item) => itemSum + (item.actualOutput || 0), 0), 0
@@ -908,8 +903,8 @@ export class WorksheetService {
 
   /**
    * Update worksheet
-   * Supports updating: shiftType, plannedOutput, productId, processId, status
-   * When shiftType changes, recreates records with new shift duration
+   * Supports updating: shiftType, shiftTemplateId, plannedOutput, productId, processId, status
+   * When the shift changes, records are synced to the new template's hour slots
    */
   async update(id: string, updateDto: UpdateWorksheetDto, user: any) {
     const worksheet = await this.prisma.workSheet.findUnique({
@@ -921,7 +916,7 @@ export class WorksheetService {
             leader: { select: { id: true } }
           } 
         },
-        records: { select: { id: true, workHour: true, actualOutput: true, status: true } }
+        records: { select: { id: true, workHour: true, startTime: true, endTime: true, actualOutput: true, status: true } }
       }
     });
 
@@ -940,56 +935,29 @@ export class WorksheetService {
       throw new ForbiddenException('No permission to update this worksheet');
     }
 
-    return this.prisma.$transaction(async (tx) => {
-      // If shiftType changed, need to recreate records
-      if (updateDto.shiftType && updateDto.shiftType !== worksheet.shiftType) {
-        const oldShiftHours = this.getShiftHours(worksheet.shiftType);
-        const newShiftHours = this.getShiftHours(updateDto.shiftType);
-
-        // Delete records beyond new shift duration
-        if (newShiftHours < oldShiftHours) {
-          const recordsToDelete = worksheet.records.filter(r => r.workHour > newShiftHours);
-          await tx.workSheetRecord.deleteMany({
-            where: { id: { in: recordsToDelete.map(r => r.id) } }
-          });
-        }
-
-        // Create new records if shift extended
-        if (newShiftHours > oldShiftHours) {
-          const existingHours = worksheet.records.map(r => r.workHour);
-          const workHourSchedule = this.getWorkHoursForShift(updateDto.shiftType);
-          const newRecords = [];
-          
-          for (let hour = oldShiftHours + 1; hour <= newShiftHours; hour++) {
-            if (!existingHours.includes(hour)) {
-              const schedule = workHourSchedule.find(s => s.hour === hour);
-              if (schedule) {
-                newRecords.push({
-                  worksheetId: id,
-                  workHour: hour,
-                  startTime: this.createDateTimeFromTimeString(worksheet.date, schedule.startTime),
-                  endTime: this.createDateTimeFromTimeString(worksheet.date, schedule.endTime),
-                  plannedOutput: updateDto.plannedOutput || worksheet.plannedOutput,
-                  actualOutput: 0,
-                  status: WorkRecordStatus.PENDING
-                });
-              }
-            }
-          }
+    const shiftChanged =
+      (updateDto.shiftType && updateDto.shiftType !== worksheet.shiftType) ||
+      (updateDto.shiftTemplateId && updateDto.shiftTemplateId !== worksheet.shiftTemplateId);
+    const shift = shiftChanged
+      ? await this.shiftTemplates.resolve({
+          officeId: worksheet.officeId,
+          shiftType: updateDto.shiftType ?? worksheet.shiftType,
+          shiftTemplateId: updateDto.shiftTemplateId,
+        })
+      : null;
 
-          if (newRecords.length > 0) {
-            await tx.workSheetRecord.createMany({
-              data: newRecords
-            });
-          }
-        }
+    const result = await this.prisma.$transaction(async (tx) => {
+      // Đổi ca → đồng bộ records theo khung giờ mới
+      if (shift) {
+        await this.syncRecordsToShift(tx, worksheet, shift, updateDto.plannedOutput || worksheet.plannedOutput);
       }
 
       // Update worksheet
       const updated = await tx.workSheet.update({
         where: { id },
         data: {
-          shiftType: updateDto.shiftType,
+          shiftType: shift?.shiftType,
+          shiftTemplateId: shift ? shift.id : undefined,
           plannedOutput: updateDto.plannedOutput,
           productId: updateDto.productId,
           processId: updateDto.processId,
@@ -1026,22 +994,71 @@ export class WorksheetService {
 
       return updated;
     });
+    this.productionSummary.markStale(worksheet.groupId, worksheet.date).catch(() => {});
+    return result;
   }
 
   /**
-   * Get shift duration in hours
+   * Đồng bộ records của phiếu theo khung giờ ca:
+   * - Xóa giờ không còn trong ca, cập nhật giờ bắt đầu/kết thúc đã đổi, tạo giờ còn thiếu
    */
-  private getShiftHours(shiftType: ShiftType): number {
-    switch (shiftType) {
-      case ShiftType.NORMAL_8H:
-        return 8;
-      case ShiftType.EXTENDED_9_5H:
-        return 9; // 9.5 rounded down
-      case ShiftType.OVERTIME_11H:
-        return 11;
-      default:
-        return 8;
+  private async syncRecordsToShift(
+    tx: any,
+    worksheet: {
+      id: string;
+      date: Date;
+      records: Array<{ id: string; workHour: number; startTime: Date; endTime: Date }>;
+    },
+    shift: ResolvedShiftTemplate,
+    plannedOutput: number
+  ) {
+    const slotByHour = new Map(shift.slots.map(slot => [slot.hour, slot]));
+
+    const recordsToDelete = worksheet.records.filter(r => !slotByHour.has(r.workHour));
+    if (recordsToDelete.length > 0) {
+      await tx.workSheetRecord.deleteMany({
+        where: { id: { in: recordsToDelete.map(r => r.id) } }
+      });
+    }
+
+    const existingByHour = new Map(worksheet.records.map(r => [r.workHour, r]));
+    const newRecords = [];
+
+    for (const slot of shift.slots) {
+      const startTime = this.createDateTimeFromTimeString(worksheet.date, slot.startTime);
+      const endTime = this.createDateTimeFromTimeString(worksheet.date, slot.endTime);
+      const existing = existingByHour.get(slot.hour);
+
+      if (!existing) {
+        newRecords.push({
+          worksheetId: worksheet.id,
+          workHour: slot.hour,
+          startTime,
+          endTime,
+          plannedOutput,
+          actualOutput: 0,
+          status: WorkRecordStatus.PENDING
+        });
+      } else if (
+        // Cột @db.Time chỉ giữ giờ:phút → so theo UTC time-of-day
+        existing.startTime.toISOString().slice(11, 16) !== slot.startTime ||
+        existing.endTime.toISOString().slice(11, 16) !== slot.endTime
+      ) {
+        await tx.workSheetRecord.update({
+          where: { id: existing.id },
+          data: { startTime, endTime }
+        });
+      }
+    }
+
+    if (newRecords.length > 0) {
+      await tx.workSheetRecord.createMany({
+        data: newRecords
+      });
     }
+
+    // Khung giờ đổi → phân bổ lại phút vắng theo slot mới
+    await this.attendance.recalculatePlanned(tx, worksheet.id, plannedOutput);
   }
 
   /**
@@ -1053,7 +1070,7 @@ export class WorksheetService {
     bulkUpdateDto: any, 
     user: any
   ) {
-    const { date, shiftType, plannedOutput, productId, processId } = bulkUpdateDto;
+    const { date, shiftType, shiftTemplateId, plannedOutput, productId, processId } = bulkUpdateDto;
 
     // Verify group exists and user has permission
     const group = await this.prisma.group.findUnique({
@@ -1084,7 +1101,7 @@ export class WorksheetService {
         date: new Date(date)
       },
       include: {
-        records: { select: { id: true, workHour: true, status: true } }
+        records: { select: { id: true, workHour: true, startTime: true, endTime: true, status: true } }
       }
     });
 
@@ -1092,60 +1109,31 @@ export class WorksheetService {
       throw new NotFoundException('No worksheets found for this group and date');
     }
 
+    // Cả nhóm cùng xưởng → resolve khung giờ một lần
+    const shift = (shiftType || shiftTemplateId)
+      ? await this.shiftTemplates.resolve({
+          officeId: worksheets[0].officeId,
+          shiftType: shiftType ?? worksheets[0].shiftType,
+          shiftTemplateId,
+        })
+      : null;
+
     // Perform bulk update in transaction
-    return this.prisma.$transaction(async (tx) => {
+    const result = await this.prisma.$transaction(async (tx) => {
       const updatedWorksheets = [];
 
       for (const worksheet of worksheets) {
-        // Handle shift type change
-        if (shiftType && shiftType !== worksheet.shiftType) {
-          const oldShiftHours = this.getShiftHours(worksheet.shiftType);
-          const newShiftHours = this.getShiftHours(shiftType);
-
-          // Delete records beyond new shift duration
-          if (newShiftHours < oldShiftHours) {
-            const recordsToDelete = worksheet.records.filter(r => r.workHour > newShiftHours);
-            await tx.workSheetRecord.deleteMany({
-              where: { id: { in: recordsToDelete.map(r => r.id) } }
-            });
-          }
-
-          // Create new records if shift extended
-          if (newShiftHours > oldShiftHours) {
-            const existingHours = worksheet.records.map(r => r.workHour);
-            const workHourSchedule = this.getWorkHoursForShift(shiftType);
-            const newRecords = [];
-            
-            for (let hour = oldShiftHours + 1; hour <= newShiftHours; hour++) {
-              if (!existingHours.includes(hour)) {
-                const schedule = workHourSchedule.find(s => s.hour === hour);
-                if (schedule) {
-                  newRecords.push({
-                    worksheetId: worksheet.id,
-                    workHour: hour,
-                    startTime: this.createDateTimeFromTimeString(worksheet.date, schedule.startTime),
-                    endTime: this.createDateTimeFromTimeString(worksheet.date, schedule.endTime),
-                    plannedOutput: plannedOutput || worksheet.plannedOutput,
-                    actualOutput: 0,
-                    status: WorkRecordStatus.PENDING
-                  });
-                }
-              }
-            }
-
-            if (newRecords.length > 0) {
-              await tx.workSheetRecord.createMany({
-                data: newRecords
-              });
-            }
-          }
+        // Handle shift change
+        if (shift && (shift.shiftType !== worksheet.shiftType || shift.id !== worksheet.shiftTemplateId)) {
+          await this.syncRecordsToShift(tx, worksheet, shift, plannedOutput || worksheet.plannedOutput);
         }
 
         // Update worksheet
         const updated = await tx.workSheet.update({
           where: { id: worksheet.id },
           data: {
-            shiftType,
+            shiftType: shift?.shiftType,
+            shiftTemplateId: shift ? shift.id : undefined,
             plannedOutput,
             productId,
             processId
@@ -1168,13 +1156,16 @@ export class WorksheetService {
         groupId,
         date,
         changes: {
-          shiftType: shiftType || null,
+          shiftType: shift?.shiftType || null,
+          shiftTemplateId: shift?.id || null,
           plannedOutput: plannedOutput || null,
           productId: productId || null,
           processId: processId || null
         }
       };
     });
+    this.productionSummary.markStale(groupId, date).catch(() => {});
+    return result;
   }
 
   /**
@@ -1215,7 +1206,7 @@ export class WorksheetService {
     }
 
     // Update record with transaction
-    return this.prisma.$transaction(async (tx) => {
+    const result = await this.prisma.$transaction(async (tx) => {
       // Delete existing items
       await tx.workSheetRecordItem.deleteMany({
         where: { recordId: record.id }
@@ -1237,11 +1228,13 @@ export class WorksheetService {
       }
 
       // Update record
-      return tx.workSheetRecord.update({
+      const updated = await tx.workSheetRecord.update({
         where: { id: record.id },
         data: {
           actualOutput: updateDto.actualOutput,
-          plannedOutput: updateDto.plannedOutput || record.plannedOutput,
+          ...(updateDto.plannedOutput
+            ? attendancePlannedData(updateDto.plannedOutput, record)
+            : { plannedOutput: record.plannedOutput }),
           status: updateDto.status || WorkRecordStatus.COMPLETED,
           updatedById: user.id
         },
@@ -1254,7 +1247,122 @@ export class WorksheetService {
           }
         }
       });
+
+      await this.recordCauses.applyCauses(tx, updated, worksheet.plannedOutput, updateDto.causes);
+      const causes = await tx.workSheetRecordCause.findMany({
+        where: { recordId: record.id },
+        select: { cause: true, delta: true, note: true }
+      });
+      return { ...updated, causes };
+    });
+    this.productionSummary.markStale(worksheet.groupId, worksheet.date).catch(() => {});
+    return result;
+  }
+
+  /**
+   * Ghi nguyên nhân hụt sản lượng cho 1 giờ (không đổi sản lượng)
+   */
+  async updateRecordCauses(
+    worksheetId: string,
+    recordId: string,
+    dto: UpsertRecordCausesDto,
+    user: any
+  ) {
+    const worksheet = await this.prisma.workSheet.findUnique({
+      where: { id: worksheetId },
+      include: {
+        group: { select: { leaderId: true } },
+        records: { where: { id: recordId } }
+      }
+    });
+
+    if (!worksheet) {
+      throw new NotFoundException('Worksheet not found');
+    }
+
+    const record = worksheet.records[0];
+    if (!record) {
+      throw new NotFoundException('Record not found');
+    }
+
+    const canUpdate = await this.canAccessGroup(user.id, getPrimaryRole(user), worksheet.groupId, worksheet.group.leaderId);
+    if (!canUpdate) {
+      throw new ForbiddenException('No permission to update this group');
+    }
+
+    const causes = await this.prisma.$transaction(async (tx) => {
+      await this.recordCauses.applyCauses(tx, record, worksheet.plannedOutput, dto.causes);
+      return tx.workSheetRecordCause.findMany({
+        where: { recordId },
+        select: { cause: true, delta: true, note: true }
+      });
+    });
+
+    this.productionSummary.markStale(worksheet.groupId, worksheet.date).catch(() => {});
+
+    return { recordId, workHour: record.workHour, causes };
+  }
+
+  // ── Vắng mặt theo giờ ────────────────────────────────────────
+
+  /**
+   * Ghi nhận đi muộn / về sớm / vắng / nghỉ / điều chuyển cho 1 khoảng giờ
+   * SLKH các giờ bị ảnh hưởng tự trừ theo số phút vắng
+   */
+  async createAttendanceEvent(worksheetId: string, dto: CreateAttendanceEventDto, user: any) {
+    const worksheet = await this.getWorksheetForAttendance(worksheetId, user);
+    const event = await this.attendance.createEvent(worksheet, dto, user.id);
+    this.notifyAttendanceChanged(worksheet);
+    return event;
+  }
+
+  async getAttendanceEvents(worksheetId: string, user: any) {
+    const worksheet = await this.getWorksheetForAttendance(worksheetId, user);
+    return this.attendance.listEvents(worksheet.id);
+  }
+
+  /**
+   * Xoá sự kiện vắng mặt → khôi phục SLKH của các giờ liên quan
+   */
+  async deleteAttendanceEvent(worksheetId: string, eventId: string, user: any) {
+    const worksheet = await this.getWorksheetForAttendance(worksheetId, user);
+    const result = await this.attendance.deleteEvent(worksheet, eventId);
+    this.notifyAttendanceChanged(worksheet);
+    return result;
+  }
+
+  private async getWorksheetForAttendance(worksheetId: string, user: any) {
+    const worksheet = await this.prisma.workSheet.findUnique({
+      where: { id: worksheetId },
+      select: {
+        id: true,
+        date: true,
+        workerId: true,
+        groupId: true,
+        plannedOutput: true,
+        group: { select: { leaderId: true } }
+      }
+    });
+
+    if (!worksheet) {
+      throw new NotFoundException('Worksheet not found');
+    }
+
+    const canAccess = await this.canAccessGroup(user.id, getPrimaryRole(user), worksheet.groupId, worksheet.group.leaderId);
+    if (!canAccess) {
+      throw new ForbiddenException('No permission to access this group');
+    }
+
+    return worksheet;
+  }
+
+  private notifyAttendanceChanged(worksheet: { groupId: string; date: Date }) {
+    this.worksheetGateway.emitWorksheetUpdate({
+      groupId: worksheet.groupId,
+      date: worksheet.date.toISOString().split('T')[0],
+      affectedWorkers: 1
     });
+    this.productionSummary.markStale(worksheet.groupId, worksheet.date).catch(() => {});
   }
 
   /**
@@ -1274,9 +1382,11 @@ export class WorksheetService {
       throw new ForbiddenException('Only admin can delete worksheets');
     }
 
-    return this.prisma.workSheet.delete({
+    const deleted = await this.prisma.workSheet.delete({
       where: { id }
     });
+    this.productionSummary.markStale(worksheet.groupId, worksheet.date).catch(() => {});
+    return deleted;
   }
 
   /**
@@ -1302,10 +1412,19 @@ export class WorksheetService {
       throw new ForbiddenException('No permission to complete this worksheet');
     }
 
-    return this.prisma.workSheet.update({
+    const completed = await this.prisma.workSheet.update({
       where: { id },
       data: { status: WorkSheetStatus.COMPLETED }
     });
+
+    // ⭐ EMIT SOCKET EVENT: chỉ tới người có quyền xem nhóm này
+    this.worksheetGateway.emitWorksheetUpdate({
+      groupId: completed.groupId,
+      date: completed.date.toISOString().split('T')[0],
+      affectedWorkers: 1,
+    });
+
+    return completed;
   }
 
   /**
@@ -1637,14 +1756,21 @@ export class WorksheetService {
       throw new ForbiddenException('Only group leader can update records');
     }
 
-    return this.prisma.workSheetRecord.update({
-      where: { id: recordId },
-      data: {
-        actualOutput,
-        status: WorkRecordStatus.COMPLETED,
-        updatedById: user.id
-      }
+    const result = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.workSheetRecord.update({
+        where: { id: recordId },
+        data: {
+          actualOutput,
+          status: WorkRecordStatus.COMPLETED,
+          updatedById: user.id
+        }
+      });
+      // Sản lượng đổi → nguyên nhân cũ không còn khớp phần hụt thì bỏ
+      await this.recordCauses.applyCauses(tx, updated, worksheet.plannedOutput, undefined);
+      return updated;
     });
+    this.productionSummary.markStale(worksheet.groupId, worksheet.date).catch(() => {});
+    return result;
   }
 
   /**
@@ -1898,10 +2024,18 @@ export class WorksheetService {
       throw new ForbiddenException('No permission to adjust targets for this group');
     }
 
-    return this.prisma.workSheetRecord.update({
-      where: { id: record.id },
-      data: { plannedOutput }
+    const result = await this.prisma.$transaction(async (tx) => {
+      // SLKH mới là kế hoạch đầy đủ của giờ — giờ có vắng mặt vẫn trừ phút vắng
+      const updated = await tx.workSheetRecord.update({
+        where: { id: record.id },
+        data: attendancePlannedData(plannedOutput, record)
+      });
+      // Kế hoạch đổi → nguyên nhân cũ không còn khớp phần hụt thì bỏ
+      await this.recordCauses.applyCauses(tx, updated, worksheet.plannedOutput, undefined);
+      return updated;
     });
+    this.productionSummary.markStale(worksheet.groupId, worksheet.date).catch(() => {});
+    return result;
   }
 
   /**
@@ -1993,6 +2127,11 @@ export class WorksheetService {
     userId?: string;
     userRole?: string;
   }) {
+    // Ngày đã qua → đọc từ bảng tổng hợp thay vì quét WorkSheetRecord
+    if (filters.date && toVnDateString(filters.date) < toVnDateString()) {
+      return this.getHistoricalAnalytics({ ...filters, date: filters.date });
+    }
+
     const dateObj = filters.date || new Date();
     const startOfDay = new Date(dateObj.getFullYear(), dateObj.getMonth(), dateObj.getDate());
     const endOfDay = new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000);
@@ -2025,7 +2164,8 @@ export class WorksheetService {
             totalPlanned: 0,
             totalActual: 0,
             overallEfficiency: 0,
-            completionRate: 0
+            completionRate: 0,
+            attendance: {}
           },
           currentHour: new Date().getHours(),
           hourlyProgress: []
@@ -2040,11 +2180,13 @@ export class WorksheetService {
           include: {
             items: true
           }
-        }
+        },
+        attendanceEvents: { select: { eventType: true, minutes: true } }
       }
     });
 
-    const currentHour = new Date().getHours();
+    const now = new Date();
+    const currentHour = now.getHours();
     let totalPlanned = 0;
     let totalActual = 0;
     let completedRecords = 0;
@@ -2058,7 +2200,8 @@ export class WorksheetService {
         const recordPlanned = record.plannedOutput || 0;
         const recordActual = record.actualOutput || 0;
 
-        totalPlanned += recordPlanned;
+        // Tổng SLKH nhân hệ số giờ giống bản tổng hợp ngày (slot 1.5h → x1.5)
+        totalPlanned += recordPlanned * getRecordHourCoefficient(record);
         totalActual += recordActual;
         totalRecords += 1;
 
@@ -2074,14 +2217,18 @@ export class WorksheetService {
             totalActual: 0,
             completedRecords: 0,
             totalRecords: 0,
-            isCurrentHour: this.isCurrentWorkHour(record.workHour, currentHour)
+            attendanceMinutes: 0,
+            isCurrentHour: false
           });
         }
 
         const hourData = hourlyMap.get(record.workHour)!;
+        // Các xưởng có thể chạy khung giờ khác nhau → giờ hiện tại nếu bất kỳ phiếu nào đang trong slot
+        hourData.isCurrentHour ||= this.isCurrentWorkHour(record, now);
         hourData.totalPlanned += recordPlanned;
         hourData.totalActual += recordActual;
         hourData.totalRecords += 1;
+        hourData.attendanceMinutes += record.attendanceMinutes;
 
         if (record.status === WorkRecordStatus.COMPLETED) {
           hourData.completedRecords += 1;
@@ -2099,7 +2246,9 @@ export class WorksheetService {
         totalActual,
         overallEfficiency,
         completionRate: totalRecords > 0 ? 
-          Math.round((completedRecords / totalRecords) * 100) : 0
+          Math.round((completedRecords / totalRecords) * 100) : 0,
+        // Vắng mặt theo loại: { LATE: { label, count, minutes }, ... }
+        attendance: summarizeAttendance(worksheets.flatMap(ws => ws.attendanceEvents))
       },
       currentHour,
       hourlyProgress: Array.from(hourlyMap.values())
@@ -2114,25 +2263,204 @@ export class WorksheetService {
     };
   }
 
-  private isCurrentWorkHour(workHour: number, currentHour: number): boolean {
-    const hourRanges = [
-      { hour: 1, start: 7, end: 8 },
-      { hour: 2, start: 8, end: 9 },
-      { hour: 3, start: 9, end: 10 },
-      { hour: 4, start: 10, end: 11 },
-      { hour: 5, start: 12, end: 13 },
-      { hour: 6, start: 13, end: 14 },
-      { hour: 7, start: 14, end: 15 },
-      { hour: 8, start: 15, end: 16 },
-      { hour: 9, start: 16, end: 17 },
-      { hour: 10, start: 17, end: 18 },
-      { hour: 11, start: 18, end: 19 }
-    ];
-
-    const range = hourRanges.find(r => r.hour === workHour);
-    if (!range) return false;
-
-    return currentHour >= range.start && currentHour < range.end;
+  /**
+   * Analytics cho ngày đã qua — cùng cấu trúc response với getRealtimeAnalytics
+   * nhưng lấy từ ProductionDailySummary (OFFICE cho admin, GROUP cho nhóm trưởng)
+   */
+  private async getHistoricalAnalytics(filters: {
+    officeId?: string;
+    date: Date;
+    userId?: string;
+    userRole?: string;
+  }) {
+    let groupIds: string[] | undefined;
+    if (filters.userRole !== 'SUPERADMIN' && filters.userRole !== 'ADMIN' && filters.userId) {
+      const ledGroups = await this.prisma.group.findMany({
+        where: { leaderId: filters.userId },
+        select: { id: true }
+      });
+      groupIds = ledGroups.map(g => g.id);
+    }
+
+    const { data } = await this.productionSummary.getDailySummaries({
+      date: toVnDateString(filters.date),
+      officeId: filters.officeId,
+      scopeType: groupIds ? 'GROUP' : 'OFFICE',
+      groupIds,
+    });
+
+    let totalWorksheets = 0;
+    let totalWorkers = 0;
+    let totalPlanned = 0;
+    let totalActual = 0;
+    let totalRecords = 0;
+    let completedRecords = 0;
+    const hourlyMap = new Map<number, any>();
+    const attendance: Record<string, { label: string; count: number; minutes: number }> = {};
+
+    data.forEach((row: any) => {
+      totalWorksheets += row.workersWithWorksheet;
+      totalWorkers += row.totalWorkers;
+      totalPlanned += row.totalPlanned;
+      totalActual += row.totalActual;
+      totalRecords += row.totalRecords;
+      completedRecords += row.completedRecords;
+
+      Object.entries((row.attendance ?? {}) as Record<string, { count: number; minutes: number }>).forEach(([type, a]) => {
+        const item = attendance[type] ?? { label: ATTENDANCE_LABELS[type] ?? type, count: 0, minutes: 0 };
+        item.count += a.count;
+        item.minutes += a.minutes;
+        attendance[type] = item;
+      });
+
+      (row.hourly as any[]).forEach(h => {
+        const hourData = hourlyMap.get(h.workHour) ?? {
+          workHour: h.workHour,
+          totalPlanned: 0,
+          totalActual: 0,
+          completedRecords: 0,
+          totalRecords: 0,
+          attendanceMinutes: 0,
+          isCurrentHour: false
+        };
+        hourData.totalPlanned += h.planned;
+        hourData.totalActual += h.actual;
+        hourData.completedRecords += h.completedRecords;
+        hourData.totalRecords += h.totalRecords;
+        hourData.attendanceMinutes += h.attendanceMinutes ?? 0;
+        hourlyMap.set(h.workHour, hourData);
+      });
+    });
+
+    return {
+      summary: {
+        totalWorksheets,
+        totalWorkers,
+        totalPlanned,
+        totalActual,
+        overallEfficiency: totalPlanned > 0 ? Math.round((totalActual / totalPlanned) * 100) : 0,
+        completionRate: totalRecords > 0 ? Math.round((completedRecords / totalRecords) * 100) : 0,
+        attendance
+      },
+      currentHour: new Date().getHours(),
+      hourlyProgress: Array.from(hourlyMap.values())
+        .sort((a, b) => a.workHour - b.workHour)
+        .map(hour => ({
+          ...hour,
+          efficiency: hour.totalPlanned > 0 ?
+            Math.round((hour.totalActual / hour.totalPlanned) * 100) : 0,
+          completionRate: hour.totalRecords > 0 ?
+            Math.round((hour.completedRecords / hour.totalRecords) * 100) : 0
+        }))
+    };
+  }
+
+  /**
+   * Tổng hợp sản lượng theo ngày (group / team / line / xưởng)
+   * Nhóm trưởng (không phải admin) chỉ xem được các nhóm mình phụ trách
+   */
+  async getDailyProductionSummary(filters: {
+    date: string;
+    scopeType?: string;
+    officeId?: string;
+    departmentId?: string;
+    teamId?: string;
+    groupId?: string;
+    userId?: string;
+    userRole?: string;
+  }) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(filters.date ?? '')) {
+      throw new BadRequestException('date phải có định dạng YYYY-MM-DD');
+    }
+    const scopeTypes = ['GROUP', 'TEAM', 'DEPARTMENT', 'OFFICE'];
+    if (filters.scopeType && !scopeTypes.includes(filters.scopeType)) {
+      throw new BadRequestException(`scopeType phải là một trong: ${scopeTypes.join(', ')}`);
+    }
+
+    let groupIds: string[] | undefined;
+    let scopeType = filters.scopeType as any;
+    if (filters.userRole !== 'SUPERADMIN' && filters.userRole !== 'ADMIN' && filters.userId) {
+      const ledGroups = await this.prisma.group.findMany({
+        where: { leaderId: filters.userId },
+        select: { id: true }
+      });
+      groupIds = ledGroups.map(g => g.id);
+      scopeType = 'GROUP';
+    }
+
+    return this.productionSummary.getDailySummaries({
+      date: filters.date,
+      scopeType,
+      officeId: filters.officeId,
+      departmentId: filters.departmentId,
+      teamId: filters.teamId,
+      groupId: filters.groupId,
+      groupIds,
+    });
+  }
+
+  /** Tính lại bản tổng hợp của một ngày (admin — dùng khi có chỉnh sửa hàng loạt) */
+  async recomputeDailyProductionSummary(date: string, officeId: string | undefined, user: any) {
+    if (getPrimaryRole(user) !== 'SUPERADMIN' && getPrimaryRole(user) !== 'ADMIN') {
+      throw new ForbiddenException('Only admin can recompute production summaries');
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date ?? '')) {
+      throw new BadRequestException('date phải có định dạng YYYY-MM-DD');
+    }
+    if (date >= toVnDateString()) {
+      throw new BadRequestException('Chỉ tính lại được bản tổng hợp của ngày đã qua');
+    }
+    // Dữ liệu theo giờ trước mốc lưu trữ đã được dọn → tính lại sẽ ra bản tổng hợp rỗng
+    const cutoff = this.monthlyBackup.rawDataCutoff();
+    if (cutoff && date < cutoff.toISOString().slice(0, 10)) {
+      throw new BadRequestException('Dữ liệu theo giờ của ngày này đã được dọn theo chính sách lưu trữ, không thể tính lại');
+    }
+    const count = await this.productionSummary.generateForDate(date, officeId);
+    return { date, officeId: officeId ?? null, summaries: count };
+  }
+
+  /** Phân tích Pareto nguyên nhân hụt sản lượng — nhóm trưởng chỉ xem nhóm mình */
+  async getCauseAnalytics(filters: {
+    from: string;
+    to: string;
+    period?: string;
+    officeId?: string;
+    departmentId?: string;
+    teamId?: string;
+    groupId?: string;
+    productId?: string;
+    processId?: string;
+    userId?: string;
+    userRole?: string;
+  }) {
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    if (!datePattern.test(filters.from ?? '') || !datePattern.test(filters.to ?? '')) {
+      throw new BadRequestException('from / to phải có định dạng YYYY-MM-DD');
+    }
+    if (filters.from > filters.to) {
+      throw new BadRequestException('from phải trước hoặc bằng to');
+    }
+    const periods = ['day', 'week', 'month'];
+    if (filters.period && !periods.includes(filters.period)) {
+      throw new BadRequestException(`period phải là một trong: ${periods.join(', ')}`);
+    }
+
+    let groupIds: string[] | undefined;
+    if (filters.userRole !== 'SUPERADMIN' && filters.userRole !== 'ADMIN' && filters.userId) {
+      const ledGroups = await this.prisma.group.findMany({
+        where: { leaderId: filters.userId },
+        select: { id: true }
+      });
+      groupIds = ledGroups.map(g => g.id);
+    }
+
+    const { userId: _userId, userRole: _userRole, period, ...query } = filters;
+    return this.recordCauses.getCauseAnalytics({ ...query, period: period as CausePeriod, groupIds });
+  }
+
+  /** Record (slot của khung giờ ca) có đang diễn ra không — hỗ trợ ca đêm qua 00:00 */
+  private isCurrentWorkHour(record: { startTime: Date; endTime: Date }, now: Date = new Date()): boolean {
+    return isWithinRecordTime(record, now);
   }
 
   /**
@@ -2252,7 +2580,8 @@ export class WorksheetService {
             totalWithoutWorksheet: 0,
             totalPlanned: 0,
             totalActual: 0,
-            averageEfficiency: 0
+            averageEfficiency: 0,
+            attendance: {}
           },
           lines: []
         };
@@ -2416,9 +2745,14 @@ export class WorksheetService {
                 process: { select: { id: true, name: true } }
               },
               orderBy: { entryIndex: 'asc' }
-            }
+            },
+            causes: { select: { cause: true, delta: true, note: true } }
           },
           orderBy: { workHour: 'asc' }
+        },
+        attendanceEvents: {
+          select: ATTENDANCE_EVENT_SELECT,
+          orderBy: [{ hourStart: 'asc' }, { createdAt: 'asc' }]
         }
       },
       orderBy: [
@@ -2555,7 +2889,9 @@ export class WorksheetService {
             actualOutput: hourActual,
             efficiency: record.plannedOutput > 0 ? Math.round((hourActual / record.plannedOutput) * 100) : 0,
             status: record.status,
-            products: hourProducts
+            attendanceMinutes: record.attendanceMinutes,
+            products: hourProducts,
+            causes: record.causes
           });
         });
       }
@@ -2571,8 +2907,8 @@ export class WorksheetService {
       if (worksheet) {
         totalPlanned = worksheet.records.reduce((sum, record) => {
           // Apply hour duration coefficient (1.5x for hour 9 in EXTENDED_9_5H)
-          const hourCoefficient = (worksheet.shiftType === 'EXTENDED_9_5H' && record.workHour === 9) ? 1.5 : 1;
-          const plannedForHour = (record.plannedOutput || worksheet.plannedOutput) * hourCoefficient;
+          const hourCoefficient = getRecordHourCoefficient(record);
+          const plannedForHour = recordPlannedOutput(record, worksheet.plannedOutput) * hourCoefficient;
           return sum + plannedForHour;
         }, 0);
       }
@@ -2602,6 +2938,10 @@ export class WorksheetService {
         totalActual,                   // ⭐ SLTH tổng (sum of items.actualOutput)
         efficiency,
         notes: notes.join('; '),
+
+        // Vắng mặt: đi muộn / về sớm / vắng / điều chuyển trong ngày
+        attendanceMinutes: worksheet?.records.reduce((sum, r) => sum + r.attendanceMinutes, 0) ?? 0,
+        attendanceEvents: worksheet?.attendanceEvents ?? [],
         
         // ⭐ Detailed breakdowns for Excel & Charts
         hourlyData,                    // Chi tiết theo giờ (for line chart)
@@ -2622,7 +2962,8 @@ export class WorksheetService {
             totalWithoutWorksheet: groupData.workers.filter((w: any) => !w.hasWorksheet).length,
             totalPlanned: groupData.workers.reduce((sum: number, w: any) => sum + w.totalPlanned, 0),
             totalActual: groupData.workers.reduce((sum: number, w: any) => sum + w.totalActual, 0),
-            averageEfficiency: 0
+            averageEfficiency: 0,
+            attendanceMinutes: groupData.workers.reduce((sum: number, w: any) => sum + w.attendanceMinutes, 0)
           };
 
           const totalPlanned = groupSummary.totalPlanned;
@@ -2720,8 +3061,8 @@ export class WorksheetService {
     worksheets.forEach(ws => {
       // ⭐ Sum record.plannedOutput with hour coefficient (1.5x for hour 9 in EXTENDED_9_5H)
       ws.records.forEach(r => {
-        const hourCoefficient = (ws.shiftType === 'EXTENDED_9_5H' && r.workHour === 9) ? 1.5 : 1;
-        const plannedForHour = (r.plannedOutput || ws.plannedOutput) * hourCoefficient;
+        const hourCoefficient = getRecordHourCoefficient(r);
+        const plannedForHour = recordPlannedOutput(r, ws.plannedOutput) * hourCoefficient;
         totalPlanned += plannedForHour;
         
         // ⭐ Sum actualOutput from items
@@ -2736,9 +3077,14 @@ export class WorksheetService {
     // ⭐ Overall chart data aggregations
     const overallHourlyMap = new Map<number, { hour: number, planned: number, actual: number }>();
     const overallProductMap = new Map<string, { product: any, process: any, planned: number, actual: number }>();
+    const overallCauseDeltas: Record<string, number> = {};
 
     worksheets.forEach(ws => {
       ws.records.forEach(r => {
+        r.causes.forEach(c => {
+          overallCauseDeltas[c.cause] = (overallCauseDeltas[c.cause] ?? 0) + c.delta;
+        });
+
         // Hourly aggregation
         if (!overallHourlyMap.has(r.workHour)) {
           overallHourlyMap.set(r.workHour, { hour: r.workHour, planned: 0, actual: 0 });
@@ -2793,8 +3139,9 @@ export class WorksheetService {
         totalWithoutWorksheet,
         totalPlanned,
         totalActual,
-        averageEfficiency
-
+        averageEfficiency,
+        // Vắng mặt theo loại: { LATE: { label, count, minutes }, ... }
+        attendance: summarizeAttendance(worksheets.flatMap(ws => ws.attendanceEvents))
       },
       departments,
       // ⭐ Overall chart data for dashboard
@@ -2811,7 +3158,8 @@ export class WorksheetService {
             sum + t.groups.reduce((gSum: number, g: any) => gSum + g.summary.totalActual, 0), 0
           ),
           efficiency: 0  // Will calculate below
-        }))
+        })),
+        causePareto: paretoRank(overallCauseDeltas) // Nguyên nhân hụt sản lượng trong ngày
       }
     };
   }
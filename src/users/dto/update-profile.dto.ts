@@ -55,6 +55,11 @@ export class UpdateProfileDto {
   @IsDateString()
   joinDate?: string;
 
+  @ApiProperty({ description: 'Termination date (leave accrual stops after this month)', required: false })
+  @IsOptional()
+  @IsDateString()
+  terminationDate?: string;
+
   @ApiProperty({ description: 'Address', required: false })
   @IsOptional()
   @IsString()
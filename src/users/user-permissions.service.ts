@@ -1,5 +1,8 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { RoleScopeType } from '@prisma/client';
 import { PrismaService } from '../common/prisma.service';
+import { PermissionsService } from '../common/permissions.service';
+import { GLOBAL_SCOPE_KEY, roleScopeKey } from '../common/utils/role-scope';
 
 export interface DirectPermissionInput {
   permissionId: string;
@@ -7,9 +10,20 @@ export interface DirectPermissionInput {
   note?: string;
 }
 
+export interface RoleAssignmentInput {
+  roleDefinitionId: string;
+  scopeType?: RoleScopeType; // mặc định GLOBAL
+  companyId?: string;
+  officeId?: string;
+  departmentId?: string;
+}
+
 @Injectable()
 export class UserPermissionsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private permissionsService: PermissionsService,
+  ) {}
 
   /** Get user's assigned roles with their permissions */
   async getUserRolesAndPermissions(userId: string) {
@@ -31,6 +45,9 @@ export class UserPermissionsService {
                 },
               },
             },
+            company: { select: { id: true, code: true, name: true } },
+            office: { select: { id: true, name: true } },
+            department: { select: { id: true, name: true } },
           },
         },
         directPermissions: {
@@ -48,25 +65,79 @@ export class UserPermissionsService {
     return user;
   }
 
-  /** Replace user's role assignments */
-  async setUserRoles(userId: string, roleDefinitionIds: string[], actorId?: string) {
+  /**
+   * Replace user's role assignments
+   * - assignments: replaces ALL assignments (global + scoped)
+   * - roleDefinitionIds only (legacy): replaces global assignments, scoped ones are kept
+   */
+  async setUserRoles(
+    userId: string,
+    input: { roleDefinitionIds?: string[]; assignments?: RoleAssignmentInput[] },
+    actorId?: string,
+  ) {
     await this.prisma.user.findUniqueOrThrow({ where: { id: userId } });
 
-    await this.prisma.userRole.deleteMany({ where: { userId } });
+    const replaceAll = Array.isArray(input.assignments);
+    const assignments: RoleAssignmentInput[] = replaceAll
+      ? input.assignments!
+      : (input.roleDefinitionIds ?? []).map((roleDefinitionId) => ({ roleDefinitionId }));
+    const data = await this.validateAssignments(userId, assignments);
 
-    if (roleDefinitionIds.length > 0) {
-      await this.prisma.userRole.createMany({
-        data: roleDefinitionIds.map((roleDefinitionId) => ({
-          userId,
-          roleDefinitionId,
-          isActive: true,
-        })),
-      });
-    }
+    await this.prisma.$transaction([
+      this.prisma.userRole.deleteMany({
+        where: { userId, ...(!replaceAll && { scopeKey: GLOBAL_SCOPE_KEY }) },
+      }),
+      this.prisma.userRole.createMany({ data, skipDuplicates: true }),
+    ]);
+    await this.permissionsService.invalidateUsers(userId);
 
     return this.getUserRolesAndPermissions(userId);
   }
 
+  private async validateAssignments(userId: string, assignments: RoleAssignmentInput[]) {
+    const roleIds = [...new Set(assignments.map((a) => a.roleDefinitionId))];
+    const roles = await this.prisma.roleDefinition.findMany({
+      where: { id: { in: roleIds } },
+      select: { id: true, code: true },
+    });
+    const roleById = new Map(roles.map((r) => [r.id, r]));
+
+    const data = [];
+    for (const a of assignments) {
+      const role = roleById.get(a.roleDefinitionId);
+      if (!role) throw new BadRequestException(`Không tìm thấy role ${a.roleDefinitionId}`);
+
+      const scopeType = a.scopeType ?? RoleScopeType.GLOBAL;
+      if (role.code === 'SUPERADMIN' && scopeType !== RoleScopeType.GLOBAL) {
+        throw new BadRequestException('SUPERADMIN chỉ được gán phạm vi toàn hệ thống');
+      }
+      const scope = {
+        scopeType,
+        companyId: scopeType === RoleScopeType.COMPANY ? a.companyId ?? null : null,
+        officeId: scopeType === RoleScopeType.OFFICE ? a.officeId ?? null : null,
+        departmentId: scopeType === RoleScopeType.DEPARTMENT ? a.departmentId ?? null : null,
+      };
+      await this.assertScopeExists(scope);
+
+      data.push({ userId, roleDefinitionId: role.id, isActive: true, ...scope, scopeKey: roleScopeKey(scope) });
+    }
+    return data;
+  }
+
+  private async assertScopeExists(scope: { scopeType: RoleScopeType; companyId: string | null; officeId: string | null; departmentId: string | null }) {
+    const exists =
+      scope.scopeType === RoleScopeType.COMPANY
+        ? !!scope.companyId && !!(await this.prisma.company.findUnique({ where: { id: scope.companyId }, select: { id: true } }))
+        : scope.scopeType === RoleScopeType.OFFICE
+          ? !!scope.officeId && !!(await this.prisma.office.findUnique({ where: { id: scope.officeId }, select: { id: true } }))
+          : scope.scopeType === RoleScopeType.DEPARTMENT
+            ? !!scope.departmentId && !!(await this.prisma.department.findUnique({ where: { id: scope.departmentId }, select: { id: true } }))
+            : true;
+    if (!exists) {
+      throw new BadRequestException(`Phạm vi ${scope.scopeType} không hợp lệ hoặc không tồn tại`);
+    }
+  }
+
   /** Set direct per-user permission overrides */
   async setDirectPermissions(
     userId: string,
@@ -89,6 +160,7 @@ export class UserPermissionsService {
         })),
       });
     }
+    await this.permissionsService.invalidateUsers(userId);
 
     return this.getUserRolesAndPermissions(userId);
   }
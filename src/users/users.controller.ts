@@ -33,8 +33,9 @@ import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
 import { RequirePermissions } from '../common/decorators/permissions.decorator';
 import { GetUser } from '../common/decorators/get-user.decorator';
+import { Audit } from '../common/decorators/audit.decorator';
 import { UsersService } from './users.service';
-import { UserPermissionsService } from './user-permissions.service';
+import { RoleAssignmentInput, UserPermissionsService } from './user-permissions.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateProfileDto } from './dto/update-profile.dto';
 
@@ -42,6 +43,7 @@ import { UpdateProfileDto } from './dto/update-profile.dto';
 @ApiBearerAuth('JWT-auth')
 @UseGuards(JwtAuthGuard, RolesGuard)
 @Controller('users')
+@Audit('User')
 export class UsersController {
   constructor(
     private readonly usersService: UsersService,
@@ -86,7 +88,7 @@ export class UsersController {
     @GetUser() user: any,
     @Body() dto: { currentPassword: string; newPassword: string },
   ) {
-    return this.usersService.changePassword(user.id, dto);
+    return this.usersService.changePassword(user.id, dto, user.sessionId);
   }
 
   @Post('avatar')
@@ -287,6 +289,22 @@ export class UsersController {
     return this.usersService.resetPassword(id);
   }
 
+  @Get(':id/sessions')
+  @Roles('SUPERADMIN', 'ADMIN')
+  @RequirePermissions('users:view')
+  @ApiOperation({ summary: 'List active sessions of a user (SUPERADMIN/ADMIN)' })
+  async getUserSessions(@Param('id', ParseUUIDPipe) id: string) {
+    return this.usersService.getUserSessions(id);
+  }
+
+  @Delete(':id/sessions')
+  @Roles('SUPERADMIN', 'ADMIN')
+  @RequirePermissions('users:update')
+  @ApiOperation({ summary: 'Revoke all sessions of a user (SUPERADMIN/ADMIN)' })
+  async revokeAllSessions(@Param('id', ParseUUIDPipe) id: string) {
+    return this.usersService.revokeAllSessions(id);
+  }
+
   // ========== BULK IMPORT FROM EXCEL ==========
 
   @Get('import-template')
@@ -367,13 +385,13 @@ export class UsersController {
 
   @Put(':id/roles')
   @RequirePermissions('users:manage')
-  @ApiOperation({ summary: 'Assign roles to user (replaces existing)' })
+  @ApiOperation({ summary: 'Assign roles to user (replaces existing); assignments may be scoped to a company / office / department' })
   async setUserRoles(
     @Param('id') id: string,
-    @Body() body: { roleDefinitionIds: string[] },
+    @Body() body: { roleDefinitionIds?: string[]; assignments?: RoleAssignmentInput[] },
     @Req() req: any,
   ) {
-    return this.userPermissionsService.setUserRoles(id, body.roleDefinitionIds, req.user?.id);
+    return this.userPermissionsService.setUserRoles(id, body, req.user?.id);
   }
 
   @Put(':id/direct-permissions')
@@ -4,9 +4,10 @@ import { UsersService } from './users.service';
 import { UserPermissionsService } from './user-permissions.service';
 import { CloudflareR2Service } from '../common/r2.service';
 import { CommonModule } from '../common/common.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
-  imports: [CommonModule],
+  imports: [CommonModule, AuthModule],
   controllers: [UsersController],
   providers: [UsersService, UserPermissionsService, CloudflareR2Service],
   exports: [UsersService],
@@ -9,7 +9,9 @@ import {
 import { PrismaService } from '../common/prisma.service';
 import { CloudflareR2Service } from '../common/r2.service';
 import { PermissionsService } from '../common/permissions.service';
-import { Sex } from '@prisma/client';
+import { SessionService } from '../auth/session.service';
+import { GLOBAL_SCOPE_KEY } from '../common/utils/role-scope';
+import { SessionRevokeReason, Sex } from '@prisma/client';
 import * as bcrypt from 'bcrypt';
 import * as XLSX from 'xlsx';
 import { CreateUserDto } from './dto/create-user.dto';
@@ -34,6 +36,7 @@ export class UsersService {
     private prisma: PrismaService,
     private r2Service: CloudflareR2Service,
     private permissionsService: PermissionsService,
+    private sessionService: SessionService,
   ) {}
 
   // ========== USER CRUD ==========
@@ -331,6 +334,7 @@ let departmentId: string | null = null;
       data: {
         ...profileFields,
         ...(profileFields.joinDate ? { joinDate: new Date(profileFields.joinDate) } : {}),
+        ...(profileFields.terminationDate ? { terminationDate: new Date(profileFields.terminationDate) } : {}),
         ...(profileFields.dateOfBirth ? { dateOfBirth: new Date(profileFields.dateOfBirth) } : {}),
       },
       include: {
@@ -351,17 +355,20 @@ let departmentId: string | null = null;
       });
       if (roleDef) {
         // Deactivate existing roles, then upsert new one
+        // Only global assignments — scoped ones are managed via PUT users/:id/roles
         await this.prisma.userRole.updateMany({
-          where: { userId: id, isActive: true },
+          where: { userId: id, isActive: true, scopeKey: GLOBAL_SCOPE_KEY },
           data: { isActive: false },
         });
         await this.prisma.userRole.upsert({
-          where: { userId_roleDefinitionId: { userId: id, roleDefinitionId: roleDef.id } },
+          where: { userId_roleDefinitionId_scopeKey: { userId: id, roleDefinitionId: roleDef.id, scopeKey: GLOBAL_SCOPE_KEY } },
           update: { isActive: true },
           create: { userId: id, roleDefinitionId: roleDef.id },
         });
       }
     }
+    // Role hoặc nơi làm việc (scope mặc định) có thể đã đổi
+    await this.permissionsService.invalidateUsers(id);
 
     const { password, ...userWithoutPassword } = updatedUser;
     return userWithoutPassword;
@@ -374,6 +381,7 @@ let departmentId: string | null = null;
     }
 
     await this.prisma.user.delete({ where: { id } });
+    await this.permissionsService.invalidateUsers(id);
 
     return { message: 'User deleted successfully' };
   }
@@ -398,6 +406,11 @@ let departmentId: string | null = null;
       },
     });
 
+    // Deactivated → log out every device
+    if (!updatedUser.isActive) {
+      await this.sessionService.revokeAllForUser(id, SessionRevokeReason.ACCOUNT_DEACTIVATED);
+    }
+
     const { password, ...userWithoutPassword } = updatedUser;
     return userWithoutPassword;
   }
@@ -415,6 +428,8 @@ let departmentId: string | null = null;
       data: { password: hashedPassword },
     });
 
+    await this.sessionService.revokeAllForUser(id, SessionRevokeReason.PASSWORD_RESET);
+
     return { message: 'Password reset to default: 123456' };
   }
 
@@ -424,6 +439,7 @@ let departmentId: string | null = null;
   async changePassword(
     userId: string,
     dto: { currentPassword: string; newPassword: string },
+    currentSessionId?: string | null,
   ) {
     const user = await this.prisma.user.findUnique({ where: { id: userId } });
     if (!user) {
@@ -447,9 +463,33 @@ let departmentId: string | null = null;
       data: { password: hashedPassword },
     });
 
+    // Log out every other device — the current one stays signed in
+    await this.sessionService.revokeAllForUser(userId, SessionRevokeReason.PASSWORD_CHANGED, currentSessionId);
+
     return { message: 'Password changed successfully' };
   }
 
+  // ========== SESSIONS ==========
+
+  async getUserSessions(id: string) {
+    await this.ensureUserExists(id);
+    return this.sessionService.listForUser(id);
+  }
+
+  /** Admin: đăng xuất user khỏi mọi thiết bị */
+  async revokeAllSessions(id: string) {
+    await this.ensureUserExists(id);
+    const { revoked } = await this.sessionService.revokeAllForUser(id, SessionRevokeReason.ADMIN_REVOKED);
+    return { message: `Đã đăng xuất ${revoked} phiên đăng nhập`, revoked };
+  }
+
+  private async ensureUserExists(id: string) {
+    const user = await this.prisma.user.findUnique({ where: { id }, select: { id: true } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+  }
+
   // ========== LOOKUPS ==========
 
   async getOffices() {
@@ -868,15 +908,17 @@ let departmentId: string | null = null;
             if (userRole && roleDefId) {
               await this.prisma.userRole.upsert({
                 where: {
-                  userId_roleDefinitionId: {
+                  userId_roleDefinitionId_scopeKey: {
                     userId: createdUser.id,
                     roleDefinitionId: roleDefId,
+                    scopeKey: GLOBAL_SCOPE_KEY,
                   },
                 },
                 create: { userId: createdUser.id, roleDefinitionId: roleDefId },
                 update: {},
               });
             }
+            await this.permissionsService.invalidateUsers(createdUser.id);
 
             results.success++;
           })